@@ -1,5 +1,5 @@
 import { Routes } from '@angular/router';
-import { onboardingCompleteGuard, onboardingIncompleteGuard } from './core/guards/auth.guard';
+import { adminGuard, onboardingCompleteGuard, onboardingIncompleteGuard } from './core/guards/auth.guard';
 
 export const routes: Routes = [
   {
@@ -196,6 +196,17 @@ export const routes: Routes = [
           },
         },
       },
+      {
+        path: 'admin/reports',
+        canActivate: [adminGuard],
+        loadComponent: () => import('./pages/admin-reports/admin-reports').then((m) => m.AdminReportsComponent),
+        data: {
+          seo: {
+            title: 'Reports',
+            noIndex: true,
+          },
+        },
+      },
     ],
   },
   // Redirect old dashboard route to discover
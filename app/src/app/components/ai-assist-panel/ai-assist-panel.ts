@@ -160,10 +160,15 @@ export class AiAssistPanelComponent {
   protected async fetchReplySuggestions(): Promise<void> {
     if (!this.context) return;
 
+    // Replies carry the quoted message so suggestions follow the thread
+    // (deleted or timed originals are never sent)
     const messages = this.context.recentMessages.slice(-10).map(m => ({
       content: m.content,
       isOwn: m.isOwn,
       createdAt: m.createdAt,
+      replyTo: m.replyTo && !m.replyTo.isDeleted && !m.replyTo.isTimedImage ?
+        { content: m.replyTo.content, isOwn: m.replyTo.isOwn } :
+        undefined,
     }));
 
     // If thread is empty, get starters instead
@@ -0,0 +1,89 @@
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { TranslateModule } from '@ngx-translate/core';
+import { CONVERSATION_LABELS_MAX, CONVERSATION_LABEL_MAX_LENGTH } from '../../core/interfaces';
+
+export interface ConversationLabelsDialogData {
+  displayName: string;
+  labels: string[]; // Labels on this conversation
+  availableLabels: string[]; // Every label the user has used
+}
+
+/**
+ * Pick the labels for a conversation, or create new ones
+ * Closes with the chosen labels, or undefined if cancelled.
+ */
+@Component({
+  selector: 'app-conversation-labels-dialog',
+  templateUrl: './conversation-labels-dialog.html',
+  styleUrl: './conversation-labels-dialog.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    TranslateModule,
+  ],
+})
+export class ConversationLabelsDialogComponent {
+  private readonly dialogRef = inject(MatDialogRef<ConversationLabelsDialogComponent, string[]>);
+  protected readonly data = inject<ConversationLabelsDialogData>(MAT_DIALOG_DATA);
+
+  protected readonly maxLabels = CONVERSATION_LABELS_MAX;
+  protected readonly maxLabelLength = CONVERSATION_LABEL_MAX_LENGTH;
+
+  protected readonly selected = signal<string[]>([...this.data.labels]);
+  protected readonly newLabel = signal('');
+
+  // Existing labels plus any created in this dialog
+  protected readonly options = computed(() => {
+    const options = [...this.data.availableLabels];
+    for (const label of this.selected()) {
+      if (!options.includes(label)) options.push(label);
+    }
+    return options;
+  });
+
+  protected readonly atLimit = computed(() => this.selected().length >= CONVERSATION_LABELS_MAX);
+
+  protected isSelected(label: string): boolean {
+    return this.selected().includes(label);
+  }
+
+  protected toggle(label: string): void {
+    if (this.isSelected(label)) {
+      this.selected.update(labels => labels.filter(l => l !== label));
+    } else if (!this.atLimit()) {
+      this.selected.update(labels => [...labels, label]);
+    }
+  }
+
+  protected addLabel(): void {
+    const label = this.newLabel().trim().replace(/\s+/g, ' ');
+    if (!label) return;
+
+    // Reuse an existing label that differs only in case
+    const existing = this.options().find(l => l.toLowerCase() === label.toLowerCase());
+    if (!existing || !this.isSelected(existing)) {
+      this.toggle(existing ?? label);
+    }
+    this.newLabel.set('');
+  }
+
+  protected onNewLabelKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.addLabel();
+    }
+  }
+
+  protected save(): void {
+    this.dialogRef.close(this.selected());
+  }
+
+  protected close(): void {
+    this.dialogRef.close();
+  }
+}
@@ -0,0 +1,2 @@
+export { ConversationLabelsDialogComponent } from './conversation-labels-dialog';
+export type { ConversationLabelsDialogData } from './conversation-labels-dialog';
@@ -0,0 +1,61 @@
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { TranslateModule } from '@ngx-translate/core';
+import { ConversationParticipant, GROUP_CONVERSATION_MAX_PARTICIPANTS } from '../../core/interfaces';
+
+export interface CreateGroupDialogData {
+  candidates: ConversationParticipant[]; // People the user has 1:1 conversations with
+  preselectedIds: string[];
+}
+
+/**
+ * Pick the people to start a group conversation with
+ * Closes with the chosen user IDs, or undefined if cancelled.
+ */
+@Component({
+  selector: 'app-create-group-dialog',
+  templateUrl: './create-group-dialog.html',
+  styleUrl: './create-group-dialog.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    TranslateModule,
+  ],
+})
+export class CreateGroupDialogComponent {
+  private readonly dialogRef = inject(MatDialogRef<CreateGroupDialogComponent, string[]>);
+  protected readonly data = inject<CreateGroupDialogData>(MAT_DIALOG_DATA);
+
+  // Not counting the user themselves
+  protected readonly maxMembers = GROUP_CONVERSATION_MAX_PARTICIPANTS - 1;
+
+  protected readonly selected = signal<string[]>([...this.data.preselectedIds]);
+
+  protected readonly atLimit = computed(() => this.selected().length >= this.maxMembers);
+  protected readonly canCreate = computed(() => this.selected().length >= 2);
+
+  protected isSelected(uid: string): boolean {
+    return this.selected().includes(uid);
+  }
+
+  protected toggle(uid: string): void {
+    if (this.isSelected(uid)) {
+      this.selected.update(ids => ids.filter(id => id !== uid));
+    } else if (!this.atLimit()) {
+      this.selected.update(ids => [...ids, uid]);
+    }
+  }
+
+  protected create(): void {
+    if (!this.canCreate()) return;
+    this.dialogRef.close(this.selected());
+  }
+
+  protected close(): void {
+    this.dialogRef.close();
+  }
+}
@@ -0,0 +1,2 @@
+export { CreateGroupDialogComponent } from './create-group-dialog';
+export type { CreateGroupDialogData } from './create-group-dialog';
@@ -0,0 +1,60 @@
+import { ChangeDetectionStrategy, Component, inject, signal, OnInit } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { TranslateModule } from '@ngx-translate/core';
+import { PassedUser, PassService } from '../../core/services/pass.service';
+
+@Component({
+  selector: 'app-hidden-profiles-dialog',
+  templateUrl: './hidden-profiles-dialog.html',
+  styleUrl: './hidden-profiles-dialog.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    DatePipe,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    TranslateModule,
+  ],
+})
+export class HiddenProfilesDialogComponent implements OnInit {
+  private readonly dialogRef = inject(MatDialogRef<HiddenProfilesDialogComponent>);
+  private readonly passService = inject(PassService);
+
+  protected readonly hiddenUsers = signal<PassedUser[]>([]);
+  protected readonly loading = signal(true);
+  protected readonly restoringUserId = signal<string | null>(null);
+
+  ngOnInit(): void {
+    this.loadHiddenUsers();
+  }
+
+  private async loadHiddenUsers(): Promise<void> {
+    this.loading.set(true);
+    try {
+      this.hiddenUsers.set(await this.passService.getPassedUsers());
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  protected async restoreUser(userId: string): Promise<void> {
+    this.restoringUserId.set(userId);
+    try {
+      const restored = await this.passService.unpassUser(userId);
+      if (restored) {
+        // Remove from local list
+        this.hiddenUsers.update(users => users.filter(u => u.uid !== userId));
+      }
+    } finally {
+      this.restoringUserId.set(null);
+    }
+  }
+
+  protected close(): void {
+    this.dialogRef.close();
+  }
+}
@@ -0,0 +1 @@
+export { HiddenProfilesDialogComponent } from './hidden-profiles-dialog';
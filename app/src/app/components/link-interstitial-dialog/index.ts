@@ -0,0 +1,2 @@
+export { LinkInterstitialDialogComponent } from './link-interstitial-dialog';
+export type { LinkInterstitialDialogData } from './link-interstitial-dialog';
@@ -0,0 +1,47 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { TranslateModule } from '@ngx-translate/core';
+import { LinkFlagReason } from '../../core/interfaces';
+
+export interface LinkInterstitialDialogData {
+  url: string;
+  domain: string;
+  flag: LinkFlagReason | null; // null if the link hasn't been checked yet
+}
+
+/**
+ * "You're leaving Gylde" warning shown before opening a flagged or unchecked link
+ * Closes with true if the user chose to open it.
+ */
+@Component({
+  selector: 'app-link-interstitial-dialog',
+  templateUrl: './link-interstitial-dialog.html',
+  styleUrl: './link-interstitial-dialog.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    TranslateModule,
+  ],
+})
+export class LinkInterstitialDialogComponent {
+  private readonly dialogRef = inject(MatDialogRef<LinkInterstitialDialogComponent, boolean>);
+  protected readonly data = inject<LinkInterstitialDialogData>(MAT_DIALOG_DATA);
+
+  protected readonly reasonKey = this.data.flag === 'denylisted'
+    ? 'MESSAGES.LINK_INTERSTITIAL.REASON_DENYLISTED'
+    : this.data.flag === 'shortener'
+      ? 'MESSAGES.LINK_INTERSTITIAL.REASON_SHORTENER'
+      : 'MESSAGES.LINK_INTERSTITIAL.REASON_UNCHECKED';
+
+  protected open(): void {
+    this.dialogRef.close(true);
+  }
+
+  protected close(): void {
+    this.dialogRef.close(false);
+  }
+}
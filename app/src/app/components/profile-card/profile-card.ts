@@ -1,9 +1,11 @@
 import { ChangeDetectionStrategy, Component, input, output, computed } from '@angular/core';
 import { MatIconModule } from '@angular/material/icon';
 import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatMenuModule } from '@angular/material/menu';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { TranslateModule } from '@ngx-translate/core';
-import { ReputationTier, shouldShowPublicBadge } from '../../core/interfaces';
+import { CompatibilityBreakdown, ReputationTier, shouldShowPublicBadge } from '../../core/interfaces';
+import { PassDuration } from '../../core/services/pass.service';
 import { ALL_CONNECTION_TYPES } from '../../core/constants/connection-types';
 import { ReputationBadgeComponent } from '../reputation-badge';
 import { FounderBadgeComponent } from '../founder-badge';
@@ -30,6 +32,21 @@ export interface ProfileCardData {
   interactionDate?: Date; // For matches page - when the interaction happened
   reputationTier?: ReputationTier; // User's reputation tier for public badge
   isFounder?: boolean; // Whether the user is a founder of their city
+  mutualFit?: boolean; // Whether the viewer also fits this user's preferences (discovery only)
+  compatibility?: Pick<
+    CompatibilityBreakdown,
+    'score' | 'sharedValues' | 'sharedConnectionTypes' | 'complementaryOrientation'
+  >; // Compatibility with the viewer (discovery only)
+}
+
+/**
+ * Compatibility badge content: the score and why it's a good match
+ */
+interface CompatibilityBadge {
+  score: number;
+  reasonKey: string;
+  value?: string; // Shared value, shown as entered
+  connectionType?: string; // Shared connection type value, translated for display
 }
 
 @Component({
@@ -37,7 +54,7 @@ export interface ProfileCardData {
   templateUrl: './profile-card.html',
   styleUrl: './profile-card.css',
   changeDetection: ChangeDetectionStrategy.OnPush,
-  imports: [MatIconModule, MatTooltipModule, MatProgressSpinnerModule, TranslateModule, ReputationBadgeComponent, FounderBadgeComponent],
+  imports: [MatIconModule, MatTooltipModule, MatMenuModule, MatProgressSpinnerModule, TranslateModule, ReputationBadgeComponent, FounderBadgeComponent],
 })
 export class ProfileCardComponent {
   // Inputs
@@ -45,11 +62,15 @@ export class ProfileCardComponent {
   readonly isFavorited = input<boolean>(false);
   readonly showInteractionTime = input<boolean>(false); // Show when the interaction happened
   readonly messagingLoading = input<boolean>(false); // Show loading spinner on message button
+  readonly showPass = input<boolean>(false); // Show the "Not interested" action (discovery only)
+  readonly isPassed = input<boolean>(false); // Just passed on - show the undo overlay
 
   // Outputs
   readonly messageClick = output<ProfileCardData>();
   readonly viewClick = output<ProfileCardData>();
   readonly favoriteClick = output<ProfileCardData>();
+  readonly passClick = output<{ profile: ProfileCardData; duration: PassDuration }>();
+  readonly undoPassClick = output<ProfileCardData>();
 
   // Computed: whether to show public reputation badge (only active+ tiers)
   protected readonly showReputationBadge = computed(() => {
@@ -61,6 +82,28 @@ export class ProfileCardComponent {
     return this.profile().reputationTier ?? 'new';
   });
 
+  // Computed: compatibility score plus the strongest thing the viewer has in common
+  protected readonly compatibilityBadge = computed((): CompatibilityBadge | null => {
+    const compatibility = this.profile().compatibility;
+    if (!compatibility) return null;
+
+    const score = compatibility.score;
+    if (compatibility.sharedValues.length) {
+      return { score, reasonKey: 'PROFILE_CARD.MATCH_REASON.SHARED_VALUE', value: compatibility.sharedValues[0] };
+    }
+    if (compatibility.sharedConnectionTypes.length) {
+      return {
+        score,
+        reasonKey: 'PROFILE_CARD.MATCH_REASON.SHARED_CONNECTION_TYPE',
+        connectionType: compatibility.sharedConnectionTypes[0],
+      };
+    }
+    if (compatibility.complementaryOrientation) {
+      return { score, reasonKey: 'PROFILE_CARD.MATCH_REASON.COMPLEMENTARY_SUPPORT' };
+    }
+    return { score, reasonKey: 'PROFILE_CARD.MATCH_REASON.GENERAL' };
+  });
+
   private readonly connectionTypeValueToLabelKey = new Map(
     ALL_CONNECTION_TYPES.map((o) => [o.value, o.labelKey] as const)
   );
@@ -94,6 +137,14 @@ export class ProfileCardComponent {
     this.favoriteClick.emit(this.profile());
   }
 
+  protected onPass(duration: PassDuration): void {
+    this.passClick.emit({ profile: this.profile(), duration });
+  }
+
+  protected onUndoPass(): void {
+    this.undoPassClick.emit(this.profile());
+  }
+
   /**
    * Returns a full ngx-translate key for a connection type value.
    *
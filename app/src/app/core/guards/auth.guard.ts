@@ -3,6 +3,7 @@ import { isPlatformBrowser } from '@angular/common';
 import { Router, CanActivateFn } from '@angular/router';
 import { AuthService } from '../services/auth.service';
 import { UserProfileService } from '../services/user-profile.service';
+import { ModerationService } from '../services/moderation.service';
 
 /**
  * Helper to check if user's account is disabled and sign them out if so
@@ -200,3 +201,33 @@ export const onboardingIncompleteGuard: CanActivateFn = async () => {
   router.navigate(['/discover']);
   return false;
 };
+
+/**
+ * Guard for the moderation console - requires the admin custom claim
+ */
+export const adminGuard: CanActivateFn = async () => {
+  const platformId = inject(PLATFORM_ID);
+  const authService = inject(AuthService);
+  const moderationService = inject(ModerationService);
+  const router = inject(Router);
+
+  // Skip guard on server - let client handle auth
+  if (!isPlatformBrowser(platformId)) {
+    return true;
+  }
+
+  // Wait for auth to initialize on page refresh
+  await authService.waitForAuthReady();
+
+  if (!authService.isAuthenticated()) {
+    router.navigate(['/']);
+    return false;
+  }
+
+  if (await moderationService.checkModerator()) {
+    return true;
+  }
+
+  router.navigate(['/discover']);
+  return false;
+};
@@ -2,7 +2,7 @@
  * Activity types for the activity feed
  */
 
-export type ActivityType = 'favorite' | 'match' | 'message' | 'view' | 'photo_access_request' | 'photo_access_granted' | 'photo_access_denied';
+export type ActivityType = 'favorite' | 'match' | 'message' | 'view' | 'photo_access_request' | 'photo_access_granted' | 'photo_access_denied' | 'saved_search_match' | 'conversation_export' | 'report_resolved';
 
 /**
  * Base activity record stored in Firestore
@@ -76,6 +76,7 @@ export interface ReplyRequest {
     content: string;
     isOwn: boolean;
     createdAt: Date;
+    replyTo?: { content: string; isOwn: boolean }; // Quoted message, if this is a reply
   }>;
   userDraft?: string; // Optional current draft in composer
   requestedTone?: MessageTone;
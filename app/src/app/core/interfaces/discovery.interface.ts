@@ -28,9 +28,11 @@ export interface DiscoverableProfile {
   photos: string[];
   verified: boolean;
   supportOrientation: string;
-  profileProgress: number; // 0-100 profile completion percentage (fetched from private data by Cloud Function)
-  reputationTier: ReputationTier; // User's reputation tier (fetched from private data by Cloud Function)
+  profileProgress: number; // 0-100 profile completion percentage (from the server-side search index)
+  reputationTier: ReputationTier; // User's reputation tier (from the server-side search index)
   isFounder?: boolean; // true if user is a founder for their city
+  mutualFit?: boolean; // true if the searcher also fits this user's own preferences
+  compatibility?: CompatibilityBreakdown; // Compatibility with the searcher (drives the "recommended" sort)
   // Secondary profile fields
   ethnicity?: string;
   relationshipStatus?: string;
@@ -43,6 +45,22 @@ export interface DiscoverableProfile {
   income?: string;
 }
 
+/**
+ * How a profile's compatibility score was put together (component scores are 0-1)
+ */
+export interface CompatibilityBreakdown {
+  score: number; // 0-100
+  connectionTypes: number;
+  values: number;
+  supportOrientation: number;
+  distance: number;
+  activity: number;
+  reputation: number;
+  sharedConnectionTypes: string[];
+  sharedValues: string[];
+  complementaryOrientation: boolean; // One is providing support, the other receiving
+}
+
 /**
  * Enhanced filters for discovery search
  */
@@ -74,27 +92,48 @@ export interface DiscoveryFilters {
 
   // Reputation filter - "X and above" style filter (not exclusion)
   minReputationTier: ReputationTier | null;
+
+  // Only show people whose own preferences (interested in, age range,
+  // support orientation) include the searcher
+  mutualOnly: boolean;
 }
 
 /**
  * Sorting options for discovery
  */
 export interface DiscoverySort {
-  field: 'distance' | 'lastActive' | 'newest' | 'age' | 'reputation';
+  field: 'distance' | 'lastActive' | 'newest' | 'age' | 'reputation' | 'recommended';
   direction: 'asc' | 'desc';
 }
 
+/**
+ * How often a saved view is checked for new matching profiles
+ */
+export type SearchAlertFrequency = 'instant' | 'daily' | 'weekly';
+
+/**
+ * Alert settings for a saved view
+ */
+export interface SavedViewAlertSettings {
+  alertsEnabled: boolean;
+  alertFrequency: SearchAlertFrequency;
+  alertMaxPerRun: number; // Max new-match alerts per check
+  alertEmail: boolean; // Also send an email digest
+}
+
 /**
  * Saved search view
  */
-export interface SavedView {
+export interface SavedView extends Partial<SavedViewAlertSettings> {
   id: string;
   name: string;
   filters: Partial<DiscoveryFilters>;
   sort: DiscoverySort;
   isDefault: boolean;
+  order?: number; // Position in the list, lowest first
   createdAt?: Date;
   updatedAt?: Date;
+  alertLastMatchCount?: number; // Matches reported by the last alert check
 }
 
 /**
@@ -105,7 +144,8 @@ export interface SearchRequest {
   sort?: DiscoverySort;
   pagination?: {
     limit?: number;
-    offset?: number; // Offset-based pagination for in-memory filtering
+    offset?: number; // Offset into the first page of a new search session
+    cursor?: string; // nextCursor from the previous page of the current search session
   };
   location?: GeoLocation;
 }
@@ -13,4 +13,5 @@ export * from './subscription.interface';
 export * from './trust.interface';
 export * from './ai-chat.interface';
 export * from './photo.interface';
-export * from './reputation.interface';
\ No newline at end of file
+export * from './reputation.interface';
+export * from './moderation.interface';
\ No newline at end of file
@@ -1,4 +1,76 @@
-import { FieldValue } from '@angular/fire/firestore';
+import { FieldValue, Timestamp } from '@angular/fire/firestore';
+
+/**
+ * Emoji a message can be reacted with
+ * Must match the list enforced in firestore.rules.
+ */
+export const MESSAGE_REACTIONS = ['❤️', '😂', '😮', '😢', '👍', '🔥'] as const;
+
+/**
+ * How long after sending a text message its sender can still edit it
+ * Must match the window enforced in firestore.rules.
+ */
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Where a video message is in its upload
+ * "uploading" while the sender uploads, "processing" while the storage trigger
+ * transcodes it, then "ready" - or "failed" if the upload was rejected,
+ * couldn't be transcoded or was abandoned. Messages sent before resumable
+ * uploads have no status and are ready.
+ */
+export type VideoStatus = 'uploading' | 'processing' | 'ready' | 'failed';
+
+/**
+ * A previous version of an edited message
+ */
+export interface MessageEdit {
+  content: string;
+  editedAt: Timestamp; // When this version was replaced
+}
+
+/**
+ * Reference to the message being replied to, stored on the reply
+ * content is a short snippet taken when the reply was sent; it's left empty for
+ * timed images and cleared (deleted: true) if the original is deleted for everyone.
+ */
+export interface MessageReplyRef {
+  messageId: string;
+  senderId: string;
+  type: 'text' | 'image' | 'video' | 'audio' | 'system';
+  content: string;
+  isTimedImage?: boolean;
+  deleted?: boolean;
+}
+
+/**
+ * Why the server flagged a link (see the link_* Remote Config lists)
+ * - denylisted: the domain (or where it redirects) is known to be unsafe
+ * - shortener: a URL shortener, which hides where the link really goes
+ */
+export type LinkFlagReason = 'denylisted' | 'shortener';
+
+/**
+ * A link in a message, as checked by unfurlMessageLinks
+ * Links that aren't listed yet (just sent or edited) haven't been checked.
+ */
+export interface CheckedLink {
+  url: string; // Normalized as in splitMessageLinks
+  domain: string;
+  flag: LinkFlagReason | null;
+}
+
+/**
+ * Preview of the first safe link in a message
+ */
+export interface LinkPreview {
+  url: string;
+  domain: string;
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
 
 /**
  * A single message in a conversation
@@ -9,7 +81,7 @@ export interface Message {
   senderId: string;
   content: string;
   createdAt: Date | FieldValue;
-  type: 'text' | 'image' | 'video' | 'system';
+  type: 'text' | 'image' | 'video' | 'audio' | 'system';
   imageUrls?: string[]; // For image messages
   deletedFor?: string[]; // User IDs who deleted this message for themselves
   deletedForAll?: boolean; // Sender deleted for everyone
@@ -23,14 +95,77 @@ export interface Message {
   videoUrl?: string; // URL of the uploaded video
   videoThumbnailUrl?: string; // URL of the video thumbnail
   videoDuration?: number; // Duration in seconds
+  videoStatus?: VideoStatus; // Set by the upload trigger (missing on older messages)
+  // Voice note fields (for audio messages)
+  audioUrl?: string; // URL of the uploaded WAV file
+  audioDuration?: number; // Duration in seconds
+  audioWaveform?: number[]; // Peak levels (0-100) for the waveform display
+  // Reactions: one emoji per user, keyed by user ID
+  reactions?: {
+    [uid: string]: string;
+  };
+  replyTo?: MessageReplyRef; // Set if this message is a reply
+  editedAt?: Timestamp | FieldValue; // Set when the message was last edited
+  edits?: MessageEdit[]; // Previous versions, oldest first
+  // Set by unfurlMessageLinks for text messages with links
+  links?: CheckedLink[];
+  linkPreview?: LinkPreview;
+}
+
+/**
+ * A "send later" message, stored in conversations/{id}/scheduledMessages
+ * Only its sender can see it. deliverScheduledMessages sends it as a normal
+ * text message once sendAt passes (and deletes this record); if the sender
+ * may no longer message the recipient it's marked failed with the reason.
+ */
+export interface ScheduledMessage {
+  id: string;
+  senderId: string;
+  recipientId: string;
+  content: string;
+  sendAt: Timestamp;
+  status: 'scheduled' | 'failed';
+  failureReason?: string; // checkMessagePermission reason, "sender_unavailable" or "recipient_unavailable"
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
 }
 
 /**
- * A conversation between two users
+ * How far ahead a message can be scheduled
+ * Must match the limit enforced in firestore.rules.
+ */
+export const SCHEDULED_MESSAGE_MAX_AHEAD_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * A message matching a search across the user's conversations
+ * Returned by the searchMessages Cloud Function, newest first.
+ */
+export interface MessageSearchResult {
+  conversationId: string;
+  messageId: string;
+  senderId: string;
+  otherUserId: string;
+  createdAt: number; // Epoch ms
+  snippet: string; // Message text around the first match
+  highlights: { start: number; length: number }[]; // Matched ranges within snippet
+}
+
+/**
+ * Most people in a group conversation, including its creator
+ * Must match MAX_GROUP_PARTICIPANTS in the group conversation functions.
+ */
+export const GROUP_CONVERSATION_MAX_PARTICIPANTS = 4;
+
+/**
+ * A conversation between two users, or a small group
+ * Groups are created by the createGroupConversation Cloud Function and left
+ * through leaveGroupConversation.
  */
 export interface Conversation {
   id: string;
-  participants: string[]; // Array of user UIDs (always 2 for 1:1)
+  participants: string[]; // Array of user UIDs (2 for 1:1, up to 4 in a group)
+  isGroup?: boolean;
+  createdBy?: string; // Who created the group
   // DEPRECATED: participantInfo is no longer written to new conversations.
   // User profiles (displayName, photoURL, reputationTier) are fetched fresh
   // from user documents to ensure data is always current.
@@ -52,8 +187,8 @@ export interface Conversation {
   unreadCount: {
     [uid: string]: number;
   };
-  // Last time each user viewed this conversation
-  // Messages created before this timestamp are considered "read" for that user
+  // DEPRECATED: views are now private (ConversationSettings.lastViewedAt) and
+  // shared only as read receipts; onConversationViewed clears this legacy map.
   lastViewedAt?: {
     [uid: string]: Date | FieldValue;
   };
@@ -63,26 +198,66 @@ export interface Conversation {
   archivedBy?: string[]; // User IDs who have archived this conversation
 }
 
+/**
+ * The current user's own organisation of a conversation
+ * Stored per participant in users/{uid}/conversationSettings/{conversationId},
+ * so pins, mutes and labels never leak to the other side.
+ */
+export interface ConversationSettings {
+  pinnedAt?: Timestamp | FieldValue | null; // Pinned conversations sort to the top, latest pin first
+  mutedUntil?: Timestamp | null; // No activity or email notifications until then
+  labels?: string[];
+  lastViewedAt?: Timestamp | FieldValue; // Messages created before then are read
+  updatedAt: Timestamp | FieldValue;
+}
+
+/**
+ * When a participant last viewed a conversation, as shown to the other one
+ * Stored in conversations/{id}/readReceipts/{uid} by onConversationViewed,
+ * only for users who send read receipts (settings.privacy.sendReadReceipts).
+ */
+export interface ReadReceipt {
+  lastViewedAt: Timestamp;
+  views: Timestamp[]; // Recent views, oldest first
+}
+
+export type ConversationMuteDuration = '1h' | '8h' | '1w' | 'forever';
+
+// Conversation labels (limits match firestore.rules)
+export const CONVERSATION_LABELS_MAX = 10;
+export const CONVERSATION_LABEL_MAX_LENGTH = 24;
+
+/**
+ * Another participant in a conversation, as shown in the UI
+ */
+export interface ConversationParticipant {
+  uid: string;
+  displayName: string | null;
+  photoURL: string | null;
+  reputationTier?: string; // For filtering by reputation
+  timeZone?: string | null; // IANA zone, for scheduling in their local time
+}
+
 /**
  * Display-ready conversation for the UI
  */
 export interface ConversationDisplay {
   id: string;
-  otherUser: {
-    uid: string;
-    displayName: string | null;
-    photoURL: string | null;
-    reputationTier?: string; // For filtering by reputation
-  };
+  otherUser: ConversationParticipant; // The first other participant in a group
+  isGroup?: boolean;
+  // Every other participant (missing on conversations opened before the list loaded)
+  otherUsers?: ConversationParticipant[];
   lastMessage: string | null;
   lastMessageTime: Date | null;
   unreadCount: number;
   isArchived: boolean;
   isBlocked?: boolean;
-  // Last time the other user viewed this conversation (for read receipts)
-  otherUserLastViewedAt?: Date | null;
   // Whether the current user has ever opened/accessed this conversation
   hasBeenOpened?: boolean;
+  // The current user's own settings (see ConversationSettings)
+  isPinned?: boolean;
+  mutedUntil?: Date | null; // Only set while muted
+  labels?: string[];
 }
 
 /**
@@ -94,7 +269,8 @@ export interface MessageDisplay {
   isOwn: boolean;
   createdAt: Date;
   read: boolean;
-  type: 'text' | 'image' | 'video' | 'system';
+  seenAt?: Date | null; // When the other user (everyone, in a group) first saw our message
+  type: 'text' | 'image' | 'video' | 'audio' | 'system';
   imageUrls?: string[]; // For image messages
   isDeletedForAll?: boolean; // Show "message was deleted" placeholder
   isDeletedForMe?: boolean; // Show "You deleted this message" placeholder
@@ -116,4 +292,89 @@ export interface MessageDisplay {
   videoUrl?: string; // URL of the uploaded video
   videoThumbnailUrl?: string; // URL of the video thumbnail
   videoDuration?: number; // Duration in seconds
+  videoStatus?: VideoStatus;
+  uploadProgress?: number; // 0-100 while the current user is uploading this video
+  // Voice note fields (for audio messages)
+  audioUrl?: string; // URL of the uploaded WAV file
+  audioDuration?: number; // Duration in seconds
+  audioWaveform?: number[]; // Peak levels (0-100) for the waveform display
+  // Reactions grouped by emoji, plus the current user's own reaction
+  reactions?: MessageReactionSummary[];
+  myReaction?: string | null;
+  replyTo?: MessageReplyPreview; // Quoted preview of the message this replies to
+  isEdited?: boolean;
+  editedAt?: Date | null;
+  links?: CheckedLink[];
+  linkPreview?: LinkPreview | null;
+}
+
+/**
+ * One emoji's reactions on a message
+ */
+export interface MessageReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+/**
+ * Display-ready quote of a replied-to message
+ * Follows the original's current state when it's loaded: nothing is shown
+ * once it's deleted, and timed images are never previewed.
+ */
+export interface MessageReplyPreview {
+  messageId: string;
+  isOwn: boolean; // The current user wrote the original
+  senderName: string | null;
+  type: 'text' | 'image' | 'video' | 'audio' | 'system';
+  content: string;
+  isTimedImage: boolean;
+  isDeleted: boolean;
+  isExpired: boolean; // Timed image the current user can no longer view
+}
+
+// http(s) links, or bare "www." ones - must match extractLinks in the link preview service
+const MESSAGE_LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+const LINK_TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+
+/**
+ * A piece of message text: plain text, or a link (url is normalized to https:// for "www.")
+ */
+export interface MessageTextSegment {
+  text: string;
+  url?: string;
+}
+
+/**
+ * Split message text into plain text and links
+ */
+export function splitMessageLinks(content: string): MessageTextSegment[] {
+  const segments: MessageTextSegment[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(MESSAGE_LINK_PATTERN)) {
+    const text = match[0].replace(LINK_TRAILING_PUNCTUATION, '');
+    if (!text) continue;
+    if (match.index > lastIndex) {
+      segments.push({ text: content.slice(lastIndex, match.index) });
+    }
+    segments.push({ text, url: /^www\./i.test(text) ? `https://${text}` : text });
+    lastIndex = match.index + text.length;
+  }
+  if (lastIndex < content.length) {
+    segments.push({ text: content.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * Whether the current user can still edit a message
+ * Only the sender's own confirmed text messages, within MESSAGE_EDIT_WINDOW_MS of sending.
+ */
+export function isMessageEditable(message: MessageDisplay, now = Date.now()): boolean {
+  return message.isOwn &&
+    message.type === 'text' &&
+    !message.pending &&
+    !message.isDeletedForAll &&
+    !message.isDeletedForMe &&
+    now - message.createdAt.getTime() < MESSAGE_EDIT_WINDOW_MS;
 }
@@ -0,0 +1,69 @@
+import { ReportReason } from './reputation.interface';
+
+/**
+ * Moderation status of a report in the /reports queue
+ */
+export type ReportStatus = 'pending' | 'in_review' | 'reviewed' | 'dismissed' | 'action_taken';
+
+/**
+ * How a moderator resolves a report
+ */
+export type ModerationAction = 'dismiss' | 'warn' | 'suspend' | 'ban';
+
+export const DEFAULT_SUSPENSION_DAYS = 7;
+export const MAX_SUSPENSION_DAYS = 90;
+
+/**
+ * A report as listed in the moderation console (from listReports)
+ */
+export interface ModerationReport {
+  id: string;
+  reason: ReportReason;
+  details: string | null;
+  conversationId: string | null;
+  status: ReportStatus;
+  createdAt: number; // ms
+  claimedBy: string | null;
+  claimedAt: number | null; // ms
+  reviewedBy: string | null;
+  reviewNotes: string | null;
+  actionTaken: ModerationAction | null;
+  reporter: {
+    uid: string;
+    displayName: string | null;
+    tier: string;
+    totalSubmitted: number;
+    dismissedCount: number;
+  };
+  reportedUser: {
+    uid: string;
+    displayName: string | null;
+    photoURL: string | null;
+    reportsReceived: number;
+    moderationStatus: 'suspended' | 'banned' | null;
+  };
+}
+
+/**
+ * Filters for the report queue (reason and reported user can't be combined)
+ */
+export interface ReportListFilter {
+  status: ReportStatus;
+  reason?: ReportReason | null;
+  reportedUserId?: string | null;
+}
+
+export interface ReportListPage {
+  reports: ModerationReport[];
+  nextCursor: string | null;
+}
+
+/**
+ * Request payload for resolving a report
+ */
+export interface ResolveReportRequest {
+  reportId: string;
+  action: ModerationAction;
+  notes?: string;
+  suspendDays?: number; // Suspensions only
+}
@@ -43,6 +43,51 @@ export interface ReputationData {
   tierChangedAt: unknown; // Firestore Timestamp
 }
 
+/**
+ * What triggered a timeline entry
+ * Blocks, reports and moderation outcomes are all reported as member_feedback.
+ */
+export type ReputationHistoryCause =
+  | 'daily_batch'
+  | 'member_feedback'
+  | 'verification'
+  | 'burst'
+  | 'manual';
+
+/**
+ * Explanation codes for a timeline entry (see PROGRESS_PAGE.HISTORY.EXPLANATIONS)
+ */
+export type ReputationExplanation =
+  | 'identity_verified'
+  | 'profile_completion_up'
+  | 'profile_completion_down'
+  | 'response_rate_up'
+  | 'response_rate_down'
+  | 'conversation_quality_up'
+  | 'conversation_quality_down'
+  | 'ghost_rate_up'
+  | 'ghost_rate_down'
+  | 'blocks_up'
+  | 'blocks_down'
+  | 'reports_up'
+  | 'reports_down'
+  | 'burst_detected'
+  | 'decay_started'
+  | 'decay_cleared'
+  | 'gradual_change';
+
+/**
+ * Reputation timeline entry as returned by getReputationHistory
+ */
+export interface ReputationHistoryEntry {
+  id: string;
+  tier: ReputationTier;
+  previousTier: ReputationTier | null;
+  cause: ReputationHistoryCause;
+  explanations: ReputationExplanation[];
+  createdAt: number; // ms
+}
+
 /**
  * Display information for a reputation tier
  */
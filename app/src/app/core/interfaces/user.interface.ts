@@ -52,6 +52,7 @@ export interface UserProfile {
   createdAt: unknown;
   updatedAt: unknown;
   lastActiveAt?: unknown; // Timestamp of last user activity
+  timeZone?: string; // IANA time zone of the user's browser, updated with lastActiveAt
   
   // Denormalized fields for efficient Firestore queries
   // These are maintained by Cloud Function triggers
@@ -101,6 +102,7 @@ export interface UserSettings {
     showLastActive?: boolean; // Show last active timestamp
     profileVisible?: boolean; // Make profile visible in discovery
     showLocation?: boolean; // Show location on profile
+    sendReadReceipts?: boolean; // Let others see when you've read their messages (and see theirs)
   };
 
   // Notification settings
@@ -108,6 +110,7 @@ export interface UserSettings {
     emailMatches?: boolean; // Email when you get a match
     emailMessages?: boolean; // Email when you get a message
     emailFavorites?: boolean; // Email when someone favorites you
+    emailSavedSearches?: boolean; // Email digests for saved searches with email alerts on
   };
 
   // Preferences
@@ -430,10 +430,19 @@ export class ActivityService implements OnDestroy {
 
     // Navigate to the link when user clicks the action button
     if (activity.link) {
-      snackBarRef.onAction().subscribe(() => {
-        this.router.navigateByUrl(activity.link!);
-      });
+      snackBarRef.onAction().subscribe(() => this.openLink(activity.link!));
+    }
+  }
+
+  /**
+   * Open an activity's link: in-app routes, or downloads (conversation exports)
+   */
+  openLink(link: string): void {
+    if (/^https?:\/\//.test(link)) {
+      window.open(link, '_blank', 'noopener');
+      return;
     }
+    this.router.navigateByUrl(link);
   }
 
   private getActivityMessage(activity: Activity): string {
@@ -452,6 +461,12 @@ export class ActivityService implements OnDestroy {
         return `✅ ${activity.fromUserName} granted you access to their private photos`;
       case 'photo_access_denied':
         return `❌ ${activity.fromUserName} denied your photo access request`;
+      case 'saved_search_match':
+        return `🔎 ${activity.fromUserName} matches one of your saved searches`;
+      case 'conversation_export':
+        return `📦 Your conversation with ${activity.fromUserName} is ready to download`;
+      case 'report_resolved':
+        return `🛡️ Your report about ${activity.fromUserName} was reviewed`;
       default:
         return `${activity.fromUserName} interacted with you`;
     }
@@ -7,6 +7,7 @@ import {
   DiscoveryFilters,
   DiscoverySort,
   SavedView,
+  SavedViewAlertSettings,
   SearchRequest,
   SearchResponse,
 } from '../interfaces';
@@ -31,6 +32,7 @@ const DEFAULT_FILTERS: DiscoveryFilters = {
   onlineNow: false,
   activeRecently: false,
   minReputationTier: null,
+  mutualOnly: true,
 };
 
 const DEFAULT_SORT: DiscoverySort = {
@@ -54,7 +56,7 @@ export class DiscoveryService {
   private readonly _sort = signal<DiscoverySort>({ ...DEFAULT_SORT });
   private readonly _savedViews = signal<SavedView[]>([]);
   private readonly _activeView = signal<SavedView | null>(null);
-  private readonly _currentOffset = signal<number>(0); // Offset-based pagination
+  private readonly _nextCursor = signal<string | null>(null); // Cursor into the server-side search session
   private readonly _totalEstimate = signal<number | undefined>(undefined);
   private readonly _hasMore = signal(true);
 
@@ -89,7 +91,8 @@ export class DiscoveryService {
       filters.income.length > 0 ||
       filters.onlineNow ||
       filters.activeRecently ||
-      filters.minReputationTier !== null
+      filters.minReputationTier !== null ||
+      !filters.mutualOnly
     );
   });
 
@@ -114,12 +117,18 @@ export class DiscoveryService {
     if (filters.onlineNow) count++;
     if (filters.activeRecently) count++;
     if (filters.minReputationTier !== null) count++;
+    if (!filters.mutualOnly) count++;
 
     return count;
   });
 
   /**
    * Search profiles using the Cloud Function
+   *
+   * A fresh search starts a server-side search session; "load more" pages
+   * read from that session via the cursor returned with the previous page.
+   * If the session has expired, a fresh search replaces the current results.
+   *
    * @param loadMore - If true, load more results (pagination)
    * @param forceRefresh - If true, always show loading state and clear existing results
    */
@@ -139,9 +148,11 @@ export class DiscoveryService {
           this._profiles.set([]); // Clear existing results on force refresh
         }
       }
-      this._currentOffset.set(0); // Reset offset for new search
+      this._nextCursor.set(null); // Start a new search session
     }
 
+    let sessionExpired = false;
+
     try {
       // Get current user's profile for location and preferences
       const currentProfile = this.userProfileService.profile();
@@ -161,8 +172,8 @@ export class DiscoveryService {
         return interest;
       });
 
-      // Calculate offset for pagination
-      const currentOffset = loadMore ? this._currentOffset() : 0;
+      // Continue the current search session when loading more
+      const cursor = loadMore ? this._nextCursor() ?? undefined : undefined;
 
       // Build search request with profile-based filters merged in
       const userFilters = this._filters();
@@ -176,7 +187,7 @@ export class DiscoveryService {
         sort: this._sort(),
         pagination: {
           limit: PAGE_SIZE,
-          offset: currentOffset,
+          cursor,
         },
         location,
       };
@@ -202,13 +213,20 @@ export class DiscoveryService {
         this._profiles.set(newProfiles);
       }
 
-      // Update offset for next page
-      this._currentOffset.set(currentOffset + newProfiles.length);
+      // Remember where the next page starts
+      this._nextCursor.set(response.nextCursor ?? null);
       this._totalEstimate.set(response.totalEstimate);
-      
-      // Check if there are more results (nextCursor now contains the next offset as string)
       this._hasMore.set(!!response.nextCursor);
     } catch (error) {
+      // Search session expired or was invalidated (e.g. after blocking someone)
+      const code = error && typeof error === 'object' && 'code' in error
+        ? (error as { code: string }).code
+        : null;
+      if (loadMore && code === 'functions/failed-precondition') {
+        sessionExpired = true;
+        return;
+      }
+
       console.error('Failed to search profiles:', error);
       // Only clear profiles on error if this was a fresh search with no existing data
       if (!loadMore && !hasExistingProfiles) {
@@ -217,6 +235,11 @@ export class DiscoveryService {
     } finally {
       this._loading.set(false);
       this._initialized.set(true);
+
+      if (sessionExpired) {
+        this._nextCursor.set(null);
+        void this.searchProfiles(false, true);
+      }
     }
   }
 
@@ -228,6 +251,13 @@ export class DiscoveryService {
     await this.searchProfiles(true);
   }
 
+  /**
+   * Drop a profile from the current results (e.g. after passing on it)
+   */
+  removeProfile(uid: string): void {
+    this._profiles.update(profiles => profiles.filter(p => p.uid !== uid));
+  }
+
   /**
    * Update filters and re-search
    */
@@ -327,6 +357,74 @@ export class DiscoveryService {
     }
   }
 
+  /**
+   * Rename a saved view, or replace its filters/sort
+   */
+  async updateView(
+    viewId: string,
+    changes: { name?: string; filters?: DiscoveryFilters; sort?: DiscoverySort }
+  ): Promise<void> {
+    const currentUser = this.authService.user();
+    if (!currentUser) return;
+
+    try {
+      const updateFn = httpsCallable<
+        { viewId: string; name?: string; filters?: DiscoveryFilters; sort?: DiscoverySort },
+        void
+      >(this.functions, 'updateSearchView');
+
+      await updateFn({ viewId, ...changes });
+
+      // Update local state
+      this._savedViews.update(views =>
+        views.map(v => (v.id === viewId ? { ...v, ...changes } : v))
+      );
+      const activeView = this._activeView();
+      if (activeView?.id === viewId) {
+        this._activeView.set({ ...activeView, ...changes });
+      }
+    } catch (error) {
+      console.error('Failed to update view:', error);
+    }
+  }
+
+  /**
+   * Overwrite a saved view with the current filters and sort
+   */
+  async overwriteView(viewId: string): Promise<void> {
+    await this.updateView(viewId, { filters: this._filters(), sort: this._sort() });
+  }
+
+  /**
+   * Reorder saved views (viewIds in the new order)
+   */
+  async reorderViews(viewIds: string[]): Promise<void> {
+    const currentUser = this.authService.user();
+    if (!currentUser) return;
+
+    // Update local state first so the list doesn't jump back while saving
+    const previousViews = this._savedViews();
+    const viewsById = new Map(previousViews.map(v => [v.id, v]));
+    this._savedViews.set(
+      viewIds
+        .map(id => viewsById.get(id))
+        .filter((v): v is SavedView => !!v)
+        .map((view, index) => ({ ...view, order: index }))
+    );
+
+    try {
+      const reorderFn = httpsCallable<{ viewIds: string[] }, void>(
+        this.functions,
+        'reorderSearchViews'
+      );
+
+      await reorderFn({ viewIds });
+    } catch (error) {
+      console.error('Failed to reorder views:', error);
+      this._savedViews.set(previousViews);
+    }
+  }
+
   /**
    * Delete a saved view
    */
@@ -381,6 +479,30 @@ export class DiscoveryService {
     }
   }
 
+  /**
+   * Turn new-match alerts on or off for a saved view, or change their settings
+   */
+  async setViewAlerts(viewId: string, settings: SavedViewAlertSettings): Promise<void> {
+    const currentUser = this.authService.user();
+    if (!currentUser) return;
+
+    try {
+      const setAlertsFn = httpsCallable<SavedViewAlertSettings & { viewId: string }, void>(
+        this.functions,
+        'setSearchViewAlerts'
+      );
+
+      await setAlertsFn({ viewId, ...settings });
+
+      // Update local state
+      this._savedViews.update(views =>
+        views.map(v => (v.id === viewId ? { ...v, ...settings } : v))
+      );
+    } catch (error) {
+      console.error('Failed to update view alerts:', error);
+    }
+  }
+
   // ==================
   // Filter option lists
   // ==================
@@ -445,6 +567,7 @@ export class DiscoveryService {
   ];
 
   readonly sortOptions: { value: DiscoverySort; labelKey: string }[] = [
+    { value: { field: 'recommended', direction: 'desc' }, labelKey: 'DISCOVER.SORT_OPTIONS.RECOMMENDED' },
     { value: { field: 'lastActive', direction: 'desc' }, labelKey: 'DISCOVER.SORT_OPTIONS.RECENTLY_ACTIVE' },
     { value: { field: 'distance', direction: 'asc' }, labelKey: 'DISCOVER.SORT_OPTIONS.NEAREST' },
     { value: { field: 'newest', direction: 'desc' }, labelKey: 'DISCOVER.SORT_OPTIONS.NEWEST' },
@@ -1,8 +1,11 @@
 import { Injectable, inject, signal } from '@angular/core';
+import { Firestore, doc, onSnapshot } from '@angular/fire/firestore';
 import { Functions, httpsCallable } from '@angular/fire/functions';
+import { AuthService } from './auth.service';
+import { ResumableUploadService } from './resumable-upload.service';
 
 export interface UploadProgress {
-  status: 'idle' | 'reading' | 'uploading' | 'complete' | 'error';
+  status: 'idle' | 'uploading' | 'processing' | 'complete' | 'error';
   progress: number; // 0-100
   error?: string;
 }
@@ -13,42 +16,33 @@ export interface UploadResult {
   error?: string;
 }
 
-interface UploadImageRequest {
-  imageData: string;
+interface ImageUploadRequestItem {
   mimeType: string;
+  size: number;
   fileName?: string;
-  folder?: string;
 }
 
-interface UploadImageResponse {
-  success: boolean;
-  url?: string;
-  error?: string;
+interface CreateImageUploadsRequest {
+  images: ImageUploadRequestItem[];
+  folder?: string;
 }
 
-interface ImageInput {
-  imageData: string;
-  mimeType: string;
+interface ImageUploadSession {
+  uploadId: string;
+  uploadUrl: string;
   fileName?: string;
 }
 
-interface UploadImagesRequest {
-  images: ImageInput[];
-  folder?: string;
-}
-
-interface ImageResult {
+interface CreateImageUploadsResponse {
   success: boolean;
-  url?: string;
-  error?: string;
-  fileName?: string;
+  uploads: ImageUploadSession[];
 }
 
-interface UploadImagesResponse {
-  success: boolean;
-  results: ImageResult[];
-  successCount: number;
-  failureCount: number;
+/** users/{uid}/imageUploads/{uploadId}, written by the onProfileImageFinalized trigger */
+interface ImageUploadStatusDoc {
+  status: 'uploading' | 'ready' | 'failed';
+  url?: string | null;
+  error?: string | null;
 }
 
 @Injectable({
@@ -56,6 +50,12 @@ interface UploadImagesResponse {
 })
 export class ImageUploadService {
   private readonly functions = inject(Functions);
+  private readonly firestore = inject(Firestore);
+  private readonly authService = inject(AuthService);
+  private readonly resumableUpload = inject(ResumableUploadService);
+
+  // Moderation and optimization usually take a few seconds; give up well after that
+  private static readonly PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
 
   private readonly _uploadProgress = signal<UploadProgress>({
     status: 'idle',
@@ -65,75 +65,23 @@ export class ImageUploadService {
   readonly uploadProgress = this._uploadProgress.asReadonly();
 
   /**
-   * Upload an image file via Cloud Function
-   * This provides server-side validation for security
+   * Upload an image file
+   * The file goes straight to Cloud Storage; a Cloud Function then validates,
+   * moderates and optimizes it server-side for security.
    */
   async uploadImage(
     file: File,
     folder: string = 'photos',
     onProgress?: (progress: UploadProgress) => void
   ): Promise<UploadResult> {
-    // Validate client-side first (for better UX)
-    const validation = this.validateFile(file);
-    if (!validation.valid) {
-      return { success: false, error: validation.error };
-    }
-
-    try {
-      // Update progress - reading file
-      this._uploadProgress.set({ status: 'reading', progress: 10 });
-      onProgress?.(this._uploadProgress());
-
-      // Convert file to base64
-      const base64Data = await this.fileToBase64(file);
-
-      // Update progress - uploading
-      this._uploadProgress.set({ status: 'uploading', progress: 30 });
-      onProgress?.(this._uploadProgress());
-
-      // Call Cloud Function
-      const uploadFn = httpsCallable<UploadImageRequest, UploadImageResponse>(
-        this.functions,
-        'uploadProfileImage'
-      );
-
-      const result = await uploadFn({
-        imageData: base64Data,
-        mimeType: file.type,
-        fileName: file.name,
-        folder,
-      });
-
-      // Update progress - complete
-      this._uploadProgress.set({ status: 'complete', progress: 100 });
-      onProgress?.(this._uploadProgress());
-
-      if (result.data.success && result.data.url) {
-        return { success: true, url: result.data.url };
-      } else {
-        return { success: false, error: result.data.error || 'Upload failed' };
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Upload failed';
-      this._uploadProgress.set({ status: 'error', progress: 0, error: errorMessage });
-      onProgress?.(this._uploadProgress());
-      return { success: false, error: errorMessage };
-    } finally {
-      // Reset progress after a short delay
-      setTimeout(() => {
-        this._uploadProgress.set({ status: 'idle', progress: 0 });
-      }, 1000);
-    }
+    const [result] = await this.uploadImages([file], folder, onProgress);
+    return result;
   }
 
-  // Max total payload size for batch uploads (in bytes)
-  // Cloud Functions has a 10MB limit, but base64 adds ~33% overhead
-  // Use a conservative 6MB threshold to be safe
-  private readonly MAX_BATCH_PAYLOAD_SIZE = 6 * 1024 * 1024;
-
   /**
-   * Upload multiple images - automatically chooses between batch and sequential
-   * based on total payload size to avoid request body limits
+   * Upload multiple images
+   * Progress covers the bytes uploaded; once every file is up the status
+   * switches to 'processing' until the server has checked them all.
    */
   async uploadImages(
     files: File[],
@@ -156,69 +104,59 @@ export class ImageUploadService {
       }
     }
 
-    // Calculate total file size (base64 adds ~33% overhead)
-    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
-    const estimatedPayloadSize = totalSize * 1.34; // Base64 overhead
+    const setProgress = (progress: UploadProgress) => {
+      this._uploadProgress.set(progress);
+      onProgress?.(progress);
+    };
 
-    // If payload would be too large, use sequential uploads
-    if (estimatedPayloadSize > this.MAX_BATCH_PAYLOAD_SIZE || files.length === 1) {
-      return this.uploadImagesSequentially(files, folder, onProgress);
-    }
+    try {
+      setProgress({ status: 'uploading', progress: 0 });
 
-    // Use batch upload for smaller payloads
-    return this.uploadImagesBatch(files, folder, onProgress);
-  }
+      // Get a resumable upload session per file
+      const createUploadsFn = httpsCallable<CreateImageUploadsRequest, CreateImageUploadsResponse>(
+        this.functions,
+        'createProfileImageUploads'
+      );
 
-  /**
-   * Upload images sequentially (one at a time)
-   * Used when total payload would exceed request body limits
-   */
-  private async uploadImagesSequentially(
-    files: File[],
-    folder: string,
-    onProgress?: (progress: UploadProgress) => void
-  ): Promise<UploadResult[]> {
-    const results: UploadResult[] = [];
-    const total = files.length;
+      const sessions = await createUploadsFn({
+        images: files.map(file => ({ mimeType: file.type, size: file.size, fileName: file.name })),
+        folder,
+      });
 
-    try {
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        
-        // Update progress
-        const progressPercent = Math.round((i / total) * 100);
-        this._uploadProgress.set({ 
-          status: 'uploading', 
-          progress: progressPercent 
-        });
-        onProgress?.(this._uploadProgress());
-
-        // Upload single file (without its own progress tracking)
-        const result = await this.uploadImageInternal(file, folder);
-        results.push(result);
-
-        // If one fails, continue with the rest but track the error
-        if (!result.success) {
-          console.warn(`Failed to upload ${file.name}:`, result.error);
+      // Upload in parallel, reporting progress across all bytes
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      const uploadedBytes = files.map(() => 0);
+      let uploadedFiles = 0;
+
+      const results = await Promise.all(files.map(async (file, i): Promise<UploadResult> => {
+        const session = sessions.data.uploads[i];
+        try {
+          await this.resumableUpload.upload(session.uploadUrl, file, (percent) => {
+            uploadedBytes[i] = (percent / 100) * file.size;
+            const uploaded = uploadedBytes.reduce((sum, bytes) => sum + bytes, 0);
+            // Leave the last 10% for server-side processing
+            setProgress({ status: 'uploading', progress: Math.round((uploaded / totalBytes) * 90) });
+          });
+
+          uploadedFiles++;
+          if (uploadedFiles === files.length) {
+            setProgress({ status: 'processing', progress: 95 });
+          }
+          return await this.waitForProcessing(session.uploadId);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Upload failed';
+          return { success: false, error: errorMessage };
         }
-      }
-
-      // Update progress - complete
-      this._uploadProgress.set({ status: 'complete', progress: 100 });
-      onProgress?.(this._uploadProgress());
+      }));
 
+      setProgress({ status: 'complete', progress: 100 });
       return results;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Upload failed';
-      this._uploadProgress.set({ status: 'error', progress: 0, error: errorMessage });
-      onProgress?.(this._uploadProgress());
-      
-      // Fill remaining results with errors
-      while (results.length < files.length) {
-        results.push({ success: false, error: errorMessage });
-      }
-      return results;
+      setProgress({ status: 'error', progress: 0, error: errorMessage });
+      return files.map(() => ({ success: false, error: errorMessage }));
     } finally {
+      // Reset progress after a short delay
       setTimeout(() => {
         this._uploadProgress.set({ status: 'idle', progress: 0 });
       }, 1000);
@@ -226,101 +164,38 @@ export class ImageUploadService {
   }
 
   /**
-   * Internal single image upload without progress management
+   * Wait for the server to finish checking an uploaded image
    */
-  private async uploadImageInternal(file: File, folder: string): Promise<UploadResult> {
-    try {
-      const base64Data = await this.fileToBase64(file);
-
-      const uploadFn = httpsCallable<UploadImageRequest, UploadImageResponse>(
-        this.functions,
-        'uploadProfileImage'
-      );
-
-      const result = await uploadFn({
-        imageData: base64Data,
-        mimeType: file.type,
-        fileName: file.name,
-        folder,
-      });
-
-      if (result.data.success && result.data.url) {
-        return { success: true, url: result.data.url };
-      } else {
-        return { success: false, error: result.data.error || 'Upload failed' };
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Upload failed';
-      return { success: false, error: errorMessage };
+  private waitForProcessing(uploadId: string): Promise<UploadResult> {
+    const uid = this.authService.user()?.uid;
+    if (!uid) {
+      return Promise.resolve({ success: false, error: 'Not signed in' });
     }
-  }
-
-  /**
-   * Upload images in a single batch request
-   * Only used when total payload is under the size limit
-   */
-  private async uploadImagesBatch(
-    files: File[],
-    folder: string,
-    onProgress?: (progress: UploadProgress) => void
-  ): Promise<UploadResult[]> {
-    try {
-      // Update progress - reading files
-      this._uploadProgress.set({ status: 'reading', progress: 10 });
-      onProgress?.(this._uploadProgress());
-
-      // Convert all files to base64
-      const imageInputs: ImageInput[] = [];
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const base64Data = await this.fileToBase64(file);
-        imageInputs.push({
-          imageData: base64Data,
-          mimeType: file.type,
-          fileName: file.name,
-        });
-        // Update progress during reading
-        const readProgress = 10 + ((i + 1) / files.length) * 20;
-        this._uploadProgress.set({ status: 'reading', progress: readProgress });
-        onProgress?.(this._uploadProgress());
-      }
-
-      // Update progress - uploading
-      this._uploadProgress.set({ status: 'uploading', progress: 40 });
-      onProgress?.(this._uploadProgress());
 
-      // Call batch upload Cloud Function
-      const uploadFn = httpsCallable<UploadImagesRequest, UploadImagesResponse>(
-        this.functions,
-        'uploadProfileImages'
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        unsubscribe();
+        resolve({ success: false, error: 'Timed out processing image' });
+      }, ImageUploadService.PROCESSING_TIMEOUT_MS);
+
+      const unsubscribe = onSnapshot(
+        doc(this.firestore, 'users', uid, 'imageUploads', uploadId),
+        (snapshot) => {
+          const data = snapshot.data() as ImageUploadStatusDoc | undefined;
+          if (!data || data.status === 'uploading') return;
+
+          clearTimeout(timeout);
+          unsubscribe();
+          resolve(data.status === 'ready' && data.url ?
+            { success: true, url: data.url } :
+            { success: false, error: data.error || 'Upload failed' });
+        },
+        (error) => {
+          clearTimeout(timeout);
+          resolve({ success: false, error: error.message });
+        }
       );
-
-      const result = await uploadFn({
-        images: imageInputs,
-        folder,
-      });
-
-      // Update progress - complete
-      this._uploadProgress.set({ status: 'complete', progress: 100 });
-      onProgress?.(this._uploadProgress());
-
-      // Map results back to UploadResult format
-      return result.data.results.map(r => ({
-        success: r.success,
-        url: r.url,
-        error: r.error,
-      }));
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Upload failed';
-      this._uploadProgress.set({ status: 'error', progress: 0, error: errorMessage });
-      onProgress?.(this._uploadProgress());
-      return files.map(() => ({ success: false, error: errorMessage }));
-    } finally {
-      // Reset progress after a short delay
-      setTimeout(() => {
-        this._uploadProgress.set({ status: 'idle', progress: 0 });
-      }, 1000);
-    }
+    });
   }
 
   /**
@@ -362,23 +237,6 @@ export class ImageUploadService {
     return { valid: true };
   }
 
-  /**
-   * Convert file to base64 string
-   */
-  private fileToBase64(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove the data URL prefix
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsDataURL(file);
-    });
-  }
-
   /**
    * Create a preview URL for a file (for immediate display)
    */
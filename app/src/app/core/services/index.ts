@@ -15,4 +15,10 @@ export * from './subscription.service';
 export * from './ai-chat.service';
 export * from './stripe.service';
 export * from './seo.service';
-export * from './remote-config.service';
\ No newline at end of file
+export * from './remote-config.service';
+export * from './pass.service';
+export * from './voice-recorder.service';
+export * from './resumable-upload.service';
+export * from './moderation.service';
+
+export * from './reputation.service';
@@ -7,7 +7,9 @@ import {
   orderBy,
   onSnapshot,
   addDoc,
+  setDoc,
   updateDoc,
+  deleteDoc,
   doc,
   serverTimestamp,
   Unsubscribe,
@@ -19,6 +21,7 @@ import {
   deleteField,
   getDoc,
   startAfter,
+  startAt,
   endBefore,
   Timestamp,
   QueryDocumentSnapshot,
@@ -29,23 +32,47 @@ import {
 import { Functions, httpsCallable } from '@angular/fire/functions';
 import { AuthService } from './auth.service';
 import { StorageService } from './storage.service';
+import { ResumableUploadService } from './resumable-upload.service';
 import { BlockService } from './block.service';
 import { UserProfileService } from './user-profile.service';
+import { SubscriptionService } from './subscription.service';
 import {
   Message,
   Conversation,
   ConversationDisplay,
+  ConversationMuteDuration,
+  ConversationParticipant,
+  ConversationSettings,
+  CONVERSATION_LABELS_MAX,
+  CONVERSATION_LABEL_MAX_LENGTH,
   MessageDisplay,
+  MessageReactionSummary,
+  MessageReplyPreview,
+  MessageReplyRef,
+  AuthUser,
+  MessageSearchResult,
+  ReadReceipt,
   ReputationTier,
+  ScheduledMessage,
+  SCHEDULED_MESSAGE_MAX_AHEAD_MS,
+  isMessageEditable,
 } from '../interfaces';
 import { UserProfile } from '../interfaces/user.interface';
 
-/** Response from the uploadConversationVideo Cloud Function */
-export interface UploadVideoResponse {
+/** Response from the createConversationVideoUpload Cloud Function */
+export interface CreateVideoUploadResponse {
   success: boolean;
-  videoUrl?: string;
+  messageId: string; // ID to create the video message with
+  uploadUrl: string; // Resumable upload session URI
   thumbnailUrl?: string;
+}
+
+/** Response from the uploadConversationAudio Cloud Function */
+export interface UploadAudioResponse {
+  success: boolean;
+  audioUrl?: string;
   duration?: number;
+  waveform?: number[];
   error?: string;
 }
 
@@ -67,7 +94,11 @@ export interface MessagePermissionResult {
   recipientMinTierLabel?: string;
 }
 
-export type ConversationFilter = 'all' | 'unread' | 'archived';
+// 'label:<name>' shows conversations the user gave that label
+export type ConversationFilter = 'all' | 'unread' | 'archived' | `label:${string}`;
+
+/** The current user's settings as shown on a conversation */
+type ConversationSettingsDisplay = Pick<ConversationDisplay, 'isPinned' | 'mutedUntil' | 'labels'>;
 
 // Reputation filter for conversations (null = no filter, tier = filter to that tier and above)
 export type ReputationFilter = string | null;
@@ -79,9 +110,11 @@ export class MessageService {
   private readonly firestore = inject(Firestore);
   private readonly functions = inject(Functions);
   private readonly storageService = inject(StorageService);
+  private readonly resumableUpload = inject(ResumableUploadService);
   private readonly authService = inject(AuthService);
   private readonly blockService = inject(BlockService);
   private readonly userProfileService = inject(UserProfileService);
+  private readonly subscriptionService = inject(SubscriptionService);
 
   private readonly _conversations = signal<ConversationDisplay[]>([]);
   private readonly _activeConversation = signal<ConversationDisplay | null>(null);
@@ -92,6 +125,25 @@ export class MessageService {
   private readonly _conversationFilter = signal<ConversationFilter>('all');
   private readonly _reputationFilter = signal<ReputationFilter>(null);
   private readonly _otherUserStatus = signal<{ isOnline: boolean; lastActiveAt: Date | null } | null>(null);
+  // The current user's pin/mute/labels per conversation, keyed by conversation ID
+  private readonly _conversationSettings = signal<Map<string, ConversationSettings>>(new Map());
+  
+  // Message the user is currently replying to (attached to the next message sent)
+  private readonly _replyingTo = signal<MessageDisplay | null>(null);
+  readonly replyingTo = this._replyingTo.asReadonly();
+  
+  // Message the user is currently editing (the next send replaces its content)
+  private readonly _editingMessage = signal<MessageDisplay | null>(null);
+  readonly editingMessage = this._editingMessage.asReadonly();
+
+  // The current user's scheduled ("send later") messages in the active conversation
+  private readonly _scheduledMessages = signal<ScheduledMessage[]>([]);
+  readonly scheduledMessages = this._scheduledMessages.asReadonly();
+
+  // Message to scroll to and highlight, e.g. from a search result (set once it's loaded)
+  private readonly _focusedMessageId = signal<string | null>(null);
+  readonly focusedMessageId = this._focusedMessageId.asReadonly();
+  private pendingFocus: { conversationId: string; messageId: string } | null = null;
   
   // Message permission state (fetched once when conversation opens)
   private readonly _messagePermission = signal<MessagePermissionResult | null>(null);
@@ -114,17 +166,30 @@ export class MessageService {
     return remaining !== null && remaining <= 0;
   });
   
-  // Track the other user's lastViewedAt for read receipts on our messages
-  private _otherUserLastViewedAt: Date | null = null;
+  // The other participants' read receipts for the active conversation (see subscribeToReadReceipts)
+  private otherUserReceipts = new Map<string, { lastViewedAt: Date | null; views: Date[] }>();
+  private readonly _readReceiptsAvailable = signal(false);
+  readonly readReceiptsAvailable = this._readReceiptsAvailable.asReadonly();
+
+  // Read receipts are Premium, and only for users who send their own
+  // (firestore.rules enforces the same on conversations/{id}/readReceipts)
+  readonly canSeeReadReceipts = computed(() =>
+    this.subscriptionService.capabilities().readReceipts &&
+    this.userProfileService.profile()?.settings?.privacy?.sendReadReceipts !== false
+  );
 
   private conversationsUnsubscribe: Unsubscribe | null = null;
+  private conversationSettingsUnsubscribe: Unsubscribe | null = null;
   private messagesUnsubscribe: Unsubscribe | null = null;
   private userStatusUnsubscribe: Unsubscribe | null = null;
+  private scheduledMessagesUnsubscribe: Unsubscribe | null = null;
+  private readReceiptUnsubscribes: Unsubscribe[] = [];
   private typingTimeout: ReturnType<typeof setTimeout> | null = null;
   private lastTypingUpdate = 0;
   private currentTypingState = false; // Track current state to avoid duplicate writes
   private lastMessageSentAt = 0; // Track when last message was sent to suppress typing updates
   private pendingMessageSequence = 0; // Sequence counter for ordering pending messages
+  private videoUploadProgress = new Map<string, number>(); // Message ID -> percent, for our own uploads
   
   // Debounce conversation metadata updates to reduce RESET storms during rapid sending
   private conversationUpdateTimeout: ReturnType<typeof setTimeout> | null = null;
@@ -144,6 +209,13 @@ export class MessageService {
   // Message batch size - reduced from 50 to improve real-time update performance
   private static readonly MESSAGE_BATCH_SIZE = 30;
   
+  // Jumping to an old message loads history back to it in pages, up to a cap
+  private static readonly JUMP_PAGE_SIZE = 200;
+  private static readonly MAX_JUMP_MESSAGES = 2000;
+  
+  // Max length of the quoted snippet stored on a reply
+  private static readonly REPLY_SNIPPET_LENGTH = 140;
+  
   // Track the last message we processed to detect new incoming messages
   private lastProcessedMessageId: string | null = null;
   
@@ -153,6 +225,7 @@ export class MessageService {
     displayName: string | null;
     photoURL: string | null;
     reputationTier?: string;
+    timeZone?: string | null;
     fetchedAt: number;
   }>();
   private static readonly PARTICIPANT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
@@ -169,12 +242,28 @@ export class MessageService {
   readonly loadingOlderMessages = this._loadingOlderMessages.asReadonly();
   readonly hasOlderMessages = this._hasOlderMessages.asReadonly();
 
+  // Muting "until I turn it back on" - the latest date Firestore can store
+  private static readonly MUTE_FOREVER_UNTIL = new Date('9999-12-31T00:00:00Z');
+  private static readonly MUTE_DURATIONS_MS: Record<Exclude<ConversationMuteDuration, 'forever'>, number> = {
+    '1h': 60 * 60 * 1000,
+    '8h': 8 * 60 * 60 * 1000,
+    '1w': 7 * 24 * 60 * 60 * 1000,
+  };
+
   // Reputation tier order for filtering (must match backend)
   private readonly REPUTATION_TIER_ORDER = ['new', 'active', 'established', 'trusted', 'distinguished'];
 
   // Filtered conversations based on current filter, reputation filter, and block status
   readonly filteredConversations = computed(() => {
-    const convos = this._conversations();
+    const settings = this._conversationSettings();
+    const convos = this._conversations().map(c => {
+      const convoSettings = settings.get(c.id);
+      return {
+        ...c,
+        ...this.toSettingsDisplay(convoSettings),
+        hasBeenOpened: c.hasBeenOpened || !!convoSettings?.lastViewedAt,
+      };
+    });
     const filter = this._conversationFilter();
     const reputationFilter = this._reputationFilter();
     const blockedUserIds = this.blockService.blockedUserIds();
@@ -199,30 +288,61 @@ export class MessageService {
       case 'archived':
         filtered = visibleConvos.filter(c => c.isArchived);
         break;
-      default: // 'all'
+      case 'all':
         filtered = visibleConvos.filter(c => !c.isArchived);
+        break;
+      default: { // 'label:<name>'
+        const label = filter.slice('label:'.length);
+        filtered = visibleConvos.filter(c => !c.isArchived && c.labels?.includes(label));
+      }
     }
     
-    // Apply reputation filter if set (filter to tier and above)
+    // Apply reputation filter if set (filter to tier and above - every member, in a group)
     if (reputationFilter) {
       const minTierIndex = this.REPUTATION_TIER_ORDER.indexOf(reputationFilter);
       if (minTierIndex >= 0) {
-        filtered = filtered.filter(c => {
-          const userTier = c.otherUser?.reputationTier || 'new';
+        filtered = filtered.filter(c => this.getOtherParticipants(c).every(user => {
+          const userTier = user.reputationTier || 'new';
           const userTierIndex = this.REPUTATION_TIER_ORDER.indexOf(userTier);
           return userTierIndex >= minTierIndex;
-        });
+        }));
       }
     }
     
+    // Pinned conversations float to the top (most recently pinned first);
+    // the rest keep their most-recent-activity order
+    const pinnedAt = (c: ConversationDisplay) =>
+      this.toDate(settings.get(c.id)?.pinnedAt)?.getTime() ?? 0;
+    filtered = [
+      ...filtered.filter(c => c.isPinned).sort((a, b) => pinnedAt(b) - pinnedAt(a)),
+      ...filtered.filter(c => !c.isPinned),
+    ];
+    
     // Then filter out blocked users (but keep the conversation visible so they can access chat history)
     // We mark blocked conversations differently rather than hiding them completely
+    // (a group stays open - members who blocked each other just aren't notified)
     return filtered.map(c => ({
       ...c,
-      isBlocked: c.otherUser?.uid ? blockedUserIds.has(c.otherUser.uid) : false,
+      isBlocked: c.otherUser?.uid && !c.isGroup ? blockedUserIds.has(c.otherUser.uid) : false,
     }));
   });
 
+  // Every label the user has given a conversation, for the filter options
+  readonly conversationLabels = computed(() => {
+    const labels = new Set<string>();
+    for (const settings of this._conversationSettings().values()) {
+      settings.labels?.forEach(label => labels.add(label));
+    }
+    return Array.from(labels).sort((a, b) => a.localeCompare(b));
+  });
+
+  // The current user's settings for the open conversation
+  readonly activeConversationSettings = computed((): ConversationSettingsDisplay | null => {
+    const activeId = this._activeConversation()?.id;
+    if (!activeId) return null;
+    return this.toSettingsDisplay(this._conversationSettings().get(activeId));
+  });
+
   // Count of archived conversations for badge
   readonly archivedCount = computed(() => {
     return this._conversations().filter(c => c.isArchived).length;
@@ -279,10 +399,9 @@ export class MessageService {
         const participantIds = new Set<string>();
         for (const docSnapshot of snapshot.docs) {
           const data = docSnapshot.data() as Conversation;
-          const otherUserId = data.participants.find((id) => id !== currentUser.uid);
-          if (otherUserId) {
-            participantIds.add(otherUserId);
-          }
+          data.participants
+            .filter((id) => id !== currentUser.uid)
+            .forEach((id) => participantIds.add(id));
         }
 
         // Fetch fresh participant profiles for users not in cache or with stale cache
@@ -292,45 +411,31 @@ export class MessageService {
         const conversations: ConversationDisplay[] = snapshot.docs.map((docSnapshot) => {
           const data = docSnapshot.data() as Conversation;
           
-          const otherUserId = data.participants.find((id) => id !== currentUser.uid) || '';
+          const otherUserIds = data.participants.filter((id) => id !== currentUser.uid);
           
-          // Get fresh profile from cache (just fetched above)
-          const cachedProfile = this.participantCache.get(otherUserId);
-          const otherUserInfo = cachedProfile || {
-            displayName: data.participantInfo?.[otherUserId]?.displayName || 'Unknown User',
-            photoURL: data.participantInfo?.[otherUserId]?.photoURL || null,
-            reputationTier: data.participantInfo?.[otherUserId]?.reputationTier,
-          };
+          // Get fresh profiles from cache (just fetched above)
+          const otherUsers: ConversationParticipant[] = otherUserIds.map((uid) => {
+            const cachedProfile = this.participantCache.get(uid);
+            return {
+              uid,
+              displayName: cachedProfile?.displayName ?? (data.participantInfo?.[uid]?.displayName || 'Unknown User'),
+              photoURL: cachedProfile ? cachedProfile.photoURL : data.participantInfo?.[uid]?.photoURL || null,
+              reputationTier: cachedProfile ? cachedProfile.reputationTier : data.participantInfo?.[uid]?.reputationTier,
+              timeZone: cachedProfile?.timeZone ?? null,
+            };
+          });
 
-          // Extract the other user's lastViewedAt for read receipts
-          const otherUserLastViewedAt = data.lastViewedAt?.[otherUserId]
-            ? this.toDate(data.lastViewedAt[otherUserId])
-            : null;
-          
-          // Check if current user has ever opened this conversation
+          // Check if current user has ever opened this conversation (views are now kept in
+          // conversationSettings - see filteredConversations; this is the legacy shared map)
           // Use 'in' operator to check key existence, not value truthiness
-          // This handles serverTimestamp() sentinel values that haven't resolved yet
           const hasBeenOpened = data.lastViewedAt ? currentUser.uid in data.lastViewedAt : false;
 
-          // If this is the active conversation, update typing status and lastViewedAt
-          if (this.activeConversationId === docSnapshot.id) {
-            // Update typing status from the same snapshot
-            if (data.typing) {
-              const otherUserTyping = Object.entries(data.typing).some(
-                ([uid, isTyping]) => uid !== currentUser.uid && isTyping
-              );
-              this._isOtherUserTyping.set(otherUserTyping);
-            }
-            // Update other user's lastViewedAt for read receipts
-            // If it changed, we need to recompute message read states
-            const previousLastViewedAt = this._otherUserLastViewedAt;
-            this._otherUserLastViewedAt = otherUserLastViewedAt;
-            
-            // If the other user's lastViewedAt increased, update message read states
-            if (otherUserLastViewedAt && 
-                (!previousLastViewedAt || otherUserLastViewedAt.getTime() > previousLastViewedAt.getTime())) {
-              this.updateMessageReadStates();
-            }
+          // If this is the active conversation, update typing status
+          if (this.activeConversationId === docSnapshot.id && data.typing) {
+            const otherUserTyping = Object.entries(data.typing).some(
+              ([uid, isTyping]) => uid !== currentUser.uid && isTyping
+            );
+            this._isOtherUserTyping.set(otherUserTyping);
           }
 
           const isArchived = data.archivedBy?.includes(currentUser.uid) || false;
@@ -347,19 +452,15 @@ export class MessageService {
 
           return {
             id: docSnapshot.id,
-            otherUser: {
-              uid: otherUserId,
-              displayName: otherUserInfo.displayName,
-              photoURL: otherUserInfo.photoURL,
-              reputationTier: otherUserInfo.reputationTier,
-            },
+            otherUser: otherUsers[0] ?? { uid: '', displayName: 'Unknown User', photoURL: null },
+            isGroup: data.isGroup === true,
+            otherUsers,
             lastMessage: data.lastMessage?.content || null,
             lastMessageTime: data.lastMessage?.createdAt
               ? this.toDate(data.lastMessage.createdAt)
               : null,
             unreadCount,
             isArchived,
-            otherUserLastViewedAt,
             hasBeenOpened,
           };
         });
@@ -372,6 +473,41 @@ export class MessageService {
         this._loading.set(false);
       }
     );
+
+    this.subscribeToConversationSettings(currentUser.uid);
+  }
+
+  /**
+   * Subscribe to the current user's own pin/mute/label settings
+   * Kept under the user's document so the other participant never sees them.
+   */
+  private subscribeToConversationSettings(userId: string): void {
+    this.conversationSettingsUnsubscribe?.();
+
+    const settingsRef = collection(this.firestore, 'users', userId, 'conversationSettings');
+    this.conversationSettingsUnsubscribe = onSnapshot(
+      settingsRef,
+      (snapshot) => {
+        const settings = new Map<string, ConversationSettings>();
+        for (const docSnap of snapshot.docs) {
+          // Estimate pending pin times so a new pin sorts to the top right away
+          settings.set(docSnap.id, docSnap.data({ serverTimestamps: 'estimate' }) as ConversationSettings);
+        }
+        this._conversationSettings.set(settings);
+      },
+      (error) => {
+        console.error('Error subscribing to conversation settings:', error);
+      }
+    );
+  }
+
+  private toSettingsDisplay(settings: ConversationSettings | undefined): ConversationSettingsDisplay {
+    const mutedUntil = this.toDate(settings?.mutedUntil);
+    return {
+      isPinned: !!settings?.pinnedAt,
+      mutedUntil: mutedUntil && mutedUntil.getTime() > Date.now() ? mutedUntil : null,
+      labels: settings?.labels ?? [],
+    };
   }
 
   /**
@@ -407,6 +543,7 @@ export class MessageService {
             displayName: data['displayName'] || null,
             photoURL: data['photoURL'] || null,
             reputationTier: data['reputationTier'] || 'new',
+            timeZone: data['timeZone'] || null,
             fetchedAt: now,
           });
         }
@@ -448,6 +585,11 @@ export class MessageService {
       this.conversationsUnsubscribe();
       this.conversationsUnsubscribe = null;
     }
+    if (this.conversationSettingsUnsubscribe) {
+      this.conversationSettingsUnsubscribe();
+      this.conversationSettingsUnsubscribe = null;
+    }
+    this._conversationSettings.set(new Map());
   }
 
   /**
@@ -462,15 +604,22 @@ export class MessageService {
     this._messageBlocked.set(null);
     this._messagePermission.set(null);
     this._remainingMessages.set(null); // Reset until permission is checked
+    this._replyingTo.set(null);
+    this._editingMessage.set(null);
+    this._focusedMessageId.set(null);
+    if (this.pendingFocus?.conversationId !== conversation.id) {
+      this.pendingFocus = null; // Requested for a different conversation
+    }
     this.oldestMessageDoc = null;
     this.hasMarkedAsRead = false; // Reset read marker
     this.lastProcessedMessageId = null; // Reset message tracking
     
-    // Initialize other user's lastViewedAt for read receipts
-    this._otherUserLastViewedAt = conversation.otherUserLastViewedAt ?? null;
+    // Read receipts arrive from their own listeners
+    this.resetReadReceipts();
     
     // Check message permission once when opening (sets remaining messages)
-    if (conversation.otherUser?.uid) {
+    // Group members were checked when the group was created
+    if (conversation.otherUser?.uid && !conversation.isGroup) {
       this.checkMessagePermission(conversation.otherUser.uid).catch(() => {});
     }
     
@@ -478,13 +627,18 @@ export class MessageService {
     this.activeConversationId = conversation.id;
     
     this.subscribeToMessages(conversation.id);
+    this.subscribeToScheduledMessages(conversation.id);
+    const otherUserIds = this.getOtherParticipants(conversation).map(user => user.uid).filter(Boolean);
+    if (otherUserIds.length > 0) {
+      this.subscribeToReadReceipts(conversation.id, otherUserIds);
+    }
     
-    // Subscribe to other user's online status (only if not blocked)
+    // Subscribe to other user's online status (1:1 only, and only if not blocked)
     // Don't show online status if either user has blocked the other
     const isBlocked = conversation.isBlocked || 
       (conversation.otherUser?.uid && this.blockService.isUserBlocked(conversation.otherUser.uid));
     
-    if (conversation.otherUser?.uid && !isBlocked) {
+    if (conversation.otherUser?.uid && !conversation.isGroup && !isBlocked) {
       this.subscribeToUserStatus(conversation.otherUser.uid);
     }
     
@@ -507,11 +661,13 @@ export class MessageService {
     this._messageBlocked.set(null);
     this._messagePermission.set(null);
     this._remainingMessages.set(null);
+    this._replyingTo.set(null);
+    this._editingMessage.set(null);
+    this._focusedMessageId.set(null);
     this.oldestMessageDoc = null;
     this.activeConversationId = null;
     this.hasMarkedAsRead = false;
     this.lastProcessedMessageId = null;
-    this._otherUserLastViewedAt = null;
     this.currentTypingState = false; // Reset for next conversation
     this.lastMessageSentAt = 0; // Reset for next conversation
     this.pendingMessageSequence = 0; // Reset sequence counter
@@ -522,6 +678,8 @@ export class MessageService {
     }
     this.pendingConversationUpdate = null;
     this.unsubscribeFromMessages();
+    this.unsubscribeFromScheduledMessages();
+    this.unsubscribeFromReadReceipts();
   }
 
   /**
@@ -724,8 +882,9 @@ export class MessageService {
             senderName = currentUser.displayName;
             senderPhoto = profile?.photoURL ?? currentUser.photoURL;
           } else if (activeConvo) {
-            senderName = activeConvo.otherUser?.displayName || 'Unknown';
-            senderPhoto = activeConvo.otherUser?.photoURL || null;
+            const sender = this.getParticipant(activeConvo, data.senderId);
+            senderName = sender?.displayName || 'Unknown';
+            senderPhoto = sender?.photoURL || null;
           }
 
           // Calculate timed image status for current user (as recipient)
@@ -765,13 +924,9 @@ export class MessageService {
           // Compute read status:
           // - For our messages: read if the other user's lastViewedAt >= message createdAt
           // - For their messages: always considered "read" from our perspective (we're viewing them)
-          let isRead = true;
-          if (isOwn && this._otherUserLastViewedAt) {
-            isRead = messageCreatedAt <= this._otherUserLastViewedAt;
-          } else if (isOwn) {
-            // No lastViewedAt data yet, assume unread
-            isRead = false;
-          }
+          const { read: isRead, seenAt } = isOwn
+            ? this.getReadState(messageCreatedAt)
+            : { read: true, seenAt: null };
 
           // Check if message is deleted (either for everyone or just for me)
           const isDeleted = data.deletedForAll || isDeletedForMe;
@@ -782,6 +937,7 @@ export class MessageService {
             isOwn,
             createdAt: messageCreatedAt,
             read: isRead,
+            seenAt,
             type: isDeleted ? 'system' : data.type,
             imageUrls: isDeleted ? undefined : data.imageUrls,
             isDeletedForAll: data.deletedForAll,
@@ -799,6 +955,22 @@ export class MessageService {
             videoUrl: isDeleted ? undefined : data.videoUrl,
             videoThumbnailUrl: isDeleted ? undefined : data.videoThumbnailUrl,
             videoDuration: isDeleted ? undefined : data.videoDuration,
+            videoStatus: isDeleted ? undefined : data.videoStatus,
+            uploadProgress: this.videoUploadProgress.get(docSnapshot.id),
+            // Voice note fields
+            audioUrl: isDeleted ? undefined : data.audioUrl,
+            audioDuration: isDeleted ? undefined : data.audioDuration,
+            audioWaveform: isDeleted ? undefined : data.audioWaveform,
+            // Reactions and replies
+            reactions: isDeleted ? undefined : this.toReactionSummaries(data.reactions, currentUser.uid),
+            myReaction: isDeleted ? null : data.reactions?.[currentUser.uid] ?? null,
+            replyTo: isDeleted || !data.replyTo ?
+              undefined :
+              this.toReplyPreview(data.replyTo, currentUser.uid, currentUser.displayName, activeConvo),
+            isEdited: !isDeleted && !!data.editedAt,
+            editedAt: isDeleted ? null : this.toDate(data.editedAt),
+            links: isDeleted ? undefined : data.links,
+            linkPreview: isDeleted ? null : data.linkPreview ?? null,
           });
         }
 
@@ -823,7 +995,7 @@ export class MessageService {
         // then pending messages (by their sequence-based id)
         const finalMessages = [...messages, ...remainingPending];
         
-        this._messages.set(finalMessages);
+        this._messages.set(this.resolveReplyPreviews(finalMessages));
 
         // Get the most recent message ID to detect new incoming messages
         const newestMessage = messages.length > 0 ? messages[messages.length - 1] : null;
@@ -841,6 +1013,15 @@ export class MessageService {
           this.lastProcessedMessageId = newestMessageId;
           // Small delay to avoid triggering RESET on conversations query during initial load
           setTimeout(() => this.markConversationAsRead(conversationId), 100);
+          
+          // Jump to a requested message now that the latest page is loaded
+          if (this.pendingFocus?.conversationId === conversationId) {
+            const { messageId } = this.pendingFocus;
+            this.pendingFocus = null;
+            this.focusMessage(messageId).catch(err =>
+              console.error('Error loading message to focus:', err)
+            );
+          }
         } else if (isIncomingMessage && this._activeConversation()?.id === conversationId) {
           // A new message arrived from the other user while we're viewing the conversation
           // Update our lastViewedAt so they can see we've read it
@@ -869,32 +1050,136 @@ export class MessageService {
   }
 
   /**
-   * Update the read status of all messages based on the current _otherUserLastViewedAt
-   * This is called when the other user's lastViewedAt timestamp changes
+   * Subscribe to the current user's scheduled messages in a conversation
+   * Delivered ones disappear from the list as the scheduled function sends them.
+   */
+  private subscribeToScheduledMessages(conversationId: string): void {
+    const currentUser = this.authService.user();
+    if (!currentUser) return;
+
+    this.unsubscribeFromScheduledMessages();
+
+    const scheduledRef = collection(this.firestore, 'conversations', conversationId, 'scheduledMessages');
+    const q = query(
+      scheduledRef,
+      where('senderId', '==', currentUser.uid),
+      orderBy('sendAt', 'asc')
+    );
+
+    this.scheduledMessagesUnsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        this._scheduledMessages.set(snapshot.docs.map(docSnap => ({
+          id: docSnap.id,
+          ...docSnap.data(),
+        }) as ScheduledMessage));
+      },
+      (error) => {
+        console.error('Error subscribing to scheduled messages:', error);
+      }
+    );
+  }
+
+  private unsubscribeFromScheduledMessages(): void {
+    if (this.scheduledMessagesUnsubscribe) {
+      this.scheduledMessagesUnsubscribe();
+      this.scheduledMessagesUnsubscribe = null;
+    }
+    this._scheduledMessages.set([]);
+  }
+
+  /**
+   * Listen to the other participants' read receipts for a conversation
+   * Only Premium users who send their own receipts may read them; firestore.rules
+   * rejects a listener otherwise (including when that participant hides theirs),
+   * and messages then stay unread with no receipts shown. In a group, receipts
+   * are only shown while everyone else's can be read.
+   */
+  private subscribeToReadReceipts(conversationId: string, otherUserIds: string[]): void {
+    this.unsubscribeFromReadReceipts();
+    if (!this.canSeeReadReceipts()) return;
+
+    this.readReceiptUnsubscribes = otherUserIds.map(otherUserId => onSnapshot(
+      doc(this.firestore, 'conversations', conversationId, 'readReceipts', otherUserId),
+      (docSnap) => {
+        const receipt = docSnap.data() as ReadReceipt | undefined;
+        this.otherUserReceipts.set(otherUserId, {
+          lastViewedAt: this.toDate(receipt?.lastViewedAt),
+          views: (receipt?.views ?? [])
+            .map(view => this.toDate(view))
+            .filter((view): view is Date => !!view),
+        });
+        this._readReceiptsAvailable.set(this.otherUserReceipts.size === otherUserIds.length);
+        this.updateMessageReadStates();
+      },
+      (error) => {
+        if (error.code !== 'permission-denied') {
+          console.error('Error subscribing to read receipt:', error);
+        }
+        this.unsubscribeFromReadReceipts();
+        this.updateMessageReadStates();
+      }
+    ));
+  }
+
+  private unsubscribeFromReadReceipts(): void {
+    this.readReceiptUnsubscribes.forEach(unsubscribe => unsubscribe());
+    this.readReceiptUnsubscribes = [];
+    this.resetReadReceipts();
+  }
+
+  private resetReadReceipts(): void {
+    this.otherUserReceipts = new Map();
+    this._readReceiptsAvailable.set(false);
+  }
+
+  /**
+   * Whether every other participant has read one of our messages, and when
+   * the last of them first saw it
+   */
+  private getReadState(createdAt: Date): { read: boolean; seenAt: Date | null } {
+    if (!this._readReceiptsAvailable()) {
+      return { read: false, seenAt: null };
+    }
+
+    let seenAt: Date | null = null;
+    for (const { lastViewedAt, views } of this.otherUserReceipts.values()) {
+      if (!lastViewedAt || createdAt > lastViewedAt) {
+        return { read: false, seenAt: null };
+      }
+      // Views older than the ones kept fall back to the latest view
+      const firstSeen = views.find(view => view >= createdAt) ?? lastViewedAt;
+      if (!seenAt || firstSeen > seenAt) seenAt = firstSeen;
+    }
+    return { read: true, seenAt };
+  }
+
+  /**
+   * Update the read status of all messages based on the current read receipt
+   * This is called when the other user's read receipt changes
    */
   private updateMessageReadStates(): void {
-    if (!this._otherUserLastViewedAt) return;
-    
     const currentMessages = this._messages();
     if (currentMessages.length === 0) return;
     
+    let hasChanges = false;
     const updatedMessages = currentMessages.map(message => {
-      if (!message.isOwn) {
-        // Not our message, keep as is
+      if (!message.isOwn || message.pending) {
+        // Not our (confirmed) message, keep as is
         return message;
       }
       
       // For our messages, check if the other user has viewed it
-      const isRead = message.createdAt <= this._otherUserLastViewedAt!;
+      const { read, seenAt } = this.getReadState(message.createdAt);
       
-      if (message.read !== isRead) {
-        return { ...message, read: isRead };
+      if (message.read !== read || message.seenAt?.getTime() !== seenAt?.getTime()) {
+        hasChanges = true;
+        return { ...message, read, seenAt };
       }
       return message;
     });
     
     // Only update if any read status changed
-    const hasChanges = updatedMessages.some((msg, i) => msg.read !== currentMessages[i].read);
     if (hasChanges) {
       this._messages.set(updatedMessages);
     }
@@ -946,112 +1231,258 @@ export class MessageService {
       }
 
       // Process and prepend older messages
-      const olderMessages: MessageDisplay[] = [];
+      const olderMessages = snapshot.docs.map(docSnapshot =>
+        this.toFetchedMessageDisplay(docSnapshot, currentUser, activeConvo)
+      );
+
+      // Prepend older messages to current messages
+      const currentMessages = this._messages();
+      this._messages.set(this.resolveReplyPreviews([...olderMessages, ...currentMessages]));
       
-      for (const docSnapshot of snapshot.docs) {
-        const data = docSnapshot.data() as Message;
-        
-        // Check if message is deleted for this user (but not deletedForAll)
-        const isDeletedForMe = data.deletedFor?.includes(currentUser.uid) && !data.deletedForAll;
+      return olderMessages.length > 0;
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      return false;
+    } finally {
+      this._loadingOlderMessages.set(false);
+    }
+  }
 
-        // Get sender info
-        let senderName: string | null = null;
-        let senderPhoto: string | null = null;
-        
-        if (data.senderId === currentUser.uid) {
-          // Use profile photo from Firestore, fallback to auth photo
-          const profile = this.userProfileService.profile();
-          senderName = currentUser.displayName;
-          senderPhoto = profile?.photoURL ?? currentUser.photoURL;
-        } else if (activeConvo) {
-          senderName = activeConvo.otherUser?.displayName || 'Unknown';
-          senderPhoto = activeConvo.otherUser?.photoURL || null;
-        }
+  /**
+   * Search all of the current user's conversations for messages matching a query
+   * Runs against the user's own server-maintained index; results are newest first
+   * and already exclude deleted messages and blocked users.
+   */
+  async searchMessages(searchQuery: string): Promise<MessageSearchResult[]> {
+    const searchFn = httpsCallable<{ query: string }, { results: MessageSearchResult[] }>(
+      this.functions,
+      'searchMessages'
+    );
+    const result = await searchFn({ query: searchQuery });
+    return result.data.results;
+  }
 
-        // Calculate timed image status
-        let imageViewedAt: Date | null = null;
-        let isImageExpired = false;
-        
-        if (data.imageTimer && data.imageViewedBy?.[currentUser.uid]) {
-          imageViewedAt = this.toDate(data.imageViewedBy[currentUser.uid]);
-          if (imageViewedAt) {
-            const expiresAt = new Date(imageViewedAt.getTime() + data.imageTimer * 1000);
-            isImageExpired = new Date() > expiresAt;
-          }
-        }
+  /**
+   * Request a downloadable copy of a conversation
+   * The archive is built in the background; the user gets an activity with
+   * the download link when it's ready.
+   */
+  async exportConversation(conversationId: string): Promise<void> {
+    const exportFn = httpsCallable<{ conversationId: string }, { exportId: string }>(
+      this.functions,
+      'exportConversation'
+    );
+    await exportFn({ conversationId });
+  }
 
-        // Calculate recipient viewing status for sender
-        let recipientViewedAt: Date | null = null;
-        let isRecipientViewing = false;
-        let recipientViewExpired = false;
-        
-        if (data.imageTimer && data.senderId === currentUser.uid) {
-          const recipientUid = Object.keys(data.imageViewedBy || {}).find(uid => uid !== currentUser.uid);
-          if (recipientUid && data.imageViewedBy?.[recipientUid]) {
-            recipientViewedAt = this.toDate(data.imageViewedBy[recipientUid]);
-            if (recipientViewedAt) {
-              const expiresAt = new Date(recipientViewedAt.getTime() + data.imageTimer * 1000);
-              const now = new Date();
-              isRecipientViewing = now <= expiresAt;
-              recipientViewExpired = now > expiresAt;
-            }
-          }
-        }
+  /**
+   * Ask for a message to be focused once its conversation opens
+   * If the conversation is already open, focuses it right away.
+   */
+  requestMessageFocus(conversationId: string, messageId: string): void {
+    if (this.activeConversationId === conversationId && this.hasMarkedAsRead) {
+      this.pendingFocus = null;
+      this.focusMessage(messageId).catch(err =>
+        console.error('Error loading message to focus:', err)
+      );
+      return;
+    }
+    this.pendingFocus = { conversationId, messageId };
+  }
 
-        const messageCreatedAt = this.toDate(data.createdAt) || new Date();
-        const isOwn = data.senderId === currentUser.uid;
-        
-        // Compute read status using lastViewedAt
-        let isRead = true;
-        if (isOwn && this._otherUserLastViewedAt) {
-          isRead = messageCreatedAt <= this._otherUserLastViewedAt;
-        } else if (isOwn) {
-          // No lastViewedAt data yet, assume unread
-          isRead = false;
-        }
+  /**
+   * Focus a message in the active conversation, loading history back to it if needed
+   * Returns false if the message couldn't be found or is too far back to load.
+   */
+  async focusMessage(messageId: string): Promise<boolean> {
+    if (!this._messages().some(m => m.id === messageId)) {
+      const loaded = await this.loadMessagesThrough(messageId);
+      if (!loaded) return false;
+    }
+    this._focusedMessageId.set(messageId);
+    return true;
+  }
 
-        // Check if message is deleted (either for everyone or just for me)
-        const isDeleted = data.deletedForAll || isDeletedForMe;
-        
-        olderMessages.push({
-          id: docSnapshot.id,
-          content: isDeleted ? '' : data.content,
-          isOwn,
-          createdAt: messageCreatedAt,
-          read: isRead,
-          type: isDeleted ? 'system' : data.type,
-          imageUrls: isDeleted ? undefined : data.imageUrls,
-          isDeletedForAll: data.deletedForAll,
-          isDeletedForMe,
-          senderId: data.senderId,
-          senderName,
-          senderPhoto,
-          imageTimer: isDeleted ? undefined : data.imageTimer,
-          imageViewedAt,
-          isImageExpired,
-          recipientViewedAt,
-          isRecipientViewing,
-          recipientViewExpired,
-          // Video fields
-          videoUrl: isDeleted ? undefined : data.videoUrl,
-          videoThumbnailUrl: isDeleted ? undefined : data.videoThumbnailUrl,
-          videoDuration: isDeleted ? undefined : data.videoDuration,
-        });
+  clearFocusedMessage(): void {
+    this._focusedMessageId.set(null);
+  }
+
+  /**
+   * Prepend history from a message up to the oldest loaded one, plus a page of
+   * context before it, so the message can be scrolled to without a gap
+   */
+  private async loadMessagesThrough(messageId: string): Promise<boolean> {
+    const currentUser = this.authService.user();
+    const activeConvo = this._activeConversation();
+    
+    if (!currentUser || !activeConvo || !this.oldestMessageDoc || this._loadingOlderMessages()) {
+      return false;
+    }
+
+    this._loadingOlderMessages.set(true);
+
+    try {
+      const messagesRef = collection(this.firestore, 'conversations', activeConvo.id, 'messages');
+      const target = await getDoc(doc(messagesRef, messageId));
+      if (!target.exists()) return false;
+
+      // Page backwards from the oldest loaded message until we reach the target
+      const throughDocs: QueryDocumentSnapshot<DocumentData>[] = [];
+      let before = this.oldestMessageDoc;
+      while (throughDocs.length < MessageService.MAX_JUMP_MESSAGES) {
+        const page = await getDocs(query(
+          messagesRef,
+          orderBy('createdAt', 'asc'),
+          startAt(target),
+          endBefore(before),
+          limitToLast(MessageService.JUMP_PAGE_SIZE)
+        ));
+        throughDocs.unshift(...page.docs);
+        if (page.docs.length < MessageService.JUMP_PAGE_SIZE || page.docs[0].id === messageId) break;
+        before = page.docs[0];
       }
+      if (throughDocs[0]?.id !== messageId) return false;
 
-      // Prepend older messages to current messages
-      const currentMessages = this._messages();
-      this._messages.set([...olderMessages, ...currentMessages]);
-      
-      return olderMessages.length > 0;
+      const contextSnapshot = await getDocs(query(
+        messagesRef,
+        orderBy('createdAt', 'asc'),
+        endBefore(target),
+        limitToLast(MessageService.MESSAGE_BATCH_SIZE)
+      ));
+
+      // The user may have switched conversations while we were loading
+      if (this.activeConversationId !== activeConvo.id) return false;
+
+      const docs = [...contextSnapshot.docs, ...throughDocs];
+      this.oldestMessageDoc = docs[0];
+      if (contextSnapshot.docs.length < MessageService.MESSAGE_BATCH_SIZE) {
+        this._hasOlderMessages.set(false);
+      }
+
+      const olderMessages = docs.map(docSnapshot =>
+        this.toFetchedMessageDisplay(docSnapshot, currentUser, activeConvo)
+      );
+      this._messages.set(this.resolveReplyPreviews([...olderMessages, ...this._messages()]));
+      return true;
     } catch (error) {
-      console.error('Error loading older messages:', error);
+      console.error('Error loading messages around search result:', error);
       return false;
     } finally {
       this._loadingOlderMessages.set(false);
     }
   }
 
+  /**
+   * Map a fetched (non-live) message document to its display form
+   */
+  private toFetchedMessageDisplay(
+    docSnapshot: QueryDocumentSnapshot<DocumentData>,
+    currentUser: AuthUser,
+    activeConvo: ConversationDisplay
+  ): MessageDisplay {
+    const data = docSnapshot.data() as Message;
+    
+    // Check if message is deleted for this user (but not deletedForAll)
+    const isDeletedForMe = data.deletedFor?.includes(currentUser.uid) && !data.deletedForAll;
+
+    // Get sender info
+    let senderName: string | null = null;
+    let senderPhoto: string | null = null;
+    
+    if (data.senderId === currentUser.uid) {
+      // Use profile photo from Firestore, fallback to auth photo
+      const profile = this.userProfileService.profile();
+      senderName = currentUser.displayName;
+      senderPhoto = profile?.photoURL ?? currentUser.photoURL;
+    } else if (activeConvo) {
+      const sender = this.getParticipant(activeConvo, data.senderId);
+      senderName = sender?.displayName || 'Unknown';
+      senderPhoto = sender?.photoURL || null;
+    }
+
+    // Calculate timed image status
+    let imageViewedAt: Date | null = null;
+    let isImageExpired = false;
+    
+    if (data.imageTimer && data.imageViewedBy?.[currentUser.uid]) {
+      imageViewedAt = this.toDate(data.imageViewedBy[currentUser.uid]);
+      if (imageViewedAt) {
+        const expiresAt = new Date(imageViewedAt.getTime() + data.imageTimer * 1000);
+        isImageExpired = new Date() > expiresAt;
+      }
+    }
+
+    // Calculate recipient viewing status for sender
+    let recipientViewedAt: Date | null = null;
+    let isRecipientViewing = false;
+    let recipientViewExpired = false;
+    
+    if (data.imageTimer && data.senderId === currentUser.uid) {
+      const recipientUid = Object.keys(data.imageViewedBy || {}).find(uid => uid !== currentUser.uid);
+      if (recipientUid && data.imageViewedBy?.[recipientUid]) {
+        recipientViewedAt = this.toDate(data.imageViewedBy[recipientUid]);
+        if (recipientViewedAt) {
+          const expiresAt = new Date(recipientViewedAt.getTime() + data.imageTimer * 1000);
+          const now = new Date();
+          isRecipientViewing = now <= expiresAt;
+          recipientViewExpired = now > expiresAt;
+        }
+      }
+    }
+
+    const messageCreatedAt = this.toDate(data.createdAt) || new Date();
+    const isOwn = data.senderId === currentUser.uid;
+    
+    // Compute read status using the other user's read receipt
+    const { read: isRead, seenAt } = isOwn
+      ? this.getReadState(messageCreatedAt)
+      : { read: true, seenAt: null };
+
+    // Check if message is deleted (either for everyone or just for me)
+    const isDeleted = data.deletedForAll || isDeletedForMe;
+    
+    return {
+      id: docSnapshot.id,
+      content: isDeleted ? '' : data.content,
+      isOwn,
+      createdAt: messageCreatedAt,
+      read: isRead,
+      seenAt,
+      type: isDeleted ? 'system' : data.type,
+      imageUrls: isDeleted ? undefined : data.imageUrls,
+      isDeletedForAll: data.deletedForAll,
+      isDeletedForMe,
+      senderId: data.senderId,
+      senderName,
+      senderPhoto,
+      imageTimer: isDeleted ? undefined : data.imageTimer,
+      imageViewedAt,
+      isImageExpired,
+      recipientViewedAt,
+      isRecipientViewing,
+      recipientViewExpired,
+      // Video fields
+      videoUrl: isDeleted ? undefined : data.videoUrl,
+      videoThumbnailUrl: isDeleted ? undefined : data.videoThumbnailUrl,
+      videoDuration: isDeleted ? undefined : data.videoDuration,
+      videoStatus: isDeleted ? undefined : data.videoStatus,
+      // Voice note fields
+      audioUrl: isDeleted ? undefined : data.audioUrl,
+      audioDuration: isDeleted ? undefined : data.audioDuration,
+      audioWaveform: isDeleted ? undefined : data.audioWaveform,
+      // Reactions and replies
+      reactions: isDeleted ? undefined : this.toReactionSummaries(data.reactions, currentUser.uid),
+      myReaction: isDeleted ? null : data.reactions?.[currentUser.uid] ?? null,
+      replyTo: isDeleted || !data.replyTo ?
+        undefined :
+        this.toReplyPreview(data.replyTo, currentUser.uid, currentUser.displayName, activeConvo),
+      isEdited: !isDeleted && !!data.editedAt,
+      editedAt: isDeleted ? null : this.toDate(data.editedAt),
+      links: isDeleted ? undefined : data.links,
+      linkPreview: isDeleted ? null : data.linkPreview ?? null,
+    };
+  }
+
   /**
    * Clear the message blocked state
    * Call this when the user dismisses an error message
@@ -1156,6 +1587,11 @@ export class MessageService {
     }
     this.currentTypingState = false;
 
+    // Attach the message being replied to (if any) and leave reply mode
+    const replyingTo = this._replyingTo();
+    const replyTo = replyingTo ? this.buildReplyRef(replyingTo) : undefined;
+    this._replyingTo.set(null);
+
     // Determine message type and content
     const messageType = hasImages ? 'image' : 'text';
     const messageContent = hasText ? content.trim() : 
@@ -1185,6 +1621,7 @@ export class MessageService {
       pending: true, // Mark as pending until confirmed
       imageUrls: tempImageUrls, // Include blob URLs for immediate preview
       imageTimer: hasImages && imageTimer ? imageTimer : undefined, // Include timer for timed images
+      replyTo: replyTo ? this.toReplyPreview(replyTo, currentUser.uid, currentUser.displayName, activeConversation) : undefined,
     };
     
     // Add optimistic message to UI immediately
@@ -1201,7 +1638,8 @@ export class MessageService {
       hasImages,
       hasText,
       tempId,
-      tempImageUrls
+      tempImageUrls,
+      replyTo
     ).catch(error => {
       console.error('Error sending message:', error);
       // Remove the optimistic message on error
@@ -1224,13 +1662,11 @@ export class MessageService {
     hasImages: boolean,
     hasText: boolean,
     tempId: string,
-    tempImageUrls?: string[]
+    tempImageUrls?: string[],
+    replyTo?: MessageReplyRef
   ): Promise<void> {
     // Check if recipient's account is disabled (in parallel with image uploads if any)
-    const otherUserId = activeConversation.otherUser?.uid;
-    const disabledCheckPromise = otherUserId 
-      ? this.isUserDisabled(otherUserId) 
-      : Promise.resolve(false);
+    const disabledCheckPromise = this.areRecipientsDisabled(activeConversation);
     
     // Upload images if any (runs in parallel with disabled check)
     let imageUrls: string[] = [];
@@ -1297,6 +1733,10 @@ export class MessageService {
       }
     }
 
+    if (replyTo) {
+      messageData['replyTo'] = replyTo;
+    }
+
     // Determine preview for conversation list
     let lastMessagePreview = messageContent;
     if (hasImages && !hasText) {
@@ -1321,7 +1761,7 @@ export class MessageService {
       conversationRef,
       lastMessagePreview,
       currentUser.uid,
-      activeConversation.otherUser.uid
+      this.getOtherParticipants(activeConversation).map(user => user.uid)
     );
     
     // Decrement local remaining message count
@@ -1338,7 +1778,7 @@ export class MessageService {
     conversationRef: ReturnType<typeof doc>,
     lastMessagePreview: string,
     senderId: string,
-    recipientId: string
+    recipientIds: string[]
   ): void {
     // Clear any pending update
     if (this.conversationUpdateTimeout) {
@@ -1358,8 +1798,10 @@ export class MessageService {
           createdAt: serverTimestamp(),
         },
         updatedAt: serverTimestamp(),
-        // Accumulate unread count from pending messages
-        [`unreadCount.${recipientId}`]: increment(pendingCount + 1),
+        // Accumulate unread count from pending messages, for every recipient
+        ...Object.fromEntries(recipientIds.map(recipientId =>
+          [`unreadCount.${recipientId}`, increment(pendingCount + 1)]
+        )),
         // Clear typing status
         [`typing.${senderId}`]: false,
       },
@@ -1417,6 +1859,11 @@ export class MessageService {
     }
     this.currentTypingState = false;
 
+    // Attach the message being replied to (if any) and leave reply mode
+    const replyingTo = this._replyingTo();
+    const replyTo = replyingTo ? this.buildReplyRef(replyingTo) : undefined;
+    this._replyingTo.set(null);
+
     // Generate temporary ID with sequence number for strict ordering
     const sequence = ++this.pendingMessageSequence;
     const tempId = `pending-video-${sequence}`;
@@ -1445,6 +1892,7 @@ export class MessageService {
       pending: true,
       videoUrl: tempVideoUrl,
       videoThumbnailUrl: tempThumbnailUrl,
+      replyTo: replyTo ? this.toReplyPreview(replyTo, currentUser.uid, currentUser.displayName, activeConversation) : undefined,
     };
     
     // Add optimistic message to UI immediately
@@ -1458,7 +1906,8 @@ export class MessageService {
       thumbnailBlob,
       tempId,
       tempVideoUrl,
-      tempThumbnailUrl
+      tempThumbnailUrl,
+      replyTo
     ).catch(error => {
       console.error('Error sending video message:', error);
       // Remove the optimistic message on error
@@ -1479,67 +1928,51 @@ export class MessageService {
     thumbnailBlob: Blob | undefined,
     tempId: string,
     tempVideoUrl: string,
-    tempThumbnailUrl?: string
+    tempThumbnailUrl?: string,
+    replyTo?: MessageReplyRef
   ): Promise<void> {
     // Check if recipient's account is disabled
-    const otherUserId = activeConversation.otherUser?.uid;
-    if (otherUserId) {
-      const recipientDisabled = await this.isUserDisabled(otherUserId);
-      if (recipientDisabled) {
-        console.warn('Cannot send message: recipient account is disabled');
-        this._messages.update(msgs => msgs.filter(m => m.id !== tempId));
-        URL.revokeObjectURL(tempVideoUrl);
-        if (tempThumbnailUrl) URL.revokeObjectURL(tempThumbnailUrl);
-        return;
-      }
+    if (await this.areRecipientsDisabled(activeConversation)) {
+      console.warn('Cannot send message: recipient account is disabled');
+      this._messages.update(msgs => msgs.filter(m => m.id !== tempId));
+      URL.revokeObjectURL(tempVideoUrl);
+      if (tempThumbnailUrl) URL.revokeObjectURL(tempThumbnailUrl);
+      return;
     }
 
-    // Convert video file to base64
-    const videoBase64 = await this.fileToBase64(videoFile);
-    
     // Convert thumbnail to base64 if provided
     let thumbnailBase64: string | undefined;
     if (thumbnailBlob) {
       thumbnailBase64 = await this.blobToBase64(thumbnailBlob);
     }
 
-    // Call the cloud function to upload video
-    const uploadFn = httpsCallable<
-      { videoData: string; mimeType: string; fileName: string; conversationId: string; thumbnailData?: string },
-      UploadVideoResponse
-    >(this.functions, 'uploadConversationVideo');
+    // Reserve the message ID and a resumable upload session (the thumbnail is stored right away)
+    const createUploadFn = httpsCallable<
+      { conversationId: string; mimeType: string; size: number; fileName: string; thumbnailData?: string },
+      CreateVideoUploadResponse
+    >(this.functions, 'createConversationVideoUpload');
 
-    const result = await uploadFn({
-      videoData: videoBase64,
+    const session = await createUploadFn({
+      conversationId: activeConversation.id,
       mimeType: videoFile.type,
+      size: videoFile.size,
       fileName: videoFile.name,
-      conversationId: activeConversation.id,
       thumbnailData: thumbnailBase64,
     });
 
-    if (!result.data.success || !result.data.videoUrl) {
-      throw new Error(result.data.error || 'Failed to upload video');
+    if (!session.data.success) {
+      throw new Error('Failed to start video upload');
     }
 
-    // Clean up blob URLs now that real URLs are available
-    URL.revokeObjectURL(tempVideoUrl);
-    if (tempThumbnailUrl) URL.revokeObjectURL(tempThumbnailUrl);
+    const { messageId, uploadUrl, thumbnailUrl } = session.data;
 
-    // Update the optimistic message with uploaded URLs
-    this._messages.update(msgs => msgs.map(m => 
-      m.id === tempId ? { 
-        ...m, 
-        videoUrl: result.data.videoUrl, 
-        videoThumbnailUrl: result.data.thumbnailUrl 
-      } : m
-    ));
-
-    // Create message document in Firestore
-    const messagesRef = collection(
+    // Create the message first; the upload trigger adds the video once it's validated
+    const messageRef = doc(
       this.firestore,
       'conversations',
       activeConversation.id,
-      'messages'
+      'messages',
+      messageId
     );
 
     const messageData: Record<string, unknown> = {
@@ -1548,12 +1981,15 @@ export class MessageService {
       content: 'Sent a video',
       createdAt: serverTimestamp(),
       type: 'video',
-      videoUrl: result.data.videoUrl,
-      videoThumbnailUrl: result.data.thumbnailUrl,
+      videoStatus: 'uploading',
     };
 
-    if (result.data.duration) {
-      messageData['videoDuration'] = result.data.duration;
+    if (thumbnailUrl) {
+      messageData['videoThumbnailUrl'] = thumbnailUrl;
+    }
+
+    if (replyTo) {
+      messageData['replyTo'] = replyTo;
     }
 
     // Get conversation reference for metadata update
@@ -1563,54 +1999,240 @@ export class MessageService {
       activeConversation.id
     );
 
-    // Create the message
-    await addDoc(messagesRef, messageData);
+    this.videoUploadProgress.set(messageId, 0);
+    await setDoc(messageRef, messageData);
     
     // Schedule conversation metadata update
     this.scheduleConversationUpdate(
       conversationRef,
       '🎬 Video',
       currentUser.uid,
-      activeConversation.otherUser.uid
+      this.getOtherParticipants(activeConversation).map(user => user.uid)
     );
     
     // Decrement local remaining message count
     this.decrementRemainingMessages();
+
+    try {
+      await this.resumableUpload.upload(uploadUrl, videoFile, (percent) => {
+        this.setVideoUploadProgress(messageId, percent);
+      });
+    } catch (error) {
+      // Let both sides see the video isn't coming
+      await updateDoc(messageRef, { videoStatus: 'failed' }).catch(() => undefined);
+      throw error;
+    } finally {
+      this.videoUploadProgress.delete(messageId);
+      this.setVideoUploadProgress(messageId, undefined);
+      URL.revokeObjectURL(tempVideoUrl);
+      if (tempThumbnailUrl) URL.revokeObjectURL(tempThumbnailUrl);
+    }
   }
 
   /**
-   * Convert a File to base64 string
+   * Show upload progress on one of our video messages
    */
-  private fileToBase64(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove data URL prefix
-        const base64 = result.split(',')[1] || result;
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
+  private setVideoUploadProgress(messageId: string, percent: number | undefined): void {
+    if (percent !== undefined) {
+      this.videoUploadProgress.set(messageId, percent);
+    }
+    this._messages.update(msgs => msgs.map(m =>
+      m.id === messageId && m.uploadProgress !== percent ? { ...m, uploadProgress: percent } : m
+    ));
   }
 
   /**
-   * Convert a Blob to base64 string
+   * Send a voice note in the active conversation
+   * @param audioBlob The recorded voice note (16-bit PCM WAV)
+   * @param duration Duration in seconds, shown until the server confirms it
    */
-  private blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove data URL prefix
-        const base64 = result.split(',')[1] || result;
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
-  }
+  async sendAudioMessage(audioBlob: Blob, duration: number): Promise<void> {
+    const authUser = this.authService.user();
+    const activeConversation = this._activeConversation();
+
+    if (!authUser || !activeConversation || !audioBlob) return;
+
+    // Use profile photoURL from Firestore (user's chosen photo), fallback to auth photo
+    const profile = this.userProfileService.profile();
+    const currentUser = {
+      uid: authUser.uid,
+      displayName: authUser.displayName,
+      photoURL: profile?.photoURL ?? authUser.photoURL,
+    };
+
+    // Check if blocked
+    if (this._messageBlocked()) {
+      return;
+    }
+
+    // Record send time to suppress typing updates
+    this.lastMessageSentAt = Date.now();
+    
+    // Reset typing state
+    if (this.typingTimeout) {
+      clearTimeout(this.typingTimeout);
+      this.typingTimeout = null;
+    }
+    this.currentTypingState = false;
+
+    // Attach the message being replied to (if any) and leave reply mode
+    const replyingTo = this._replyingTo();
+    const replyTo = replyingTo ? this.buildReplyRef(replyingTo) : undefined;
+    this._replyingTo.set(null);
+
+    // Generate temporary ID with sequence number for strict ordering
+    const sequence = ++this.pendingMessageSequence;
+    const tempId = `pending-audio-${sequence}`;
+    
+    // Use a timestamp that ensures proper ordering
+    const optimisticTimestamp = new Date(Date.now() + sequence);
+    
+    // Create temporary blob URL so the sender can play it back immediately
+    const tempAudioUrl = URL.createObjectURL(audioBlob);
+    
+    // Create optimistic message for immediate UI update
+    const optimisticMessage: MessageDisplay = {
+      id: tempId,
+      content: 'Sent a voice note',
+      isOwn: true,
+      createdAt: optimisticTimestamp,
+      read: false,
+      type: 'audio',
+      senderId: currentUser.uid,
+      senderName: currentUser.displayName,
+      senderPhoto: currentUser.photoURL,
+      pending: true,
+      audioUrl: tempAudioUrl,
+      audioDuration: duration,
+      replyTo: replyTo ? this.toReplyPreview(replyTo, currentUser.uid, currentUser.displayName, activeConversation) : undefined,
+    };
+    
+    // Add optimistic message to UI immediately
+    this._messages.update(msgs => [...msgs, optimisticMessage]);
+
+    // Send in background
+    this.sendAudioToServer(
+      activeConversation,
+      currentUser,
+      audioBlob,
+      tempId,
+      tempAudioUrl,
+      replyTo
+    ).catch(error => {
+      console.error('Error sending voice note:', error);
+      // Remove the optimistic message on error
+      this._messages.update(msgs => msgs.filter(m => m.id !== tempId));
+      URL.revokeObjectURL(tempAudioUrl);
+    });
+  }
+
+  /**
+   * Internal method to upload a voice note and create the message in Firestore
+   */
+  private async sendAudioToServer(
+    activeConversation: ConversationDisplay,
+    currentUser: { uid: string; displayName: string | null; photoURL: string | null },
+    audioBlob: Blob,
+    tempId: string,
+    tempAudioUrl: string,
+    replyTo?: MessageReplyRef
+  ): Promise<void> {
+    // Check if recipient's account is disabled
+    if (await this.areRecipientsDisabled(activeConversation)) {
+      console.warn('Cannot send message: recipient account is disabled');
+      this._messages.update(msgs => msgs.filter(m => m.id !== tempId));
+      URL.revokeObjectURL(tempAudioUrl);
+      return;
+    }
+
+    // Upload via the cloud function, which validates the audio and computes the waveform
+    const uploadFn = httpsCallable<
+      { audioData: string; mimeType: string; conversationId: string },
+      UploadAudioResponse
+    >(this.functions, 'uploadConversationAudio');
+
+    const result = await uploadFn({
+      audioData: await this.blobToBase64(audioBlob),
+      mimeType: 'audio/wav',
+      conversationId: activeConversation.id,
+    });
+
+    if (!result.data.success || !result.data.audioUrl) {
+      throw new Error(result.data.error || 'Failed to upload voice note');
+    }
+
+    // Swap the blob URL for the uploaded file
+    URL.revokeObjectURL(tempAudioUrl);
+    this._messages.update(msgs => msgs.map(m => 
+      m.id === tempId ? { 
+        ...m, 
+        audioUrl: result.data.audioUrl,
+        audioDuration: result.data.duration,
+        audioWaveform: result.data.waveform,
+      } : m
+    ));
+
+    // Create message document in Firestore
+    const messagesRef = collection(
+      this.firestore,
+      'conversations',
+      activeConversation.id,
+      'messages'
+    );
+
+    const messageData: Record<string, unknown> = {
+      conversationId: activeConversation.id,
+      senderId: currentUser.uid,
+      content: 'Sent a voice note',
+      createdAt: serverTimestamp(),
+      type: 'audio',
+      audioUrl: result.data.audioUrl,
+      audioDuration: result.data.duration,
+      audioWaveform: result.data.waveform,
+    };
+
+    if (replyTo) {
+      messageData['replyTo'] = replyTo;
+    }
+
+    // Get conversation reference for metadata update
+    const conversationRef = doc(
+      this.firestore,
+      'conversations',
+      activeConversation.id
+    );
+
+    // Create the message
+    await addDoc(messagesRef, messageData);
+    
+    // Schedule conversation metadata update
+    this.scheduleConversationUpdate(
+      conversationRef,
+      '🎤 Voice note',
+      currentUser.uid,
+      this.getOtherParticipants(activeConversation).map(user => user.uid)
+    );
+    
+    // Decrement local remaining message count
+    this.decrementRemainingMessages();
+  }
+
+  /**
+   * Convert a Blob to base64 string
+   */
+  private blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const result = reader.result as string;
+        // Remove data URL prefix
+        const base64 = result.split(',')[1] || result;
+        resolve(base64);
+      };
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  }
 
   /**
    * Delete a message for the current user only
@@ -1697,7 +2319,24 @@ export class MessageService {
         deletedForAllAt: serverTimestamp(),
         content: '', // Clear the text content
         imageUrls: deleteField(), // Remove image URLs entirely
+        audioUrl: deleteField(), // Remove voice note
+        audioWaveform: deleteField(),
       });
+
+      // Clear the quoted snippet from any replies to this message
+      const repliesSnapshot = await getDocs(
+        query(messagesRef, where('replyTo.messageId', '==', messageId))
+      );
+      if (!repliesSnapshot.empty) {
+        const batch = writeBatch(this.firestore);
+        repliesSnapshot.docs.forEach(replyDoc => {
+          batch.update(replyDoc.ref, {
+            'replyTo.content': '',
+            'replyTo.deleted': true,
+          });
+        });
+        await batch.commit();
+      }
     } catch (error) {
       console.error('Error deleting message for everyone:', error);
       throw error;
@@ -1734,7 +2373,209 @@ export class MessageService {
   }
 
   /**
-   * Start or get an existing conversation with another user.
+   * Set (or clear, with null) the current user's reaction to a message
+   * Each user has at most one reaction per message; setting a new one replaces it.
+   */
+  async setReaction(messageId: string, emoji: string | null): Promise<void> {
+    const currentUser = this.authService.user();
+    const activeConversation = this._activeConversation();
+    
+    if (!currentUser || !activeConversation || messageId.startsWith('pending-')) return;
+
+    // Optimistic update so the reaction shows immediately
+    const previousMessages = this._messages();
+    this._messages.set(previousMessages.map(m =>
+      m.id === messageId ?
+        { ...m, reactions: this.replaceOwnReaction(m.reactions ?? [], emoji), myReaction: emoji } :
+        m
+    ));
+
+    try {
+      const messageRef = doc(
+        this.firestore,
+        'conversations',
+        activeConversation.id,
+        'messages',
+        messageId
+      );
+
+      // Use dot notation so only the current user's entry changes
+      await updateDoc(messageRef, {
+        [`reactions.${currentUser.uid}`]: emoji ?? deleteField(),
+      });
+    } catch (error) {
+      console.error('Error setting reaction:', error);
+      this._messages.set(previousMessages);
+      throw error;
+    }
+  }
+
+  /**
+   * Start replying to a message (the next message sent quotes it)
+   */
+  setReplyingTo(message: MessageDisplay): void {
+    if (message.pending || message.isDeletedForAll || message.isDeletedForMe) return;
+    this._editingMessage.set(null);
+    this._replyingTo.set(message);
+  }
+
+  /**
+   * Cancel replying to a message
+   */
+  clearReplyingTo(): void {
+    this._replyingTo.set(null);
+  }
+
+  /**
+   * Start editing one of the user's own messages
+   */
+  setEditingMessage(message: MessageDisplay): void {
+    if (!isMessageEditable(message)) return;
+    this._replyingTo.set(null);
+    this._editingMessage.set(message);
+  }
+
+  /**
+   * Cancel editing a message
+   */
+  clearEditingMessage(): void {
+    this._editingMessage.set(null);
+  }
+
+  /**
+   * Edit the text of one of the user's own messages
+   * Only allowed within MESSAGE_EDIT_WINDOW_MS of sending. The previous version is
+   * kept in the message's edits array, and the conversation preview is updated
+   * if this is the latest message.
+   */
+  async editMessage(messageId: string, content: string): Promise<void> {
+    const currentUser = this.authService.user();
+    const activeConversation = this._activeConversation();
+    
+    if (!currentUser || !activeConversation) return;
+
+    this._editingMessage.set(null);
+    const message = this._messages().find(m => m.id === messageId);
+    if (!message || !isMessageEditable(message)) {
+      throw new Error('This message can no longer be edited');
+    }
+
+    const newContent = content.trim();
+    if (!newContent || newContent === message.content) return;
+
+    // Optimistic update so the edit shows immediately
+    const previousMessages = this._messages();
+    this._messages.set(previousMessages.map(m =>
+      m.id === messageId ? { ...m, content: newContent, isEdited: true, editedAt: new Date() } : m
+    ));
+
+    try {
+      const messageRef = doc(
+        this.firestore,
+        'conversations',
+        activeConversation.id,
+        'messages',
+        messageId
+      );
+
+      // serverTimestamp() isn't allowed inside arrays, so the replaced version uses the client time
+      await updateDoc(messageRef, {
+        content: newContent,
+        editedAt: serverTimestamp(),
+        edits: arrayUnion({ content: message.content, editedAt: Timestamp.now() }),
+      });
+
+      // Keep the conversation list preview in sync when the latest message changes
+      const latestMessage = previousMessages.filter(m => !m.pending).at(-1);
+      if (latestMessage?.id === messageId) {
+        const conversationRef = doc(this.firestore, 'conversations', activeConversation.id);
+        await updateDoc(conversationRef, {
+          'lastMessage.content': newContent,
+        });
+      }
+    } catch (error) {
+      console.error('Error editing message:', error);
+      this._messages.set(previousMessages);
+      throw error;
+    }
+  }
+
+  /**
+   * Schedule a text message to be sent later in the active conversation
+   * The message is delivered by the deliverScheduledMessages function, which
+   * re-checks permission and block state at send time.
+   */
+  async scheduleMessage(content: string, sendAt: Date): Promise<void> {
+    const currentUser = this.authService.user();
+    const activeConversation = this._activeConversation();
+    const text = content.trim();
+
+    if (!currentUser || !activeConversation || !text) return;
+    if (this._messageBlocked()) return;
+    if (activeConversation.isGroup) {
+      throw new Error('Messages can only be scheduled in 1:1 chats');
+    }
+    this.assertValidSendAt(sendAt);
+
+    // Leave reply mode: scheduled messages are sent without a quote
+    this._replyingTo.set(null);
+
+    const scheduledRef = collection(this.firestore, 'conversations', activeConversation.id, 'scheduledMessages');
+    await addDoc(scheduledRef, {
+      senderId: currentUser.uid,
+      recipientId: activeConversation.otherUser.uid,
+      content: text,
+      sendAt: Timestamp.fromDate(sendAt),
+      status: 'scheduled',
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Change the text or send time of a scheduled message
+   * Saving a failed message schedules it again.
+   */
+  async updateScheduledMessage(scheduledId: string, content: string, sendAt: Date): Promise<void> {
+    const activeConversation = this._activeConversation();
+    const text = content.trim();
+
+    if (!activeConversation || !text) return;
+    this.assertValidSendAt(sendAt);
+
+    const scheduledRef = doc(this.firestore, 'conversations', activeConversation.id, 'scheduledMessages', scheduledId);
+    await updateDoc(scheduledRef, {
+      content: text,
+      sendAt: Timestamp.fromDate(sendAt),
+      status: 'scheduled',
+      failureReason: deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Cancel a scheduled message
+   */
+  async cancelScheduledMessage(scheduledId: string): Promise<void> {
+    const activeConversation = this._activeConversation();
+    if (!activeConversation) return;
+
+    const scheduledRef = doc(this.firestore, 'conversations', activeConversation.id, 'scheduledMessages', scheduledId);
+    await deleteDoc(scheduledRef);
+  }
+
+  private assertValidSendAt(sendAt: Date): void {
+    const time = sendAt.getTime();
+    if (isNaN(time) || time <= Date.now()) {
+      throw new Error('Scheduled time must be in the future');
+    }
+    if (time - Date.now() >= SCHEDULED_MESSAGE_MAX_AHEAD_MS) {
+      throw new Error('Messages can be scheduled at most 30 days ahead');
+    }
+  }
+
+  /**
+   * Start or get an existing 1:1 conversation with another user.
    * Only stores participant UIDs - profile data (displayName, photoURL, 
    * reputationTier) is fetched fresh from user documents when needed.
    */
@@ -1752,7 +2593,7 @@ export class MessageService {
     const snapshot = await getDocs(q);
     const existingConv = snapshot.docs.find((doc) => {
       const data = doc.data() as Conversation;
-      return data.participants.includes(otherUserId);
+      return !data.isGroup && data.participants.includes(otherUserId);
     });
 
     if (existingConv) {
@@ -1770,17 +2611,44 @@ export class MessageService {
         [currentUser.uid]: 0,
         [otherUserId]: 0,
       },
-      // Only set lastViewedAt for the creator - the other user won't see this
-      // conversation until a message is sent (prevents empty convos showing up)
-      lastViewedAt: {
-        [currentUser.uid]: serverTimestamp(),
-      },
     };
 
     const docRef = await addDoc(conversationsRef, newConversation);
+    // Only mark it viewed for the creator - the other user won't see this
+    // conversation until a message is sent (prevents empty convos showing up)
+    await this.updateConversationSettings(docRef.id, { lastViewedAt: serverTimestamp() })
+      .catch(() => {}); // Logged; it just won't be listed until a message is sent
     return docRef.id;
   }
 
+  /**
+   * Create a group conversation with the current user and up to three others
+   * (or get the existing group with exactly these members). Blocks and messaging
+   * permission are checked for every member by the createGroupConversation
+   * Cloud Function, which rejects with details { reason, userId } and leaves
+   * out members who have blocked each other.
+   */
+  async createGroupConversation(participantIds: string[]): Promise<string> {
+    const createFn = httpsCallable<{ participantIds: string[] }, { conversationId: string }>(
+      this.functions,
+      'createGroupConversation'
+    );
+    const result = await createFn({ participantIds });
+    return result.data.conversationId;
+  }
+
+  /**
+   * Leave a group conversation. The group carries on without the current user,
+   * who can no longer read it.
+   */
+  async leaveGroupConversation(conversationId: string): Promise<void> {
+    const leaveFn = httpsCallable<{ conversationId: string }, { success: boolean }>(
+      this.functions,
+      'leaveGroupConversation'
+    );
+    await leaveFn({ conversationId });
+  }
+
   /**
    * Check if the current user can start a conversation with another user.
    * This proactively checks higher-tier conversation limits before creating
@@ -1808,6 +2676,8 @@ export class MessageService {
    * Mark a conversation as read by updating the user's lastViewedAt timestamp.
    * Messages are considered "read" if created before this timestamp.
    * This is much more efficient than updating individual message documents.
+   * lastViewedAt is private (conversationSettings); onConversationViewed
+   * publishes it as a read receipt unless the user hides theirs.
    */
   private async markConversationAsRead(conversationId: string): Promise<void> {
     const currentUser = this.authService.user();
@@ -1815,16 +2685,116 @@ export class MessageService {
 
     try {
       const conversationRef = doc(this.firestore, 'conversations', conversationId);
-      // Update lastViewedAt and reset unread count in a single write
-      await updateDoc(conversationRef, {
-        [`lastViewedAt.${currentUser.uid}`]: serverTimestamp(),
-        [`unreadCount.${currentUser.uid}`]: 0,
-      });
+      await Promise.all([
+        updateDoc(conversationRef, {
+          [`unreadCount.${currentUser.uid}`]: 0,
+        }),
+        this.updateConversationSettings(conversationId, { lastViewedAt: serverTimestamp() }),
+      ]);
     } catch (error) {
       console.error('Error marking conversation as read:', error);
     }
   }
 
+  /**
+   * Group a message's reactions map by emoji, most used first
+   */
+  private toReactionSummaries(
+    reactions: Message['reactions'],
+    currentUserId: string
+  ): MessageReactionSummary[] {
+    const summaries = new Map<string, MessageReactionSummary>();
+    Object.entries(reactions ?? {}).forEach(([uid, emoji]) => {
+      const summary = summaries.get(emoji) ?? { emoji, count: 0, reactedByMe: false };
+      summary.count++;
+      summary.reactedByMe = summary.reactedByMe || uid === currentUserId;
+      summaries.set(emoji, summary);
+    });
+    return Array.from(summaries.values()).sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Swap the current user's reaction in a list of summaries (for optimistic updates)
+   */
+  private replaceOwnReaction(
+    summaries: MessageReactionSummary[],
+    emoji: string | null
+  ): MessageReactionSummary[] {
+    const others = summaries
+      .map(summary => ({ ...summary, count: summary.count - (summary.reactedByMe ? 1 : 0), reactedByMe: false }))
+      .filter(summary => summary.count > 0);
+    if (!emoji) return others;
+
+    const existing = others.find(summary => summary.emoji === emoji);
+    const updated = existing ?
+      others.map(summary => summary === existing ? { ...summary, count: summary.count + 1, reactedByMe: true } : summary) :
+      [...others, { emoji, count: 1, reactedByMe: true }];
+    return updated.sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Build the reference stored on a reply
+   * Timed images never store a snippet, so the quote can't outlive the timer.
+   */
+  private buildReplyRef(message: MessageDisplay): MessageReplyRef {
+    const isTimedImage = message.type === 'image' && !!message.imageTimer;
+    return {
+      messageId: message.id,
+      senderId: message.senderId,
+      type: message.type,
+      content: isTimedImage ? '' : message.content.substring(0, MessageService.REPLY_SNIPPET_LENGTH),
+      ...(isTimedImage && { isTimedImage: true }),
+    };
+  }
+
+  /**
+   * Convert a stored reply reference to a display preview
+   * Only reflects what was stored; resolveReplyPreviews applies the original's live state.
+   */
+  private toReplyPreview(
+    replyTo: MessageReplyRef,
+    currentUserId: string,
+    currentUserName: string | null,
+    conversation: ConversationDisplay | null
+  ): MessageReplyPreview {
+    const isOwn = replyTo.senderId === currentUserId;
+    const isDeleted = !!replyTo.deleted;
+    return {
+      messageId: replyTo.messageId,
+      isOwn,
+      senderName: isOwn ?
+        currentUserName :
+        (conversation && this.getParticipant(conversation, replyTo.senderId)?.displayName) ?? null,
+      type: replyTo.type,
+      content: isDeleted || replyTo.isTimedImage ? '' : replyTo.content,
+      isTimedImage: !!replyTo.isTimedImage,
+      isDeleted,
+      isExpired: false,
+    };
+  }
+
+  /**
+   * Update reply previews from their originals when those are loaded,
+   * so a quote disappears as soon as the original is deleted or its timed image expires
+   */
+  private resolveReplyPreviews(messages: MessageDisplay[]): MessageDisplay[] {
+    const messagesById = new Map(messages.map(m => [m.id, m]));
+    return messages.map(message => {
+      const original = message.replyTo && messagesById.get(message.replyTo.messageId);
+      if (!message.replyTo || !original) return message;
+
+      const isDeleted = message.replyTo.isDeleted || !!original.isDeletedForAll || !!original.isDeletedForMe;
+      const isExpired = !!original.isImageExpired;
+      if (isDeleted === message.replyTo.isDeleted && isExpired === message.replyTo.isExpired) {
+        return message;
+      }
+      return {
+        ...message,
+        replyTo: { ...message.replyTo, isDeleted, isExpired, content: isDeleted ? '' : message.replyTo.content },
+      };
+    });
+  }
+
   /**
    * Helper to convert Firestore timestamp to Date
    * Returns null if the value cannot be converted
@@ -1842,7 +2812,7 @@ export class MessageService {
   }
 
   /**
-   * Find an existing conversation with a user by their ID
+   * Find an existing 1:1 conversation with a user by their ID
    * Returns the conversation ID if found, null otherwise
    */
   async findConversationByUserId(otherUserId: string): Promise<string | null> {
@@ -1858,7 +2828,7 @@ export class MessageService {
     const snapshot = await getDocs(q);
     const existingConv = snapshot.docs.find((doc) => {
       const data = doc.data() as Conversation;
-      return data.participants.includes(otherUserId);
+      return !data.isGroup && data.participants.includes(otherUserId);
     });
 
     return existingConv?.id ?? null;
@@ -1906,6 +2876,81 @@ export class MessageService {
     }
   }
 
+  /**
+   * Pin or unpin a conversation for the current user
+   */
+  async setConversationPinned(conversationId: string, pinned: boolean): Promise<void> {
+    await this.updateConversationSettings(conversationId, {
+      pinnedAt: pinned ? serverTimestamp() : null,
+    });
+  }
+
+  /**
+   * Mute a conversation for the current user
+   * While muted, new messages still arrive but create no activity or email notification.
+   */
+  async muteConversation(conversationId: string, duration: ConversationMuteDuration): Promise<void> {
+    const mutedUntil = duration === 'forever' ?
+      MessageService.MUTE_FOREVER_UNTIL :
+      new Date(Date.now() + MessageService.MUTE_DURATIONS_MS[duration]);
+    await this.updateConversationSettings(conversationId, {
+      mutedUntil: Timestamp.fromDate(mutedUntil),
+    });
+  }
+
+  async unmuteConversation(conversationId: string): Promise<void> {
+    await this.updateConversationSettings(conversationId, { mutedUntil: null });
+  }
+
+  /**
+   * Whether a mute runs until the user turns it back off
+   */
+  isMutedIndefinitely(mutedUntil: Date | null | undefined): boolean {
+    return !!mutedUntil && mutedUntil.getTime() >= MessageService.MUTE_FOREVER_UNTIL.getTime();
+  }
+
+  /**
+   * Replace the current user's labels on a conversation
+   * Labels are trimmed and de-duplicated (ignoring case); a label disappears
+   * from the filter options once no conversation has it.
+   */
+  async setConversationLabels(conversationId: string, labels: string[]): Promise<void> {
+    const normalized: string[] = [];
+    for (const label of labels) {
+      const trimmed = label.trim().replace(/\s+/g, ' ').slice(0, CONVERSATION_LABEL_MAX_LENGTH);
+      if (trimmed && !normalized.some(l => l.toLowerCase() === trimmed.toLowerCase())) {
+        normalized.push(trimmed);
+      }
+    }
+    if (normalized.length > CONVERSATION_LABELS_MAX) {
+      throw new Error(`A conversation can have at most ${CONVERSATION_LABELS_MAX} labels`);
+    }
+
+    await this.updateConversationSettings(conversationId, { labels: normalized });
+
+    // Don't leave the list filtered by a label that no longer exists
+    const filter = this._conversationFilter();
+    if (filter.startsWith('label:') && !this.conversationLabels().includes(filter.slice('label:'.length))) {
+      this._conversationFilter.set('all');
+    }
+  }
+
+  private async updateConversationSettings(
+    conversationId: string,
+    changes: Partial<ConversationSettings>
+  ): Promise<void> {
+    const currentUser = this.authService.user();
+    if (!currentUser) return;
+
+    try {
+      const settingsRef = doc(this.firestore, 'users', currentUser.uid, 'conversationSettings', conversationId);
+      await setDoc(settingsRef, { ...changes, updatedAt: serverTimestamp() }, { merge: true });
+    } catch (error) {
+      console.error('Error updating conversation settings:', error);
+      throw error;
+    }
+  }
+
   /**
    * Format last active time for display
    */
@@ -1943,12 +2988,37 @@ export class MessageService {
     }
   }
 
+  /**
+   * Whether no one can receive messages in a conversation (every other participant is disabled)
+   */
+  private async areRecipientsDisabled(conversation: ConversationDisplay): Promise<boolean> {
+    const recipientIds = this.getOtherParticipants(conversation).map(user => user.uid).filter(Boolean);
+    if (recipientIds.length === 0) return false;
+    const disabled = await Promise.all(recipientIds.map(uid => this.isUserDisabled(uid)));
+    return disabled.every(Boolean);
+  }
+
+  /**
+   * Every other participant in a conversation
+   */
+  getOtherParticipants(conversation: ConversationDisplay): ConversationParticipant[] {
+    return conversation.otherUsers ?? [conversation.otherUser];
+  }
+
+  /**
+   * Another participant in a conversation by ID
+   */
+  private getParticipant(conversation: ConversationDisplay, uid: string): ConversationParticipant | undefined {
+    return this.getOtherParticipants(conversation).find(user => user.uid === uid);
+  }
+
   /**
    * Clean up all subscriptions
    */
   cleanup(): void {
     this.unsubscribeFromConversations();
     this.unsubscribeFromMessages();
+    this.unsubscribeFromScheduledMessages();
     this.unsubscribeFromUserStatus();
     if (this.typingTimeout) {
       clearTimeout(this.typingTimeout);
@@ -1958,6 +3028,8 @@ export class MessageService {
     this.oldestMessageDoc = null;
     this.hasMarkedAsRead = false;
     this.lastProcessedMessageId = null;
-    this._otherUserLastViewedAt = null;
+    this.unsubscribeFromReadReceipts();
+    this.pendingFocus = null;
+    this._focusedMessageId.set(null);
   }
 }
@@ -0,0 +1,81 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { Auth } from '@angular/fire/auth';
+import { Functions, httpsCallable } from '@angular/fire/functions';
+import { ReportListFilter, ReportListPage, ResolveReportRequest } from '../interfaces';
+
+/**
+ * Moderation console API
+ * All calls require the admin custom claim on the signed-in user.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ModerationService {
+  private readonly auth = inject(Auth);
+  private readonly functions = inject(Functions);
+
+  private readonly _isModerator = signal(false);
+  readonly isModerator = this._isModerator.asReadonly();
+
+  /**
+   * Check the signed-in user's token for the admin claim
+   */
+  async checkModerator(): Promise<boolean> {
+    const user = this.auth.currentUser;
+    if (!user) {
+      this._isModerator.set(false);
+      return false;
+    }
+
+    try {
+      const token = await user.getIdTokenResult();
+      const isModerator = token.claims['admin'] === true;
+      this._isModerator.set(isModerator);
+      return isModerator;
+    } catch (error) {
+      console.error('Error checking moderator claim:', error);
+      this._isModerator.set(false);
+      return false;
+    }
+  }
+
+  /**
+   * List reports, oldest first, a page at a time
+   */
+  async listReports(filter: ReportListFilter, startAfterId?: string | null): Promise<ReportListPage> {
+    const listFn = httpsCallable<ReportListFilter & { startAfterId?: string }, ReportListPage>(
+      this.functions,
+      'listReports'
+    );
+    const result = await listFn({
+      status: filter.status,
+      reason: filter.reason || undefined,
+      reportedUserId: filter.reportedUserId || undefined,
+      startAfterId: startAfterId || undefined,
+    });
+    return result.data;
+  }
+
+  /**
+   * Claim a report for review
+   * Rejects with details { reason: 'claimed' | 'already_resolved' }.
+   */
+  async claimReport(reportId: string): Promise<void> {
+    const claimFn = httpsCallable<{ reportId: string }, { success: boolean }>(
+      this.functions,
+      'claimReport'
+    );
+    await claimFn({ reportId });
+  }
+
+  /**
+   * Resolve a report (dismiss, warn, suspend or ban)
+   */
+  async resolveReport(request: ResolveReportRequest): Promise<void> {
+    const resolveFn = httpsCallable<ResolveReportRequest, { success: boolean }>(
+      this.functions,
+      'resolveReport'
+    );
+    await resolveFn(request);
+  }
+}
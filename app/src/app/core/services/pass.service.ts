@@ -0,0 +1,77 @@
+import { Injectable, inject } from '@angular/core';
+import { Functions, httpsCallable } from '@angular/fire/functions';
+
+/**
+ * How long a passed profile stays hidden from discovery
+ */
+export type PassDuration = '30d' | 'forever';
+
+export interface PassedUser {
+  uid: string;
+  displayName: string | null;
+  photoURL: string | null;
+  duration: PassDuration;
+  expiresAt: string | null; // ISO string, null if hidden forever
+}
+
+/**
+ * Passes ("Not interested"): hide profiles from your own discovery results.
+ * Unlike blocking, passing is private and has no effect on the other user.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PassService {
+  private readonly functions = inject(Functions);
+
+  /**
+   * Hide a user from discovery
+   */
+  async passUser(userId: string, duration: PassDuration = '30d'): Promise<boolean> {
+    try {
+      const passUserFn = httpsCallable<{ userId: string; duration: PassDuration }, { success: boolean }>(
+        this.functions,
+        'passUser'
+      );
+      await passUserFn({ userId, duration });
+      return true;
+    } catch (error) {
+      console.error('Error passing user:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Undo a pass, so the user shows up in discovery again
+   */
+  async unpassUser(userId: string): Promise<boolean> {
+    try {
+      const unpassUserFn = httpsCallable<{ userId: string }, { success: boolean }>(
+        this.functions,
+        'unpassUser'
+      );
+      await unpassUserFn({ userId });
+      return true;
+    } catch (error) {
+      console.error('Error unpassing user:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the current user's hidden profiles
+   */
+  async getPassedUsers(): Promise<PassedUser[]> {
+    try {
+      const getPassedUsersFn = httpsCallable<void, { users: PassedUser[] }>(
+        this.functions,
+        'getPassedUsers'
+      );
+      const result = await getPassedUsersFn();
+      return result.data.users;
+    } catch (error) {
+      console.error('Error getting passed users:', error);
+      return [];
+    }
+  }
+}
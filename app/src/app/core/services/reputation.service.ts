@@ -0,0 +1,26 @@
+import { Injectable, inject } from '@angular/core';
+import { Functions, httpsCallable } from '@angular/fire/functions';
+import { ReputationHistoryEntry } from '../interfaces';
+
+/**
+ * Reputation API
+ * Tier data itself is streamed from the private doc by SubscriptionService.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ReputationService {
+  private readonly functions = inject(Functions);
+
+  /**
+   * Get the current user's reputation timeline, newest first
+   */
+  async getHistory(): Promise<ReputationHistoryEntry[]> {
+    const historyFn = httpsCallable<void, { entries: ReputationHistoryEntry[] }>(
+      this.functions,
+      'getReputationHistory'
+    );
+    const result = await historyFn();
+    return result.data.entries;
+  }
+}
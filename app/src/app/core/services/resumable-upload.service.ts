@@ -0,0 +1,126 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Uploads files to Cloud Storage resumable upload sessions
+ *
+ * Sessions are created server-side (createConversationVideoUpload,
+ * createProfileImageUploads), so the session URI is all the client needs.
+ * The file is sent in chunks; after a network error or a 5xx the upload asks
+ * the session how much it already has and carries on from there.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ResumableUploadService {
+  // Chunks must be a multiple of 256 KiB (except the last one)
+  private static readonly CHUNK_SIZE = 32 * 256 * 1024; // 8 MiB
+  private static readonly MAX_RETRIES = 5;
+
+  /**
+   * Upload a file to a resumable session
+   * @param onProgress Called with the percentage (0-100) the session has received
+   */
+  async upload(
+    sessionUrl: string,
+    file: Blob,
+    onProgress?: (percent: number) => void
+  ): Promise<void> {
+    const total = file.size;
+    let offset = 0;
+    let retries = 0;
+
+    while (offset < total) {
+      const end = Math.min(offset + ResumableUploadService.CHUNK_SIZE, total);
+
+      try {
+        const result = await this.putChunk(sessionUrl, file, offset, end, total, (loaded) => {
+          onProgress?.(Math.round(((offset + loaded) / total) * 100));
+        });
+        // Whole chunks are committed, so assume this one was if the session doesn't say
+        offset = result.complete ? total : result.committed ?? end;
+        retries = 0;
+      } catch (error) {
+        if (++retries > ResumableUploadService.MAX_RETRIES) throw error;
+
+        // Back off, then resume from whatever the session has committed
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (retries - 1)));
+        const status = await this.queryStatus(sessionUrl, total).catch(() => null);
+        if (status?.complete) break;
+        if (status) offset = status.committed ?? 0;
+      }
+
+      onProgress?.(Math.round((offset / total) * 100));
+    }
+  }
+
+  /**
+   * Send one chunk. Resolves with the committed offset (308) or completion
+   * (200/201); rejects on network errors and retryable statuses.
+   */
+  private putChunk(
+    sessionUrl: string,
+    file: Blob,
+    start: number,
+    end: number,
+    total: number,
+    onChunkProgress: (loaded: number) => void
+  ): Promise<{ complete: boolean; committed?: number }> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('PUT', sessionUrl);
+      xhr.setRequestHeader('Content-Range', `bytes ${start}-${end - 1}/${total}`);
+      xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+      xhr.onload = () => {
+        const status = this.toSessionStatus(xhr);
+        if (status) {
+          resolve(status);
+        } else {
+          reject(new Error(`Upload failed with status ${xhr.status}`));
+        }
+      };
+      xhr.onerror = () => reject(new Error('Network error during upload'));
+      xhr.send(file.slice(start, end));
+    });
+  }
+
+  /**
+   * Ask the session how many bytes it has received
+   */
+  private queryStatus(
+    sessionUrl: string,
+    total: number
+  ): Promise<{ complete: boolean; committed?: number }> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('PUT', sessionUrl);
+      xhr.setRequestHeader('Content-Range', `bytes */${total}`);
+      xhr.onload = () => {
+        const status = this.toSessionStatus(xhr);
+        if (status) {
+          resolve(status);
+        } else {
+          reject(new Error(`Upload status check failed with status ${xhr.status}`));
+        }
+      };
+      xhr.onerror = () => reject(new Error('Network error during upload'));
+      xhr.send();
+    });
+  }
+
+  /**
+   * Interpret a session response: 200/201 = done, 308 = incomplete with the
+   * committed range in the Range header ("bytes=0-N"), anything else = error
+   */
+  private toSessionStatus(xhr: XMLHttpRequest): { complete: boolean; committed?: number } | null {
+    if (xhr.status === 200 || xhr.status === 201) {
+      return { complete: true };
+    }
+    if (xhr.status === 308) {
+      const range = xhr.getResponseHeader('Range');
+      const match = range?.match(/bytes=0-(\d+)/);
+      // Without a readable Range header the committed offset is unknown
+      return { complete: false, committed: match ? Number(match[1]) + 1 : undefined };
+    }
+    return null;
+  }
+}
@@ -2,6 +2,7 @@ import { Injectable, inject, signal } from '@angular/core';
 import { FirestoreService } from './firestore.service';
 import { AuthService } from './auth.service';
 import { UserProfile, OnboardingProfile } from '../interfaces';
+import { getBrowserTimeZone } from '../utils/time-zone';
 
 @Injectable({
   providedIn: 'root',
@@ -138,11 +139,15 @@ export class UserProfileService {
       const privacy = currentProfile?.settings?.privacy;
       const showLastActive = privacy?.showLastActive !== false;
       
+      // Keep the time zone current too, so others can schedule messages for our morning
+      const timeZone = getBrowserTimeZone();
+
       // Update both lastActiveAt and sortableLastActive together
       // This prevents the onUserUpdated trigger from needing to sync them
       await this.firestoreService.updateDocument('users', user.uid, {
         lastActiveAt: now,
         sortableLastActive: showLastActive ? now : null,
+        ...(timeZone ? { timeZone } : {}),
       });
 
       // Update local profile
@@ -150,6 +155,7 @@ export class UserProfileService {
         this._profile.set({
           ...currentProfile,
           lastActiveAt: now,
+          ...(timeZone ? { timeZone } : {}),
         });
       }
     } catch (error) {
@@ -0,0 +1,166 @@
+import { Injectable, inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+/** A finished voice note, ready to upload */
+export interface VoiceRecording {
+  blob: Blob; // 16-bit PCM WAV
+  duration: number; // Seconds
+}
+
+/**
+ * Records voice notes from the microphone
+ *
+ * MediaRecorder output differs per browser (WebM/Opus, MP4/AAC), so the
+ * recording is decoded and re-encoded as 16 kHz mono 16-bit PCM WAV, the one
+ * format uploadConversationAudio accepts. That keeps the server able to check
+ * the duration and compute the waveform without an audio decoder.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class VoiceRecorderService {
+  private readonly platformId = inject(PLATFORM_ID);
+
+  // Must match the limits in the uploadConversationAudio cloud function
+  static readonly MIN_DURATION_SECONDS = 1;
+  static readonly MAX_DURATION_SECONDS = 120;
+  private static readonly SAMPLE_RATE = 16000;
+
+  private mediaRecorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+
+  /**
+   * Whether this browser can record voice notes
+   */
+  isSupported(): boolean {
+    return isPlatformBrowser(this.platformId) &&
+      typeof MediaRecorder !== 'undefined' &&
+      !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  /**
+   * Start recording (asks for microphone permission the first time)
+   */
+  async start(): Promise<void> {
+    if (!this.isSupported() || this.mediaRecorder) return;
+
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    this.chunks = [];
+    this.mediaRecorder = new MediaRecorder(this.stream);
+    this.mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.mediaRecorder.start();
+  }
+
+  /**
+   * Stop recording and convert it to WAV
+   * Returns null if nothing was recording or the recording is too short.
+   */
+  async stop(): Promise<VoiceRecording | null> {
+    const recorder = this.mediaRecorder;
+    if (!recorder) return null;
+
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+    recorder.stop();
+    await stopped;
+
+    const recorded = new Blob(this.chunks, { type: recorder.mimeType });
+    this.release();
+
+    const samples = await this.decodeToMono(recorded);
+    const duration = samples.length / VoiceRecorderService.SAMPLE_RATE;
+    if (duration < VoiceRecorderService.MIN_DURATION_SECONDS) return null;
+
+    // Trim anything past the limit rather than failing the upload
+    const maxSamples = VoiceRecorderService.MAX_DURATION_SECONDS * VoiceRecorderService.SAMPLE_RATE;
+    const trimmed = samples.length > maxSamples ? samples.subarray(0, maxSamples) : samples;
+
+    return {
+      blob: this.encodeWav(trimmed),
+      duration: Math.round((trimmed.length / VoiceRecorderService.SAMPLE_RATE) * 10) / 10,
+    };
+  }
+
+  /**
+   * Stop recording and throw it away
+   */
+  cancel(): void {
+    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      this.mediaRecorder.onstop = null;
+      this.mediaRecorder.stop();
+    }
+    this.release();
+  }
+
+  /**
+   * Stop the microphone and reset recorder state
+   */
+  private release(): void {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.mediaRecorder = null;
+    this.chunks = [];
+  }
+
+  /**
+   * Decode the recording and resample it to SAMPLE_RATE mono
+   */
+  private async decodeToMono(blob: Blob): Promise<Float32Array> {
+    const audioContext = new AudioContext();
+    try {
+      const decoded = await audioContext.decodeAudioData(await blob.arrayBuffer());
+      const frameCount = Math.ceil(decoded.duration * VoiceRecorderService.SAMPLE_RATE);
+      if (frameCount === 0) return new Float32Array(0);
+
+      // An OfflineAudioContext with one channel downmixes and resamples for us
+      const offline = new OfflineAudioContext(1, frameCount, VoiceRecorderService.SAMPLE_RATE);
+      const source = offline.createBufferSource();
+      source.buffer = decoded;
+      source.connect(offline.destination);
+      source.start();
+      const rendered = await offline.startRendering();
+      return rendered.getChannelData(0);
+    } finally {
+      audioContext.close().catch(() => {});
+    }
+  }
+
+  /**
+   * Encode mono samples as a 16-bit PCM WAV file
+   */
+  private encodeWav(samples: Float32Array): Blob {
+    const sampleRate = VoiceRecorderService.SAMPLE_RATE;
+    const dataLength = samples.length * 2;
+    const buffer = new ArrayBuffer(44 + dataLength);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataLength, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // Mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // Byte rate
+    view.setUint16(32, 2, true); // Block align
+    view.setUint16(34, 16, true); // Bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, dataLength, true);
+
+    samples.forEach((sample, i) => {
+      const clamped = Math.max(-1, Math.min(1, sample));
+      view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    });
+
+    return new Blob([buffer], { type: 'audio/wav' });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Time zone helpers built on Intl (IANA zone names like "Europe/Berlin")
+ */
+
+/**
+ * The browser's IANA time zone, or null if it can't be determined
+ */
+export function getBrowserTimeZone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a string is a time zone Intl understands
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The next moment the wall clock in a time zone reads hour:minute
+ * e.g. nextTimeInZone(8, 0, 'Asia/Tokyo') is the next 8:00 AM in Tokyo - today
+ * if it's still ahead there, otherwise tomorrow.
+ */
+export function nextTimeInZone(hour: number, minute: number, timeZone: string, after = new Date()): Date {
+  const today = getZonedParts(after, timeZone);
+  let result = zonedTimeToDate(today.year, today.month, today.day, hour, minute, timeZone);
+  if (result.getTime() <= after.getTime()) {
+    // Date.UTC rolls the day over month and year ends for us
+    const tomorrow = new Date(Date.UTC(today.year, today.month - 1, today.day + 1));
+    result = zonedTimeToDate(
+      tomorrow.getUTCFullYear(), tomorrow.getUTCMonth() + 1, tomorrow.getUTCDate(), hour, minute, timeZone
+    );
+  }
+  return result;
+}
+
+/**
+ * The instant a wall-clock time (month 1-12) happens in a time zone
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getZoneOffset(new Date(wallClock), timeZone);
+  const guess = wallClock - offset;
+  // The offset can differ on the other side of a DST change
+  const correctedOffset = getZoneOffset(new Date(guess), timeZone);
+  return new Date(correctedOffset === offset ? guess : wallClock - correctedOffset);
+}
+
+/**
+ * Milliseconds a time zone's wall clock is ahead of UTC at a given instant
+ */
+function getZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function getZonedParts(date: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+  const values = Object.fromEntries(
+    formatter.formatToParts(date)
+      .filter(part => part.type !== 'literal')
+      .map(part => [part.type, Number(part.value)])
+  );
+  return {
+    year: values['year'],
+    month: values['month'],
+    day: values['day'],
+    hour: values['hour'],
+    minute: values['minute'],
+    second: values['second'],
+  };
+}
+
+/**
+ * Format a date for an <input type="datetime-local"> in the browser's time zone
+ */
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,249 @@
+import { ChangeDetectionStrategy, Component, OnInit, computed, inject, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+import { AuthService } from '../../core/services/auth.service';
+import { ModerationService } from '../../core/services/moderation.service';
+import {
+  DEFAULT_SUSPENSION_DAYS,
+  MAX_SUSPENSION_DAYS,
+  ModerationAction,
+  ModerationReport,
+  REPORT_REASON_LABELS,
+  ReportReason,
+  ReportStatus,
+} from '../../core/interfaces';
+
+const STATUS_OPTIONS: { value: ReportStatus; label: string }[] = [
+  { value: 'pending', label: 'ADMIN_REPORTS.STATUS.PENDING' },
+  { value: 'in_review', label: 'ADMIN_REPORTS.STATUS.IN_REVIEW' },
+  { value: 'dismissed', label: 'ADMIN_REPORTS.STATUS.DISMISSED' },
+  { value: 'action_taken', label: 'ADMIN_REPORTS.STATUS.ACTION_TAKEN' },
+];
+
+const ACTION_OPTIONS: { value: ModerationAction; label: string; icon: string }[] = [
+  { value: 'dismiss', label: 'ADMIN_REPORTS.ACTION.DISMISS', icon: 'do_not_disturb_on' },
+  { value: 'warn', label: 'ADMIN_REPORTS.ACTION.WARN', icon: 'warning' },
+  { value: 'suspend', label: 'ADMIN_REPORTS.ACTION.SUSPEND', icon: 'timer_off' },
+  { value: 'ban', label: 'ADMIN_REPORTS.ACTION.BAN', icon: 'gavel' },
+];
+
+/**
+ * Moderation console for the /reports queue (admin claim only)
+ * Reports are claimed before review so two moderators don't work on the same one.
+ */
+@Component({
+  selector: 'app-admin-reports',
+  templateUrl: './admin-reports.html',
+  styleUrl: './admin-reports.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    DatePipe,
+    RouterLink,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    TranslateModule,
+  ],
+})
+export class AdminReportsComponent implements OnInit {
+  private readonly authService = inject(AuthService);
+  private readonly moderationService = inject(ModerationService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly translate = inject(TranslateService);
+
+  protected readonly statusOptions = STATUS_OPTIONS;
+  protected readonly actionOptions = ACTION_OPTIONS;
+  protected readonly reasonOptions = Object.entries(REPORT_REASON_LABELS) as [ReportReason, string][];
+  protected readonly reasonLabels = REPORT_REASON_LABELS;
+  protected readonly maxSuspensionDays = MAX_SUSPENSION_DAYS;
+
+  // Filters
+  protected readonly status = signal<ReportStatus>('pending');
+  protected readonly reason = signal<ReportReason | null>(null);
+  protected readonly reportedUserId = signal<string | null>(null);
+
+  protected readonly reports = signal<ModerationReport[]>([]);
+  protected readonly nextCursor = signal<string | null>(null);
+  protected readonly loading = signal(false);
+  protected readonly loadingMore = signal(false);
+  protected readonly busyReportId = signal<string | null>(null);
+
+  // Resolution form for the report being reviewed
+  protected readonly activeReportId = signal<string | null>(null);
+  protected readonly selectedAction = signal<ModerationAction | null>(null);
+  protected readonly notes = signal('');
+  protected readonly suspendDays = signal(DEFAULT_SUSPENSION_DAYS);
+
+  protected readonly currentUserId = computed(() => this.authService.user()?.uid ?? null);
+  protected readonly isOpenQueue = computed(() => this.status() === 'pending' || this.status() === 'in_review');
+
+  ngOnInit(): void {
+    this.loadReports();
+  }
+
+  protected async loadReports(): Promise<void> {
+    this.loading.set(true);
+    this.activeReportId.set(null);
+    try {
+      const page = await this.moderationService.listReports({
+        status: this.status(),
+        reason: this.reason(),
+        reportedUserId: this.reportedUserId(),
+      });
+      this.reports.set(page.reports);
+      this.nextCursor.set(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading reports:', error);
+      this.showError('ADMIN_REPORTS.ERRORS.LOAD_FAILED');
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  protected async loadMore(): Promise<void> {
+    const cursor = this.nextCursor();
+    if (!cursor || this.loadingMore()) return;
+
+    this.loadingMore.set(true);
+    try {
+      const page = await this.moderationService.listReports({
+        status: this.status(),
+        reason: this.reason(),
+        reportedUserId: this.reportedUserId(),
+      }, cursor);
+      this.reports.update(reports => [...reports, ...page.reports]);
+      this.nextCursor.set(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more reports:', error);
+      this.showError('ADMIN_REPORTS.ERRORS.LOAD_FAILED');
+    } finally {
+      this.loadingMore.set(false);
+    }
+  }
+
+  protected onStatusChange(status: ReportStatus): void {
+    this.status.set(status);
+    this.loadReports();
+  }
+
+  protected onReasonChange(reason: ReportReason | null): void {
+    this.reason.set(reason);
+    this.reportedUserId.set(null); // The two filters can't be combined
+    this.loadReports();
+  }
+
+  /**
+   * Show every report about the same user
+   */
+  protected filterByUser(uid: string): void {
+    this.reportedUserId.set(uid);
+    this.reason.set(null);
+    this.loadReports();
+  }
+
+  protected clearUserFilter(): void {
+    this.reportedUserId.set(null);
+    this.loadReports();
+  }
+
+  protected isClaimedByOther(report: ModerationReport): boolean {
+    return report.status === 'in_review' && !!report.claimedBy && report.claimedBy !== this.currentUserId();
+  }
+
+  protected async claim(report: ModerationReport): Promise<void> {
+    this.busyReportId.set(report.id);
+    try {
+      await this.moderationService.claimReport(report.id);
+      this.updateReport(report.id, {
+        status: 'in_review',
+        claimedBy: this.currentUserId(),
+        claimedAt: Date.now(),
+      });
+      this.startReview(report.id);
+    } catch (error) {
+      this.handleActionError(error, report.id);
+    } finally {
+      this.busyReportId.set(null);
+    }
+  }
+
+  protected startReview(reportId: string): void {
+    this.activeReportId.set(reportId);
+    this.selectedAction.set(null);
+    this.notes.set('');
+    this.suspendDays.set(DEFAULT_SUSPENSION_DAYS);
+  }
+
+  protected cancelReview(): void {
+    this.activeReportId.set(null);
+  }
+
+  protected onSuspendDaysInput(value: string): void {
+    const days = Math.floor(Number(value));
+    this.suspendDays.set(Math.min(Math.max(days || 1, 1), MAX_SUSPENSION_DAYS));
+  }
+
+  protected async resolve(report: ModerationReport): Promise<void> {
+    const action = this.selectedAction();
+    if (!action) return;
+
+    this.busyReportId.set(report.id);
+    try {
+      await this.moderationService.resolveReport({
+        reportId: report.id,
+        action,
+        notes: this.notes().trim() || undefined,
+        suspendDays: action === 'suspend' ? this.suspendDays() : undefined,
+      });
+      this.activeReportId.set(null);
+      this.removeReport(report.id);
+      this.snackBar.open(
+        this.translate.instant('ADMIN_REPORTS.RESOLVED'),
+        this.translate.instant('COMMON.OK'),
+        { duration: 5000, panelClass: 'info-snackbar' }
+      );
+    } catch (error) {
+      this.handleActionError(error, report.id);
+    } finally {
+      this.busyReportId.set(null);
+    }
+  }
+
+  private handleActionError(error: unknown, reportId: string): void {
+    const reason = (error as { details?: { reason?: string } }).details?.reason;
+    if (reason === 'already_resolved') {
+      this.removeReport(reportId);
+      this.showError('ADMIN_REPORTS.ERRORS.ALREADY_RESOLVED');
+    } else if (reason === 'claimed') {
+      this.showError('ADMIN_REPORTS.ERRORS.CLAIMED');
+    } else {
+      console.error('Error updating report:', error);
+      this.showError('ADMIN_REPORTS.ERRORS.ACTION_FAILED');
+    }
+  }
+
+  private updateReport(reportId: string, changes: Partial<ModerationReport>): void {
+    this.reports.update(reports => reports.map(r => r.id === reportId ? { ...r, ...changes } : r));
+  }
+
+  private removeReport(reportId: string): void {
+    this.reports.update(reports => reports.filter(r => r.id !== reportId));
+  }
+
+  private showError(key: string): void {
+    this.snackBar.open(
+      this.translate.instant(key),
+      this.translate.instant('COMMON.OK'),
+      { duration: 5000, panelClass: 'error-snackbar' }
+    );
+  }
+}
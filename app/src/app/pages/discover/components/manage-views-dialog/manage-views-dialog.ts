@@ -1,16 +1,18 @@
-import { ChangeDetectionStrategy, Component, input, output } from '@angular/core';
+import { ChangeDetectionStrategy, Component, input, output, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { CdkDragDrop, DragDropModule, moveItemInArray } from '@angular/cdk/drag-drop';
 import { MatIconModule } from '@angular/material/icon';
 import { MatButtonModule } from '@angular/material/button';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { TranslateModule } from '@ngx-translate/core';
-import { SavedView } from '../../../../core/interfaces';
+import { SavedView, SavedViewAlertSettings, SearchAlertFrequency } from '../../../../core/interfaces';
 
 @Component({
   selector: 'app-manage-views-dialog',
   templateUrl: './manage-views-dialog.html',
   styleUrl: './manage-views-dialog.css',
   changeDetection: ChangeDetectionStrategy.OnPush,
-  imports: [MatIconModule, MatButtonModule, MatTooltipModule, TranslateModule],
+  imports: [FormsModule, DragDropModule, MatIconModule, MatButtonModule, MatTooltipModule, TranslateModule],
 })
 export class ManageViewsDialogComponent {
   // Inputs
@@ -20,8 +22,25 @@ export class ManageViewsDialogComponent {
   // Outputs
   readonly setDefault = output<string>();
   readonly deleteView = output<string>();
+  readonly alertsChange = output<{ viewId: string; settings: SavedViewAlertSettings }>();
+  readonly rename = output<{ viewId: string; name: string }>();
+  readonly overwrite = output<string>();
+  readonly reorder = output<string[]>();
   readonly close = output<void>();
 
+  // Local state
+  protected readonly editingViewId = signal<string | null>(null);
+  protected readonly editName = signal('');
+  protected readonly maxNameLength = 50;
+
+  protected readonly alertFrequencyOptions: { value: SearchAlertFrequency; labelKey: string }[] = [
+    { value: 'instant', labelKey: 'DISCOVER.MANAGE_VIEWS.ALERTS.FREQUENCY_INSTANT' },
+    { value: 'daily', labelKey: 'DISCOVER.MANAGE_VIEWS.ALERTS.FREQUENCY_DAILY' },
+    { value: 'weekly', labelKey: 'DISCOVER.MANAGE_VIEWS.ALERTS.FREQUENCY_WEEKLY' },
+  ];
+
+  protected readonly alertMaxPerRunOptions = [5, 10, 25];
+
   protected onSetDefault(viewId: string): void {
     this.setDefault.emit(viewId);
   }
@@ -30,7 +49,53 @@ export class ManageViewsDialogComponent {
     this.deleteView.emit(viewId);
   }
 
+  protected onStartRename(view: SavedView): void {
+    this.editingViewId.set(view.id);
+    this.editName.set(view.name);
+  }
+
+  protected onSaveRename(view: SavedView): void {
+    const name = this.editName().trim();
+    if (name && name !== view.name) {
+      this.rename.emit({ viewId: view.id, name });
+    }
+    this.onCancelRename();
+  }
+
+  protected onCancelRename(): void {
+    this.editingViewId.set(null);
+    this.editName.set('');
+  }
+
+  protected onOverwrite(viewId: string): void {
+    this.overwrite.emit(viewId);
+  }
+
+  protected onDrop(event: CdkDragDrop<SavedView[]>): void {
+    if (event.previousIndex === event.currentIndex) return;
+    const viewIds = this.views().map(v => v.id);
+    moveItemInArray(viewIds, event.previousIndex, event.currentIndex);
+    this.reorder.emit(viewIds);
+  }
+
+  protected onToggleAlerts(view: SavedView): void {
+    this.emitAlerts(view, { alertsEnabled: !view.alertsEnabled });
+  }
+
+  protected onAlertFrequency(view: SavedView, alertFrequency: SearchAlertFrequency): void {
+    this.emitAlerts(view, { alertFrequency });
+  }
+
+  protected onAlertMaxPerRun(view: SavedView, alertMaxPerRun: number): void {
+    this.emitAlerts(view, { alertMaxPerRun });
+  }
+
+  protected onToggleAlertEmail(view: SavedView): void {
+    this.emitAlerts(view, { alertEmail: !view.alertEmail });
+  }
+
   protected onClose(): void {
+    this.onCancelRename();
     this.close.emit();
   }
 
@@ -41,4 +106,17 @@ export class ManageViewsDialogComponent {
   protected stopPropagation(event: Event): void {
     event.stopPropagation();
   }
+
+  private emitAlerts(view: SavedView, changes: Partial<SavedViewAlertSettings>): void {
+    this.alertsChange.emit({
+      viewId: view.id,
+      settings: {
+        alertsEnabled: view.alertsEnabled ?? false,
+        alertFrequency: view.alertFrequency ?? 'daily',
+        alertMaxPerRun: view.alertMaxPerRun ?? 10,
+        alertEmail: view.alertEmail ?? false,
+        ...changes,
+      },
+    });
+  }
 }
@@ -1,5 +1,5 @@
 
-import { ChangeDetectionStrategy, Component, inject, signal, OnInit } from '@angular/core';
+import { ChangeDetectionStrategy, Component, DestroyRef, inject, signal, OnInit } from '@angular/core';
 import { Router } from '@angular/router';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -13,7 +13,8 @@ import { DiscoveryService } from '../../core/services/discovery.service';
 import { FavoriteService } from '../../core/services/favorite.service';
 import { MessageService } from '../../core/services/message.service';
 import { AnalyticsService } from '../../core/services/analytics.service';
-import { DiscoverableProfile, DiscoveryFilters, DiscoverySort, SavedView } from '../../core/interfaces';
+import { PassDuration, PassService } from '../../core/services/pass.service';
+import { DiscoverableProfile, DiscoveryFilters, DiscoverySort, SavedView, SavedViewAlertSettings } from '../../core/interfaces';
 import { ProfileCardComponent, ProfileCardData } from '../../components/profile-card';
 import { ProfileCardSkeletonComponent } from '../../components/profile-card-skeleton';
 import {
@@ -22,6 +23,9 @@ import {
   ManageViewsDialogComponent,
 } from './components';
 
+// How long a passed profile stays on screen with an undo option
+const PASS_UNDO_WINDOW_MS = 6000;
+
 @Component({
   selector: 'app-discover',
   templateUrl: './discover.html',
@@ -50,12 +54,16 @@ export class DiscoverComponent implements OnInit {
   private readonly snackBar = inject(MatSnackBar);
   private readonly analytics = inject(AnalyticsService);
   private readonly translate = inject(TranslateService);
+  private readonly passService = inject(PassService);
+  private readonly destroyRef = inject(DestroyRef);
 
   // UI state
   protected readonly showFilters = signal(false);
   protected readonly showSaveViewDialog = signal(false);
   protected readonly showManageViewsDialog = signal(false);
   protected readonly messagingUserId = signal<string | null>(null); // Track which user is being messaged
+  protected readonly pendingPassUserIds = signal<Set<string>>(new Set()); // Passed, still within the undo window
+  private readonly passTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
   // Discovery state from service
   protected readonly profiles = this.discoveryService.profiles;
@@ -91,6 +99,15 @@ export class DiscoverComponent implements OnInit {
 
   ngOnInit(): void {
     this.loadInitialData();
+
+    // Leaving the page ends any open undo windows
+    this.destroyRef.onDestroy(() => {
+      this.passTimers.forEach((timer, uid) => {
+        clearTimeout(timer);
+        this.discoveryService.removeProfile(uid);
+      });
+      this.passTimers.clear();
+    });
   }
 
   private async loadInitialData(): Promise<void> {
@@ -182,6 +199,22 @@ export class DiscoverComponent implements OnInit {
     await this.discoveryService.deleteView(viewId);
   }
 
+  protected async renameView(viewId: string, name: string): Promise<void> {
+    await this.discoveryService.updateView(viewId, { name });
+  }
+
+  protected async overwriteView(viewId: string): Promise<void> {
+    await this.discoveryService.overwriteView(viewId);
+  }
+
+  protected async reorderViews(viewIds: string[]): Promise<void> {
+    await this.discoveryService.reorderViews(viewIds);
+  }
+
+  protected async setViewAlerts(viewId: string, settings: SavedViewAlertSettings): Promise<void> {
+    await this.discoveryService.setViewAlerts(viewId, settings);
+  }
+
   protected async setDefaultView(viewId: string): Promise<void> {
     await this.discoveryService.setDefaultView(viewId);
   }
@@ -215,6 +248,50 @@ export class DiscoverComponent implements OnInit {
     }
   }
 
+  protected isPassPending(userId: string): boolean {
+    return this.pendingPassUserIds().has(userId);
+  }
+
+  protected async onPassProfile(event: { profile: ProfileCardData; duration: PassDuration }): Promise<void> {
+    const uid = event.profile.uid;
+    const passed = await this.passService.passUser(uid, event.duration);
+    if (!passed) {
+      this.snackBar.open(
+        this.translate.instant('PROFILE_CARD.PASS_FAILED'),
+        this.translate.instant('COMMON.OK'),
+        { duration: 4000, panelClass: 'error-snackbar' }
+      );
+      return;
+    }
+
+    this.pendingPassUserIds.update(ids => new Set(ids).add(uid));
+    this.passTimers.set(uid, setTimeout(() => this.finishPass(uid), PASS_UNDO_WINDOW_MS));
+  }
+
+  protected async onUndoPass(profile: ProfileCardData): Promise<void> {
+    const timer = this.passTimers.get(profile.uid);
+    if (!timer) return;
+
+    clearTimeout(timer);
+    this.passTimers.delete(profile.uid);
+    this.pendingPassUserIds.update(ids => {
+      const next = new Set(ids);
+      next.delete(profile.uid);
+      return next;
+    });
+    await this.passService.unpassUser(profile.uid);
+  }
+
+  private finishPass(uid: string): void {
+    this.passTimers.delete(uid);
+    this.pendingPassUserIds.update(ids => {
+      const next = new Set(ids);
+      next.delete(uid);
+      return next;
+    });
+    this.discoveryService.removeProfile(uid);
+  }
+
   protected async onMessageProfile(profile: ProfileCardData): Promise<void> {
     this.messagingUserId.set(profile.uid);
     
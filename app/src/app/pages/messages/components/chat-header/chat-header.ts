@@ -10,13 +10,28 @@ import { CommonModule } from '@angular/common';
 import { MatMenuModule } from '@angular/material/menu';
 import { MatDividerModule } from '@angular/material/divider';
 import { TranslateModule, TranslateService } from '@ngx-translate/core';
-import { ConversationDisplay } from '../../../../core/interfaces';
+import { ConversationDisplay, ConversationMuteDuration, ConversationParticipant } from '../../../../core/interfaces';
 
 export interface UserStatus {
   isOnline: boolean;
   lastActiveAt?: Date | null;
 }
 
+/** The current user's own settings for the open conversation */
+export interface ConversationSettingsState {
+  isPinned?: boolean;
+  mutedUntil?: Date | null;
+  isMutedIndefinitely?: boolean;
+  labels?: string[];
+}
+
+const MUTE_OPTIONS: { value: ConversationMuteDuration; label: string }[] = [
+  { value: '1h', label: 'MESSAGES.CHAT_HEADER.MUTE_1_HOUR' },
+  { value: '8h', label: 'MESSAGES.CHAT_HEADER.MUTE_8_HOURS' },
+  { value: '1w', label: 'MESSAGES.CHAT_HEADER.MUTE_1_WEEK' },
+  { value: 'forever', label: 'MESSAGES.CHAT_HEADER.MUTE_FOREVER' },
+];
+
 @Component({
   selector: 'app-chat-header',
   templateUrl: './chat-header.html',
@@ -31,15 +46,44 @@ export class ChatHeaderComponent {
   @Input() isTyping = false;
   @Input() isBlocked = false;
   @Input() hasVirtualPhone = false;
+  @Input() settings: ConversationSettingsState | null = null;
 
   @Output() backClicked = new EventEmitter<void>();
   @Output() viewProfile = new EventEmitter<void>();
+  @Output() viewMember = new EventEmitter<string>();
+  @Output() createGroup = new EventEmitter<void>();
   @Output() archiveChat = new EventEmitter<void>();
   @Output() unarchiveChat = new EventEmitter<void>();
+  @Output() pinChanged = new EventEmitter<boolean>();
+  @Output() muteChat = new EventEmitter<ConversationMuteDuration>();
+  @Output() unmuteChat = new EventEmitter<void>();
+  @Output() editLabels = new EventEmitter<void>();
+  @Output() exportChat = new EventEmitter<void>();
   @Output() shareNumber = new EventEmitter<void>();
+  @Output() leaveGroup = new EventEmitter<void>();
   @Output() blockUser = new EventEmitter<void>();
   @Output() reportUser = new EventEmitter<void>();
 
+  protected readonly muteOptions = MUTE_OPTIONS;
+
+  /**
+   * The other members of the conversation (just the other user in a 1:1 chat)
+   */
+  protected getMembers(): ConversationParticipant[] {
+    if (!this.conversation) return [];
+    return this.conversation.otherUsers ?? [this.conversation.otherUser];
+  }
+
+  protected getConversationName(): string {
+    const unknown = this.translate.instant('MESSAGES.CHAT_HEADER.UNKNOWN_USER');
+    if (!this.conversation?.isGroup) {
+      return this.conversation?.otherUser.displayName || unknown;
+    }
+    return this.getMembers()
+      .map(member => member.displayName?.split(' ')[0] || unknown)
+      .join(', ');
+  }
+
   protected getStatusText(): string {
     const status = this.otherUserStatus;
     if (!status) return '';
@@ -78,6 +122,14 @@ export class ChatHeaderComponent {
     this.viewProfile.emit();
   }
 
+  protected onViewMember(uid: string): void {
+    this.viewMember.emit(uid);
+  }
+
+  protected onCreateGroup(): void {
+    this.createGroup.emit();
+  }
+
   protected onArchiveChat(): void {
     this.archiveChat.emit();
   }
@@ -86,10 +138,41 @@ export class ChatHeaderComponent {
     this.unarchiveChat.emit();
   }
 
+  protected onTogglePin(): void {
+    this.pinChanged.emit(!this.settings?.isPinned);
+  }
+
+  protected onMute(duration: ConversationMuteDuration): void {
+    this.muteChat.emit(duration);
+  }
+
+  protected onUnmute(): void {
+    this.unmuteChat.emit();
+  }
+
+  protected onEditLabels(): void {
+    this.editLabels.emit();
+  }
+
+  protected onExportChat(): void {
+    this.exportChat.emit();
+  }
+
+  protected formatMutedUntil(date: Date): string {
+    const sameDay = date.toDateString() === new Date().toDateString();
+    return sameDay ?
+      date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }) :
+      date.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  }
+
   protected onShareNumber(): void {
     this.shareNumber.emit();
   }
 
+  protected onLeaveGroup(): void {
+    this.leaveGroup.emit();
+  }
+
   protected onBlockUser(): void {
     this.blockUser.emit();
   }
@@ -1,2 +1,2 @@
 export { ChatHeaderComponent } from './chat-header';
-export type { UserStatus } from './chat-header';
+export type { UserStatus, ConversationSettingsState } from './chat-header';
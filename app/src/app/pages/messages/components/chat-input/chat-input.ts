@@ -15,6 +15,14 @@ import {
 import { CommonModule, isPlatformBrowser } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { TranslateModule } from '@ngx-translate/core';
+import { MessageDisplay, SCHEDULED_MESSAGE_MAX_AHEAD_MS } from '../../../../core/interfaces';
+import { VoiceRecorderService } from '../../../../core/services/voice-recorder.service';
+import {
+  getBrowserTimeZone,
+  isValidTimeZone,
+  nextTimeInZone,
+  toDateTimeLocalValue,
+} from '../../../../core/utils/time-zone';
 
 export interface ImagePreview {
   file: File;
@@ -44,6 +52,23 @@ export interface SendVideoEvent {
   thumbnailBlob?: Blob;
 }
 
+export interface SendAudioEvent {
+  audioBlob: Blob;
+  duration: number;
+}
+
+export interface ScheduleMessageEvent {
+  content: string;
+  sendAt: Date;
+}
+
+/** A quick pick in the schedule-send menu */
+export interface ScheduleOption {
+  label: string;
+  sendAt: Date;
+  recipientTime?: string; // Set when the time is picked in the recipient's zone
+}
+
 @Component({
   selector: 'app-chat-input',
   templateUrl: './chat-input.html',
@@ -53,6 +78,7 @@ export interface SendVideoEvent {
 })
 export class ChatInputComponent implements OnInit, OnDestroy {
   private readonly platformId = inject(PLATFORM_ID);
+  private readonly voiceRecorder = inject(VoiceRecorderService);
   private viewportResizeHandler: (() => void) | null = null;
   private lastViewportHeight = 0;
 
@@ -62,6 +88,10 @@ export class ChatInputComponent implements OnInit, OnDestroy {
   @Input() isBlocked = false;
   @Input() isAiPanelOpen = false;
   @Input() hasAiAccess = false;
+  @Input() replyingTo: MessageDisplay | null = null;
+  @Input() editingMessage: MessageDisplay | null = null;
+  @Input() recipientTimeZone: string | null = null;
+  @Input() canScheduleMessages = true; // Not in group conversations
   @Input() timerOptions: TimerOption[] = [
     { label: 'MESSAGES.TIMER.NONE', value: null },
     { label: 'MESSAGES.TIMER.FIVE_SEC', value: 5 },
@@ -72,9 +102,14 @@ export class ChatInputComponent implements OnInit, OnDestroy {
 
   @Output() messageSent = new EventEmitter<SendMessageEvent>();
   @Output() videoSent = new EventEmitter<SendVideoEvent>();
+  @Output() audioSent = new EventEmitter<SendAudioEvent>();
   @Output() typing = new EventEmitter<void>();
   @Output() aiAssistToggled = new EventEmitter<void>();
   @Output() draftChanged = new EventEmitter<string>();
+  @Output() replyCancelled = new EventEmitter<void>();
+  @Output() messageEdited = new EventEmitter<string>();
+  @Output() editCancelled = new EventEmitter<void>();
+  @Output() messageScheduled = new EventEmitter<ScheduleMessageEvent>();
 
   protected readonly messageInput = signal('');
   protected readonly selectedImages = signal<ImagePreview[]>([]);
@@ -82,6 +117,19 @@ export class ChatInputComponent implements OnInit, OnDestroy {
   protected readonly videoUploading = signal(false);
   protected readonly imageTimer = signal<number | null>(null);
 
+  // Schedule-send menu state
+  protected readonly schedulePickerOpen = signal(false);
+  protected readonly scheduleOptions = signal<ScheduleOption[]>([]);
+  protected readonly customSendAt = signal('');
+  protected readonly customSendAtMin = signal('');
+  protected readonly customSendAtMax = signal('');
+
+  // Voice note recording state
+  protected readonly canRecord = this.voiceRecorder.isSupported();
+  protected readonly isRecording = signal(false);
+  protected readonly recordingSeconds = signal(0);
+  private recordingInterval: ReturnType<typeof setInterval> | null = null;
+
   // Max video size in bytes (100MB)
   private readonly MAX_VIDEO_SIZE = 100 * 1024 * 1024;
 
@@ -117,6 +165,14 @@ export class ChatInputComponent implements OnInit, OnDestroy {
     const video = this.selectedVideo();
     const timer = this.imageTimer();
     
+    // While editing, sending saves the new text instead
+    if (this.editingMessage) {
+      if (!content) return;
+      this.messageInput.set('');
+      this.messageEdited.emit(content);
+      return;
+    }
+    
     // Handle video separately
     if (video) {
       this.sendVideo();
@@ -133,6 +189,7 @@ export class ChatInputComponent implements OnInit, OnDestroy {
     this.messageInput.set('');
     this.clearImages();
     this.imageTimer.set(null);
+    this.schedulePickerOpen.set(false);
 
     // Emit the send event
     this.messageSent.emit({ content, files, timer });
@@ -170,10 +227,94 @@ export class ChatInputComponent implements OnInit, OnDestroy {
            this.selectedVideo() !== null;
   }
 
+  /**
+   * Text-only messages can be scheduled (not media, and not while editing)
+   */
+  protected canSchedule(): boolean {
+    return this.canScheduleMessages &&
+           this.messageInput().trim().length > 0 &&
+           this.selectedImages().length === 0 &&
+           this.selectedVideo() === null &&
+           !this.editingMessage;
+  }
+
+  protected toggleSchedulePicker(): void {
+    if (this.schedulePickerOpen()) {
+      this.schedulePickerOpen.set(false);
+      return;
+    }
+
+    const now = new Date();
+    this.scheduleOptions.set(this.buildScheduleOptions(now));
+    // Default the custom time to an hour from now, on the minute
+    const inAnHour = new Date(now.getTime() + 60 * 60 * 1000);
+    inAnHour.setSeconds(0, 0);
+    this.customSendAt.set(toDateTimeLocalValue(inAnHour));
+    this.customSendAtMin.set(toDateTimeLocalValue(now));
+    this.customSendAtMax.set(toDateTimeLocalValue(new Date(now.getTime() + SCHEDULED_MESSAGE_MAX_AHEAD_MS)));
+    this.schedulePickerOpen.set(true);
+  }
+
+  /**
+   * Quick picks: the recipient's next morning (or ours if we don't know their
+   * time zone) and this evening's 8 PM
+   */
+  private buildScheduleOptions(now: Date): ScheduleOption[] {
+    const options: ScheduleOption[] = [];
+    const recipientZone = isValidTimeZone(this.recipientTimeZone) ? this.recipientTimeZone : null;
+    const ownZone = getBrowserTimeZone();
+
+    if (recipientZone) {
+      const sendAt = nextTimeInZone(8, 0, recipientZone, now);
+      options.push({
+        label: 'MESSAGES.CHAT_INPUT.SCHEDULE_THEIR_MORNING',
+        sendAt,
+        recipientTime: sendAt.toLocaleString([], {
+          weekday: 'short', hour: '2-digit', minute: '2-digit', timeZone: recipientZone,
+        }),
+      });
+    } else if (isValidTimeZone(ownZone)) {
+      options.push({ label: 'MESSAGES.CHAT_INPUT.SCHEDULE_MORNING', sendAt: nextTimeInZone(8, 0, ownZone, now) });
+    }
+
+    if (isValidTimeZone(ownZone)) {
+      options.push({ label: 'MESSAGES.CHAT_INPUT.SCHEDULE_EVENING', sendAt: nextTimeInZone(20, 0, ownZone, now) });
+    }
+
+    return options;
+  }
+
+  protected scheduleAt(sendAt: Date): void {
+    const content = this.messageInput().trim();
+    if (!content || sendAt.getTime() <= Date.now()) return;
+
+    this.messageInput.set('');
+    this.schedulePickerOpen.set(false);
+    this.draftChanged.emit('');
+    this.messageScheduled.emit({ content, sendAt });
+  }
+
+  protected scheduleCustom(): void {
+    // datetime-local values are parsed in the browser's time zone
+    const sendAt = new Date(this.customSendAt());
+    if (isNaN(sendAt.getTime())) return;
+    this.scheduleAt(sendAt);
+  }
+
+  protected formatScheduleTime(date: Date): string {
+    return date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  }
+
   protected onKeyDown(event: KeyboardEvent): void {
     if (event.key === 'Enter' && !event.shiftKey) {
       event.preventDefault();
       this.send();
+    } else if (event.key === 'Escape' && this.schedulePickerOpen()) {
+      event.preventDefault();
+      this.schedulePickerOpen.set(false);
+    } else if (event.key === 'Escape' && this.editingMessage) {
+      event.preventDefault();
+      this.editCancelled.emit();
     }
   }
 
@@ -209,6 +350,7 @@ export class ChatInputComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.cancelRecording();
     if (this.viewportResizeHandler && window.visualViewport) {
       window.visualViewport.removeEventListener('resize', this.viewportResizeHandler);
     }
@@ -322,6 +464,70 @@ export class ChatInputComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * Start recording a voice note
+   */
+  protected async startRecording(): Promise<void> {
+    if (!this.canRecord || this.isRecording()) return;
+
+    try {
+      await this.voiceRecorder.start();
+    } catch (error) {
+      console.warn('Could not start voice recording:', error);
+      return;
+    }
+
+    this.recordingSeconds.set(0);
+    this.isRecording.set(true);
+    this.recordingInterval = setInterval(() => {
+      this.recordingSeconds.update(seconds => seconds + 1);
+      // Send automatically when the maximum length is reached
+      if (this.recordingSeconds() >= VoiceRecorderService.MAX_DURATION_SECONDS) {
+        this.sendRecording();
+      }
+    }, 1000);
+  }
+
+  /**
+   * Stop recording and send the voice note
+   */
+  protected async sendRecording(): Promise<void> {
+    if (!this.isRecording()) return;
+    this.stopRecordingTimer();
+
+    try {
+      const recording = await this.voiceRecorder.stop();
+      // Too-short recordings are dropped silently
+      if (recording) {
+        this.audioSent.emit({ audioBlob: recording.blob, duration: recording.duration });
+      }
+    } catch (error) {
+      console.error('Error processing voice recording:', error);
+    }
+  }
+
+  /**
+   * Stop recording and discard the voice note
+   */
+  protected cancelRecording(): void {
+    if (!this.isRecording()) return;
+    this.stopRecordingTimer();
+    this.voiceRecorder.cancel();
+  }
+
+  protected formatRecordingTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  private stopRecordingTimer(): void {
+    if (this.recordingInterval) {
+      clearInterval(this.recordingInterval);
+      this.recordingInterval = null;
+    }
+    this.isRecording.set(false);
+  }
+
   protected removeImage(index: number): void {
     const images = this.selectedImages();
     const removed = images[index];
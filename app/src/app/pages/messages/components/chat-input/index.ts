@@ -1,2 +1,2 @@
 export { ChatInputComponent } from './chat-input';
-export type { ImagePreview, VideoPreview, TimerOption, SendMessageEvent, SendVideoEvent } from './chat-input';
+export type { ImagePreview, VideoPreview, TimerOption, SendMessageEvent, SendVideoEvent, SendAudioEvent, ScheduleMessageEvent, ScheduleOption } from './chat-input';
@@ -12,7 +12,7 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatSelectModule } from '@angular/material/select';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { TranslateModule, TranslateService } from '@ngx-translate/core';
-import { ConversationDisplay, VirtualPhone } from '../../../../core/interfaces';
+import { ConversationDisplay, MessageSearchResult, VirtualPhone } from '../../../../core/interfaces';
 import { ConversationFilter, ReputationFilter } from '../../../../core/services/message.service';
 import { VirtualPhoneCardComponent } from '../virtual-phone-card';
 import { ReputationBadgeComponent } from '../../../../components/reputation-badge';
@@ -26,6 +26,18 @@ const TIER_FILTER_OPTIONS = [
   { value: 'trusted', label: 'MESSAGES.CONVERSATION_LIST.REPUTATION_TRUSTED_PLUS', icon: 'star', color: '#f59e0b' },
 ];
 
+/** A message search result with the conversation it belongs to */
+export interface MessageSearchResultItem {
+  result: MessageSearchResult;
+  conversation: ConversationDisplay;
+}
+
+/** A piece of a result snippet, highlighted if it matched the search */
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
 @Component({
   selector: 'app-conversation-list',
   templateUrl: './conversation-list.html',
@@ -42,6 +54,12 @@ export class ConversationListComponent {
   @Input() reputationFilter: ReputationFilter = null;
   @Input() totalUnreadCount = 0;
   @Input() archivedCount = 0;
+  @Input() labels: string[] = []; // The user's conversation labels, offered as filters
+
+  // Message search (results replace the conversation list while a query is entered)
+  @Input() searchQuery = '';
+  @Input() searchResults: MessageSearchResultItem[] | null = null;
+  @Input() searching = false;
 
   // Virtual Phone inputs (passed through to VirtualPhoneCardComponent)
   @Input() virtualPhone: VirtualPhone | null = null;
@@ -54,6 +72,8 @@ export class ConversationListComponent {
   @Output() conversationSelected = new EventEmitter<ConversationDisplay>();
   @Output() filterChanged = new EventEmitter<ConversationFilter>();
   @Output() reputationFilterChanged = new EventEmitter<ReputationFilter>();
+  @Output() searchChanged = new EventEmitter<string>();
+  @Output() searchResultSelected = new EventEmitter<MessageSearchResultItem>();
 
   // Expose tier options to template
   protected readonly tierFilterOptions = TIER_FILTER_OPTIONS;
@@ -82,10 +102,61 @@ export class ConversationListComponent {
     }
   }
 
+  /**
+   * The other participant's name, or every other member's first name in a group
+   */
+  protected getConversationName(conversation: ConversationDisplay): string {
+    const unknown = this.translate.instant('MESSAGES.CONVERSATION_LIST.UNKNOWN_USER');
+    if (!conversation.isGroup) {
+      return conversation.otherUser.displayName || unknown;
+    }
+    return (conversation.otherUsers ?? [conversation.otherUser])
+      .map(user => user.displayName?.split(' ')[0] || unknown)
+      .join(', ');
+  }
+
   protected onConversationClick(conversation: ConversationDisplay): void {
     this.conversationSelected.emit(conversation);
   }
 
+  protected onSearchInput(value: string): void {
+    this.searchChanged.emit(value);
+  }
+
+  protected clearSearch(): void {
+    this.searchChanged.emit('');
+  }
+
+  protected onSearchResultClick(item: MessageSearchResultItem): void {
+    this.searchResultSelected.emit(item);
+  }
+
+  protected formatResultTime(createdAt: number): string {
+    return this.formatTime(new Date(createdAt));
+  }
+
+  /**
+   * Split a result snippet into plain and highlighted pieces
+   */
+  protected getSnippetSegments(result: MessageSearchResult): SnippetSegment[] {
+    const segments: SnippetSegment[] = [];
+    const highlights = [...result.highlights].sort((a, b) => a.start - b.start);
+    let position = 0;
+
+    for (const { start, length } of highlights) {
+      if (start < position) continue; // Overlaps the previous highlight
+      if (start > position) {
+        segments.push({ text: result.snippet.slice(position, start), highlight: false });
+      }
+      segments.push({ text: result.snippet.slice(start, start + length), highlight: true });
+      position = start + length;
+    }
+    if (position < result.snippet.length) {
+      segments.push({ text: result.snippet.slice(position), highlight: false });
+    }
+    return segments;
+  }
+
   protected onFilterChange(filter: ConversationFilter): void {
     this.filterChanged.emit(filter);
   }
@@ -100,12 +171,17 @@ export class ConversationListComponent {
 
   protected getStatusIcon(): string {
     switch (this.conversationFilter) {
+      case 'all': return 'chat_bubble_outline';
       case 'unread': return 'mark_email_unread';
       case 'archived': return 'inventory_2';
-      default: return 'chat_bubble_outline';
+      default: return 'label';
     }
   }
 
+  protected labelFilter(label: string): ConversationFilter {
+    return `label:${label}`;
+  }
+
   protected getActiveReputationIcon(): string {
     if (!this.reputationFilter) return 'people';
     const tier = TIER_FILTER_OPTIONS.find(t => t.value === this.reputationFilter);
@@ -1 +1,2 @@
 export { ConversationListComponent } from './conversation-list';
+export type { MessageSearchResultItem, SnippetSegment } from './conversation-list';
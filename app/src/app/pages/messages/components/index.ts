@@ -1,11 +1,14 @@
 // Barrel export for messages sub-components
 export { ConversationListComponent } from './conversation-list';
+export type { MessageSearchResultItem } from './conversation-list';
 export { ChatHeaderComponent } from './chat-header';
-export type { UserStatus } from './chat-header';
+export type { UserStatus, ConversationSettingsState } from './chat-header';
 export { MessageBubbleComponent } from './message-bubble';
-export type { GalleryOpenEvent, VideoOpenEvent } from './message-bubble';
+export type { GalleryOpenEvent, VideoOpenEvent, ReactEvent, LinkOpenEvent } from './message-bubble';
 export { ChatInputComponent } from './chat-input';
-export type { ImagePreview, VideoPreview, TimerOption, SendMessageEvent, SendVideoEvent } from './chat-input';
+export type { ImagePreview, VideoPreview, TimerOption, SendMessageEvent, SendVideoEvent, SendAudioEvent, ScheduleMessageEvent, ScheduleOption } from './chat-input';
+export { ScheduledMessagesComponent } from './scheduled-messages';
+export type { ScheduledMessageUpdate } from './scheduled-messages';
 export { ImageGalleryComponent } from './image-gallery';
 export type { GalleryState } from './image-gallery';
 export { VideoPlayerComponent } from './video-player';
@@ -1,2 +1,2 @@
 export { MessageBubbleComponent } from './message-bubble';
-export type { GalleryOpenEvent, VideoOpenEvent } from './message-bubble';
+export type { GalleryOpenEvent, VideoOpenEvent, ReactEvent, LinkOpenEvent } from './message-bubble';
@@ -1,14 +1,24 @@
 import {
   ChangeDetectionStrategy,
   Component,
+  ElementRef,
   EventEmitter,
   Input,
   Output,
+  signal,
+  ViewChild,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatMenuModule } from '@angular/material/menu';
 import { TranslateModule } from '@ngx-translate/core';
-import { MessageDisplay } from '../../../../core/interfaces';
+import {
+  LinkFlagReason,
+  MESSAGE_REACTIONS,
+  MessageDisplay,
+  MessageTextSegment,
+  isMessageEditable,
+  splitMessageLinks,
+} from '../../../../core/interfaces';
 
 export interface GalleryOpenEvent {
   images: string[];
@@ -23,6 +33,21 @@ export interface VideoOpenEvent {
   message: MessageDisplay;
 }
 
+export interface ReactEvent {
+  message: MessageDisplay;
+  emoji: string | null; // null removes the current user's reaction
+}
+
+// A link that has to go through the "You're leaving Gylde" interstitial
+export interface LinkOpenEvent {
+  url: string;
+  domain: string;
+  flag: LinkFlagReason | null; // null if the link hasn't been checked yet
+}
+
+// Flat waveform shown until the server has computed the real one
+const PLACEHOLDER_WAVEFORM = Array<number>(40).fill(20);
+
 @Component({
   selector: 'app-message-bubble',
   templateUrl: './message-bubble.html',
@@ -35,17 +60,79 @@ export class MessageBubbleComponent {
   @Input() senderCountdown: number | null = null;
   @Input() recipientCountdown: number | null = null;
   @Input() isLast = false;
-  @Input() showReadReceipts = true; // Premium feature - hide for free users
+  @Input() showReadReceipts = true; // Premium feature, hidden while either side opts out
+  @Input() isHighlighted = false; // Jumped to from a search result
+  @Input() showSenderName = false; // Group conversations
 
   @Output() openGallery = new EventEmitter<GalleryOpenEvent>();
   @Output() openVideo = new EventEmitter<VideoOpenEvent>();
   @Output() deleteForMe = new EventEmitter<MessageDisplay>();
   @Output() deleteForEveryone = new EventEmitter<MessageDisplay>();
+  @Output() reply = new EventEmitter<MessageDisplay>();
+  @Output() edit = new EventEmitter<MessageDisplay>();
+  @Output() react = new EventEmitter<ReactEvent>();
+  @Output() openLink = new EventEmitter<LinkOpenEvent>();
+
+  @ViewChild('audioPlayer') audioPlayer?: ElementRef<HTMLAudioElement>;
+
+  protected readonly reactionOptions = MESSAGE_REACTIONS;
+
+  // Text split into links, kept until the content changes
+  private segmentsCache: { content: string; segments: MessageTextSegment[] } | null = null;
+
+  // Voice note playback state
+  protected readonly isPlaying = signal(false);
+  protected readonly playbackProgress = signal(0); // 0-1
 
   protected formatMessageTime(date: Date): string {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   }
 
+  // Just the time if it was seen today, otherwise the date too
+  protected formatSeenAt(date: Date): string {
+    if (date.toDateString() === new Date().toDateString()) {
+      return this.formatMessageTime(date);
+    }
+    return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  }
+
+  protected contentSegments(): MessageTextSegment[] {
+    const content = this.message.content;
+    if (this.segmentsCache?.content !== content) {
+      this.segmentsCache = { content, segments: splitMessageLinks(content) };
+    }
+    return this.segmentsCache.segments;
+  }
+
+  // Checked by the server and not flagged
+  protected isSafeLink(url: string): boolean {
+    const check = this.message.links?.find(link => link.url === url);
+    return !!check && !check.flag;
+  }
+
+  // The link preview, while its link is still in the text and safe
+  protected linkPreview(): MessageDisplay['linkPreview'] {
+    const preview = this.message.linkPreview;
+    if (!preview || !this.isSafeLink(preview.url)) return null;
+    return this.contentSegments().some(segment => segment.url === preview.url) ? preview : null;
+  }
+
+  // Safe links open normally; flagged and unchecked ones go through the interstitial
+  protected onLinkClick(event: Event, url: string): void {
+    event.stopPropagation();
+    if (this.isSafeLink(url)) return;
+
+    event.preventDefault();
+    const check = this.message.links?.find(link => link.url === url);
+    let domain = url;
+    try {
+      domain = new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      // Keep the raw link
+    }
+    this.openLink.emit({ url, domain, flag: check?.flag ?? null });
+  }
+
   protected isTimedImageExpired(): boolean {
     if (!this.message.imageTimer || this.message.isOwn) return false;
     if (this.message.isImageExpired) return true;
@@ -79,15 +166,55 @@ export class MessageBubbleComponent {
     event.preventDefault();
     event.stopPropagation();
 
-    if (!this.message.videoUrl) return;
+    // Videos still uploading have nothing to show yet; processing and failed
+    // ones open a player that explains their state
+    if (this.message.pending || this.message.videoStatus === 'uploading') return;
+    if (!this.message.videoUrl && !this.message.videoStatus) return;
 
     this.openVideo.emit({
-      videoUrl: this.message.videoUrl,
+      videoUrl: this.message.videoUrl ?? '',
       thumbnailUrl: this.message.videoThumbnailUrl,
       message: this.message,
     });
   }
 
+  protected waveformBars(): number[] {
+    return this.message.audioWaveform?.length ? this.message.audioWaveform : PLACEHOLDER_WAVEFORM;
+  }
+
+  protected toggleAudio(event: Event): void {
+    event.stopPropagation();
+    const audio = this.audioPlayer?.nativeElement;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play().then(() => this.isPlaying.set(true)).catch(error => {
+        console.error('Error playing voice note:', error);
+      });
+    } else {
+      audio.pause();
+      this.isPlaying.set(false);
+    }
+  }
+
+  protected onAudioTimeUpdate(): void {
+    const audio = this.audioPlayer?.nativeElement;
+    if (!audio) return;
+    // WAV duration is usually known, but fall back to the stored duration
+    const duration = Number.isFinite(audio.duration) ? audio.duration : this.message.audioDuration ?? 0;
+    this.playbackProgress.set(duration > 0 ? Math.min(1, audio.currentTime / duration) : 0);
+  }
+
+  protected onAudioEnded(): void {
+    this.isPlaying.set(false);
+    this.playbackProgress.set(0);
+  }
+
+  protected formatDuration(seconds: number | undefined): string {
+    const total = Math.round(seconds ?? 0);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+  }
+
   protected onDeleteForMe(): void {
     this.deleteForMe.emit(this.message);
   }
@@ -97,6 +224,31 @@ export class MessageBubbleComponent {
     this.deleteForEveryone.emit(this.message);
   }
 
+  protected canEdit(): boolean {
+    return isMessageEditable(this.message);
+  }
+
+  protected onEdit(): void {
+    if (!this.canEdit()) return;
+    this.edit.emit(this.message);
+  }
+
+  protected onReply(): void {
+    if (this.message.pending) return;
+    this.reply.emit(this.message);
+  }
+
+  /**
+   * React with an emoji, or remove the reaction if it's already the user's
+   */
+  protected onReact(emoji: string): void {
+    if (this.message.pending) return;
+    this.react.emit({
+      message: this.message,
+      emoji: this.message.myReaction === emoji ? null : emoji,
+    });
+  }
+
   protected isBlobUrl(url: string): boolean {
     return url?.startsWith('blob:');
   }
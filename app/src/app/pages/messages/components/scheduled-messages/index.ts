@@ -0,0 +1,2 @@
+export { ScheduledMessagesComponent } from './scheduled-messages';
+export type { ScheduledMessageUpdate } from './scheduled-messages';
@@ -0,0 +1,108 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  EventEmitter,
+  Input,
+  Output,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranslateModule } from '@ngx-translate/core';
+import { ScheduledMessage, SCHEDULED_MESSAGE_MAX_AHEAD_MS } from '../../../../core/interfaces';
+import { toDateTimeLocalValue } from '../../../../core/utils/time-zone';
+
+export interface ScheduledMessageUpdate {
+  id: string;
+  content: string;
+  sendAt: Date;
+}
+
+// Failure reasons with their own explanation; anything else uses FAILED_DEFAULT
+const KNOWN_FAILURE_REASONS = ['higher_tier_limit_reached', 'recipient_min_tier_not_met', 'recipient_unavailable'];
+
+/**
+ * The current user's scheduled messages in a conversation, shown above the input
+ * Collapsed to a count by default; each message can be edited or cancelled.
+ */
+@Component({
+  selector: 'app-scheduled-messages',
+  templateUrl: './scheduled-messages.html',
+  styleUrl: './scheduled-messages.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [CommonModule, TranslateModule],
+})
+export class ScheduledMessagesComponent {
+  @Input() messages: ScheduledMessage[] = [];
+
+  @Output() updated = new EventEmitter<ScheduledMessageUpdate>();
+  @Output() cancelled = new EventEmitter<ScheduledMessage>();
+
+  protected readonly expanded = signal(false);
+  protected readonly editingId = signal<string | null>(null);
+  protected readonly editContent = signal('');
+  protected readonly editSendAt = signal('');
+  protected readonly editSendAtMin = signal('');
+  protected readonly editSendAtMax = signal('');
+
+  protected hasFailures(): boolean {
+    return this.messages.some(message => message.status === 'failed');
+  }
+
+  protected toggleExpanded(): void {
+    this.expanded.update(expanded => !expanded);
+    if (!this.expanded()) {
+      this.editingId.set(null);
+    }
+  }
+
+  protected startEditing(message: ScheduledMessage): void {
+    const now = new Date();
+    // A failed message's time has passed, so suggest an hour from now instead
+    const sendAt = message.sendAt.toDate();
+    const suggested = sendAt.getTime() > now.getTime() ? sendAt : new Date(now.getTime() + 60 * 60 * 1000);
+
+    this.editContent.set(message.content);
+    this.editSendAt.set(toDateTimeLocalValue(suggested));
+    this.editSendAtMin.set(toDateTimeLocalValue(now));
+    this.editSendAtMax.set(toDateTimeLocalValue(new Date(now.getTime() + SCHEDULED_MESSAGE_MAX_AHEAD_MS)));
+    this.editingId.set(message.id);
+  }
+
+  protected cancelEditing(): void {
+    this.editingId.set(null);
+  }
+
+  protected saveEdit(message: ScheduledMessage): void {
+    const content = this.editContent().trim();
+    // datetime-local values are parsed in the browser's time zone
+    const sendAt = new Date(this.editSendAt());
+    if (!content || isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) return;
+
+    this.editingId.set(null);
+    this.updated.emit({ id: message.id, content, sendAt });
+  }
+
+  protected canSave(): boolean {
+    const sendAt = new Date(this.editSendAt());
+    return this.editContent().trim().length > 0 &&
+           !isNaN(sendAt.getTime()) &&
+           sendAt.getTime() > Date.now();
+  }
+
+  protected failureKey(message: ScheduledMessage): string {
+    const reason = message.failureReason ?? '';
+    return KNOWN_FAILURE_REASONS.includes(reason)
+      ? `MESSAGES.SCHEDULED.FAILED_${reason.toUpperCase()}`
+      : 'MESSAGES.SCHEDULED.FAILED_DEFAULT';
+  }
+
+  protected formatSendAt(message: ScheduledMessage): string {
+    return message.sendAt.toDate().toLocaleString([], {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+}
@@ -4,15 +4,21 @@ import {
   EventEmitter,
   HostListener,
   Input,
+  OnChanges,
   Output,
+  SimpleChanges,
+  signal,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { TranslateModule } from '@ngx-translate/core';
+import { VideoStatus } from '../../../../core/interfaces';
 
 export interface VideoPlayerState {
   isOpen: boolean;
   videoUrl: string;
   thumbnailUrl?: string;
   messageId?: string;
+  status?: VideoStatus; // Missing for videos sent before processing existed
 }
 
 @Component({
@@ -20,9 +26,9 @@ export interface VideoPlayerState {
   templateUrl: './video-player.html',
   styleUrl: './video-player.css',
   changeDetection: ChangeDetectionStrategy.OnPush,
-  imports: [CommonModule],
+  imports: [CommonModule, TranslateModule],
 })
-export class VideoPlayerComponent {
+export class VideoPlayerComponent implements OnChanges {
   @Input() video: VideoPlayerState = {
     isOpen: false,
     videoUrl: '',
@@ -30,6 +36,20 @@ export class VideoPlayerComponent {
 
   @Output() closed = new EventEmitter<void>();
 
+  // The browser couldn't play the file (e.g. an older, untranscoded upload)
+  protected readonly playbackFailed = signal(false);
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const previous = changes['video']?.previousValue as VideoPlayerState | undefined;
+    if (previous?.videoUrl !== this.video.videoUrl) {
+      this.playbackFailed.set(false);
+    }
+  }
+
+  protected onPlaybackError(): void {
+    this.playbackFailed.set(true);
+  }
+
   protected close(): void {
     this.closed.emit();
   }
@@ -8,6 +8,7 @@ import {
   OnDestroy,
   AfterViewInit,
   effect,
+  untracked,
   ViewChild,
 } from '@angular/core';
 import { Subscription } from 'rxjs';
@@ -19,16 +20,20 @@ import { Firestore, doc, getDoc, updateDoc } from '@angular/fire/firestore';
 import { Functions, httpsCallable } from '@angular/fire/functions';
 import { Auth } from '@angular/fire/auth';
 import { MatDialog } from '@angular/material/dialog';
-import { TranslateModule } from '@ngx-translate/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
 import { ReportDialogComponent, ReportDialogData } from '../../components/report-dialog';
 import { BlockConfirmDialogComponent, BlockConfirmDialogData } from '../../components/block-confirm-dialog';
+import { ConversationLabelsDialogComponent, ConversationLabelsDialogData } from '../../components/conversation-labels-dialog';
+import { LinkInterstitialDialogComponent, LinkInterstitialDialogData } from '../../components/link-interstitial-dialog';
+import { CreateGroupDialogComponent, CreateGroupDialogData } from '../../components/create-group-dialog';
 import { MessageService, ConversationFilter, ReputationFilter } from '../../core/services/message.service';
 import { BlockService } from '../../core/services/block.service';
 import { SubscriptionService } from '../../core/services/subscription.service';
 import { AiChatService } from '../../core/services/ai-chat.service';
 import { UserProfileService } from '../../core/services/user-profile.service';
 import { AnalyticsService } from '../../core/services/analytics.service';
-import { ConversationDisplay, MessageDisplay, VirtualPhone, VirtualPhoneSettings } from '../../core/interfaces';
+import { ConversationDisplay, ConversationMuteDuration, ConversationParticipant, MessageDisplay, MessageSearchResult, ScheduledMessage, VirtualPhone, VirtualPhoneSettings } from '../../core/interfaces';
 import { AiAssistPanelComponent, AiAssistContext } from '../../components/ai-assist-panel';
 
 // Import sub-components
@@ -37,6 +42,7 @@ import {
   ChatHeaderComponent,
   MessageBubbleComponent,
   ChatInputComponent,
+  ScheduledMessagesComponent,
   ImageGalleryComponent,
   VideoPlayerComponent,
   VirtualPhoneSettingsComponent,
@@ -44,8 +50,15 @@ import {
   GalleryOpenEvent,
   VideoPlayerState,
   VideoOpenEvent,
+  ReactEvent,
+  LinkOpenEvent,
   SendMessageEvent,
   SendVideoEvent,
+  SendAudioEvent,
+  ScheduleMessageEvent,
+  ScheduledMessageUpdate,
+  MessageSearchResultItem,
+  ConversationSettingsState,
 } from './components';
 
 @Component({
@@ -62,6 +75,7 @@ import {
     ChatHeaderComponent,
     MessageBubbleComponent,
     ChatInputComponent,
+    ScheduledMessagesComponent,
     ImageGalleryComponent,
     VideoPlayerComponent,
     VirtualPhoneSettingsComponent,
@@ -79,6 +93,8 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
   private readonly functions = inject(Functions);
   private readonly auth = inject(Auth);
   private readonly dialog = inject(MatDialog);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly translate = inject(TranslateService);
   private readonly analytics = inject(AnalyticsService);
 
   @ViewChild(ChatInputComponent) chatInput!: ChatInputComponent;
@@ -90,6 +106,7 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
   private isInitialLoad = true;
   private isReloading = false; // Prevent concurrent reloads
   private bofSubscription: Subscription | null = null; // Subscription for beginning-of-file detection
+  private focusHighlightTimeout: ReturnType<typeof setTimeout> | null = null;
 
   protected readonly gallery = signal<GalleryState>({
     isOpen: false,
@@ -99,10 +116,26 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
   protected readonly galleryCountdown = signal<number | null>(null);
   
   // Video player state
-  protected readonly videoPlayer = signal<VideoPlayerState>({
+  private readonly videoPlayerState = signal<VideoPlayerState>({
     isOpen: false,
     videoUrl: '',
   });
+  // Follows the open video's message, so a video that finishes processing
+  // while the player is open starts playing
+  protected readonly videoPlayer = computed((): VideoPlayerState => {
+    const state = this.videoPlayerState();
+    if (!state.isOpen || !state.messageId) return state;
+
+    const message = this.messageService.messages().find(m => m.id === state.messageId);
+    if (!message) return state;
+
+    return {
+      ...state,
+      videoUrl: message.videoUrl ?? '',
+      thumbnailUrl: message.videoThumbnailUrl,
+      status: message.videoStatus,
+    };
+  });
   protected readonly currentDraft = signal<string>('');
   protected readonly senderCountdowns = signal<Map<string, number>>(new Map());
   protected readonly recipientCountdowns = signal<Map<string, number>>(new Map());
@@ -124,10 +157,49 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
   protected readonly archivedCount = this.messageService.archivedCount;
   protected readonly loadingOlderMessages = this.messageService.loadingOlderMessages;
   protected readonly hasOlderMessages = this.messageService.hasOlderMessages;
+  protected readonly replyingTo = this.messageService.replyingTo;
+  protected readonly editingMessage = this.messageService.editingMessage;
+  protected readonly scheduledMessages = this.messageService.scheduledMessages;
+  protected readonly focusedMessageId = this.messageService.focusedMessageId;
+  protected readonly conversationLabels = this.messageService.conversationLabels;
+
+  protected readonly activeConversationSettings = computed((): ConversationSettingsState | null => {
+    const settings = this.messageService.activeConversationSettings();
+    if (!settings) return null;
+    return {
+      ...settings,
+      isMutedIndefinitely: this.messageService.isMutedIndefinitely(settings.mutedUntil),
+    };
+  });
+
+  // Message search across all conversations
+  protected readonly searchQuery = signal('');
+  protected readonly searching = signal(false);
+  private readonly rawSearchResults = signal<MessageSearchResult[] | null>(null);
+  private searchDebounceTimeout: ReturnType<typeof setTimeout> | null = null;
+  private searchSequence = 0; // Ignore responses to superseded searches
+  private static readonly SEARCH_DEBOUNCE_MS = 300;
+  private static readonly MIN_SEARCH_LENGTH = 2;
+
+  // Pair each result with its conversation; the server already drops blocked
+  // users, this also hides anyone blocked since the search ran
+  protected readonly searchResults = computed((): MessageSearchResultItem[] | null => {
+    const results = this.rawSearchResults();
+    if (results === null) return null;
+
+    const conversationsById = new Map(this.messageService.conversations().map(c => [c.id, c]));
+    const items: MessageSearchResultItem[] = [];
+    for (const result of results) {
+      const conversation = conversationsById.get(result.conversationId);
+      if (!conversation || this.blockService.isUserBlocked(result.otherUserId)) continue;
+      items.push({ result, conversation });
+    }
+    return items;
+  });
   
   protected readonly isOtherUserBlocked = computed(() => {
     const convo = this.activeConversation();
-    if (!convo?.otherUser?.uid) return false;
+    if (!convo?.otherUser?.uid || convo.isGroup) return false;
     return this.blockService.isUserBlocked(convo.otherUser.uid);
   });
 
@@ -151,9 +223,9 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     return this.subscriptionService.capabilities().unlimitedMessaging;
   });
 
-  // Read receipts are a premium feature
+  // Read receipts are a premium feature, hidden while either side opts out
   protected readonly showReadReceipts = computed(() => {
-    return this.subscriptionService.capabilities().readReceipts;
+    return this.messageService.canSeeReadReceipts() && this.messageService.readReceiptsAvailable();
   });
 
   // Message permission from reputation system
@@ -279,6 +351,14 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
       }
     });
 
+    // Scroll to a message once the service has loaded it (e.g. a search result)
+    effect(() => {
+      const messageId = this.focusedMessageId();
+      if (messageId) {
+        untracked(() => this.scrollToMessage(messageId));
+      }
+    });
+
     effect(() => {
       const isPremium = this.subscriptionService.isPremium();
       if (isPremium && !this.virtualPhone() && !this.virtualPhoneLoading() && !this.virtualPhoneLoadAttempted) {
@@ -549,7 +629,17 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
               currentMessage.isDeletedForAll !== freshMessage.isDeletedForAll ||
               currentMessage.isDeletedForMe !== freshMessage.isDeletedForMe ||
               currentMessage.content !== freshMessage.content ||
-              currentMessage.type !== freshMessage.type;
+              currentMessage.type !== freshMessage.type ||
+              currentMessage.isEdited !== freshMessage.isEdited ||
+              currentMessage.videoStatus !== freshMessage.videoStatus ||
+              currentMessage.videoUrl !== freshMessage.videoUrl ||
+              currentMessage.videoDuration !== freshMessage.videoDuration ||
+              currentMessage.uploadProgress !== freshMessage.uploadProgress ||
+              this.reactionsKey(currentMessage) !== this.reactionsKey(freshMessage) ||
+              this.linksKey(currentMessage) !== this.linksKey(freshMessage) ||
+              currentMessage.linkPreview?.url !== freshMessage.linkPreview?.url ||
+              currentMessage.replyTo?.isDeleted !== freshMessage.replyTo?.isDeleted ||
+              currentMessage.replyTo?.isExpired !== freshMessage.replyTo?.isExpired;
             
             if (hasChanges) {
               // Replace item.data with fresh message to trigger OnPush change detection
@@ -584,6 +674,46 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     this.stopRecipientCountdowns();
     this.stopGalleryCountdown();
     this.bofSubscription?.unsubscribe();
+    if (this.searchDebounceTimeout) {
+      clearTimeout(this.searchDebounceTimeout);
+    }
+    if (this.focusHighlightTimeout) {
+      clearTimeout(this.focusHighlightTimeout);
+    }
+  }
+
+  /**
+   * Scroll the virtual list to a message and highlight it briefly
+   */
+  private async scrollToMessage(messageId: string): Promise<void> {
+    const adapter = this.messageDatasource.adapter;
+    
+    // Let the reload for the history that was just prepended finish first
+    for (let attempt = 0; attempt < 50 && (this.isReloading || !adapter.init); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    if (this.isReloading || !adapter.init) return;
+
+    const confirmedMessages = this.messages().filter(m => !m.pending);
+    const index = confirmedMessages.findIndex(m => m.id === messageId);
+    if (index < 0) return;
+
+    this.isReloading = true;
+    try {
+      adapter.fix({ minIndex: 0, maxIndex: confirmedMessages.length - 1 });
+      await adapter.reload(index);
+      await adapter.relax();
+    } finally {
+      this.isReloading = false;
+    }
+
+    if (this.focusHighlightTimeout) {
+      clearTimeout(this.focusHighlightTimeout);
+    }
+    this.focusHighlightTimeout = setTimeout(() => {
+      this.focusHighlightTimeout = null;
+      this.messageService.clearFocusedMessage();
+    }, 3000);
   }
 
   /**
@@ -739,6 +869,53 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     this.messageService.setReputationFilter(tier);
   }
 
+  protected onSearchChanged(searchQuery: string): void {
+    this.searchQuery.set(searchQuery);
+    if (this.searchDebounceTimeout) {
+      clearTimeout(this.searchDebounceTimeout);
+      this.searchDebounceTimeout = null;
+    }
+
+    const sequence = ++this.searchSequence;
+    const trimmed = searchQuery.trim();
+    if (trimmed.length < MessagesComponent.MIN_SEARCH_LENGTH) {
+      this.searching.set(false);
+      this.rawSearchResults.set(null);
+      return;
+    }
+
+    this.searching.set(true);
+    this.searchDebounceTimeout = setTimeout(async () => {
+      this.searchDebounceTimeout = null;
+      try {
+        const results = await this.messageService.searchMessages(trimmed);
+        if (sequence !== this.searchSequence) return;
+        this.rawSearchResults.set(results);
+      } catch (error) {
+        console.error('Error searching messages:', error);
+        if (sequence !== this.searchSequence) return;
+        this.rawSearchResults.set([]);
+      } finally {
+        if (sequence === this.searchSequence) {
+          this.searching.set(false);
+        }
+      }
+    }, MessagesComponent.SEARCH_DEBOUNCE_MS);
+  }
+
+  protected onSearchResultSelected(item: MessageSearchResultItem): void {
+    const { conversation, result } = item;
+    this.messageService.requestMessageFocus(conversation.id, result.messageId);
+    if (this.activeConversation()?.id === conversation.id) return;
+
+    // Opening from the route only finds conversations the current filters show
+    if (!this.conversations().some(c => c.id === conversation.id)) {
+      this.messageService.setConversationFilter(conversation.isArchived ? 'archived' : 'all');
+      this.messageService.setReputationFilter(null);
+    }
+    this.onConversationSelected(conversation);
+  }
+
   // ============================================
   // CHAT HEADER HANDLERS
   // ============================================
@@ -755,6 +932,76 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     this.router.navigate(['/user', activeConvo.otherUser.uid]);
   }
 
+  protected onViewMember(uid: string): void {
+    this.analytics.trackProfileView(uid, 'messages');
+    this.router.navigate(['/user', uid]);
+  }
+
+  /**
+   * Start a group with the other user and people from the user's other chats
+   */
+  protected onCreateGroup(): void {
+    const activeConvo = this.activeConversation();
+    if (!activeConvo?.otherUser?.uid || activeConvo.isGroup) return;
+
+    const candidates = this.messageService.conversations()
+      .filter(c => !c.isGroup && !c.isBlocked && c.otherUser.uid)
+      .map(c => c.otherUser);
+
+    const dialogRef = this.dialog.open<CreateGroupDialogComponent, CreateGroupDialogData, string[]>(
+      CreateGroupDialogComponent,
+      {
+        data: {
+          candidates,
+          preselectedIds: [activeConvo.otherUser.uid],
+        },
+        width: '450px',
+        maxWidth: '95vw',
+      }
+    );
+
+    dialogRef.afterClosed().subscribe(async (participantIds) => {
+      if (!participantIds) return;
+      try {
+        const conversationId = await this.messageService.createGroupConversation(participantIds);
+        this.router.navigate(['/messages', conversationId]);
+      } catch (error) {
+        this.showCreateGroupError(error, candidates);
+      }
+    });
+  }
+
+  private showCreateGroupError(error: unknown, candidates: ConversationParticipant[]): void {
+    const details = (error as { details?: { reason?: string; userId?: string | null } }).details;
+    const name = candidates.find(c => c.uid === details?.userId)?.displayName ||
+      this.translate.instant('MESSAGES.CREATE_GROUP_ERRORS.SOMEONE');
+
+    let key: string;
+    switch (details?.reason) {
+      case 'blocked':
+        key = 'MESSAGES.CREATE_GROUP_ERRORS.BLOCKED_MEMBER';
+        break;
+      case 'recipient_min_tier_not_met':
+        key = 'MESSAGES.CREATE_GROUP_ERRORS.MIN_TIER_NOT_MET';
+        break;
+      case 'higher_tier_limit_reached':
+        key = 'MESSAGES.CREATE_GROUP_ERRORS.HIGHER_TIER_LIMIT';
+        break;
+      case 'recipient_unavailable':
+        key = 'MESSAGES.CREATE_GROUP_ERRORS.UNAVAILABLE';
+        break;
+      default:
+        console.error('Error creating group conversation:', error);
+        key = 'MESSAGES.CREATE_GROUP_ERRORS.GENERIC';
+    }
+
+    this.snackBar.open(
+      this.translate.instant(key, { name }),
+      this.translate.instant('COMMON.OK'),
+      { duration: 5000, panelClass: 'error-snackbar' }
+    );
+  }
+
   protected async onArchiveChat(): Promise<void> {
     const activeConvo = this.activeConversation();
     if (!activeConvo) return;
@@ -778,6 +1025,97 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     this.chatInput?.setMessageInput(numberMessage);
   }
 
+  protected async onPinChanged(pinned: boolean): Promise<void> {
+    const activeConvo = this.activeConversation();
+    if (!activeConvo) return;
+    
+    await this.messageService.setConversationPinned(activeConvo.id, pinned);
+  }
+
+  protected async onMuteChat(duration: ConversationMuteDuration): Promise<void> {
+    const activeConvo = this.activeConversation();
+    if (!activeConvo) return;
+    
+    await this.messageService.muteConversation(activeConvo.id, duration);
+  }
+
+  protected async onUnmuteChat(): Promise<void> {
+    const activeConvo = this.activeConversation();
+    if (!activeConvo) return;
+    
+    await this.messageService.unmuteConversation(activeConvo.id);
+  }
+
+  protected onEditLabels(): void {
+    const activeConvo = this.activeConversation();
+    if (!activeConvo?.otherUser) return;
+
+    const dialogRef = this.dialog.open<ConversationLabelsDialogComponent, ConversationLabelsDialogData, string[]>(
+      ConversationLabelsDialogComponent,
+      {
+        data: {
+          displayName: this.messageService.getOtherParticipants(activeConvo)
+            .map(user => user.displayName)
+            .filter(Boolean)
+            .join(', ') || 'this chat',
+          labels: this.messageService.activeConversationSettings()?.labels ?? [],
+          availableLabels: this.conversationLabels(),
+        },
+        width: '450px',
+        maxWidth: '95vw',
+      }
+    );
+
+    dialogRef.afterClosed().subscribe((labels) => {
+      if (!labels) return;
+      this.messageService.setConversationLabels(activeConvo.id, labels).catch((error) => {
+        console.error('Error saving conversation labels:', error);
+      });
+    });
+  }
+
+  protected async onExportChat(): Promise<void> {
+    const activeConvo = this.activeConversation();
+    if (!activeConvo) return;
+
+    try {
+      await this.messageService.exportConversation(activeConvo.id);
+      this.snackBar.open(
+        this.translate.instant('MESSAGES.EXPORT_STARTED'),
+        this.translate.instant('COMMON.OK'),
+        { duration: 5000, panelClass: 'info-snackbar' }
+      );
+    } catch (error) {
+      const alreadyExporting = (error as { code?: string }).code === 'functions/already-exists';
+      if (!alreadyExporting) {
+        console.error('Error exporting conversation:', error);
+      }
+      this.snackBar.open(
+        this.translate.instant(alreadyExporting ? 'MESSAGES.EXPORT_IN_PROGRESS' : 'MESSAGES.EXPORT_FAILED'),
+        this.translate.instant('COMMON.OK'),
+        { duration: 5000, panelClass: alreadyExporting ? 'info-snackbar' : 'error-snackbar' }
+      );
+    }
+  }
+
+  protected async onLeaveGroup(): Promise<void> {
+    const activeConvo = this.activeConversation();
+    if (!activeConvo?.isGroup) return;
+
+    try {
+      await this.messageService.leaveGroupConversation(activeConvo.id);
+      this.messageService.closeConversation();
+      this.router.navigate(['/messages'], { replaceUrl: true });
+    } catch (error) {
+      console.error('Error leaving group conversation:', error);
+      this.snackBar.open(
+        this.translate.instant('MESSAGES.LEAVE_GROUP_FAILED'),
+        this.translate.instant('COMMON.OK'),
+        { duration: 5000, panelClass: 'error-snackbar' }
+      );
+    }
+  }
+
   protected onBlockUser(): void {
     const activeConvo = this.activeConversation();
     if (!activeConvo?.otherUser) return;
@@ -833,6 +1171,33 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     this.currentDraft.set(''); // Clear draft after sending
   }
 
+  protected async onMessageScheduled(event: ScheduleMessageEvent): Promise<void> {
+    this.currentDraft.set('');
+    try {
+      await this.messageService.scheduleMessage(event.content, event.sendAt);
+    } catch (error) {
+      console.error('Error scheduling message:', error);
+      // Put the text back so it isn't lost
+      this.chatInput?.setMessageInput(event.content);
+    }
+  }
+
+  protected async onScheduledMessageUpdated(event: ScheduledMessageUpdate): Promise<void> {
+    try {
+      await this.messageService.updateScheduledMessage(event.id, event.content, event.sendAt);
+    } catch (error) {
+      console.error('Error updating scheduled message:', error);
+    }
+  }
+
+  protected async onScheduledMessageCancelled(message: ScheduledMessage): Promise<void> {
+    try {
+      await this.messageService.cancelScheduledMessage(message.id);
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error);
+    }
+  }
+
   protected onVideoSent(event: SendVideoEvent): void {
     // Track video sent
     this.analytics.trackMessageSent(true, 0);
@@ -840,6 +1205,13 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     this.messageService.sendVideoMessage(event.videoFile, event.thumbnailBlob);
   }
 
+  protected onAudioSent(event: SendAudioEvent): void {
+    // Track voice note sent
+    this.analytics.trackMessageSent(true, 0);
+    
+    this.messageService.sendAudioMessage(event.audioBlob, event.duration);
+  }
+
   protected onTyping(): void {
     this.messageService.setTyping(true);
   }
@@ -857,6 +1229,72 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     await this.messageService.deleteMessageForEveryone(message.id);
   }
 
+  protected onReply(message: MessageDisplay): void {
+    this.messageService.setReplyingTo(message);
+    this.chatInput?.focusInput();
+  }
+
+  protected onCancelReply(): void {
+    this.messageService.clearReplyingTo();
+  }
+
+  protected onEdit(message: MessageDisplay): void {
+    this.messageService.setEditingMessage(message);
+    this.chatInput?.setMessageInput(message.content);
+  }
+
+  protected onCancelEdit(): void {
+    this.messageService.clearEditingMessage();
+    this.chatInput?.setMessageInput('');
+  }
+
+  protected async onMessageEdited(content: string): Promise<void> {
+    const message = this.editingMessage();
+    if (!message) return;
+    await this.messageService.editMessage(message.id, content);
+    this.currentDraft.set('');
+  }
+
+  protected async onReact(event: ReactEvent): Promise<void> {
+    await this.messageService.setReaction(event.message.id, event.emoji);
+  }
+
+  /**
+   * Comparable snapshot of a message's reactions (for the datasource updater)
+   */
+  private reactionsKey(message: MessageDisplay): string {
+    return (message.reactions ?? [])
+      .map(reaction => `${reaction.emoji}:${reaction.count}:${reaction.reactedByMe}`)
+      .join(',');
+  }
+
+  /**
+   * Comparable snapshot of a message's checked links (for the datasource updater)
+   */
+  private linksKey(message: MessageDisplay): string {
+    return (message.links ?? []).map(link => `${link.url}:${link.flag}`).join(',');
+  }
+
+  /**
+   * Flagged or unchecked link clicked: confirm before leaving the app
+   */
+  protected onOpenLink(event: LinkOpenEvent): void {
+    const dialogRef = this.dialog.open<LinkInterstitialDialogComponent, LinkInterstitialDialogData, boolean>(
+      LinkInterstitialDialogComponent,
+      {
+        data: { url: event.url, domain: event.domain, flag: event.flag },
+        width: '450px',
+        maxWidth: '95vw',
+      }
+    );
+
+    dialogRef.afterClosed().subscribe((confirmed) => {
+      if (confirmed) {
+        window.open(event.url, '_blank', 'noopener,noreferrer');
+      }
+    });
+  }
+
   // ============================================
   // GALLERY HANDLERS
   // ============================================
@@ -930,18 +1368,19 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
   protected onOpenVideo(event: VideoOpenEvent): void {
     const { videoUrl, thumbnailUrl, message } = event;
 
-    if (!videoUrl) return;
+    if (!videoUrl && !message.videoStatus) return;
 
-    this.videoPlayer.set({
+    this.videoPlayerState.set({
       isOpen: true,
       videoUrl,
       thumbnailUrl,
       messageId: message.id,
+      status: message.videoStatus,
     });
   }
 
   protected onVideoClosed(): void {
-    this.videoPlayer.update(v => ({ ...v, isOpen: false }));
+    this.videoPlayerState.update(v => ({ ...v, isOpen: false }));
   }
 
   // ============================================
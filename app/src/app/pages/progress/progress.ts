@@ -1,10 +1,12 @@
-import { ChangeDetectionStrategy, Component, inject, computed, signal } from '@angular/core';
+import { ChangeDetectionStrategy, Component, OnInit, inject, computed, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
 import { Router } from '@angular/router';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { TranslateModule } from '@ngx-translate/core';
 import { SubscriptionService } from '../../core/services/subscription.service';
+import { ReputationService } from '../../core/services/reputation.service';
 import { IdentityVerificationComponent } from '../../components/identity-verification';
 import { 
   TrustCategory,
@@ -13,6 +15,9 @@ import {
   TRUST_TASK_UI,
   TRUST_CATEGORIES,
   getTasksByCategory,
+  ReputationHistoryEntry,
+  TIER_DISPLAY,
+  compareTiers,
 } from '../../core/interfaces';
 
 /**
@@ -41,6 +46,7 @@ interface TrustCategoryDisplay extends TrustCategoryDefinition {
   styleUrl: './progress.css',
   changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [
+    DatePipe,
     TranslateModule,
     MatButtonModule,
     MatIconModule,
@@ -48,8 +54,9 @@ interface TrustCategoryDisplay extends TrustCategoryDefinition {
     IdentityVerificationComponent,
   ],
 })
-export class ProgressComponent {
+export class ProgressComponent implements OnInit {
   private readonly router = inject(Router);
+  private readonly reputationService = inject(ReputationService);
   protected readonly subscriptionService = inject(SubscriptionService);
 
   // Premium members get a badge
@@ -122,9 +129,38 @@ export class ProgressComponent {
     return TRUST_TASK_UI.length;
   });
 
+  // Reputation history timeline
+  protected readonly tierDisplay = TIER_DISPLAY;
+  protected readonly history = signal<ReputationHistoryEntry[]>([]);
+  protected readonly historyLoading = signal(true);
+  protected readonly historyError = signal(false);
+
   // Identity verification dialog
   protected readonly showVerificationDialog = signal(false);
 
+  ngOnInit(): void {
+    this.loadHistory();
+  }
+
+  private async loadHistory(): Promise<void> {
+    try {
+      this.history.set(await this.reputationService.getHistory());
+    } catch (error) {
+      console.error('Error loading reputation history:', error);
+      this.historyError.set(true);
+    } finally {
+      this.historyLoading.set(false);
+    }
+  }
+
+  /**
+   * Direction of the tier change for a timeline entry (null if the tier didn't change)
+   */
+  protected getTierChange(entry: ReputationHistoryEntry): 'up' | 'down' | null {
+    if (!entry.previousTier || entry.previousTier === entry.tier) return null;
+    return compareTiers(entry.tier, entry.previousTier) > 0 ? 'up' : 'down';
+  }
+
   protected onTaskAction(task: TrustTaskDisplay): void {
     // Special handling for identity verification
     if (task.id === 'identity_verified') {
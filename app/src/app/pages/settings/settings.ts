@@ -20,6 +20,7 @@ import { SubscriptionService } from '../../core/services/subscription.service';
 import { AnalyticsService } from '../../core/services/analytics.service';
 import { UserSettings } from '../../core/interfaces';
 import { BlockedUsersDialogComponent } from '../../components/blocked-users-dialog';
+import { HiddenProfilesDialogComponent } from '../../components/hidden-profiles-dialog';
 
 @Component({
   selector: 'app-settings',
@@ -213,6 +214,12 @@ export class SettingsComponent implements OnInit, OnDestroy {
     });
   }
 
+  protected openHiddenProfilesDialog(): void {
+    this.dialog.open(HiddenProfilesDialogComponent, {
+      panelClass: 'blocked-users-dialog-container',
+    });
+  }
+
   protected async handleSubscriptionAction(): Promise<void> {
     if (this.subscriptionService.isPremium()) {
       // Open Stripe customer portal for managing subscription
@@ -254,11 +261,13 @@ export class SettingsComponent implements OnInit, OnDestroy {
           showLastActive: true,
           profileVisible: true,
           showLocation: true,
+          sendReadReceipts: true,
         },
         notifications: {
           emailMatches: true,
           emailMessages: true,
           emailFavorites: true,
+          emailSavedSearches: true,
         },
         preferences: {
           language: this.translateService.currentLang || 'en',
@@ -17,6 +17,7 @@ import { BlockService } from '../../core/services/block.service';
 import { SubscriptionService } from '../../core/services/subscription.service';
 import { RemoteConfigService } from '../../core/services/remote-config.service';
 import { AnalyticsService } from '../../core/services/analytics.service';
+import { ModerationService } from '../../core/services/moderation.service';
 import { ActivityDisplay, TRUST_TASK_UI } from '../../core/interfaces';
 import { PhotoAccessDialogComponent } from '../../components/photo-access-dialog';
 import { FounderIssueDialogComponent } from '../../components/founder-issue-dialog';
@@ -51,6 +52,7 @@ export class ShellComponent implements OnInit, OnDestroy {
   private readonly platformId = inject(PLATFORM_ID);
   private readonly dialog = inject(MatDialog);
   private readonly analytics = inject(AnalyticsService);
+  private readonly moderationService = inject(ModerationService);
 
   // Message state
   protected readonly messageUnreadCount = this.messageService.totalUnreadCount;
@@ -124,6 +126,10 @@ export class ShellComponent implements OnInit, OnDestroy {
     { id: 'settings', path: '/settings', icon: 'settings', labelKey: 'SETTINGS' },
   ];
 
+  // Moderators (admin claim) also get the report queue
+  protected readonly isModerator = this.moderationService.isModerator;
+  protected readonly moderationNavItem = { id: 'reports', path: '/admin/reports', icon: 'flag', labelKey: 'REPORTS' };
+
   // Real-time activity feed
   protected readonly recentActivity = this.activityService.activities;
   protected readonly unreadActivityCount = this.activityService.unreadCount;
@@ -134,6 +140,7 @@ export class ShellComponent implements OnInit, OnDestroy {
     this.messageService.subscribeToConversations();
     this.matchesService.loadBadgeCounts();
     this.blockService.loadBlockedUsers();
+    this.moderationService.checkModerator();
     this.checkScreenSize();
     
     // Track user activity
@@ -263,9 +270,9 @@ export class ShellComponent implements OnInit, OnDestroy {
       this.sidenavOpen.set(false);
     }
 
-    // If the activity has a link, navigate to it
+    // If the activity has a link, navigate to it (or download it)
     if (activity.link) {
-      this.router.navigateByUrl(activity.link);
+      this.activityService.openLink(activity.link);
       return;
     }
 
@@ -276,6 +283,10 @@ export class ShellComponent implements OnInit, OnDestroy {
         this.openPhotoAccessDialog();
         break;
 
+      case 'report_resolved':
+        // Nothing to open - the activity itself is the notification
+        break;
+
       default:
         // Fallback for activities without links
         this.router.navigate(['/discover']);
@@ -331,6 +342,12 @@ export class ShellComponent implements OnInit, OnDestroy {
         return `${activity.name} granted you access to their private photos`;
       case 'photo_access_denied':
         return `${activity.name} denied your photo access request`;
+      case 'saved_search_match':
+        return `${activity.name} matches one of your saved searches`;
+      case 'conversation_export':
+        return `Download your conversation with ${activity.name}`;
+      case 'report_resolved':
+        return `Your report about ${activity.name} was reviewed`;
       default:
         return `${activity.name} interacted with you`;
     }
@@ -18,8 +18,25 @@ export interface RemoteConfigValues {
   premium_max_photos: number;
   image_max_size_mb: number;
   reputation_decay_daily_rate: number;
+  reputation_decay_max: number;
+  reputation_recovery_daily_rate: number;
+  reputation_decay_mode: string; // "off" | "dry_run" | "on"
   reputation_burst_max_messages: number;
   discover_page_size: number;
+  // "Recommended" sort: relative weight of each compatibility component
+  discover_weight_connection_types: number;
+  discover_weight_values: number;
+  discover_weight_support_orientation: number;
+  discover_weight_distance: number;
+  discover_weight_activity: number;
+  discover_weight_reputation: number;
+  discover_distance_decay_miles: number;
+  discover_activity_half_life_hours: number;
+  // Links in messages (domain lists are comma separated; subdomains match too)
+  link_previews_enabled: boolean;
+  link_allowlist_domains: string; // Never flagged
+  link_denylist_domains: string; // Known-bad: flagged, never fetched
+  link_shortener_domains: string; // Flagged because they hide the destination
 }
 
 /**
@@ -32,8 +49,24 @@ const DEFAULTS: RemoteConfigValues = {
   premium_max_photos: 20,
   image_max_size_mb: 10,
   reputation_decay_daily_rate: 0.02,
+  reputation_decay_max: 0.3,
+  reputation_recovery_daily_rate: 0.01,
+  reputation_decay_mode: "dry_run",
   reputation_burst_max_messages: 5,
   discover_page_size: 20,
+  discover_weight_connection_types: 0.25,
+  discover_weight_values: 0.2,
+  discover_weight_support_orientation: 0.2,
+  discover_weight_distance: 0.15,
+  discover_weight_activity: 0.1,
+  discover_weight_reputation: 0.1,
+  discover_distance_decay_miles: 25,
+  discover_activity_half_life_hours: 72,
+  link_previews_enabled: true,
+  link_allowlist_domains: "",
+  link_denylist_domains: "",
+  link_shortener_domains: "bit.ly,bitly.com,tinyurl.com,t.co,goo.gl,ow.ly,is.gd,v.gd,buff.ly,cutt.ly," +
+    "rebrand.ly,rb.gy,shorturl.at,tiny.cc,t.ly,s.id,bl.ink,lnkd.in,tr.im,shorte.st,adf.ly",
 };
 
 // Cache for config values
@@ -75,6 +108,18 @@ async function fetchConfig(): Promise<RemoteConfigValues> {
         config.getString("reputation_decay_daily_rate"),
         DEFAULTS.reputation_decay_daily_rate
       ),
+      reputation_decay_max: parseNumberValue(
+        config.getString("reputation_decay_max"),
+        DEFAULTS.reputation_decay_max
+      ),
+      reputation_recovery_daily_rate: parseNumberValue(
+        config.getString("reputation_recovery_daily_rate"),
+        DEFAULTS.reputation_recovery_daily_rate
+      ),
+      reputation_decay_mode: parseStringValue(
+        config.getString("reputation_decay_mode"),
+        DEFAULTS.reputation_decay_mode
+      ),
       reputation_burst_max_messages: parseNumberValue(
         config.getString("reputation_burst_max_messages"),
         DEFAULTS.reputation_burst_max_messages
@@ -83,6 +128,54 @@ async function fetchConfig(): Promise<RemoteConfigValues> {
         config.getString("discover_page_size"),
         DEFAULTS.discover_page_size
       ),
+      discover_weight_connection_types: parseNumberValue(
+        config.getString("discover_weight_connection_types"),
+        DEFAULTS.discover_weight_connection_types
+      ),
+      discover_weight_values: parseNumberValue(
+        config.getString("discover_weight_values"),
+        DEFAULTS.discover_weight_values
+      ),
+      discover_weight_support_orientation: parseNumberValue(
+        config.getString("discover_weight_support_orientation"),
+        DEFAULTS.discover_weight_support_orientation
+      ),
+      discover_weight_distance: parseNumberValue(
+        config.getString("discover_weight_distance"),
+        DEFAULTS.discover_weight_distance
+      ),
+      discover_weight_activity: parseNumberValue(
+        config.getString("discover_weight_activity"),
+        DEFAULTS.discover_weight_activity
+      ),
+      discover_weight_reputation: parseNumberValue(
+        config.getString("discover_weight_reputation"),
+        DEFAULTS.discover_weight_reputation
+      ),
+      discover_distance_decay_miles: parseNumberValue(
+        config.getString("discover_distance_decay_miles"),
+        DEFAULTS.discover_distance_decay_miles
+      ),
+      discover_activity_half_life_hours: parseNumberValue(
+        config.getString("discover_activity_half_life_hours"),
+        DEFAULTS.discover_activity_half_life_hours
+      ),
+      link_previews_enabled: parseBooleanValue(
+        config.getString("link_previews_enabled"),
+        DEFAULTS.link_previews_enabled
+      ),
+      link_allowlist_domains: parseStringValue(
+        config.getString("link_allowlist_domains"),
+        DEFAULTS.link_allowlist_domains
+      ),
+      link_denylist_domains: parseStringValue(
+        config.getString("link_denylist_domains"),
+        DEFAULTS.link_denylist_domains
+      ),
+      link_shortener_domains: parseStringValue(
+        config.getString("link_shortener_domains"),
+        DEFAULTS.link_shortener_domains
+      ),
     };
   } catch (error) {
     logger.warn("Failed to fetch Remote Config, using defaults:", error);
@@ -111,6 +204,16 @@ function parseNumberValue(value: string, defaultValue: number): number {
   return isNaN(num) ? defaultValue : num;
 }
 
+/**
+ * Parse string value with fallback for empty strings
+ */
+function parseStringValue(value: string, defaultValue: string): string {
+  if (!value || value === "") {
+    return defaultValue;
+  }
+  return value;
+}
+
 /**
  * Get Remote Config values with caching
  *
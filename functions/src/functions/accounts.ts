@@ -9,6 +9,7 @@ import {getAuth} from "firebase-admin/auth";
 import {db, bucket} from "../config/firebase";
 import * as logger from "firebase-functions/logger";
 import {cancelUserSubscription} from "./subscriptions";
+import {deleteMessageIndexEntries} from "./message-search";
 
 /**
  * Disable a user's account
@@ -127,14 +128,75 @@ async function deleteSubcollections(docRef: FirebaseFirestore.DocumentReference,
   }
 }
 
+/**
+ * Remove a deleted user from a group conversation, with their messages and media
+ */
+async function removeFromGroupConversation(
+  conversationRef: FirebaseFirestore.DocumentReference,
+  userId: string
+): Promise<void> {
+  const ownMessages = await conversationRef.collection("messages")
+    .where("senderId", "==", userId)
+    .get();
+
+  for (const messageDoc of ownMessages.docs) {
+    const data = messageDoc.data();
+    const mediaUrls: string[] = [
+      ...(data.imageUrls || []),
+      data.videoUrl,
+      data.videoThumbnailUrl,
+      data.audioUrl,
+    ].filter((url): url is string => typeof url === "string");
+
+    for (const url of mediaUrls) {
+      const filePath = extractFilePathFromUrl(url, bucket.name);
+      if (filePath?.startsWith(`conversations/${conversationRef.id}/`)) {
+        await bucket.file(filePath).delete().catch(() => {});
+      }
+    }
+    await messageDoc.ref.delete();
+  }
+
+  await conversationRef.collection("readReceipts").doc(userId).delete();
+  await conversationRef.update({
+    participants: FieldValue.arrayRemove(userId),
+    archivedBy: FieldValue.arrayRemove(userId),
+    [`unreadCount.${userId}`]: FieldValue.delete(),
+    [`typing.${userId}`]: FieldValue.delete(),
+  });
+  logger.info(`[${userId}] Left group conversation ${conversationRef.id} (${ownMessages.size} messages deleted)`);
+}
+
+/**
+ * Extract file path from a storage URL (production, Firebase download and emulator formats)
+ */
+function extractFilePathFromUrl(url: string, bucketName: string): string | null {
+  // Production format: https://storage.googleapis.com/{bucket}/{filePath}
+  const productionPrefix = `https://storage.googleapis.com/${bucketName}/`;
+  if (url.startsWith(productionPrefix)) {
+    return decodeURIComponent(url.slice(productionPrefix.length).split("?")[0]);
+  }
+
+  // Firebase download URLs and the emulator: .../v0/b/{bucket}/o/{encodedPath}?alt=media
+  const encodedMatch = url.match(new RegExp(`/v0/b/${bucketName}/o/([^?]+)`));
+  if (encodedMatch) {
+    return decodeURIComponent(encodedMatch[1]);
+  }
+
+  return null;
+}
+
 /**
  * Permanently delete a user's account and all associated data
  * This is a destructive operation that cannot be undone.
  *
  * Deletes:
  * - All user subcollections (favorites, blocks, activities, photo access, etc.)
- * - All conversations where user is a participant (and their messages)
- * - All user photos from Storage
+ * - All conversations where user is a participant (their messages, scheduled messages, read receipts,
+ *   images and voice notes, and the other participant's settings and search entries for them)
+ * - From group conversations that still have two other members: only the user's own messages
+ *   and media (the user is removed from the group)
+ * - All user photos and conversation exports from Storage
  * - References to user in other users' data (favorites, photo access)
  * - The user document from Firestore
  * - The user from Firebase Auth
@@ -169,11 +231,18 @@ export const deleteAccount = onCall(
         "favorites",
         "blocks",
         "blockedBy",
+        "passes",
         "activities",
         "photoAccessGrants",
         "photoAccessRequests",
         "photoAccessReceived",
         "payments",
+        "searchSnapshots",
+        "imageUploads",
+        "messageIndex",
+        "conversationSettings",
+        "conversationExports",
+        "reputationHistory",
       ];
       await deleteSubcollections(userRef, userSubcollections);
 
@@ -184,22 +253,46 @@ export const deleteAccount = onCall(
         .get();
 
       for (const convDoc of conversationsQuery.docs) {
+        const participants: string[] = convDoc.data().participants || [];
+
+        // A group carries on without the user - only their own messages go
+        if (convDoc.data().isGroup === true && participants.filter((id) => id !== userId).length >= 2) {
+          await removeFromGroupConversation(convDoc.ref, userId);
+          continue;
+        }
+
         // Delete all messages in the conversation
         const messagesRef = convDoc.ref.collection("messages");
         await deleteCollection(messagesRef);
+        await deleteCollection(convDoc.ref.collection("scheduledMessages"));
+        await deleteCollection(convDoc.ref.collection("readReceipts"));
+
+        // The other participant's pin/mute/labels and search entries for this conversation
+        // (the conversation is gone by the time the message deletes are indexed)
+        for (const participantId of participants.filter((id) => id !== userId)) {
+          await db.collection("users").doc(participantId)
+            .collection("conversationSettings").doc(convDoc.id)
+            .delete()
+            .catch(() => {});
+          await deleteMessageIndexEntries(participantId, convDoc.id).catch((error) => {
+            logger.warn(`[${userId}] Error deleting search entries of ${participantId}:`, error);
+          });
+        }
 
-        // Delete conversation images from storage
-        const convImagesPrefix = `conversations/${convDoc.id}/images/`;
-        try {
-          const [files] = await bucket.getFiles({prefix: convImagesPrefix});
-          for (const file of files) {
-            await file.delete().catch(() => {});
+        // Delete conversation images and voice notes from storage
+        for (const mediaFolder of ["images", "audio"]) {
+          const convMediaPrefix = `conversations/${convDoc.id}/${mediaFolder}/`;
+          try {
+            const [files] = await bucket.getFiles({prefix: convMediaPrefix});
+            for (const file of files) {
+              await file.delete().catch(() => {});
+            }
+            if (files.length > 0) {
+              logger.info(`[${userId}] Deleted ${files.length} conversation ${mediaFolder} files`);
+            }
+          } catch (error) {
+            logger.warn(`[${userId}] Error deleting conversation ${mediaFolder} files:`, error);
           }
-          if (files.length > 0) {
-            logger.info(`[${userId}] Deleted ${files.length} conversation images`);
-          }
-        } catch (error) {
-          logger.warn(`[${userId}] Error deleting conversation images:`, error);
         }
 
         // Delete the conversation document
@@ -219,6 +312,14 @@ export const deleteAccount = onCall(
       } catch (error) {
         logger.warn(`[${userId}] Error deleting storage files:`, error);
       }
+      try {
+        const [exportFiles] = await bucket.getFiles({prefix: `exports/${userId}/`});
+        for (const file of exportFiles) {
+          await file.delete().catch(() => {});
+        }
+      } catch (error) {
+        logger.warn(`[${userId}] Error deleting conversation exports:`, error);
+      }
 
       // 4. Remove user from other users' favorites
       logger.info(`[${userId}] Removing from other users' favorites...`);
@@ -151,6 +151,11 @@ const aiGetReplySuggestionsFlow = getAi().defineFlow(
         content: z.string(),
         isOwn: z.boolean(),
         createdAt: z.any().optional(),
+        // Quoted message, if this message is a reply (content is empty when it's unavailable)
+        replyTo: z.object({
+          content: z.string(),
+          isOwn: z.boolean(),
+        }).optional(),
       }).passthrough()),
       userDraft: z.string().nullable().optional(),
       requestedTone: z.enum([
@@ -208,10 +213,15 @@ const aiGetReplySuggestionsFlow = getAi().defineFlow(
         return {suggestions: []};
       }
 
-      // Build conversation context
+      // Build conversation context (replies include the message they quote)
       const conversationHistory = req.recentMessages
         ?.slice(-10) // Last 10 messages for context
-        .map((m) => `${m.isOwn ? "You" : "Them"}: ${m.content}`)
+        .map((m) => {
+          const quote = m.replyTo?.content ?
+            ` (replying to ${m.replyTo.isOwn ? "your" : "their"} message "${m.replyTo.content}")` :
+            "";
+          return `${m.isOwn ? "You" : "Them"}${quote}: ${m.content}`;
+        })
         .join("\n") || "";
 
       const userContext = req.userProfile?.displayName ?
@@ -0,0 +1,275 @@
+/**
+ * Voice Note Cloud Functions
+ * Handles voice note uploads for conversation messages
+ *
+ * Features:
+ * - User must be authenticated and a participant in the conversation
+ * - File type validation (16-bit PCM WAV, which the app records to)
+ * - Duration validation (1 second to 2 minutes), read from the WAV header
+ * - Waveform summary for the message bubble, computed from the samples
+ * - Stored under a random name, since voice notes are publicly readable by URL
+ *   (firestore.rules only accepts audio messages that point at this folder)
+ */
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {randomUUID} from "crypto";
+import {bucket} from "../config/firebase";
+import * as logger from "firebase-functions/logger";
+import {verifyConversationParticipant} from "./videos";
+
+// Constants for validation
+const ALLOWED_AUDIO_MIME_TYPES = [
+  "audio/wav",
+  "audio/x-wav",
+];
+const MAX_AUDIO_SIZE_BYTES = 6 * 1024 * 1024; // 6MB (base64 must fit the 10MB callable limit)
+const MIN_AUDIO_DURATION_SECONDS = 1;
+const MAX_AUDIO_DURATION_SECONDS = 120;
+const WAVEFORM_BARS = 40;
+
+interface UploadAudioRequest {
+  audioData: string; // Base64 encoded WAV data
+  mimeType: string;
+  conversationId: string;
+}
+
+interface UploadAudioResponse {
+  success: boolean;
+  audioUrl?: string;
+  duration?: number; // Seconds, one decimal
+  waveform?: number[]; // WAVEFORM_BARS values from 0 to 100
+  error?: string;
+}
+
+/**
+ * Format and location of the samples in a PCM WAV file
+ */
+interface WavInfo {
+  channels: number;
+  sampleRate: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+/**
+ * Parse the header of a 16-bit PCM WAV file
+ */
+function parseWav(buffer: Buffer): { valid: boolean; error?: string; info?: WavInfo } {
+  // RIFF header: "RIFF" <size> "WAVE"
+  if (
+    buffer.length < 12 ||
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    return {valid: false, error: "File content does not match a valid WAV format"};
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let audioFormat = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunks; only "fmt " and "data" matter
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("ascii", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === "fmt " && chunkStart + 16 <= buffer.length) {
+      audioFormat = buffer.readUInt16LE(chunkStart);
+      channels = buffer.readUInt16LE(chunkStart + 2);
+      sampleRate = buffer.readUInt32LE(chunkStart + 4);
+      bitsPerSample = buffer.readUInt16LE(chunkStart + 14);
+    } else if (chunkId === "data") {
+      dataOffset = chunkStart;
+      dataLength = Math.min(chunkSize, buffer.length - chunkStart);
+      break;
+    }
+
+    // Chunks are padded to an even size
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  if (audioFormat !== 1 || bitsPerSample !== 16) {
+    return {valid: false, error: "Audio must be 16-bit PCM"};
+  }
+  if (channels < 1 || channels > 2 || sampleRate < 8000 || sampleRate > 48000) {
+    return {valid: false, error: "Unsupported audio format"};
+  }
+  if (dataOffset < 0 || dataLength === 0) {
+    return {valid: false, error: "Audio contains no samples"};
+  }
+
+  return {valid: true, info: {channels, sampleRate, dataOffset, dataLength}};
+}
+
+/**
+ * Validate that the data is a valid base64 voice note
+ */
+function validateBase64Audio(
+  base64Data: string,
+  mimeType: string
+): { valid: boolean; error?: string; buffer?: Buffer; info?: WavInfo; duration?: number } {
+  // Check MIME type
+  if (!ALLOWED_AUDIO_MIME_TYPES.includes(mimeType)) {
+    return {
+      valid: false,
+      error: `Invalid file type. Allowed types: ${ALLOWED_AUDIO_MIME_TYPES.join(", ")}`,
+    };
+  }
+
+  // Remove data URL prefix if present
+  const base64Clean = base64Data.replace(/^data:audio\/[\w-]+;base64,/, "");
+
+  // Decode base64
+  let buffer: Buffer;
+  try {
+    buffer = Buffer.from(base64Clean, "base64");
+  } catch {
+    return {valid: false, error: "Invalid base64 encoding"};
+  }
+
+  // Check file size
+  if (buffer.length > MAX_AUDIO_SIZE_BYTES) {
+    return {
+      valid: false,
+      error: `File size exceeds maximum of ${MAX_AUDIO_SIZE_BYTES / 1024 / 1024}MB`,
+    };
+  }
+
+  const parsed = parseWav(buffer);
+  if (!parsed.valid || !parsed.info) {
+    return {valid: false, error: parsed.error};
+  }
+
+  // Check duration (2 bytes per sample per channel)
+  const {channels, sampleRate, dataLength} = parsed.info;
+  const duration = dataLength / (sampleRate * channels * 2);
+  if (duration < MIN_AUDIO_DURATION_SECONDS || duration > MAX_AUDIO_DURATION_SECONDS) {
+    return {
+      valid: false,
+      error: `Voice notes must be between ${MIN_AUDIO_DURATION_SECONDS} and ${MAX_AUDIO_DURATION_SECONDS} seconds`,
+    };
+  }
+
+  return {valid: true, buffer, info: parsed.info, duration};
+}
+
+/**
+ * Summarize the audio as WAVEFORM_BARS peak levels (first channel only),
+ * scaled so the loudest bar is 100
+ */
+function computeWaveform(buffer: Buffer, info: WavInfo): number[] {
+  const frameSize = info.channels * 2;
+  const frameCount = Math.floor(info.dataLength / frameSize);
+  const framesPerBar = Math.max(1, Math.floor(frameCount / WAVEFORM_BARS));
+
+  const peaks: number[] = [];
+  for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+    const start = bar * framesPerBar;
+    const end = Math.min(frameCount, start + framesPerBar);
+    let peak = 0;
+    for (let frame = start; frame < end; frame++) {
+      const sample = Math.abs(buffer.readInt16LE(info.dataOffset + frame * frameSize));
+      if (sample > peak) peak = sample;
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks);
+  if (loudest === 0) return peaks;
+  return peaks.map((peak) => Math.round((peak / loudest) * 100));
+}
+
+/**
+ * Callable function to upload a voice note to a conversation
+ */
+export const uploadConversationAudio = onCall<UploadAudioRequest, Promise<UploadAudioResponse>>(
+  {
+    region: "us-central1",
+    memory: "512MiB",
+    timeoutSeconds: 60,
+    maxInstances: 10,
+  },
+  async (request) => {
+    // Verify authentication
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "You must be logged in to send voice notes");
+    }
+
+    const userId = request.auth.uid;
+    const {audioData, mimeType, conversationId} = request.data;
+
+    // Validate required fields
+    if (!audioData || !mimeType || !conversationId) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Missing required fields: audioData, mimeType, conversationId"
+      );
+    }
+
+    // Verify user is participant in conversation
+    const isParticipant = await verifyConversationParticipant(userId, conversationId);
+    if (!isParticipant) {
+      throw new HttpsError(
+        "permission-denied",
+        "You are not a participant in this conversation"
+      );
+    }
+
+    // Validate the audio data
+    const validation = validateBase64Audio(audioData, mimeType);
+    if (!validation.valid || !validation.buffer || !validation.info || validation.duration === undefined) {
+      throw new HttpsError("invalid-argument", validation.error || "Invalid voice note");
+    }
+
+    const audioBuffer = validation.buffer;
+    const duration = Math.round(validation.duration * 10) / 10;
+
+    try {
+      const waveform = computeWaveform(audioBuffer, validation.info);
+
+      const audioPath = `conversations/${conversationId}/audio/${randomUUID()}.wav`;
+      const audioFile = bucket.file(audioPath);
+
+      await audioFile.save(audioBuffer, {
+        metadata: {
+          contentType: "audio/wav",
+          metadata: {
+            uploadedBy: userId,
+            uploadedAt: new Date().toISOString(),
+            conversationId,
+            duration: String(duration),
+          },
+        },
+      });
+
+      // Make file publicly readable
+      await audioFile.makePublic();
+
+      // Get download URL
+      const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+      const audioUrl = emulatorHost ?
+        `http://${emulatorHost}/v0/b/${bucket.name}/o/${encodeURIComponent(audioPath)}?alt=media` :
+        `https://storage.googleapis.com/${bucket.name}/${audioPath}`;
+
+      logger.info(`Voice note uploaded for user ${userId}`, {
+        audioPath,
+        duration,
+        size: `${(audioBuffer.length / 1024).toFixed(0)}KB`,
+      });
+
+      return {
+        success: true,
+        audioUrl,
+        duration,
+        waveform,
+      };
+    } catch (error) {
+      logger.error(`Failed to upload voice note for user ${userId}`, error);
+      throw new HttpsError("internal", "Failed to upload voice note. Please try again.");
+    }
+  }
+);
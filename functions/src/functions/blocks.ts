@@ -12,6 +12,8 @@ import {FieldValue} from "firebase-admin/firestore";
 import {db} from "../config/firebase";
 import * as logger from "firebase-functions/logger";
 import {recalculateReputation} from "./reputation";
+import {invalidateSearchSnapshots} from "./discovery";
+import {leaveGroupsSharedWith} from "./group-conversations";
 
 interface BlockRecord {
   blockedUserId: string;
@@ -28,6 +30,9 @@ interface BlockRecord {
  * - Removes favorites between the two users
  * - Removes matches between the two users
  * - Removes profile views between the two users
+ * - Drops messages either user scheduled to the other
+ * - Takes the blocker out of group conversations shared with the blocked user
+ * - Invalidates both users' discovery search sessions
  */
 export const blockUser = onCall(async (request) => {
   if (!request.auth) {
@@ -92,7 +97,7 @@ export const blockUser = onCall(async (request) => {
       );
 
     // 4. REPUTATION: Trigger real-time recalculation for blocked user
-    recalculateReputation(targetUserId).catch((err) => {
+    recalculateReputation(targetUserId, "block").catch((err) => {
       logger.error("Error recalculating reputation after block:", err);
     });
 
@@ -123,6 +128,25 @@ export const blockUser = onCall(async (request) => {
       logger.error("Error deleting photo access:", err);
     });
 
+    // 10. Drop scheduled messages between users (delivery re-checks blocks too)
+    deleteScheduledMessagesBetweenUsers(currentUserId, targetUserId).catch((err) => {
+      logger.error("Error deleting scheduled messages:", err);
+    });
+
+    // 11. Leave shared groups before returning, so the blocker stops seeing
+    // the blocked user's messages right away
+    await leaveGroupsSharedWith(currentUserId, targetUserId).catch((err) => {
+      logger.error("Error leaving shared group conversations:", err);
+    });
+
+    // 12. Invalidate search sessions so the next "load more" starts a fresh search
+    Promise.all([
+      invalidateSearchSnapshots(currentUserId),
+      invalidateSearchSnapshots(targetUserId),
+    ]).catch((err) => {
+      logger.error("Error invalidating search snapshots:", err);
+    });
+
     return {success: true};
   } catch (error) {
     logger.error("Error blocking user:", error);
@@ -375,3 +399,27 @@ async function deletePhotoAccessBetweenUsers(userId1: string, userId2: string):
   await batch.commit();
   logger.info(`Deleted photo access between ${userId1} and ${userId2}`);
 }
+
+async function deleteScheduledMessagesBetweenUsers(userId1: string, userId2: string): Promise<void> {
+  // Same query + filter approach as matches: conversations only index participants
+  const conversationsSnapshot = await db.collection("conversations")
+    .where("participants", "array-contains", userId1)
+    .get();
+
+  const conversations = conversationsSnapshot.docs.filter((doc) =>
+    (doc.data().participants as string[]).includes(userId2)
+  );
+
+  let deleted = 0;
+  for (const conversation of conversations) {
+    const scheduledSnapshot = await conversation.ref.collection("scheduledMessages").get();
+    if (scheduledSnapshot.empty) continue;
+
+    const batch = db.batch();
+    scheduledSnapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+    deleted += scheduledSnapshot.size;
+  }
+
+  logger.info(`Deleted ${deleted} scheduled message(s) between ${userId1} and ${userId2}`);
+}
@@ -0,0 +1,484 @@
+/**
+ * Conversation Export Cloud Functions
+ * Lets a participant download their history of a conversation
+ *
+ * - exportConversation (callable) records a pending export in
+ *   users/{uid}/conversationExports/{exportId}
+ * - buildConversationExport builds it: a zip with transcript.html,
+ *   transcript.json and the media the requester can still see, stored in
+ *   exports/{uid}/ (private - only reachable through a signed URL). When it's
+ *   ready the requester gets a "conversation_export" activity linking to it.
+ * - deleteExpiredConversationExports removes exports, their archive and
+ *   their activity once the download link has expired
+ *
+ * The transcript follows what the requester sees in the app: messages they
+ * deleted for themselves are left out, messages deleted for everyone are
+ * placeholders without content, and received timed images are never included
+ * (their media can only be viewed once, in the app).
+ */
+
+import {onDocumentCreated} from "firebase-functions/v2/firestore";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {FieldValue, Timestamp} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import archiver from "archiver";
+import {db, bucket} from "../config/firebase";
+import {ActivityService} from "../services";
+
+// How long the download link (and the archive) is kept
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Signed URLs can't outlive 7 days
+
+// A pending export older than this was interrupted and doesn't block a new one
+const PENDING_EXPORT_STALE_MS = 15 * 60 * 1000;
+
+// Messages are read in pages while building the transcript
+const MESSAGE_PAGE_SIZE = 500;
+
+const MAX_EXPIRED_EXPORTS_PER_RUN = 200;
+
+type ExportStatus = "pending" | "ready" | "failed";
+
+/**
+ * A user's export of one conversation
+ */
+interface ConversationExport {
+  conversationId: string;
+  otherUserId: string; // The first other participant
+  otherUserIds?: string[]; // Every other participant (missing on older exports)
+  status: ExportStatus;
+  createdAt: Timestamp | FieldValue;
+  completedAt?: Timestamp | FieldValue;
+  expiresAt?: Timestamp; // Set once ready (or failed)
+  storagePath?: string;
+  downloadUrl?: string;
+  messageCount?: number;
+  mediaCount?: number;
+  activityId?: string;
+}
+
+/**
+ * One message as written to transcript.json
+ */
+interface TranscriptMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  createdAt: string; // ISO 8601
+  type: string;
+  content: string | null; // null once deleted for everyone
+  deleted?: boolean;
+  editedAt?: string;
+  replyToMessageId?: string;
+  timedImage?: boolean; // Received timed image - not included
+  media: string[]; // Paths within the archive
+}
+
+/**
+ * A storage file to add to the archive
+ */
+interface MediaEntry {
+  storagePath: string;
+  archivePath: string;
+}
+
+/**
+ * Callable: start exporting a conversation for the current user
+ */
+export const exportConversation = onCall<{
+  conversationId: string;
+}>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+
+    const userId = request.auth.uid;
+    const conversationId = request.data?.conversationId;
+    if (typeof conversationId !== "string" || !conversationId) {
+      throw new HttpsError("invalid-argument", "conversationId is required");
+    }
+
+    const conversationDoc = await db.collection("conversations").doc(conversationId).get();
+    const participants: string[] = conversationDoc.data()?.participants || [];
+    if (!participants.includes(userId)) {
+      throw new HttpsError("permission-denied", "Not a participant in this conversation");
+    }
+
+    const exportsRef = db.collection("users").doc(userId).collection("conversationExports");
+    const pending = await exportsRef
+      .where("conversationId", "==", conversationId)
+      .where("status", "==", "pending")
+      .get();
+    const inProgress = pending.docs.some((doc) =>
+      ((doc.get("createdAt") as Timestamp | undefined)?.toMillis() ?? 0) > Date.now() - PENDING_EXPORT_STALE_MS
+    );
+    if (inProgress) {
+      throw new HttpsError("already-exists", "This conversation is already being exported");
+    }
+
+    const exportRecord: ConversationExport = {
+      conversationId,
+      otherUserId: participants.find((id) => id !== userId) || "",
+      otherUserIds: participants.filter((id) => id !== userId),
+      status: "pending",
+      createdAt: FieldValue.serverTimestamp(),
+    };
+    const exportRef = await exportsRef.add(exportRecord);
+
+    logger.info(`User ${userId} requested an export of ${conversationId}`);
+    return {exportId: exportRef.id};
+  }
+);
+
+/**
+ * Trigger: build a requested export and announce it when it's ready
+ */
+export const buildConversationExport = onDocumentCreated(
+  {
+    document: "users/{userId}/conversationExports/{exportId}",
+    region: "us-central1",
+    timeoutSeconds: 540,
+    memory: "1GiB",
+  },
+  async (event) => {
+    const snapshot = event.data;
+    if (!snapshot) return;
+
+    const {userId, exportId} = event.params;
+    const exportRecord = snapshot.data() as ConversationExport;
+    if (exportRecord.status !== "pending") return;
+
+    try {
+      const {conversationId, otherUserId} = exportRecord;
+      const otherUserIds = exportRecord.otherUserIds ?? [otherUserId];
+      const [userDoc, ...otherUserDocs] = await Promise.all([
+        db.collection("users").doc(userId).get(),
+        ...otherUserIds.map((id) => db.collection("users").doc(id).get()),
+      ]);
+      const names: Record<string, string> = {[userId]: userDoc.get("displayName") || "You"};
+      otherUserDocs.forEach((doc) => {
+        names[doc.id] = doc.get("displayName") || "Unknown User";
+      });
+      const otherNames = otherUserIds.map((id) => names[id]).join(", ");
+
+      const {messages, media} = await collectTranscript(conversationId, userId, names);
+      const storagePath = `exports/${userId}/${exportId}.zip`;
+      const includedMedia = await writeArchive(storagePath, messages, media, names, userId, otherUserIds);
+
+      const expiresAt = Timestamp.fromMillis(Date.now() + EXPORT_TTL_MS);
+      const downloadUrl = await getDownloadUrl(storagePath, expiresAt, otherNames);
+
+      const activityId = await ActivityService.createActivity(
+        userId,
+        "conversation_export",
+        otherUserId,
+        otherNames,
+        otherUserDocs[0]?.get("photoURL") || null,
+        downloadUrl
+      );
+
+      await snapshot.ref.update({
+        status: "ready",
+        completedAt: FieldValue.serverTimestamp(),
+        expiresAt,
+        storagePath,
+        downloadUrl,
+        messageCount: messages.length,
+        mediaCount: includedMedia,
+        activityId,
+      });
+      logger.info(`Exported ${messages.length} messages of ${conversationId} for ${userId}`);
+    } catch (error) {
+      logger.error(`Error exporting conversation for ${userId} (${exportId}):`, error);
+      await snapshot.ref.update({
+        status: "failed",
+        completedAt: FieldValue.serverTimestamp(),
+        expiresAt: Timestamp.fromMillis(Date.now() + EXPORT_TTL_MS), // For cleanup
+      }).catch(() => undefined);
+    }
+  }
+);
+
+/**
+ * Scheduled: delete exports whose download link has expired
+ */
+export const deleteExpiredConversationExports = onSchedule(
+  {
+    schedule: "every 24 hours",
+    timeZone: "UTC",
+    region: "us-central1",
+    timeoutSeconds: 300,
+    memory: "256MiB",
+  },
+  async () => {
+    try {
+      const expiredSnapshot = await db
+        .collectionGroup("conversationExports")
+        .where("expiresAt", "<=", Timestamp.now())
+        .limit(MAX_EXPIRED_EXPORTS_PER_RUN)
+        .get();
+
+      for (const exportDoc of expiredSnapshot.docs) {
+        const exportRecord = exportDoc.data() as ConversationExport;
+        const userRef = exportDoc.ref.parent.parent;
+        if (exportRecord.storagePath) {
+          await bucket.file(exportRecord.storagePath).delete({ignoreNotFound: true});
+        }
+        if (userRef && exportRecord.activityId) {
+          await userRef.collection("activities").doc(exportRecord.activityId).delete();
+        }
+        await exportDoc.ref.delete();
+      }
+
+      if (!expiredSnapshot.empty) {
+        logger.info(`Deleted ${expiredSnapshot.size} expired conversation exports`);
+      }
+    } catch (error) {
+      logger.error("Error deleting expired conversation exports:", error);
+    }
+  }
+);
+
+/**
+ * Read a conversation's messages as the given user sees them
+ */
+async function collectTranscript(
+  conversationId: string,
+  userId: string,
+  names: Record<string, string>
+): Promise<{messages: TranscriptMessage[]; media: MediaEntry[]}> {
+  const messagesRef = db.collection("conversations").doc(conversationId).collection("messages");
+  const messages: TranscriptMessage[] = [];
+  const media: MediaEntry[] = [];
+
+  let lastDoc: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+  for (;;) {
+    let pageQuery = messagesRef.orderBy("createdAt", "asc").limit(MESSAGE_PAGE_SIZE);
+    if (lastDoc) {
+      pageQuery = pageQuery.startAfter(lastDoc);
+    }
+    const page = await pageQuery.get();
+
+    for (const messageDoc of page.docs) {
+      const data = messageDoc.data();
+      if ((data.deletedFor || []).includes(userId)) continue;
+
+      const createdAt = data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(0);
+      const message: TranscriptMessage = {
+        id: messageDoc.id,
+        senderId: data.senderId,
+        senderName: names[data.senderId] || "Unknown User",
+        createdAt: createdAt.toISOString(),
+        type: data.type || "text",
+        content: data.content ?? "",
+        media: [],
+      };
+
+      if (data.deletedForAll) {
+        message.content = null;
+        message.deleted = true;
+        messages.push(message);
+        continue;
+      }
+      if (data.editedAt instanceof Timestamp) {
+        message.editedAt = data.editedAt.toDate().toISOString();
+      }
+      if (data.replyTo?.messageId) {
+        message.replyToMessageId = data.replyTo.messageId;
+      }
+
+      const isReceivedTimedImage = !!data.imageTimer && data.senderId !== userId;
+      if (isReceivedTimedImage) {
+        message.timedImage = true;
+      } else {
+        const urls: string[] = [];
+        if (data.type === "image") urls.push(...(data.imageUrls || []));
+        if (data.type === "video" && (!data.videoStatus || data.videoStatus === "ready") && data.videoUrl) {
+          urls.push(data.videoUrl);
+        }
+        if (data.type === "audio" && data.audioUrl) urls.push(data.audioUrl);
+
+        urls.forEach((url, index) => {
+          const storagePath = extractFilePathFromUrl(url, bucket.name);
+          // Only files stored under this conversation (URLs are written by clients)
+          if (!storagePath || !storagePath.startsWith(`conversations/${conversationId}/`)) return;
+          const extension = storagePath.match(/\.[a-z0-9]{1,5}$/i)?.[0] ?? "";
+          const archivePath = `media/${messageDoc.id}_${index}${extension.toLowerCase()}`;
+          media.push({storagePath, archivePath});
+          message.media.push(archivePath);
+        });
+      }
+
+      messages.push(message);
+    }
+
+    if (page.size < MESSAGE_PAGE_SIZE) break;
+    lastDoc = page.docs[page.docs.length - 1];
+  }
+
+  return {messages, media};
+}
+
+/**
+ * Write the transcript and media into a zip in storage
+ * Media that no longer exists is dropped from the transcript.
+ * @return The number of media files included
+ */
+async function writeArchive(
+  storagePath: string,
+  messages: TranscriptMessage[],
+  media: MediaEntry[],
+  names: Record<string, string>,
+  userId: string,
+  otherUserIds: string[]
+): Promise<number> {
+  const available: MediaEntry[] = [];
+  for (const entry of media) {
+    const [exists] = await bucket.file(entry.storagePath).exists();
+    if (exists) {
+      available.push(entry);
+    } else {
+      const missing = entry.archivePath;
+      messages.forEach((message) => {
+        message.media = message.media.filter((path) => path !== missing);
+      });
+    }
+  }
+
+  const exportedAt = new Date().toISOString();
+  const archive = archiver("zip", {zlib: {level: 6}});
+  const output = bucket.file(storagePath).createWriteStream({
+    contentType: "application/zip",
+    resumable: false,
+  });
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on("finish", resolve);
+    output.on("error", reject);
+    archive.on("error", reject);
+  });
+  archive.pipe(output);
+
+  archive.append(JSON.stringify({
+    exportedAt,
+    exportedBy: {uid: userId, displayName: names[userId]},
+    otherUsers: otherUserIds.map((uid) => ({uid, displayName: names[uid]})),
+    messages,
+  }, null, 2), {name: "transcript.json"});
+  const otherNames = otherUserIds.map((uid) => names[uid]).join(", ");
+  archive.append(renderTranscriptHtml(messages, otherNames, userId, exportedAt), {name: "transcript.html"});
+  for (const entry of available) {
+    archive.append(bucket.file(entry.storagePath).createReadStream(), {name: entry.archivePath});
+  }
+
+  await archive.finalize();
+  await finished;
+  return available.length;
+}
+
+/**
+ * Render the transcript as a standalone HTML page
+ */
+function renderTranscriptHtml(
+  messages: TranscriptMessage[],
+  otherUserName: string,
+  userId: string,
+  exportedAt: string
+): string {
+  const rows = messages.map((message) => {
+    const parts: string[] = [];
+    if (message.deleted) {
+      parts.push("<p class=\"note\">This message was deleted</p>");
+    } else if (message.timedImage) {
+      parts.push("<p class=\"note\">Timed image (only viewable in the app)</p>");
+    } else {
+      if (message.content) {
+        parts.push(`<p>${escapeHtml(message.content || "")}</p>`);
+      }
+      for (const path of message.media) {
+        if (message.type === "image") {
+          parts.push(`<a href="${path}"><img src="${path}" alt="Image"></a>`);
+        } else if (message.type === "video") {
+          parts.push(`<video src="${path}" controls></video>`);
+        } else {
+          parts.push(`<audio src="${path}" controls></audio>`);
+        }
+      }
+    }
+    const edited = message.editedAt ? " · edited" : "";
+    return `<div class="message${message.senderId === userId ? " own" : ""}">` +
+      `<div class="meta">${escapeHtml(message.senderName)} · ${message.createdAt}${edited}</div>` +
+      `${parts.join("")}</div>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Conversation with ${escapeHtml(otherUserName)}</title>
+<style>
+body { font-family: sans-serif; max-width: 720px; margin: 2rem auto; color: #222; }
+.message { margin: 0.75rem 0; padding: 0.5rem 0.75rem; border-radius: 8px; background: #f1f1f1; }
+.message.own { background: #e3efff; }
+.meta { font-size: 0.75rem; color: #666; }
+.note { font-style: italic; color: #666; }
+img, video { max-width: 100%; border-radius: 4px; }
+</style>
+</head>
+<body>
+<h1>Conversation with ${escapeHtml(otherUserName)}</h1>
+<p class="meta">Exported ${exportedAt}</p>
+${rows.join("\n")}
+</body>
+</html>
+`;
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Get a link that downloads the archive until it expires
+ */
+async function getDownloadUrl(storagePath: string, expiresAt: Timestamp, otherUserName: string): Promise<string> {
+  const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  if (emulatorHost) {
+    return `http://${emulatorHost}/v0/b/${bucket.name}/o/${encodeURIComponent(storagePath)}?alt=media`;
+  }
+  const fileName = `conversation-${otherUserName.replace(/[^\w-]+/g, "-").toLowerCase()}.zip`;
+  const [url] = await bucket.file(storagePath).getSignedUrl({
+    action: "read",
+    expires: expiresAt.toDate(),
+    responseDisposition: `attachment; filename="${fileName}"`,
+  });
+  return url;
+}
+
+/**
+ * Extract file path from a storage URL (production, Firebase download and emulator formats)
+ */
+function extractFilePathFromUrl(url: string, bucketName: string): string | null {
+  // Production format: https://storage.googleapis.com/{bucket}/{filePath}
+  const productionPrefix = `https://storage.googleapis.com/${bucketName}/`;
+  if (url.startsWith(productionPrefix)) {
+    return decodeURIComponent(url.slice(productionPrefix.length).split("?")[0]);
+  }
+
+  // Firebase download URLs and the emulator: .../v0/b/{bucket}/o/{encodedPath}?alt=media
+  const encodedMatch = url.match(new RegExp(`/v0/b/${bucketName}/o/([^?]+)`));
+  if (encodedMatch) {
+    return decodeURIComponent(encodedMatch[1]);
+  }
+
+  return null;
+}
@@ -9,16 +9,27 @@
 
 import {onCall, HttpsError} from "firebase-functions/v2/https";
 import {db} from "../config/firebase";
-import {FieldValue} from "firebase-admin/firestore";
-import {ReputationTier, REPUTATION_TIER_ORDER} from "../types";
+import {FieldValue, Timestamp} from "firebase-admin/firestore";
+import {createHash, randomUUID} from "crypto";
+import {
+  ReputationTier,
+  REPUTATION_TIER_ORDER,
+  SearchIndexEntry,
+  SEARCH_INDEX_AGE_BUCKET_SIZE,
+  toAgeBucket,
+} from "../types";
+import {calculateDistance, geohashQueryBounds} from "../services/geo.service";
+import {CompatibilityBreakdown, calculateCompatibility} from "../services/compatibility.service";
+import {getConfig, RemoteConfigValues} from "../config/remote-config";
+import {calculateAge} from "./search-index";
 
 // Types
-interface GeoLocation {
+export interface GeoLocation {
   latitude: number;
   longitude: number;
 }
 
-interface SearchFilters {
+export interface SearchFilters {
   // === QUERY-LEVEL FILTERS (applied in Firestore) ===
   // These are static/profile-based and don't change often
   minAge?: number;
@@ -49,6 +60,10 @@ interface SearchFilters {
   // Lifestyle & Values (values is in-memory for flexibility)
   values?: string[];
 
+  // Mutual fit - only show people whose own preferences include the searcher
+  // (their interestedIn, age range and support orientation). Defaults to true.
+  mutualOnly?: boolean;
+
   // Secondary profile fields
   ethnicity?: string[];
   relationshipStatus?: string[];
@@ -60,8 +75,8 @@ interface SearchFilters {
   income?: string[];
 }
 
-interface SearchSort {
-  field: "distance" | "lastActive" | "newest" | "age" | "reputation";
+export interface SearchSort {
+  field: "distance" | "lastActive" | "newest" | "age" | "reputation" | "recommended";
   direction: "asc" | "desc";
 }
 
@@ -71,11 +86,12 @@ interface SearchRequest {
   pagination?: {
     limit?: number;
     offset?: number; // Offset-based pagination for in-memory filtering
+    cursor?: string; // nextCursor from a previous response; reads the next page of that search session
   };
   location?: GeoLocation; // Searcher's location for distance calculations
 }
 
-interface SearchResult {
+export interface SearchResult {
   uid: string;
   displayName: string | null;
   age: number;
@@ -96,9 +112,11 @@ interface SearchResult {
   identityVerified: boolean;
   values: string[];
   supportOrientation: string;
-  profileProgress: number; // 0-100 profile completion percentage (from private subcollection)
-  reputationTier: ReputationTier; // User's reputation tier (from private subcollection)
+  profileProgress: number; // 0-100 profile completion percentage (from search index)
+  reputationTier: ReputationTier; // User's reputation tier (from search index)
   isFounder?: boolean; // true if user is a founder for their city
+  mutualFit: boolean; // true if the searcher also fits this user's own preferences
+  compatibility: CompatibilityBreakdown; // Score used by the "recommended" sort, with what they have in common
   // Secondary fields
   ethnicity?: string;
   relationshipStatus?: string;
@@ -117,31 +135,187 @@ interface SearchResponse {
   totalEstimate?: number;
 }
 
-interface SavedView {
+/**
+ * Full profile used while filtering/sorting (internal fields stripped before returning)
+ */
+export interface CandidateProfile extends SearchResult {
+  lastActiveTimestamp: number; // For sorting
+  createdAtTimestamp: number; // For sorting
+  birthDateStr: string; // For sorting
+  rawSupportOrientation: string; // For filtering
+  rawConnectionTypes: string[]; // For filtering
+  rawValues: string[]; // For filtering
+  tierRank: number; // For reputation-based ranking boost
+}
+
+/**
+ * The searcher's own profile, checked against each candidate's preferences
+ */
+export interface SearcherProfile {
+  genderIdentity: string | undefined;
+  age: number | null;
+  supportOrientation: string | undefined;
+  connectionTypes: string[];
+  values: string[];
+}
+
+/**
+ * Position of a profile in the sorted result list
+ */
+interface SortKey {
+  value: number | string;
+  tierRank: number;
+  uid: string;
+}
+
+/**
+ * A search session: the ordered candidate list from the first page of a search.
+ * Stored in users/{uid}/searchSnapshots/{snapshotId}, written only by Cloud Functions.
+ */
+interface SearchSnapshot {
+  uids: string[];
+  queryHash: string; // Filters/sort/location the snapshot was built for
+  total: number;
+  createdAt: Timestamp;
+  expiresAt: Timestamp; // Firestore TTL field
+}
+
+/**
+ * Decoded pagination cursor: which snapshot, and where the next page starts
+ */
+interface SearchCursor {
+  snapshotId: string;
+  offset: number;
+}
+
+/**
+ * How often a saved view with alerts enabled is checked for new matches
+ * ("instant" views are checked on every run of the alert job)
+ */
+export type SearchAlertFrequency = "instant" | "daily" | "weekly";
+
+/**
+ * Alert settings the user can change on a saved view
+ */
+export interface SavedViewAlertSettings {
+  alertsEnabled: boolean;
+  alertFrequency?: SearchAlertFrequency;
+  alertMaxPerRun?: number; // Max new-match alerts per run (capped at SEARCH_ALERT_MAX_PER_RUN)
+  alertEmail?: boolean; // Also send an email digest of the matches
+}
+
+export interface SavedView extends Partial<SavedViewAlertSettings> {
   id?: string;
   name: string;
   filters: SearchFilters;
   sort: SearchSort;
   isDefault?: boolean;
+  order?: number; // Position in the user's list, lowest first (views saved before ordering existed have none)
   createdAt?: FieldValue;
   updatedAt?: FieldValue;
+  // Maintained by the alert job (see saved-search-alerts.ts)
+  alertLastRunAt?: Timestamp; // Profiles that became searchable after this are new
+  alertNextRunAt?: Timestamp; // When the view is next due
+  alertLastMatchCount?: number; // Matches reported by the last run
 }
 
+// Saved-search alerts: time between runs per frequency, and the hard cap on alerts per run
+export const SEARCH_ALERT_INTERVAL_MS: Record<SearchAlertFrequency, number> = {
+  instant: 0,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+export const SEARCH_ALERT_MAX_PER_RUN = 25;
+const DEFAULT_SEARCH_ALERT_MAX_PER_RUN = 10;
+
+const MAX_VIEW_NAME_LENGTH = 50;
+
+// Expected type of every SearchFilters key, used to validate saved filters
+// (keys not listed here are dropped)
+type SearchFilterFieldType = "number" | "boolean" | "stringArray" | "nullableNumber" | "nullableTier";
+const SEARCH_FILTER_FIELDS: Record<keyof SearchFilters, SearchFilterFieldType> = {
+  minAge: "number",
+  maxAge: "number",
+  genderIdentity: "stringArray",
+  lifestyle: "stringArray",
+  maxDistance: "nullableNumber",
+  verifiedOnly: "boolean",
+  minReputationTier: "nullableTier",
+  onlineNow: "boolean",
+  activeRecently: "boolean",
+  connectionTypes: "stringArray",
+  supportOrientation: "stringArray",
+  values: "stringArray",
+  mutualOnly: "boolean",
+  ethnicity: "stringArray",
+  relationshipStatus: "stringArray",
+  children: "stringArray",
+  smoker: "stringArray",
+  drinker: "stringArray",
+  education: "stringArray",
+  height: "stringArray",
+  income: "stringArray",
+};
+
+const SEARCH_SORT_FIELDS: SearchSort["field"][] = [
+  "distance", "lastActive", "newest", "age", "reputation", "recommended",
+];
+
+// Geo path: page size per geohash range, and overall cap on candidates read
+const GEO_PAGE_SIZE = 250;
+const MAX_GEO_CANDIDATES = 2000;
+
+// Page size bounds for searchProfiles (the limit comes from the client)
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 50;
+
+// How long a search session stays readable for "load more"
+const SEARCH_SNAPSHOT_TTL_MS = 30 * 60 * 1000;
+
+// Snapshot ids are random UUIDs; cursors carrying anything else are refused
+const SNAPSHOT_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+// Maps a genderIdentity to the matching interestedIn option
+// (self-describe has no equivalent, so it never excludes)
+const GENDER_TO_INTERESTED_IN: Record<string, string> = {
+  man: "men",
+  woman: "women",
+  nonbinary: "nonbinary",
+};
+
 /**
  * Search profiles with filters, sorting, and pagination
  *
  * ARCHITECTURE:
+ * Candidates come from the searchIndex/{uid} projection (see search-index.ts),
+ * which only contains searchable users and already includes profile progress
+ * and reputation tier, so search cost doesn't grow with private-doc reads.
+ *
  * To minimize index combinations, we use a hybrid approach:
  * - QUERY-LEVEL: Only essential filters that rarely change together
- *   (onboardingCompleted, isSearchable, genderIdentity, lifestyle, age range)
+ *   (genderIdentity, lifestyle, age range)
  * - IN-MEMORY: All user-changeable filters (distance, verification, activity,
  *   connectionTypes, supportOrientation, ethnicity, relationshipStatus, children,
  *   smoker, drinker, education, height, income)
- * - IN-MEMORY: All sorting
- * - IN-MEMORY: Offset-based pagination
+ * - IN-MEMORY: Mutual fit (the candidate's own interestedIn, age range and
+ *   support orientation checked against the searcher), on by default
+ * - IN-MEMORY: All sorting, including "recommended" (compatibility score
+ *   from compatibility.service.ts, weighted by Remote Config)
+ * - SEARCH SESSION: Cursor-based pagination over a stored snapshot
  *
  * This approach fetches a pool of candidates from Firestore, then applies
- * filters, sorts, and paginates in memory.
+ * filters and sorts in memory. The first call stores the ordered uid list as a
+ * short-lived snapshot; nextCursor points into it, so later pages don't re-run
+ * the query and don't shift when someone comes online between pages.
+ * Snapshots expire after SEARCH_SNAPSHOT_TTL_MS, are rejected if the filters
+ * changed, and are deleted when the searcher starts a new search or blocks someone.
+ *
+ * DISTANCE-BOUNDED SEARCHES:
+ * When maxDistance and a location are given, candidates are fetched by geohash
+ * prefix ranges covering the radius instead of the fixed birthDate-ordered pool,
+ * so nearby people are never crowded out by far-away ones. On this path only
+ * the age bucket is a query filter (Firestore can't combine the others with the
+ * geohash range); gender, lifestyle and exact age are applied in memory.
  */
 export const searchProfiles = onCall<SearchRequest, Promise<SearchResponse>>(
   {region: "us-central1"},
@@ -153,427 +327,131 @@ export const searchProfiles = onCall<SearchRequest, Promise<SearchResponse>>(
 
     const currentUserId = request.auth.uid;
     const {filters = {}, sort = {field: "reputation", direction: "desc"}, pagination = {}} = request.data;
-    const {limit: pageLimit = 20, offset = 0} = pagination;
+    const {cursor} = pagination;
+    const pageLimit = clampPageLimit(pagination.limit);
+    const offset = Math.max(0, Math.floor(Number(pagination.offset) || 0));
     const searcherLocation = request.data.location;
 
     // Over-fetch multiplier to ensure we have enough after in-memory filtering
     // We fetch enough to cover the requested offset + page, with extra buffer
-    const FETCH_LIMIT = 500; // Max profiles to fetch from Firestore
+    const FETCH_LIMIT = 500; // Max profiles to fetch from Firestore (non-geo path)
 
     try {
-      // Fetch current user's profile to get their support orientation
-      const currentUserDoc = await db.collection("users").doc(currentUserId).get();
-      const currentUserData = currentUserDoc.data();
-      const currentUserSupportOrientation = currentUserData?.onboarding?.supportOrientation as string | undefined;
-
-      // Fetch blocked users (both directions)
-      const [blockedSnapshot, blockedBySnapshot] = await Promise.all([
-        db.collection("users").doc(currentUserId).collection("blocks").get(),
-        db.collection("users").doc(currentUserId).collection("blockedBy").get(),
-      ]);
-      const blockedUserIds = new Set<string>([
-        ...blockedSnapshot.docs.map((d) => d.id),
-        ...blockedBySnapshot.docs.map((d) => d.id),
+      // Fetch current user's profile (what candidates' preferences are checked
+      // against for mutual fit and compatibility), the compatibility weights,
+      // and users to leave out: blocked (both directions) or passed on
+      const [currentUserDoc, config, blockedUserIds, passedUserIds] = await Promise.all([
+        db.collection("users").doc(currentUserId).get(),
+        getConfig(),
+        getBlockedUserIds(currentUserId),
+        getPassedUserIds(currentUserId),
       ]);
-
-      // Determine compatible support orientations based on current user's preference
-      // This is used as a default if user hasn't set explicit filter
-      let defaultCompatibleOrientations: string[] | null = null;
-      if (currentUserSupportOrientation === "receiving") {
-        defaultCompatibleOrientations = ["providing", "either"];
-      } else if (currentUserSupportOrientation === "providing") {
-        defaultCompatibleOrientations = ["receiving", "either"];
+      const excludedUserIds = new Set([...blockedUserIds, ...passedUserIds]);
+      const searcher = buildSearcherProfile(currentUserDoc.data());
+
+      // === CONTINUE AN EXISTING SEARCH SESSION ===
+      // Later pages read from the stored snapshot instead of re-running the query
+      const queryHash = hashSearchQuery(filters, sort, searcherLocation);
+      if (cursor) {
+        return await readSnapshotPage(
+          currentUserId,
+          decodeCursor(cursor),
+          pageLimit,
+          queryHash,
+          excludedUserIds,
+          searcherLocation,
+          searcher,
+          config
+        );
       }
 
       // === BUILD FIRESTORE QUERY ===
+      // Query the searchIndex projection: it only holds searchable users and
+      // already carries profile progress and reputation tier, so no private-doc joins.
       // Only essential filters that create minimal index combinations
-      let query: FirebaseFirestore.Query = db.collection("users");
-
-      // 1. Base filters (always applied)
-      query = query.where("onboardingCompleted", "==", true);
-      query = query.where("isSearchable", "==", true);
+      let query: FirebaseFirestore.Query = db.collection("searchIndex");
 
-      // 2. Gender identity filter (profile-based, doesn't change often)
-      if (filters.genderIdentity?.length) {
-        query = query.where("onboarding.genderIdentity", "in", filters.genderIdentity.slice(0, 30));
-      }
-
-      // 3. Lifestyle filter (profile-based, doesn't change often)
-      if (filters.lifestyle?.length) {
-        query = query.where("onboarding.lifestyle", "in", filters.lifestyle.slice(0, 30));
-      }
+      let candidateEntries: SearchIndexEntry[];
 
-      // 4. Age range filter (profile-based)
-      if (filters.minAge || filters.maxAge) {
-        const today = new Date();
-        if (filters.maxAge) {
-          const minBirthYear = today.getFullYear() - filters.maxAge - 1;
-          const minBirthDate = `${minBirthYear}-${String(today.getMonth() + 1).padStart(2, "0")}-${String(today.getDate()).padStart(2, "0")}`;
-          query = query.where("onboarding.birthDate", ">=", minBirthDate);
-        }
-        if (filters.minAge) {
-          const maxBirthYear = today.getFullYear() - filters.minAge;
-          const maxBirthDate = `${maxBirthYear}-${String(today.getMonth() + 1).padStart(2, "0")}-${String(today.getDate()).padStart(2, "0")}`;
-          query = query.where("onboarding.birthDate", "<=", maxBirthDate);
+      if (filters.maxDistance && searcherLocation) {
+        // === GEO PATH: query geohash ranges covering the radius ===
+        // Age buckets narrow the query; gender, lifestyle and the exact age
+        // range are checked in memory (they can't all combine with the geohash range)
+        const ageBuckets = getAgeBuckets(filters);
+        if (ageBuckets) {
+          query = query.where("ageBucket", "in", ageBuckets);
         }
-      }
-
-      // 5. Order by birthDate for consistent results (required for range queries)
-      // We'll re-sort in memory based on user's sort preference
-      query = query.orderBy("onboarding.birthDate", "desc");
-      query = query.orderBy("uid"); // Secondary sort for consistency
-
-      // 6. Fetch pool of candidates
-      query = query.limit(FETCH_LIMIT);
-
-      // === EXECUTE QUERY ===
-      const snapshot = await query.get();
-
-      // === FETCH TRUST SCORES AND REPUTATION FROM PRIVATE SUBCOLLECTION ===
-      // Filter out current user and blocked users first
-      const candidateIds = snapshot.docs
-        .map((doc) => doc.id)
-        .filter((id) => id !== currentUserId && !blockedUserIds.has(id));
-
-      const profileProgressMap = new Map<string, number>();
-      const reputationTierMap = new Map<string, ReputationTier>();
-
-      // Fetch profile progress (trust score) and reputation tier in batches of 10
-      const batchSize = 10;
-      for (let i = 0; i < candidateIds.length; i += batchSize) {
-        const batch = candidateIds.slice(i, i + batchSize);
-        const privateDocs = await Promise.all(
-          batch.map((uid) =>
-            db.collection("users").doc(uid).collection("private").doc("data").get()
-          )
-        );
-        privateDocs.forEach((doc, idx) => {
-          const data = doc.exists ? doc.data() : {};
-          const progress = data?.profileProgress ?? 0;
-          const tier = (data?.reputation?.tier ?? "new") as ReputationTier;
-          profileProgressMap.set(batch[idx], progress);
-          reputationTierMap.set(batch[idx], tier);
-        });
-      }
-
-      // === TRANSFORM ALL CANDIDATES ===
-      // Build full profile objects for filtering/sorting
-      interface CandidateProfile extends SearchResult {
-        lastActiveTimestamp: number; // For sorting
-        createdAtTimestamp: number; // For sorting
-        birthDateStr: string; // For sorting
-        rawSupportOrientation: string; // For filtering
-        rawConnectionTypes: string[]; // For filtering
-        rawValues: string[]; // For filtering
-        tierRank: number; // For reputation-based ranking boost
-      }
 
-      const allCandidates: CandidateProfile[] = [];
-
-      for (const doc of snapshot.docs) {
-        // Skip current user and blocked users
-        if (doc.id === currentUserId || blockedUserIds.has(doc.id)) continue;
-
-        const data = doc.data();
-        const onboarding = data.onboarding || {};
-        const profileProgress = profileProgressMap.get(doc.id) ?? 0;
-        const reputationTier = reputationTierMap.get(doc.id) ?? "new";
-        const tierRank = REPUTATION_TIER_ORDER.indexOf(reputationTier);
-        const isFounder = data.isFounder === true;
-
-        // Calculate distance
-        let distance: number | undefined;
-        if (searcherLocation && onboarding.location) {
-          distance = calculateDistance(
-            searcherLocation.latitude,
-            searcherLocation.longitude,
-            onboarding.location.latitude,
-            onboarding.location.longitude
-          );
+        const geoEntries = await fetchGeoCandidates(query, searcherLocation, filters.maxDistance);
+        candidateEntries = geoEntries.filter((entry) => matchesIndexFilters(entry, filters));
+      } else {
+        // 1. Gender identity filter (profile-based, doesn't change often)
+        if (filters.genderIdentity?.length) {
+          query = query.where("genderIdentity", "in", filters.genderIdentity.slice(0, 30));
         }
 
-        // Extract timestamps for sorting
-        const lastActiveAt = data.lastActiveAt?.toDate?.() || null;
-        const createdAt = data.createdAt?.toDate?.() || null;
-        const lastActiveTimestamp = lastActiveAt ? lastActiveAt.getTime() : 0;
-        const createdAtTimestamp = createdAt ? createdAt.getTime() : 0;
-
-        // Privacy settings
-        const privacySettings = data.settings?.privacy || {};
-        const showOnlineStatus = privacySettings.showOnlineStatus !== false;
-        const showLastActive = privacySettings.showLastActive !== false;
-        const showLocation = privacySettings.showLocation !== false;
-
-        // Online status
-        let isCurrentlyOnline = false;
-        if (lastActiveAt && !isNaN(lastActiveAt.getTime())) {
-          const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000);
-          isCurrentlyOnline = lastActiveAt.getTime() > fifteenMinutesAgo.getTime();
+        // 2. Lifestyle filter (profile-based, doesn't change often)
+        if (filters.lifestyle?.length) {
+          query = query.where("lifestyle", "in", filters.lifestyle.slice(0, 30));
         }
-        const isOnline = showOnlineStatus && isCurrentlyOnline;
-
-        allCandidates.push({
-          uid: doc.id,
-          displayName: data.displayName,
-          age: calculateAge(onboarding.birthDate),
-          city: showLocation ? onboarding.city : null,
-          country: showLocation ? onboarding.country : null,
-          distance,
-          lastActiveAt: showLastActive && !isCurrentlyOnline ? lastActiveAt?.toISOString() : undefined,
-          isOnline: isOnline || undefined,
-          showOnlineStatus,
-          showLastActive,
-          showLocation,
-          genderIdentity: onboarding.genderIdentity,
-          lifestyle: onboarding.lifestyle,
-          connectionTypes: onboarding.connectionTypes || [],
-          tagline: onboarding.tagline || "",
-          photoURL: data.photoURL || (onboarding.photoDetails?.[0] as { url?: string })?.url || null,
-          photos: (onboarding.photoDetails || [])
-            .sort((a: { order?: number }, b: { order?: number }) => (a.order ?? 0) - (b.order ?? 0))
-            .map((p: { url: string }) => p.url),
-          identityVerified: data.identityVerified === true,
-          values: onboarding.values || [],
-          supportOrientation: onboarding.supportOrientation || "",
-          profileProgress,
-          reputationTier,
-          isFounder: isFounder || undefined,
-          ethnicity: onboarding.ethnicity,
-          relationshipStatus: onboarding.relationshipStatus,
-          children: onboarding.children,
-          smoker: onboarding.smoker,
-          drinker: onboarding.drinker,
-          education: onboarding.education,
-          occupation: onboarding.occupation,
-          height: onboarding.height,
-          income: onboarding.income,
-          // Extra fields for filtering/sorting
-          lastActiveTimestamp,
-          createdAtTimestamp,
-          birthDateStr: onboarding.birthDate || "",
-          rawSupportOrientation: onboarding.supportOrientation || "",
-          rawConnectionTypes: onboarding.connectionTypes || [],
-          rawValues: onboarding.values || [],
-          tierRank,
-        });
-      }
-
-      // === APPLY IN-MEMORY FILTERS ===
-      let filteredCandidates = allCandidates;
-
-      // Distance filter
-      if (filters.maxDistance && searcherLocation) {
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.distance !== undefined && p.distance <= (filters.maxDistance ?? Infinity)
-        );
-      }
-
-      // Verification filter
-      if (filters.verifiedOnly) {
-        filteredCandidates = filteredCandidates.filter((p) => p.identityVerified);
-      }
-
-      // Online now filter (active within 15 minutes)
-      if (filters.onlineNow) {
-        const fifteenMinutesAgo = Date.now() - 15 * 60 * 1000;
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.lastActiveTimestamp >= fifteenMinutesAgo
-        );
-      } else if (filters.activeRecently) {
-        // Active recently filter (active within 24 hours)
-        const twentyFourHoursAgo = Date.now() - 24 * 60 * 60 * 1000;
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.lastActiveTimestamp >= twentyFourHoursAgo
-        );
-      }
-
-      // Connection types filter (any match)
-      if (filters.connectionTypes?.length) {
-        filteredCandidates = filteredCandidates.filter((p) =>
-          p.rawConnectionTypes.some((ct: string) => filters.connectionTypes?.includes(ct))
-        );
-      }
-
-      // Support orientation filter
-      if (filters.supportOrientation?.length) {
-        filteredCandidates = filteredCandidates.filter((p) =>
-          filters.supportOrientation?.includes(p.rawSupportOrientation)
-        );
-      } else if (defaultCompatibleOrientations) {
-        // Apply automatic matching based on current user's orientation
-        filteredCandidates = filteredCandidates.filter((p) =>
-          defaultCompatibleOrientations?.includes(p.rawSupportOrientation)
-        );
-      }
-
-      // Values filter (any match)
-      if (filters.values?.length) {
-        filteredCandidates = filteredCandidates.filter((p) =>
-          p.rawValues.some((v: string) => filters.values?.includes(v))
-        );
-      }
-
-      // Ethnicity filter
-      if (filters.ethnicity?.length) {
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.ethnicity && filters.ethnicity?.includes(p.ethnicity)
-        );
-      }
-
-      // Relationship status filter
-      if (filters.relationshipStatus?.length) {
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.relationshipStatus && filters.relationshipStatus?.includes(p.relationshipStatus)
-        );
-      }
 
-      // Children filter
-      if (filters.children?.length) {
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.children && filters.children?.includes(p.children)
-        );
-      }
-
-      // Smoker filter
-      if (filters.smoker?.length) {
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.smoker && filters.smoker?.includes(p.smoker)
-        );
-      }
+        // 3. Age range filter (profile-based)
+        const {minBirthDate, maxBirthDate} = getBirthDateBounds(filters);
+        if (minBirthDate) {
+          query = query.where("birthDate", ">=", minBirthDate);
+        }
+        if (maxBirthDate) {
+          query = query.where("birthDate", "<=", maxBirthDate);
+        }
 
-      // Drinker filter
-      if (filters.drinker?.length) {
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.drinker && filters.drinker?.includes(p.drinker)
-        );
-      }
+        // 4. Order by birthDate for consistent results (required for range queries)
+        // We'll re-sort in memory based on user's sort preference
+        query = query.orderBy("birthDate", "desc");
+        query = query.orderBy("uid"); // Secondary sort for consistency
 
-      // Education filter
-      if (filters.education?.length) {
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.education && filters.education?.includes(p.education)
-        );
-      }
+        // 5. Fetch pool of candidates
+        query = query.limit(FETCH_LIMIT);
 
-      // Height filter
-      if (filters.height?.length) {
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.height && filters.height?.includes(p.height)
-        );
+        // === EXECUTE QUERY ===
+        const snapshot = await query.get();
+        candidateEntries = snapshot.docs.map((doc) => doc.data() as SearchIndexEntry);
       }
 
-      // Income filter
-      if (filters.income?.length) {
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.income && filters.income?.includes(p.income)
-        );
-      }
+      // === TRANSFORM ALL CANDIDATES ===
+      // Filter out current user, blocked and passed users, then build full profile
+      // objects for filtering/sorting
+      const allCandidates = candidateEntries
+        .filter((entry) => entry.uid !== currentUserId && !excludedUserIds.has(entry.uid))
+        .map((entry) => buildCandidate(entry, searcherLocation, searcher, config));
 
-      // Reputation tier filter - "X and above" style
-      // Filter to profiles at or above the specified tier
-      if (filters.minReputationTier) {
-        const minTierRank = REPUTATION_TIER_ORDER.indexOf(filters.minReputationTier);
-        filteredCandidates = filteredCandidates.filter(
-          (p) => p.tierRank >= minTierRank
-        );
-      }
+      // === APPLY IN-MEMORY FILTERS ===
+      const filteredCandidates = applyInMemoryFilters(allCandidates, filters, searcher, searcherLocation);
 
       // === APPLY IN-MEMORY SORTING ===
       // Reputation tier provides a secondary ranking boost:
-      // Higher tier users appear first when primary sort values are equal
-      filteredCandidates.sort((a, b) => {
-        let comparison = 0;
-
-        switch (sort.field) {
-        case "lastActive":
-          comparison = a.lastActiveTimestamp - b.lastActiveTimestamp;
-          break;
-        case "newest":
-          comparison = a.createdAtTimestamp - b.createdAtTimestamp;
-          break;
-        case "age":
-          // birthDate: newer date = younger, so for age asc (youngest first), sort birthDate desc
-          comparison = a.birthDateStr.localeCompare(b.birthDateStr);
-          // Reverse because newer birthDate = younger age
-          comparison = -comparison;
-          break;
-        case "distance": {
-          const distA = a.distance ?? Infinity;
-          const distB = b.distance ?? Infinity;
-          comparison = distA - distB;
-          break;
-        }
-        case "reputation":
-          // Higher tier rank = better reputation
-          comparison = a.tierRank - b.tierRank;
-          break;
-        default:
-          // Default to reputation sorting
-          comparison = a.tierRank - b.tierRank;
-        }
-
-        // Apply direction
-        let result = sort.direction === "desc" ? -comparison : comparison;
-
-        // REPUTATION BOOST: If primary sort is equal, higher tier users appear first
-        if (result === 0) {
-          // Higher tierRank = better tier, so b - a for descending
-          result = b.tierRank - a.tierRank;
-        }
-
-        return result;
-      });
-
-      // === APPLY IN-MEMORY PAGINATION ===
+      // Higher tier users appear first when primary sort values are equal.
+      // uid is the final tie-breaker so the order is total and stable.
+      filteredCandidates.sort((a, b) =>
+        compareSortKeys(getSortKey(a, sort.field), getSortKey(b, sort.field), sort)
+      );
+
+      // === CREATE SEARCH SESSION ===
+      // Store the ordered uid list so "load more" pages read from a stable snapshot
+      const orderedUids = filteredCandidates.map((p) => p.uid);
+      const snapshotId = await createSearchSnapshot(currentUserId, orderedUids, queryHash);
+
+      // === APPLY PAGINATION ===
       const totalFiltered = filteredCandidates.length;
       const paginatedCandidates = filteredCandidates.slice(offset, offset + pageLimit);
-
-      // === BUILD FINAL RESPONSE ===
-      // Remove internal sorting/filtering fields from response
-      const profiles: SearchResult[] = paginatedCandidates.map((p) => ({
-        uid: p.uid,
-        displayName: p.displayName,
-        age: p.age,
-        city: p.city,
-        country: p.country,
-        distance: p.distance,
-        lastActiveAt: p.lastActiveAt,
-        isOnline: p.isOnline,
-        showOnlineStatus: p.showOnlineStatus,
-        showLastActive: p.showLastActive,
-        showLocation: p.showLocation,
-        genderIdentity: p.genderIdentity,
-        lifestyle: p.lifestyle,
-        connectionTypes: p.connectionTypes,
-        tagline: p.tagline,
-        photoURL: p.photoURL,
-        photos: p.photos,
-        identityVerified: p.identityVerified,
-        values: p.values,
-        supportOrientation: p.supportOrientation,
-        profileProgress: p.profileProgress,
-        reputationTier: p.reputationTier,
-        ethnicity: p.ethnicity,
-        relationshipStatus: p.relationshipStatus,
-        children: p.children,
-        smoker: p.smoker,
-        drinker: p.drinker,
-        education: p.education,
-        occupation: p.occupation,
-        height: p.height,
-        income: p.income,
-      }));
-
-      // Determine if there are more results
       const hasMore = offset + pageLimit < totalFiltered;
-      const nextOffset = hasMore ? offset + pageLimit : undefined;
 
       return {
-        profiles,
-        nextCursor: nextOffset?.toString(), // Use string for consistency with previous API
+        profiles: paginatedCandidates.map(toSearchResult),
+        nextCursor: hasMore ? encodeCursor({snapshotId, offset: offset + pageLimit}) : undefined,
         totalEstimate: totalFiltered,
       };
     } catch (error) {
+      if (error instanceof HttpsError) throw error;
       console.error("Error searching profiles:", error);
       throw new HttpsError("internal", "Failed to search profiles");
     }
@@ -582,6 +460,7 @@ export const searchProfiles = onCall<SearchRequest, Promise<SearchResponse>>(
 
 /**
  * Save a search view for the user
+ * New views go to the top of the list.
  */
 export const saveSearchView = onCall<SavedView, Promise<{ id: string }>>(
   {region: "us-central1"},
@@ -591,39 +470,44 @@ export const saveSearchView = onCall<SavedView, Promise<{ id: string }>>(
     }
 
     const userId = request.auth.uid;
-    const {name, filters, sort, isDefault} = request.data;
+    const {name, filters, sort, isDefault, alertsEnabled, alertFrequency, alertMaxPerRun, alertEmail} = request.data;
+    const viewName = validateViewName(name);
 
     try {
+      const viewsRef = db
+        .collection("users")
+        .doc(userId)
+        .collection("savedViews");
+      const existingViews = await viewsRef.get();
+
       // If setting as default, unset other defaults
       if (isDefault) {
-        const existingDefaults = await db
-          .collection("users")
-          .doc(userId)
-          .collection("savedViews")
-          .where("isDefault", "==", true)
-          .get();
-
         const batch = db.batch();
-        existingDefaults.docs.forEach((doc) => {
-          batch.update(doc.ref, {isDefault: false});
-        });
+        existingViews.docs
+          .filter((doc) => doc.data().isDefault === true)
+          .forEach((doc) => {
+            batch.update(doc.ref, {isDefault: false});
+          });
         await batch.commit();
       }
 
+      const lowestOrder = existingViews.docs.reduce(
+        (lowest, doc) => Math.min(lowest, doc.data().order ?? 0),
+        0
+      );
+
       const viewData: SavedView = {
-        name,
-        filters,
-        sort,
+        name: viewName,
+        filters: sanitizeSearchFilters(filters),
+        sort: sanitizeSearchSort(sort),
         isDefault: isDefault || false,
+        order: lowestOrder - 1,
+        ...buildAlertFields({alertsEnabled: alertsEnabled === true, alertFrequency, alertMaxPerRun, alertEmail}),
         createdAt: FieldValue.serverTimestamp(),
         updatedAt: FieldValue.serverTimestamp(),
       };
 
-      const docRef = await db
-        .collection("users")
-        .doc(userId)
-        .collection("savedViews")
-        .add(viewData);
+      const docRef = await viewsRef.add(viewData);
 
       return {id: docRef.id};
     } catch (error) {
@@ -634,7 +518,8 @@ export const saveSearchView = onCall<SavedView, Promise<{ id: string }>>(
 );
 
 /**
- * Get user's saved views
+ * Get user's saved views, in the user's order
+ * Views without an order (saved before ordering existed) follow, newest first.
  */
 export const getSavedViews = onCall<void, Promise<SavedView[]>>(
   {region: "us-central1"},
@@ -653,10 +538,13 @@ export const getSavedViews = onCall<void, Promise<SavedView[]>>(
         .orderBy("createdAt", "desc")
         .get();
 
-      return snapshot.docs.map((doc) => ({
+      const views = snapshot.docs.map((doc) => ({
         id: doc.id,
         ...doc.data(),
       })) as SavedView[];
+
+      // Stable sort keeps createdAt order among unordered views
+      return views.sort(compareViewOrder);
     } catch (error) {
       console.error("Error getting views:", error);
       throw new HttpsError("internal", "Failed to get views");
@@ -664,6 +552,104 @@ export const getSavedViews = onCall<void, Promise<SavedView[]>>(
   }
 );
 
+/**
+ * Update a saved view's name, filters and/or sort
+ * Only the fields provided are changed; default status and alerts are kept.
+ */
+export const updateSearchView = onCall<
+  { viewId: string; name?: string; filters?: SearchFilters; sort?: SearchSort },
+  Promise<void>
+>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be logged in to update views");
+    }
+
+    const userId = request.auth.uid;
+    const {viewId, name, filters, sort} = request.data;
+    if (!viewId) {
+      throw new HttpsError("invalid-argument", "viewId is required");
+    }
+
+    const updates: Partial<SavedView> = {};
+    if (name !== undefined) updates.name = validateViewName(name);
+    if (filters !== undefined) updates.filters = sanitizeSearchFilters(filters);
+    if (sort !== undefined) updates.sort = sanitizeSearchSort(sort);
+    if (Object.keys(updates).length === 0) {
+      throw new HttpsError("invalid-argument", "Nothing to update");
+    }
+
+    const viewRef = db
+      .collection("users")
+      .doc(userId)
+      .collection("savedViews")
+      .doc(viewId);
+
+    try {
+      const viewDoc = await viewRef.get();
+      if (!viewDoc.exists) {
+        throw new HttpsError("not-found", "View not found");
+      }
+
+      await viewRef.update({
+        ...updates,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      console.error("Error updating view:", error);
+      throw new HttpsError("internal", "Failed to update view");
+    }
+  }
+);
+
+/**
+ * Reorder saved views
+ * viewIds is the new order; any of the user's views not listed keep their
+ * relative order after the listed ones.
+ */
+export const reorderSearchViews = onCall<{ viewIds: string[] }, Promise<void>>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be logged in to reorder views");
+    }
+
+    const userId = request.auth.uid;
+    const {viewIds} = request.data;
+    if (!Array.isArray(viewIds) || viewIds.some((id) => typeof id !== "string")) {
+      throw new HttpsError("invalid-argument", "viewIds must be an array of view IDs");
+    }
+
+    try {
+      const viewsSnapshot = await db
+        .collection("users")
+        .doc(userId)
+        .collection("savedViews")
+        .orderBy("createdAt", "desc")
+        .get();
+
+      const docsById = new Map(viewsSnapshot.docs.map((doc) => [doc.id, doc]));
+      const listed = [...new Set(viewIds)].filter((id) => docsById.has(id));
+      const unlisted = viewsSnapshot.docs
+        .filter((doc) => !listed.includes(doc.id))
+        .sort((a, b) => compareViewOrder(a.data(), b.data()))
+        .map((doc) => doc.id);
+
+      const batch = db.batch();
+      [...listed, ...unlisted].forEach((id, index) => {
+        const doc = docsById.get(id);
+        if (doc) batch.update(doc.ref, {order: index});
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error("Error reordering views:", error);
+      throw new HttpsError("internal", "Failed to reorder views");
+    }
+  }
+);
+
 /**
  * Delete a saved view
  */
@@ -731,38 +717,789 @@ export const setDefaultView = onCall<{ viewId: string }, Promise<void>>(
   }
 );
 
+/**
+ * Turn alerts on or off for a saved view, or change how often they run
+ * Turning alerts on starts from now: only profiles that become searchable
+ * afterwards are reported.
+ */
+export const setSearchViewAlerts = onCall<SavedViewAlertSettings & { viewId: string }, Promise<void>>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be logged in to update view alerts");
+    }
+
+    const userId = request.auth.uid;
+    const {viewId, ...settings} = request.data;
+    if (!viewId) {
+      throw new HttpsError("invalid-argument", "viewId is required");
+    }
+
+    const viewRef = db
+      .collection("users")
+      .doc(userId)
+      .collection("savedViews")
+      .doc(viewId);
+
+    try {
+      const viewDoc = await viewRef.get();
+      if (!viewDoc.exists) {
+        throw new HttpsError("not-found", "View not found");
+      }
+
+      const wasEnabled = viewDoc.data()?.alertsEnabled === true;
+      const alertFields = buildAlertFields({...settings, alertsEnabled: settings.alertsEnabled === true});
+
+      // Keep the existing window when only frequency/cap/email change
+      if (wasEnabled && settings.alertsEnabled) {
+        delete alertFields.alertLastRunAt;
+      }
+
+      await viewRef.update({
+        ...alertFields,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      console.error("Error updating view alerts:", error);
+      throw new HttpsError("internal", "Failed to update view alerts");
+    }
+  }
+);
+
 // Helper functions
-function calculateAge(birthDate: string): number {
-  if (!birthDate) return 0;
-  const birth = new Date(birthDate);
+
+/**
+ * Saved view list order: by order, with unordered views last
+ */
+function compareViewOrder(a: {order?: number}, b: {order?: number}): number {
+  if (a.order === undefined || b.order === undefined) {
+    return (a.order === undefined ? 1 : 0) - (b.order === undefined ? 1 : 0);
+  }
+  return a.order - b.order;
+}
+
+/**
+ * Trimmed view name, or invalid-argument if it's empty or too long
+ */
+function validateViewName(name: unknown): string {
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (!trimmed || trimmed.length > MAX_VIEW_NAME_LENGTH) {
+    throw new HttpsError(
+      "invalid-argument",
+      `View name must be 1-${MAX_VIEW_NAME_LENGTH} characters`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * A whole page size between 1 and MAX_PAGE_LIMIT (DEFAULT_PAGE_LIMIT if missing or malformed)
+ */
+export function clampPageLimit(limit: unknown): number {
+  if (typeof limit !== "number" || !Number.isFinite(limit)) return DEFAULT_PAGE_LIMIT;
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_LIMIT);
+}
+
+/**
+ * Keep only known SearchFilters keys whose values have the expected type
+ * Stale keys (e.g. from older app versions) and malformed values are dropped.
+ */
+export function sanitizeSearchFilters(filters: unknown): SearchFilters {
+  if (!filters || typeof filters !== "object") return {};
+
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    const fieldType = SEARCH_FILTER_FIELDS[key as keyof SearchFilters];
+    if (fieldType && isValidFilterValue(fieldType, value)) {
+      sanitized[key] = value;
+    }
+  }
+  return sanitized as SearchFilters;
+}
+
+function isValidFilterValue(fieldType: SearchFilterFieldType, value: unknown): boolean {
+  switch (fieldType) {
+  case "number":
+    return typeof value === "number" && Number.isFinite(value);
+  case "boolean":
+    return typeof value === "boolean";
+  case "stringArray":
+    return Array.isArray(value) && value.every((item) => typeof item === "string");
+  case "nullableNumber":
+    return value === null || (typeof value === "number" && Number.isFinite(value));
+  case "nullableTier":
+    return value === null || REPUTATION_TIER_ORDER.includes(value as ReputationTier);
+  }
+}
+
+/**
+ * A valid sort, falling back to the search default for unknown fields
+ */
+function sanitizeSearchSort(sort: unknown): SearchSort {
+  const {field, direction} = (sort || {}) as Partial<SearchSort>;
+  if (!field || !SEARCH_SORT_FIELDS.includes(field)) {
+    return {field: "reputation", direction: "desc"};
+  }
+  return {field, direction: direction === "asc" ? "asc" : "desc"};
+}
+
+/**
+ * Validated alert fields for a saved view document
+ */
+function buildAlertFields(settings: SavedViewAlertSettings): Partial<SavedView> {
+  const alertFrequency: SearchAlertFrequency =
+    settings.alertFrequency && settings.alertFrequency in SEARCH_ALERT_INTERVAL_MS ?
+      settings.alertFrequency :
+      "daily";
+  const alertMaxPerRun = Math.min(
+    SEARCH_ALERT_MAX_PER_RUN,
+    Math.max(1, Math.floor(Number(settings.alertMaxPerRun) || DEFAULT_SEARCH_ALERT_MAX_PER_RUN))
+  );
+  const now = Timestamp.now();
+
+  return {
+    alertsEnabled: settings.alertsEnabled,
+    alertFrequency,
+    alertMaxPerRun,
+    alertEmail: settings.alertEmail === true,
+    alertLastRunAt: now,
+    alertNextRunAt: Timestamp.fromMillis(now.toMillis() + SEARCH_ALERT_INTERVAL_MS[alertFrequency]),
+  };
+}
+
+/**
+ * The searcher's profile fields discovery compares candidates against
+ */
+export function buildSearcherProfile(
+  userData: FirebaseFirestore.DocumentData | undefined
+): SearcherProfile {
+  const onboarding = userData?.onboarding || {};
+  return {
+    genderIdentity: onboarding.genderIdentity,
+    age: onboarding.birthDate ? calculateAge(onboarding.birthDate) : null,
+    supportOrientation: onboarding.supportOrientation,
+    connectionTypes: onboarding.connectionTypes || [],
+    values: onboarding.values || [],
+  };
+}
+
+/**
+ * Users the given user has blocked or been blocked by
+ */
+export async function getBlockedUserIds(userId: string): Promise<Set<string>> {
+  const [blockedSnapshot, blockedBySnapshot] = await Promise.all([
+    db.collection("users").doc(userId).collection("blocks").get(),
+    db.collection("users").doc(userId).collection("blockedBy").get(),
+  ]);
+  return new Set<string>([
+    ...blockedSnapshot.docs.map((d) => d.id),
+    ...blockedBySnapshot.docs.map((d) => d.id),
+  ]);
+}
+
+/**
+ * Users the given user has passed on ("not interested") whose pass hasn't expired
+ */
+export async function getPassedUserIds(userId: string): Promise<Set<string>> {
+  const passesSnapshot = await db.collection("users").doc(userId).collection("passes").get();
+  const now = Date.now();
+  return new Set<string>(
+    passesSnapshot.docs
+      .filter((d) => {
+        const expiresAt = d.data().expiresAt as Timestamp | null;
+        return !expiresAt || expiresAt.toMillis() > now;
+      })
+      .map((d) => d.id)
+  );
+}
+
+/**
+ * Check the query-level filters (gender, lifestyle, age range) against an
+ * entry in memory, for candidates that weren't fetched with them applied
+ */
+export function matchesIndexFilters(entry: SearchIndexEntry, filters: SearchFilters): boolean {
+  const {minBirthDate, maxBirthDate} = getBirthDateBounds(filters);
+  return (!filters.genderIdentity?.length || filters.genderIdentity.includes(entry.genderIdentity)) &&
+    (!filters.lifestyle?.length || filters.lifestyle.includes(entry.lifestyle)) &&
+    (!minBirthDate || entry.birthDate >= minBirthDate) &&
+    (!maxBirthDate || entry.birthDate <= maxBirthDate);
+}
+
+/**
+ * Apply all in-memory filters (everything except the query-level ones)
+ */
+export function applyInMemoryFilters(
+  candidates: CandidateProfile[],
+  filters: SearchFilters,
+  searcher: SearcherProfile,
+  searcherLocation: GeoLocation | undefined
+): CandidateProfile[] {
+  // Determine compatible support orientations based on the searcher's preference
+  // This is used as a default if the searcher hasn't set an explicit filter
+  let defaultCompatibleOrientations: string[] | null = null;
+  if (searcher.supportOrientation === "receiving") {
+    defaultCompatibleOrientations = ["providing", "either"];
+  } else if (searcher.supportOrientation === "providing") {
+    defaultCompatibleOrientations = ["receiving", "either"];
+  }
+
+  let filteredCandidates = candidates;
+
+  // Distance filter
+  if (filters.maxDistance && searcherLocation) {
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.distance !== undefined && p.distance <= (filters.maxDistance ?? Infinity)
+    );
+  }
+
+  // Verification filter
+  if (filters.verifiedOnly) {
+    filteredCandidates = filteredCandidates.filter((p) => p.identityVerified);
+  }
+
+  // Online now filter (active within 15 minutes)
+  if (filters.onlineNow) {
+    const fifteenMinutesAgo = Date.now() - 15 * 60 * 1000;
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.lastActiveTimestamp >= fifteenMinutesAgo
+    );
+  } else if (filters.activeRecently) {
+    // Active recently filter (active within 24 hours)
+    const twentyFourHoursAgo = Date.now() - 24 * 60 * 60 * 1000;
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.lastActiveTimestamp >= twentyFourHoursAgo
+    );
+  }
+
+  // Connection types filter (any match)
+  if (filters.connectionTypes?.length) {
+    filteredCandidates = filteredCandidates.filter((p) =>
+      p.rawConnectionTypes.some((ct: string) => filters.connectionTypes?.includes(ct))
+    );
+  }
+
+  // Support orientation filter
+  if (filters.supportOrientation?.length) {
+    filteredCandidates = filteredCandidates.filter((p) =>
+      filters.supportOrientation?.includes(p.rawSupportOrientation)
+    );
+  } else if (defaultCompatibleOrientations) {
+    // Apply automatic matching based on current user's orientation
+    filteredCandidates = filteredCandidates.filter((p) =>
+      defaultCompatibleOrientations.includes(p.rawSupportOrientation)
+    );
+  }
+
+  // Values filter (any match)
+  if (filters.values?.length) {
+    filteredCandidates = filteredCandidates.filter((p) =>
+      p.rawValues.some((v: string) => filters.values?.includes(v))
+    );
+  }
+
+  // Ethnicity filter
+  if (filters.ethnicity?.length) {
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.ethnicity && filters.ethnicity?.includes(p.ethnicity)
+    );
+  }
+
+  // Relationship status filter
+  if (filters.relationshipStatus?.length) {
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.relationshipStatus && filters.relationshipStatus?.includes(p.relationshipStatus)
+    );
+  }
+
+  // Children filter
+  if (filters.children?.length) {
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.children && filters.children?.includes(p.children)
+    );
+  }
+
+  // Smoker filter
+  if (filters.smoker?.length) {
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.smoker && filters.smoker?.includes(p.smoker)
+    );
+  }
+
+  // Drinker filter
+  if (filters.drinker?.length) {
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.drinker && filters.drinker?.includes(p.drinker)
+    );
+  }
+
+  // Education filter
+  if (filters.education?.length) {
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.education && filters.education?.includes(p.education)
+    );
+  }
+
+  // Height filter
+  if (filters.height?.length) {
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.height && filters.height?.includes(p.height)
+    );
+  }
+
+  // Income filter
+  if (filters.income?.length) {
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.income && filters.income?.includes(p.income)
+    );
+  }
+
+  // Mutual fit filter (on unless explicitly turned off)
+  if (filters.mutualOnly !== false) {
+    filteredCandidates = filteredCandidates.filter((p) => p.mutualFit);
+  }
+
+  // Reputation tier filter - "X and above" style
+  // Filter to profiles at or above the specified tier
+  if (filters.minReputationTier) {
+    const minTierRank = REPUTATION_TIER_ORDER.indexOf(filters.minReputationTier);
+    filteredCandidates = filteredCandidates.filter(
+      (p) => p.tierRank >= minTierRank
+    );
+  }
+
+  return filteredCandidates;
+}
+
+/**
+ * Build a candidate profile from a search index entry, applying privacy settings
+ */
+export function buildCandidate(
+  entry: SearchIndexEntry,
+  searcherLocation: GeoLocation | undefined,
+  searcher: SearcherProfile,
+  config: RemoteConfigValues
+): CandidateProfile {
+  const tierRank = REPUTATION_TIER_ORDER.indexOf(entry.reputationTier);
+
+  // Calculate distance
+  let distance: number | undefined;
+  if (searcherLocation && entry.location) {
+    distance = calculateDistance(
+      searcherLocation.latitude,
+      searcherLocation.longitude,
+      entry.location.latitude,
+      entry.location.longitude
+    );
+  }
+
+  // Extract timestamps for sorting (lastActiveAt is already masked by privacy settings)
+  const lastActiveAt = entry.lastActiveAt?.toDate?.() || null;
+  const createdAt = entry.createdAt?.toDate?.() || null;
+  const lastActiveTimestamp = lastActiveAt ? lastActiveAt.getTime() : 0;
+  const createdAtTimestamp = createdAt ? createdAt.getTime() : 0;
+
+  // Online status
+  let isCurrentlyOnline = false;
+  if (lastActiveAt && !isNaN(lastActiveAt.getTime())) {
+    const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000);
+    isCurrentlyOnline = lastActiveAt.getTime() > fifteenMinutesAgo.getTime();
+  }
+  const isOnline = entry.showOnlineStatus && isCurrentlyOnline;
+
+  return {
+    uid: entry.uid,
+    displayName: entry.displayName,
+    age: calculateAge(entry.birthDate),
+    city: entry.city,
+    country: entry.country,
+    distance,
+    lastActiveAt: entry.showLastActive && !isCurrentlyOnline ? lastActiveAt?.toISOString() : undefined,
+    isOnline: isOnline || undefined,
+    showOnlineStatus: entry.showOnlineStatus,
+    showLastActive: entry.showLastActive,
+    showLocation: entry.showLocation,
+    genderIdentity: entry.genderIdentity,
+    lifestyle: entry.lifestyle,
+    connectionTypes: entry.connectionTypes,
+    tagline: entry.tagline,
+    photoURL: entry.photoURL,
+    photos: entry.photos,
+    identityVerified: entry.identityVerified,
+    values: entry.values,
+    supportOrientation: entry.supportOrientation,
+    profileProgress: entry.profileProgress,
+    reputationTier: entry.reputationTier,
+    isFounder: entry.isFounder || undefined,
+    mutualFit: isMutualFit(entry, searcher),
+    compatibility: calculateCompatibility(
+      searcher,
+      entry,
+      {
+        distance,
+        // Only users who show their last active time contribute recency
+        // (lastActiveAt is also kept for online status alone; see sortableLastActive in users.ts)
+        lastActiveTimestamp: entry.showLastActive ? lastActiveTimestamp : 0,
+        reputationTier: entry.reputationTier,
+      },
+      config
+    ),
+    ethnicity: entry.ethnicity ?? undefined,
+    relationshipStatus: entry.relationshipStatus ?? undefined,
+    children: entry.children ?? undefined,
+    smoker: entry.smoker ?? undefined,
+    drinker: entry.drinker ?? undefined,
+    education: entry.education ?? undefined,
+    occupation: entry.occupation ?? undefined,
+    height: entry.height ?? undefined,
+    income: entry.income ?? undefined,
+    // Extra fields for filtering/sorting
+    lastActiveTimestamp,
+    createdAtTimestamp,
+    birthDateStr: entry.birthDate,
+    rawSupportOrientation: entry.supportOrientation,
+    rawConnectionTypes: entry.connectionTypes,
+    rawValues: entry.values,
+    tierRank,
+  };
+}
+
+/**
+ * Whether the searcher fits the candidate's own preferences:
+ * - the searcher's gender is in the candidate's interestedIn
+ * - the searcher's age is within the candidate's age range
+ * - their support orientations don't clash (both receiving or both providing)
+ * Missing preferences (or a searcher field that can't be compared) never exclude.
+ */
+function isMutualFit(entry: SearchIndexEntry, searcher: SearcherProfile): boolean {
+  const interestedInValue = searcher.genderIdentity ?
+    GENDER_TO_INTERESTED_IN[searcher.genderIdentity] :
+    undefined;
+  if (interestedInValue && entry.interestedIn?.length && !entry.interestedIn.includes(interestedInValue)) {
+    return false;
+  }
+
+  if (searcher.age !== null) {
+    if (entry.ageRangeMin != null && searcher.age < entry.ageRangeMin) return false;
+    if (entry.ageRangeMax != null && searcher.age > entry.ageRangeMax) return false;
+  }
+
+  const orientations = [searcher.supportOrientation, entry.supportOrientation];
+  if (orientations.every((o) => o === "receiving") || orientations.every((o) => o === "providing")) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Remove internal sorting/filtering fields from a candidate
+ */
+function toSearchResult(p: CandidateProfile): SearchResult {
+  return {
+    uid: p.uid,
+    displayName: p.displayName,
+    age: p.age,
+    city: p.city,
+    country: p.country,
+    distance: p.distance,
+    lastActiveAt: p.lastActiveAt,
+    isOnline: p.isOnline,
+    showOnlineStatus: p.showOnlineStatus,
+    showLastActive: p.showLastActive,
+    showLocation: p.showLocation,
+    genderIdentity: p.genderIdentity,
+    lifestyle: p.lifestyle,
+    connectionTypes: p.connectionTypes,
+    tagline: p.tagline,
+    photoURL: p.photoURL,
+    photos: p.photos,
+    identityVerified: p.identityVerified,
+    values: p.values,
+    supportOrientation: p.supportOrientation,
+    profileProgress: p.profileProgress,
+    reputationTier: p.reputationTier,
+    mutualFit: p.mutualFit,
+    compatibility: p.compatibility,
+    ethnicity: p.ethnicity,
+    relationshipStatus: p.relationshipStatus,
+    children: p.children,
+    smoker: p.smoker,
+    drinker: p.drinker,
+    education: p.education,
+    occupation: p.occupation,
+    height: p.height,
+    income: p.income,
+  };
+}
+
+/**
+ * Hash of everything that shapes a result list, used to reject a cursor
+ * when the searcher has changed filters, sort or location since the snapshot
+ */
+function hashSearchQuery(
+  filters: SearchFilters,
+  sort: SearchSort,
+  location: GeoLocation | undefined
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify({filters, sort, location: location ?? null}))
+    .digest("hex");
+}
+
+/**
+ * Store a new search session, replacing any previous ones for this user
+ */
+async function createSearchSnapshot(
+  userId: string,
+  uids: string[],
+  queryHash: string
+): Promise<string> {
+  await invalidateSearchSnapshots(userId);
+
+  const snapshotId = randomUUID();
+  const now = Timestamp.now();
+  const snapshot: SearchSnapshot = {
+    uids,
+    queryHash,
+    total: uids.length,
+    createdAt: now,
+    expiresAt: Timestamp.fromMillis(now.toMillis() + SEARCH_SNAPSHOT_TTL_MS),
+  };
+
+  await db
+    .collection("users")
+    .doc(userId)
+    .collection("searchSnapshots")
+    .doc(snapshotId)
+    .set(snapshot);
+
+  return snapshotId;
+}
+
+/**
+ * Read one page of a stored search session.
+ * Profiles that were blocked, passed on or became unsearchable since the
+ * snapshot are skipped.
+ */
+async function readSnapshotPage(
+  userId: string,
+  cursor: SearchCursor,
+  pageLimit: number,
+  queryHash: string,
+  excludedUserIds: Set<string>,
+  searcherLocation: GeoLocation | undefined,
+  searcher: SearcherProfile,
+  config: RemoteConfigValues
+): Promise<SearchResponse> {
+  const snapshotDoc = await db
+    .collection("users")
+    .doc(userId)
+    .collection("searchSnapshots")
+    .doc(cursor.snapshotId)
+    .get();
+
+  const snapshot = snapshotDoc.data() as SearchSnapshot | undefined;
+  if (
+    !snapshot ||
+    snapshot.expiresAt.toMillis() < Date.now() ||
+    snapshot.queryHash !== queryHash
+  ) {
+    throw new HttpsError("failed-precondition", "Search session expired");
+  }
+
+  const pageUids = snapshot.uids
+    .slice(cursor.offset, cursor.offset + pageLimit)
+    .filter((uid) => !excludedUserIds.has(uid));
+
+  // Users missing from the index are no longer searchable
+  const indexDocs = pageUids.length > 0 ?
+    await db.getAll(...pageUids.map((uid) => db.collection("searchIndex").doc(uid))) :
+    [];
+  const entries = indexDocs
+    .filter((doc) => doc.exists)
+    .map((doc) => doc.data() as SearchIndexEntry);
+
+  const nextOffset = cursor.offset + pageLimit;
+  const hasMore = nextOffset < snapshot.uids.length;
+
+  return {
+    profiles: entries.map((entry) => toSearchResult(buildCandidate(entry, searcherLocation, searcher, config))),
+    nextCursor: hasMore ? encodeCursor({snapshotId: cursor.snapshotId, offset: nextOffset}) : undefined,
+    totalEstimate: snapshot.total,
+  };
+}
+
+/**
+ * Delete all stored search sessions for a user.
+ * Called when a new search starts and when the user blocks (or is blocked by) someone.
+ */
+export async function invalidateSearchSnapshots(userId: string): Promise<void> {
+  const snapshots = await db
+    .collection("users")
+    .doc(userId)
+    .collection("searchSnapshots")
+    .select()
+    .get();
+
+  if (snapshots.empty) return;
+
+  const batch = db.batch();
+  snapshots.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+}
+
+function getBirthDateBounds(filters: SearchFilters): {minBirthDate?: string; maxBirthDate?: string} {
   const today = new Date();
-  let age = today.getFullYear() - birth.getFullYear();
-  const monthDiff = today.getMonth() - birth.getMonth();
-  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
-    age--;
-  }
-  return age;
-}
-
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 3959; // Earth's radius in miles
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) *
-      Math.cos(toRad(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return Math.round(R * c);
-}
-
-function toRad(deg: number): number {
-  return deg * (Math.PI / 180);
+  const monthDay = `${String(today.getMonth() + 1).padStart(2, "0")}-${String(today.getDate()).padStart(2, "0")}`;
+  return {
+    minBirthDate: filters.maxAge ? `${today.getFullYear() - filters.maxAge - 1}-${monthDay}` : undefined,
+    maxBirthDate: filters.minAge ? `${today.getFullYear() - filters.minAge}-${monthDay}` : undefined,
+  };
+}
+
+/**
+ * Age buckets covering the requested age range, for the geo query.
+ * Includes one bucket below the minimum because an entry's bucket is computed
+ * when it's written and can lag behind a birthday.
+ */
+function getAgeBuckets(filters: SearchFilters): number[] | null {
+  if (!filters.minAge && !filters.maxAge) return null;
+
+  const buckets: number[] = [];
+  const first = toAgeBucket(filters.minAge ?? 18) - SEARCH_INDEX_AGE_BUCKET_SIZE;
+  const last = toAgeBucket(filters.maxAge ?? 99);
+  for (let bucket = first; bucket <= last; bucket += SEARCH_INDEX_AGE_BUCKET_SIZE) {
+    buckets.push(bucket);
+  }
+  // Firestore "in" supports up to 30 values; skip the pre-filter for very wide ranges
+  return buckets.length <= 30 ? buckets : null;
+}
+
+/**
+ * Fetch all search index entries inside the geohash ranges covering a radius.
+ * Each range is paged through until exhausted (or the overall cap is hit),
+ * and results from overlapping ranges are deduplicated by uid.
+ */
+async function fetchGeoCandidates(
+  baseQuery: FirebaseFirestore.Query,
+  location: GeoLocation,
+  radiusMiles: number
+): Promise<SearchIndexEntry[]> {
+  const ranges = geohashQueryBounds(location.latitude, location.longitude, radiusMiles);
+  const docsById = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+
+  await Promise.all(ranges.map(async ([start, end]) => {
+    let lastDoc: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+
+    while (docsById.size < MAX_GEO_CANDIDATES) {
+      let rangeQuery = baseQuery
+        .orderBy("geohash")
+        .startAt(start)
+        .endAt(end)
+        .limit(GEO_PAGE_SIZE);
+      if (lastDoc) {
+        rangeQuery = rangeQuery.startAfter(lastDoc);
+      }
+
+      const snapshot = await rangeQuery.get();
+      snapshot.docs.forEach((doc) => docsById.set(doc.id, doc));
+
+      if (snapshot.size < GEO_PAGE_SIZE) break;
+      lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    }
+  }));
+
+  if (docsById.size >= MAX_GEO_CANDIDATES) {
+    console.warn(`Geo search hit candidate cap (${MAX_GEO_CANDIDATES}) for radius ${radiusMiles}mi`);
+  }
+
+  return Array.from(docsById.values()).map((doc) => doc.data() as SearchIndexEntry);
+}
+
+function getSortKey(
+  p: {
+    uid: string;
+    tierRank: number;
+    lastActiveTimestamp: number;
+    createdAtTimestamp: number;
+    birthDateStr: string;
+    distance?: number;
+    compatibility: {score: number};
+  },
+  field: SearchSort["field"]
+): SortKey {
+  let value: number | string;
+  switch (field) {
+  case "lastActive":
+    value = p.lastActiveTimestamp;
+    break;
+  case "newest":
+    value = p.createdAtTimestamp;
+    break;
+  case "age":
+    value = p.birthDateStr;
+    break;
+  case "distance":
+    value = p.distance ?? Number.MAX_SAFE_INTEGER;
+    break;
+  case "recommended":
+    value = p.compatibility.score;
+    break;
+  default:
+    // Reputation (and default) sorting uses tier rank
+    value = p.tierRank;
+  }
+  return {value, tierRank: p.tierRank, uid: p.uid};
+}
+
+function compareSortKeys(a: SortKey, b: SortKey, sort: SearchSort): number {
+  let comparison: number;
+  if (typeof a.value === "string" || typeof b.value === "string") {
+    comparison = String(a.value).localeCompare(String(b.value));
+  } else {
+    comparison = a.value - b.value;
+  }
+
+  // birthDate: newer date = younger, so for age asc (youngest first), sort birthDate desc
+  if (sort.field === "age") {
+    comparison = -comparison;
+  }
+
+  // Apply direction
+  let result = sort.direction === "desc" ? -comparison : comparison;
+
+  // REPUTATION BOOST: If primary sort is equal, higher tier users appear first
+  if (result === 0) {
+    result = b.tierRank - a.tierRank;
+  }
+
+  // Final tie-breaker for a stable, total order
+  if (result === 0) {
+    result = a.uid.localeCompare(b.uid);
+  }
+
+  return result;
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.snapshotId, cursor.offset])).toString("base64url");
+}
+
+/**
+ * Read a client-supplied cursor
+ * The snapshot id becomes a document id, so anything but a plain id (e.g. a
+ * path with "/") is refused here rather than failing in doc().
+ */
+export function decodeCursor(cursor: string): SearchCursor {
+  try {
+    const [snapshotId, offset] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof snapshotId !== "string" || !SNAPSHOT_ID_PATTERN.test(snapshotId) ||
+      !Number.isInteger(offset) || offset < 0) {
+      throw new Error("Malformed cursor");
+    }
+    return {snapshotId, offset};
+  } catch {
+    throw new HttpsError("invalid-argument", "Invalid pagination cursor");
+  }
 }
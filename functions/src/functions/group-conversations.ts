@@ -0,0 +1,296 @@
+/**
+ * Group Conversation Cloud Functions
+ * Small group chats (up to 4 people) for group dates and introductions
+ *
+ * 1:1 conversations are created by the client (see firestore.rules), but a
+ * group can only be created through createGroupConversation, which runs the
+ * usual messaging permission check (blocks, minimum tier, higher-tier daily
+ * limit) from the creator to each invitee, and leaves out invitees who have
+ * blocked each other - without saying why, since blocks between other people
+ * are none of the creator's business.
+ *
+ * Once created, a group behaves like any conversation: participants can't be
+ * changed from the client, unread counts are kept per participant and
+ * onMessageCreated notifies every other participant. Members leave through
+ * leaveGroupConversation, and blocking someone (blockUser) takes the blocker
+ * out of every group they share with them.
+ */
+
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {FieldValue} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import {db} from "../config/firebase";
+import {areUsersBlocked, evaluateMessagePermission, MessagePermissionResult} from "./messages";
+import {deleteMessageIndexEntries} from "./message-search";
+
+// Including the creator
+const MAX_GROUP_PARTICIPANTS = 4;
+const MIN_GROUP_PARTICIPANTS = 3;
+
+/**
+ * Create a group conversation with the caller and the invitees
+ * Returns the existing group if one with exactly these participants exists.
+ * A refused invitee fails the whole request with details {reason, userId}.
+ * Of two invitees who have blocked each other only the first is added; if that
+ * leaves too few members the request fails as "recipient_unavailable" with no userId.
+ */
+export const createGroupConversation = onCall<{
+  participantIds: string[];
+}>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+
+    const creatorId = request.auth.uid;
+    const rawIds = request.data?.participantIds;
+    if (!Array.isArray(rawIds) || rawIds.some((id) => typeof id !== "string" || !id)) {
+      throw new HttpsError("invalid-argument", "participantIds must be a list of user IDs");
+    }
+
+    const invitedIds = Array.from(new Set(rawIds)).filter((id) => id !== creatorId);
+    const groupSize = invitedIds.length + 1;
+    if (groupSize < MIN_GROUP_PARTICIPANTS || groupSize > MAX_GROUP_PARTICIPANTS) {
+      throw new HttpsError(
+        "invalid-argument",
+        `A group has ${MIN_GROUP_PARTICIPANTS} to ${MAX_GROUP_PARTICIPANTS} participants`
+      );
+    }
+
+    try {
+      const inviteeIds = await excludeBlockedInvitees(invitedIds);
+      const participants = [creatorId, ...inviteeIds];
+      if (participants.length < MIN_GROUP_PARTICIPANTS) {
+        throw new HttpsError("failed-precondition", "An invitee is unavailable", {
+          reason: "recipient_unavailable",
+          userId: null,
+        });
+      }
+
+      // Same participants, same group
+      const existingSnapshot = await db.collection("conversations")
+        .where("participants", "array-contains", creatorId)
+        .get();
+      const existing = existingSnapshot.docs.find((doc) => {
+        const members: string[] = doc.get("participants") || [];
+        return doc.get("isGroup") === true &&
+          members.length === participants.length &&
+          participants.every((id) => members.includes(id));
+      });
+      if (existing) {
+        return {conversationId: existing.id};
+      }
+
+      await assertInviteesAvailable(inviteeIds);
+      const permissions = await checkInviteePermissions(creatorId, inviteeIds);
+
+      const conversationRef = db.collection("conversations").doc();
+      const batch = db.batch();
+      batch.set(conversationRef, {
+        participants,
+        isGroup: true,
+        createdBy: creatorId,
+        lastMessage: null,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+        unreadCount: Object.fromEntries(participants.map((id) => [id, 0])),
+      });
+      // Listed for the creator right away; invitees see it once there's a message
+      batch.set(
+        db.collection("users").doc(creatorId).collection("conversationSettings").doc(conversationRef.id),
+        {lastViewedAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp()},
+        {merge: true}
+      );
+      const higherTierCount = countNewHigherTierInvitees(permissions);
+      if (higherTierCount > 0) {
+        const today = new Date().toISOString().split("T")[0];
+        const usedToday = Math.max(...permissions.map((p) => Number(p.higherTierConversationsToday) || 0));
+        batch.set(
+          db.collection("users").doc(creatorId).collection("private").doc("data"),
+          {
+            reputation: {
+              higherTierConversationsToday: usedToday + higherTierCount,
+              lastConversationDate: today,
+            },
+          },
+          {merge: true}
+        );
+      }
+      await batch.commit();
+
+      logger.info(`User ${creatorId} created group conversation ${conversationRef.id} with ${inviteeIds.join(", ")}`);
+      return {conversationId: conversationRef.id};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error creating group conversation:", error);
+      throw new HttpsError("internal", "Failed to create group conversation");
+    }
+  }
+);
+
+/**
+ * Leave a group conversation
+ * The group carries on without the caller, who loses access to its messages.
+ */
+export const leaveGroupConversation = onCall<{
+  conversationId: string;
+}>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+
+    const userId = request.auth.uid;
+    const conversationId = request.data?.conversationId;
+    if (typeof conversationId !== "string" || !conversationId || conversationId.includes("/")) {
+      throw new HttpsError("invalid-argument", "conversationId is required");
+    }
+
+    try {
+      const removed = await removeFromGroup(conversationId, userId);
+      if (!removed) {
+        throw new HttpsError("not-found", "Group conversation not found");
+      }
+      return {success: true};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error leaving group conversation:", error);
+      throw new HttpsError("internal", "Failed to leave group conversation");
+    }
+  }
+);
+
+/**
+ * Take a user out of every group they share with another user
+ * Used when one of them blocks the other, so neither keeps reading the other's messages.
+ *
+ * @returns How many groups the user left
+ */
+export async function leaveGroupsSharedWith(userId: string, otherUserId: string): Promise<number> {
+  const snapshot = await db.collection("conversations")
+    .where("participants", "array-contains", userId)
+    .get();
+  const shared = snapshot.docs.filter((doc) =>
+    doc.get("isGroup") === true && (doc.get("participants") || []).includes(otherUserId)
+  );
+
+  const removed = await Promise.all(shared.map((doc) => removeFromGroup(doc.id, userId)));
+  return removed.filter(Boolean).length;
+}
+
+/**
+ * Remove a member from a group, along with their own settings and search
+ * entries for it
+ *
+ * @returns false if the conversation isn't a group the user is in
+ */
+async function removeFromGroup(conversationId: string, userId: string): Promise<boolean> {
+  const conversationRef = db.collection("conversations").doc(conversationId);
+  const userRef = db.collection("users").doc(userId);
+
+  const removed = await db.runTransaction(async (transaction) => {
+    const conversationDoc = await transaction.get(conversationRef);
+    const members: string[] = conversationDoc.get("participants") || [];
+    if (conversationDoc.get("isGroup") !== true || !members.includes(userId)) {
+      return false;
+    }
+
+    transaction.update(conversationRef, {
+      participants: FieldValue.arrayRemove(userId),
+      [`unreadCount.${userId}`]: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.delete(userRef.collection("conversationSettings").doc(conversationId));
+    return true;
+  });
+  if (!removed) return false;
+
+  // Search snippets show current content, so old entries would keep showing edits
+  await deleteMessageIndexEntries(userId, conversationId);
+
+  logger.info(`User ${userId} left group conversation ${conversationId}`);
+  return true;
+}
+
+/**
+ * Refuse invitees whose account doesn't exist or is disabled
+ */
+async function assertInviteesAvailable(inviteeIds: string[]): Promise<void> {
+  const inviteeDocs = await Promise.all(inviteeIds.map((id) => db.collection("users").doc(id).get()));
+  const unavailable = inviteeDocs.find((doc) =>
+    !doc.exists || doc.data()?.settings?.account?.disabled === true
+  );
+  if (unavailable) {
+    throw new HttpsError("failed-precondition", "An invitee is unavailable", {
+      reason: "recipient_unavailable",
+      userId: unavailable.id,
+    });
+  }
+}
+
+/**
+ * Leave out every invitee who has blocked (or been blocked by) an invitee kept
+ * before them, so no two members of the group have blocked each other
+ * Blocks involving the creator are refused by checkInviteePermissions instead.
+ */
+export async function excludeBlockedInvitees(inviteeIds: string[]): Promise<string[]> {
+  const pairs: [string, string][] = [];
+  inviteeIds.forEach((a, i) => inviteeIds.slice(i + 1).forEach((b) => pairs.push([a, b])));
+
+  const blocked = await Promise.all(pairs.map(([a, b]) => areUsersBlocked(a, b)));
+  const blockedPairs = pairs.filter((_, i) => blocked[i]);
+
+  const kept: string[] = [];
+  for (const id of inviteeIds) {
+    const blocksKept = blockedPairs.some(([a, b]) => (a === id && kept.includes(b)) || (b === id && kept.includes(a)));
+    if (!blocksKept) {
+      kept.push(id);
+    }
+  }
+
+  if (kept.length < inviteeIds.length) {
+    logger.info(`Left ${inviteeIds.length - kept.length} blocked invitee(s) out of a group`);
+  }
+  return kept;
+}
+
+/**
+ * Run the messaging permission check from the creator to each invitee
+ * The higher-tier daily limit has to cover every new higher-tier invitee.
+ */
+export async function checkInviteePermissions(
+  creatorId: string,
+  inviteeIds: string[]
+): Promise<MessagePermissionResult[]> {
+  const permissions = await Promise.all(inviteeIds.map((id) => evaluateMessagePermission(creatorId, id)));
+
+  const refusedIndex = permissions.findIndex((permission) => !permission.allowed);
+  if (refusedIndex !== -1) {
+    throw new HttpsError("failed-precondition", "Can't invite this member", {
+      ...permissions[refusedIndex],
+      userId: inviteeIds[refusedIndex],
+    });
+  }
+
+  const higherTierCount = countNewHigherTierInvitees(permissions);
+  const remaining = Math.min(...permissions.map((p) => Number(p.higherTierRemaining ?? -1))
+    .map((value) => value === -1 ? Infinity : value));
+  if (higherTierCount > remaining) {
+    throw new HttpsError("failed-precondition", "Not enough higher-tier conversations left today", {
+      reason: "higher_tier_limit_reached",
+      higherTierRemaining: remaining,
+      userId: null,
+    });
+  }
+
+  return permissions;
+}
+
+/**
+ * Invitees the creator hasn't talked to yet who are in a higher tier
+ */
+function countNewHigherTierInvitees(permissions: MessagePermissionResult[]): number {
+  return permissions.filter((permission) => permission.isNewConversation && permission.isHigherTier).length;
+}
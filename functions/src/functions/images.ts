@@ -2,6 +2,15 @@
  * Image Upload Cloud Functions
  * Handles secure, validated image uploads for profile photos
  *
+ * Flow:
+ * 1. createProfileImageUploads checks the batch (types, sizes, photo slots),
+ *    creates a users/{uid}/imageUploads/{uploadId} status doc per image and
+ *    returns signed resumable upload sessions into users/{uid}/uploads/
+ * 2. The client uploads each file straight to Cloud Storage, reporting progress
+ * 3. onProfileImageFinalized validates, moderates and optimizes the staged file,
+ *    stores the result in users/{uid}/{folder}/ and marks the status doc
+ *    "ready" (with the URL) or "failed" (with the reason)
+ *
  * Security features:
  * - User must be authenticated
  * - File type validation (JPEG, PNG only)
@@ -13,7 +22,9 @@
  * - Rate limiting (optional)
  */
 import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onObjectFinalized} from "firebase-functions/v2/storage";
 import {defineSecret} from "firebase-functions/params";
+import {FieldValue} from "firebase-admin/firestore";
 import {bucket, db} from "../config/firebase";
 import {getConfig} from "../config/remote-config";
 import * as logger from "firebase-functions/logger";
@@ -97,64 +108,56 @@ async function checkForDuplicateImage(
   }
 }
 
+// Staged uploads land here; the finalize trigger only handles this path
+const STAGED_UPLOAD_PATTERN = /^users\/([^/]+)\/uploads\/[^/]+$/;
+const MAX_IMAGES_PER_BATCH = 10;
+
+export type ImageUploadStatus = "uploading" | "ready" | "failed";
+
 interface ImageInput {
-  imageData: string; // Base64 encoded image data
+  buffer: Buffer;
   mimeType: string;
   fileName?: string;
 }
 
-interface UploadImageRequest {
-  imageData: string; // Base64 encoded image data (single image - backwards compatible)
+interface ImageUploadRequestItem {
   mimeType: string;
+  size: number; // Bytes
   fileName?: string;
-  folder?: string; // 'photos' | 'verification' etc.
 }
 
-interface UploadImagesRequest {
-  images: ImageInput[]; // Multiple images
+interface CreateImageUploadsRequest {
+  images: ImageUploadRequestItem[];
   folder?: string; // 'photos' | 'verification' etc.
 }
 
-interface ImageResult {
-  success: boolean;
-  url?: string;
-  error?: string;
+interface ImageUploadSession {
+  uploadId: string; // ID of the users/{uid}/imageUploads status doc
+  uploadUrl: string; // Resumable upload session URI
   fileName?: string;
 }
 
-interface UploadImageResponse {
+interface CreateImageUploadsResponse {
   success: boolean;
-  url?: string;
-  error?: string;
+  uploads: ImageUploadSession[];
 }
 
-interface UploadImagesResponse {
+interface ImageResult {
   success: boolean;
-  results: ImageResult[];
-  successCount: number;
-  failureCount: number;
+  url?: string;
+  error?: string;
+  fileName?: string;
 }
 
 /**
- * Validate that the data is a valid base64 image
+ * Validate that the data is a valid image
  * @param maxFileSizeBytes - Max file size in bytes (from Remote Config)
  */
-function validateBase64Image(
-  base64Data: string,
+function validateImage(
+  buffer: Buffer,
   mimeType: string,
   maxFileSizeBytes: number
-): { valid: boolean; error?: string; buffer?: Buffer } {
-  // Remove data URL prefix if present
-  const base64Clean = base64Data.replace(/^data:image\/\w+;base64,/, "");
-
-  // Decode base64
-  let buffer: Buffer;
-  try {
-    buffer = Buffer.from(base64Clean, "base64");
-  } catch {
-    return {valid: false, error: "Invalid base64 encoding"};
-  }
-
+): { valid: boolean; error?: string } {
   // Check file size
   if (buffer.length > maxFileSizeBytes) {
     return {
@@ -191,7 +194,7 @@ function validateBase64Image(
     return {valid: false, error: "MIME type does not match file content"};
   }
 
-  return {valid: true, buffer};
+  return {valid: true};
 }
 
 /**
@@ -307,222 +310,26 @@ async function optimizeImage(
 }
 
 /**
- * Callable function to upload a profile image
- * This function handles all validation server-side for security
- */
-export const uploadProfileImage = onCall<UploadImageRequest, Promise<UploadImageResponse>>(
-  {
-    region: "us-central1",
-    memory: "512MiB", // Increased for image processing
-    timeoutSeconds: 120, // Increased for moderation API call
-    maxInstances: 20,
-    secrets: [openaiApiKey], // Inject the secret
-  },
-  async (request) => {
-    // Verify authentication
-    if (!request.auth) {
-      throw new HttpsError("unauthenticated", "You must be logged in to upload images");
-    }
-
-    const userId = request.auth.uid;
-    const {imageData, mimeType, fileName, folder = "photos"} = request.data;
-
-    // Validate required fields
-    if (!imageData || !mimeType) {
-      throw new HttpsError("invalid-argument", "Missing required fields: imageData, mimeType");
-    }
-
-    // Get config for max file size
-    const config = await getConfig();
-    const maxFileSizeBytes = config.image_max_size_mb * 1024 * 1024;
-
-    // Validate the image data
-    const validation = validateBase64Image(imageData, mimeType, maxFileSizeBytes);
-    if (!validation.valid || !validation.buffer) {
-      throw new HttpsError("invalid-argument", validation.error || "Invalid image");
-    }
-
-    // Check image dimensions
-    const dimensions = getImageDimensions(validation.buffer, mimeType);
-    if (dimensions) {
-      if (dimensions.width > MAX_DIMENSION || dimensions.height > MAX_DIMENSION) {
-        throw new HttpsError(
-          "invalid-argument",
-          `Image dimensions too large. Maximum: ${MAX_DIMENSION}x${MAX_DIMENSION}px`
-        );
-      }
-      if (dimensions.width < MIN_DIMENSION || dimensions.height < MIN_DIMENSION) {
-        throw new HttpsError(
-          "invalid-argument",
-          `Image dimensions too small. Minimum: ${MIN_DIMENSION}x${MIN_DIMENSION}px`
-        );
-      }
-    }
-
-    // Check for duplicate image (before expensive moderation)
-    const imageHash = computeImageHash(validation.buffer);
-    const duplicateUrl = await checkForDuplicateImage(userId, imageHash, folder);
-    if (duplicateUrl) {
-      logger.info(`Duplicate image detected for user ${userId}`, {hash: imageHash});
-      throw new HttpsError(
-        "already-exists",
-        "This image has already been uploaded. Please choose a different photo."
-      );
-    }
-
-    // Check user's photo count based on subscription status
-    const [userDoc, privateDoc] = await Promise.all([
-      db.collection("users").doc(userId).get(),
-      db.collection("users").doc(userId).collection("private").doc("data").get(),
-    ]);
-    const userData = userDoc.data();
-    const privateData = privateDoc.data();
-    const currentPhotoDetails = userData?.onboarding?.photoDetails || [];
-    const isPremium = privateData?.subscription?.tier === "premium";
-    const maxPhotos = await getMaxPhotosForUser(isPremium);
-
-    if (folder === "photos" && currentPhotoDetails.length >= maxPhotos) {
-      throw new HttpsError(
-        "resource-exhausted",
-        `Maximum of ${maxPhotos} photos allowed. ` +
-        "Upgrade to Premium for more photos."
-      );
-    }
-
-    // Content moderation using OpenAI
-    const apiKey = openaiApiKey.value();
-    if (apiKey) {
-      const moderation = await moderateImage(imageData, mimeType, apiKey);
-
-      if (moderation.flagged) {
-        logger.warn(`Image rejected for user ${userId} - inappropriate content`, {
-          categories: moderation.categories,
-        });
-        throw new HttpsError(
-          "invalid-argument",
-          "This image contains content that violates our community guidelines. Please upload a different photo."
-        );
-      }
-
-      if (moderation.error) {
-        // Log the error but don't block the upload
-        logger.warn("Moderation check failed, proceeding with upload", {
-          error: moderation.error,
-          userId,
-        });
-      }
-
-      // Person detection - ensure the image contains a real person
-      if (folder === "photos") {
-        const personCheck = await detectPerson(imageData, mimeType, apiKey);
-
-        if (!personCheck.containsPerson && !personCheck.error) {
-          logger.warn(`Image rejected for user ${userId} - no person detected`);
-          throw new HttpsError(
-            "invalid-argument",
-            "Profile photos must contain a person. Please upload a photo of yourself."
-          );
-        }
-
-        if (personCheck.error) {
-          logger.warn("Person detection check had an error, proceeding with upload", {
-            error: personCheck.error,
-            userId,
-          });
-        }
-      }
-    } else {
-      logger.warn("OpenAI API key not configured, skipping content moderation");
-    }
-
-    // Optimize image for web delivery
-    const optimized = await optimizeImage(validation.buffer, mimeType);
-    const optimizedBuffer = optimized.buffer;
-    const optimizedMimeType = optimized.mimeType;
-
-    // Generate unique file path
-    const timestamp = Date.now();
-    const extension = optimizedMimeType === "image/png" ? "png" : "jpg";
-    // Remove existing extension from filename to avoid double extensions
-    const baseFileName = fileName?.replace(/\.[^/.]+$/, "") || "image";
-    const sanitizedFileName = baseFileName.replace(/[^a-zA-Z0-9_-]/g, "_");
-    const filePath = `users/${userId}/${folder}/${timestamp}_${sanitizedFileName}.${extension}`;
-
-    try {
-      // Upload optimized image to Firebase Storage
-      const file = bucket.file(filePath);
-      await file.save(optimizedBuffer, {
-        metadata: {
-          contentType: optimizedMimeType,
-          metadata: {
-            uploadedBy: userId,
-            uploadedAt: new Date().toISOString(),
-            originalFileName: fileName || "unknown",
-            originalSize: validation.buffer.length.toString(),
-            optimizedSize: optimizedBuffer.length.toString(),
-            imageHash, // Store hash for duplicate detection
-          },
-        },
-      });
-
-      // Make the file publicly readable
-      await file.makePublic();
-
-      // Get the download URL - works with both emulator and production
-      let downloadUrl: string;
-      const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
-
-      if (emulatorHost) {
-        // Running in emulator - construct emulator URL
-        const encodedPath = encodeURIComponent(filePath);
-        downloadUrl = `http://${emulatorHost}/v0/b/${bucket.name}/o/${encodedPath}?alt=media`;
-      } else {
-        // Production - use public URL
-        downloadUrl = `https://storage.googleapis.com/${bucket.name}/${filePath}`;
-      }
-
-      logger.info(`Image uploaded successfully for user ${userId}`, {
-        path: filePath,
-        originalSize: `${(validation.buffer.length / 1024).toFixed(1)}KB`,
-        optimizedSize: `${(optimizedBuffer.length / 1024).toFixed(1)}KB`,
-        dimensions,
-        url: downloadUrl,
-      });
-
-      return {
-        success: true,
-        url: downloadUrl,
-      };
-    } catch (error) {
-      logger.error(`Failed to upload image for user ${userId}`, error);
-      throw new HttpsError("internal", "Failed to upload image. Please try again.");
-    }
-  }
-);
-
-/**
- * Process a single image - shared logic for single and batch uploads
+ * Process a single uploaded image: validate, moderate, optimize and store it
  */
 async function processSingleImage(
   userId: string,
   image: ImageInput,
   folder: string,
-  currentPhotoCount: number,
-  maxPhotos: number,
   apiKey: string | undefined,
   maxFileSizeBytes: number
 ): Promise<ImageResult> {
-  const {imageData, mimeType, fileName} = image;
+  const {buffer, mimeType, fileName} = image;
 
   try {
     // Validate the image data
-    const validation = validateBase64Image(imageData, mimeType, maxFileSizeBytes);
-    if (!validation.valid || !validation.buffer) {
+    const validation = validateImage(buffer, mimeType, maxFileSizeBytes);
+    if (!validation.valid) {
       return {success: false, error: validation.error || "Invalid image", fileName};
     }
 
     // Check image dimensions
-    const dimensions = getImageDimensions(validation.buffer, mimeType);
+    const dimensions = getImageDimensions(buffer, mimeType);
     if (dimensions) {
       if (dimensions.width > MAX_DIMENSION || dimensions.height > MAX_DIMENSION) {
         return {
@@ -541,7 +348,7 @@ async function processSingleImage(
     }
 
     // Check for duplicate image (before expensive moderation)
-    const imageHash = computeImageHash(validation.buffer);
+    const imageHash = computeImageHash(buffer);
     const duplicateUrl = await checkForDuplicateImage(userId, imageHash, folder);
     if (duplicateUrl) {
       logger.info(`Duplicate image detected for user ${userId}`, {hash: imageHash, fileName});
@@ -554,6 +361,7 @@ async function processSingleImage(
 
     // Content moderation using OpenAI
     if (apiKey) {
+      const imageData = buffer.toString("base64");
       const moderation = await moderateImage(imageData, mimeType, apiKey);
 
       if (moderation.flagged) {
@@ -584,7 +392,7 @@ async function processSingleImage(
     }
 
     // Optimize image for web delivery
-    const optimized = await optimizeImage(validation.buffer, mimeType);
+    const optimized = await optimizeImage(buffer, mimeType);
     const optimizedBuffer = optimized.buffer;
     const optimizedMimeType = optimized.mimeType;
 
@@ -605,7 +413,7 @@ async function processSingleImage(
           uploadedBy: userId,
           uploadedAt: new Date().toISOString(),
           originalFileName: fileName || "unknown",
-          originalSize: validation.buffer.length.toString(),
+          originalSize: buffer.length.toString(),
           optimizedSize: optimizedBuffer.length.toString(),
           imageHash, // Store hash for duplicate detection
         },
@@ -628,7 +436,7 @@ async function processSingleImage(
 
     logger.info(`Image uploaded successfully for user ${userId}`, {
       path: filePath,
-      originalSize: `${(validation.buffer.length / 1024).toFixed(1)}KB`,
+      originalSize: `${(buffer.length / 1024).toFixed(1)}KB`,
       optimizedSize: `${(optimizedBuffer.length / 1024).toFixed(1)}KB`,
       fileName,
     });
@@ -641,15 +449,19 @@ async function processSingleImage(
 }
 
 /**
- * Callable function to upload multiple profile images at once
+ * Callable function to start uploading one or more profile images
+ * Returns a resumable upload session per image; results arrive on the
+ * users/{uid}/imageUploads status docs once each file is processed.
  */
-export const uploadProfileImages = onCall<UploadImagesRequest, Promise<UploadImagesResponse>>(
+export const createProfileImageUploads = onCall<
+  CreateImageUploadsRequest,
+  Promise<CreateImageUploadsResponse>
+>(
   {
     region: "us-central1",
-    memory: "1GiB", // More memory for batch processing
-    timeoutSeconds: 300, // 5 minutes for multiple images
+    memory: "256MiB",
+    timeoutSeconds: 60,
     maxInstances: 10,
-    secrets: [openaiApiKey],
   },
   async (request) => {
     // Verify authentication
@@ -665,8 +477,13 @@ export const uploadProfileImages = onCall<UploadImagesRequest, Promise<UploadIma
       throw new HttpsError("invalid-argument", "No images provided");
     }
 
-    if (images.length > 10) {
-      throw new HttpsError("invalid-argument", "Maximum 10 images per upload batch");
+    if (images.length > MAX_IMAGES_PER_BATCH) {
+      throw new HttpsError("invalid-argument", `Maximum ${MAX_IMAGES_PER_BATCH} images per upload batch`);
+    }
+
+    // Folder becomes part of the storage path, and "uploads" is the staging area
+    if (!/^[a-z-]+$/.test(folder) || folder === "uploads") {
+      throw new HttpsError("invalid-argument", "Invalid folder");
     }
 
     // Get config and user's current photo count
@@ -690,49 +507,143 @@ export const uploadProfileImages = onCall<UploadImagesRequest, Promise<UploadIma
       );
     }
 
-    const apiKey = openaiApiKey.value();
-
-    if (!apiKey) {
-      logger.warn("OpenAI API key not configured, skipping content moderation");
+    // Check declared types and sizes up front (checked again once uploaded)
+    for (const image of images) {
+      if (!ALLOWED_MIME_TYPES.includes(image.mimeType)) {
+        throw new HttpsError(
+          "invalid-argument",
+          `Invalid file type. Allowed types: ${ALLOWED_MIME_TYPES.join(", ")}`
+        );
+      }
+      if (!image.size || image.size > maxFileSizeBytes) {
+        throw new HttpsError(
+          "invalid-argument",
+          `File size exceeds maximum of ${maxFileSizeBytes / 1024 / 1024}MB`
+        );
+      }
     }
 
-    // Process images in parallel (with concurrency limit)
-    const results: ImageResult[] = [];
-    const concurrencyLimit = 3; // Process 3 at a time to avoid overwhelming resources
-
-    for (let i = 0; i < images.length; i += concurrencyLimit) {
-      const batch = images.slice(i, i + concurrencyLimit);
-      const batchResults = await Promise.all(
-        batch.map((image, idx) =>
-          processSingleImage(
-            userId,
-            image,
-            folder,
-            currentPhotoDetails.length + results.filter((r) => r.success).length + idx,
-            maxPhotos,
-            apiKey,
-            maxFileSizeBytes
-          )
-        )
-      );
-      results.push(...batchResults);
+    try {
+      const uploadsRef = db.collection("users").doc(userId).collection("imageUploads");
+      const uploads = await Promise.all(images.map(async (image): Promise<ImageUploadSession> => {
+        const uploadRef = uploadsRef.doc();
+        const baseFileName = image.fileName?.replace(/\.[^/.]+$/, "") || "image";
+        const sanitizedFileName = baseFileName.replace(/[^a-zA-Z0-9_-]/g, "_");
+        const stagedPath = `users/${userId}/uploads/${uploadRef.id}_${sanitizedFileName}`;
+
+        await uploadRef.set({
+          status: "uploading" as ImageUploadStatus,
+          folder,
+          fileName: image.fileName || null,
+          createdAt: FieldValue.serverTimestamp(),
+        });
+
+        // The browser's origin must be set here for the upload requests to pass CORS
+        const [uploadUrl] = await bucket.file(stagedPath).createResumableUpload({
+          origin: request.rawRequest.headers.origin,
+          metadata: {
+            contentType: image.mimeType,
+            metadata: {
+              uploadedBy: userId,
+              uploadId: uploadRef.id,
+              originalFileName: image.fileName || "unknown",
+            },
+          },
+        });
+
+        return {uploadId: uploadRef.id, uploadUrl, fileName: image.fileName};
+      }));
+
+      logger.info(`Image upload sessions created for user ${userId}`, {
+        count: uploads.length,
+        folder,
+      });
+
+      return {success: true, uploads};
+    } catch (error) {
+      logger.error(`Failed to create image uploads for user ${userId}`, error);
+      throw new HttpsError("internal", "Failed to start image upload. Please try again.");
     }
+  }
+);
 
-    const successCount = results.filter((r) => r.success).length;
-    const failureCount = results.filter((r) => !r.success).length;
+/**
+ * Storage trigger: process a staged profile image upload
+ * The staged file is always deleted; the outcome is written to its status doc.
+ */
+export const onProfileImageFinalized = onObjectFinalized(
+  {
+    region: "us-central1",
+    memory: "1GiB", // Image processing
+    timeoutSeconds: 120, // Moderation API calls
+    maxInstances: 10,
+    secrets: [openaiApiKey],
+  },
+  async (event) => {
+    const object = event.data;
+    const match = object.name.match(STAGED_UPLOAD_PATTERN);
+    if (!match) return;
 
-    logger.info(`Batch upload completed for user ${userId}`, {
-      totalImages: images.length,
-      successCount,
-      failureCount,
-    });
+    const userId = match[1];
+    const uploadId = object.metadata?.uploadId;
+    const stagedFile = bucket.file(object.name);
 
-    return {
-      success: failureCount === 0,
-      results,
-      successCount,
-      failureCount,
-    };
+    try {
+      // Only files uploaded through createProfileImageUploads carry an upload ID
+      const uploadRef = uploadId ?
+        db.collection("users").doc(userId).collection("imageUploads").doc(uploadId) :
+        null;
+      const uploadDoc = uploadRef ? await uploadRef.get() : null;
+      const upload = uploadDoc?.data();
+      if (!uploadRef || upload?.status !== "uploading") {
+        logger.warn("Discarding staged image without a pending upload", {path: object.name});
+        return;
+      }
+
+      const config = await getConfig();
+      const maxFileSizeBytes = config.image_max_size_mb * 1024 * 1024;
+      const apiKey = openaiApiKey.value();
+      if (!apiKey) {
+        logger.warn("OpenAI API key not configured, skipping content moderation");
+      }
+
+      let result: ImageResult;
+      if (Number(object.size) > maxFileSizeBytes) {
+        result = {
+          success: false,
+          error: `File size exceeds maximum of ${maxFileSizeBytes / 1024 / 1024}MB`,
+        };
+      } else {
+        const [buffer] = await stagedFile.download();
+        result = await processSingleImage(
+          userId,
+          {buffer, mimeType: object.contentType || "", fileName: upload.fileName || undefined},
+          upload.folder || "photos",
+          apiKey,
+          maxFileSizeBytes
+        );
+      }
+
+      await uploadRef.update({
+        status: (result.success ? "ready" : "failed") as ImageUploadStatus,
+        url: result.url || null,
+        error: result.error || null,
+        processedAt: FieldValue.serverTimestamp(),
+      });
+    } catch (error) {
+      logger.error(`Failed to process staged image for user ${userId}`, {error, path: object.name});
+      if (uploadId) {
+        await db.collection("users").doc(userId).collection("imageUploads").doc(uploadId)
+          .update({
+            status: "failed" as ImageUploadStatus,
+            error: "Failed to process image",
+            processedAt: FieldValue.serverTimestamp(),
+          })
+          .catch(() => undefined);
+      }
+    } finally {
+      await stagedFile.delete({ignoreNotFound: true});
+    }
   }
 );
 
@@ -4,20 +4,31 @@
  */
 export * from "./favorites";
 export * from "./messages";
+export * from "./group-conversations";
+export * from "./scheduled-messages";
+export * from "./message-search";
+export * from "./conversation-export";
+export * from "./link-previews";
 export * from "./discovery";
+export * from "./search-index";
+export * from "./saved-search-alerts";
 export * from "./users";
 export * from "./images";
 export * from "./photos";
 export * from "./profile-views";
 export * from "./accounts";
 export * from "./blocks";
+export * from "./passes";
 export * from "./verification";
 export * from "./ai-chat";
 export * from "./virtual-phone";
 export * from "./payments";
 export * from "./subscriptions";
 export * from "./reputation";
+export * from "./reputation-job";
+export * from "./moderation";
 export * from "./videos";
+export * from "./audio";
 export {submitFounderIssue} from "./founders";
 
 // Future function modules:
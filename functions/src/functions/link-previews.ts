@@ -0,0 +1,92 @@
+/**
+ * Link Preview Cloud Functions
+ * Safety checks and previews for links in messages
+ *
+ * unfurlMessageLinks runs when a text message is sent or edited. Every link
+ * in it is checked against the Remote Config domain lists and stored in
+ * `links` (flagged links open through a "You're leaving Gylde" interstitial
+ * in the app). The first safe link is fetched and unfurled into
+ * `linkPreview`; one that redirects to a flagged domain is flagged instead.
+ * Both fields are removed when the message is deleted for everyone.
+ */
+
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {FieldValue} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import {getConfig} from "../config/remote-config";
+import {checkLinks, LinkSafetyLists, parseDomainList, unfurlLink} from "../services";
+import {LinkPreview} from "../types";
+
+/**
+ * Trigger: check and unfurl the links in a new or edited message
+ */
+export const unfurlMessageLinks = onDocumentWritten(
+  {
+    document: "conversations/{conversationId}/messages/{messageId}",
+    region: "us-central1",
+    timeoutSeconds: 30,
+    memory: "256MiB",
+  },
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    const data = after.data() ?? {};
+    const {messageId} = event.params;
+
+    if (data.deletedForAll) {
+      if (data.links || data.linkPreview) {
+        await after.ref.update({links: FieldValue.delete(), linkPreview: FieldValue.delete()});
+      }
+      return;
+    }
+
+    // Only when the text changes (this function's own update doesn't)
+    if (data.type !== "text" || data.content === event.data?.before.get("content")) return;
+
+    try {
+      const config = await getConfig();
+      const lists: LinkSafetyLists = {
+        allowlist: parseDomainList(config.link_allowlist_domains),
+        denylist: parseDomainList(config.link_denylist_domains),
+        shorteners: parseDomainList(config.link_shortener_domains),
+      };
+
+      const links = checkLinks(data.content || "", lists);
+      if (links.length === 0) {
+        if (data.links || data.linkPreview) {
+          await after.ref.update({links: FieldValue.delete(), linkPreview: FieldValue.delete()});
+        }
+        return;
+      }
+
+      let linkPreview: LinkPreview | null = null;
+      const previewLink = links.find((link) => !link.flag);
+      if (previewLink && config.link_previews_enabled) {
+        try {
+          const result = await unfurlLink(previewLink, lists);
+          if (result && "flag" in result) {
+            previewLink.flag = result.flag;
+          } else {
+            linkPreview = result;
+          }
+        } catch (error) {
+          // Unreachable sites just don't get a preview
+          logger.info(`No preview for ${previewLink.url} in message ${messageId}:`, error);
+        }
+      }
+
+      await after.ref.update({
+        links,
+        linkPreview: linkPreview ?? FieldValue.delete(),
+      });
+
+      const flagged = links.filter((link) => link.flag).length;
+      if (flagged > 0) {
+        logger.info(`Flagged ${flagged} link(s) in message ${messageId}`);
+      }
+    } catch (error) {
+      logger.error(`Error checking links in message ${messageId}:`, error);
+    }
+  }
+);
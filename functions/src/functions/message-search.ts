@@ -0,0 +1,385 @@
+/**
+ * Message Search Cloud Functions
+ * Full-text search across a user's own conversations
+ *
+ * Each participant gets their own inverted index entry per searchable message
+ * in users/{uid}/messageIndex/{messageId}, holding the message's search
+ * tokens (words plus their prefixes, so partly typed words match). Entries
+ * are server-only and only ever queried for their owner.
+ *
+ * - indexMessageForSearch keeps entries in step with messages: created on
+ *   send, re-tokenized on edit, removed for a user who deletes the message
+ *   for themselves and for both users when it's deleted for everyone
+ * - searchMessages queries the caller's entries, drops blocked conversations,
+ *   re-checks the messages themselves and returns snippets with the match.
+ *   Conversations from before the index existed are indexed on first search.
+ *
+ * Only text is searchable: text messages and image captions.
+ */
+
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {FieldValue, Timestamp} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import {db} from "../config/firebase";
+import {getBlockedUserIds} from "./discovery";
+
+// Tokenizer limits
+const MIN_TOKEN_LENGTH = 2;
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PREFIX_LENGTH = 10; // Longer search terms are matched against whole words
+const MAX_TOKENS_PER_MESSAGE = 400;
+
+// Search limits
+const MAX_QUERY_LENGTH = 100;
+const MAX_QUERY_TERMS = 5;
+const CANDIDATES_PER_SEARCH = 200;
+const DEFAULT_RESULT_LIMIT = 30;
+const MAX_RESULT_LIMIT = 50;
+const SNIPPET_CONTEXT_BEFORE = 40;
+const SNIPPET_CONTEXT_AFTER = 80;
+
+// Placeholder content of image messages sent without a caption
+const IMAGE_PLACEHOLDER_PATTERN = /^Sent (an image|\d+ images)$/;
+
+/**
+ * A user's index entry for one message
+ */
+interface MessageIndexEntry {
+  conversationId: string;
+  messageId: string;
+  senderId: string;
+  otherUserId: string; // The other participant (the sender, in a group), for excluding blocked users
+  tokens: string[];
+  createdAt: Timestamp;
+}
+
+/**
+ * A search hit returned to the client
+ */
+interface MessageSearchResult {
+  conversationId: string;
+  messageId: string;
+  senderId: string;
+  otherUserId: string;
+  createdAt: number; // Epoch ms
+  snippet: string;
+  highlights: {start: number; length: number}[]; // Matched ranges within snippet
+}
+
+/**
+ * Lowercase and strip accents, so "Café" and "cafe" match
+ */
+function foldText(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Split text into search terms
+ */
+function splitTerms(text: string): string[] {
+  return foldText(text).split(/[^\p{L}\p{N}]+/u).filter((term) => term.length >= MIN_TOKEN_LENGTH);
+}
+
+/**
+ * Index tokens for a message: every word, plus its prefixes up to MAX_PREFIX_LENGTH
+ */
+function tokenize(content: string): string[] {
+  const tokens = new Set<string>();
+  for (const word of splitTerms(content)) {
+    tokens.add(word);
+    for (let length = MIN_PREFIX_LENGTH; length < Math.min(word.length, MAX_PREFIX_LENGTH + 1); length++) {
+      tokens.add(word.slice(0, length));
+    }
+    if (tokens.size >= MAX_TOKENS_PER_MESSAGE) break;
+  }
+  return Array.from(tokens).slice(0, MAX_TOKENS_PER_MESSAGE);
+}
+
+/**
+ * Whether an index entry's tokens match a search term
+ */
+function matchesTerm(tokens: string[], term: string): boolean {
+  return term.length <= MAX_PREFIX_LENGTH ?
+    tokens.includes(term) :
+    tokens.some((token) => token.startsWith(term));
+}
+
+/**
+ * The searchable text of a message, or null if it has none
+ */
+function getSearchableContent(data: FirebaseFirestore.DocumentData): string | null {
+  if (data.deletedForAll) return null;
+  const content = typeof data.content === "string" ? data.content.trim() : "";
+  if (!content) return null;
+  if (data.type === "text") return content;
+  if (data.type === "image" && !IMAGE_PLACEHOLDER_PATTERN.test(content)) return content;
+  return null;
+}
+
+/**
+ * Build a user's index entry for a message (null if it isn't searchable for them)
+ */
+function buildIndexEntry(
+  userId: string,
+  participants: string[],
+  conversationId: string,
+  messageId: string,
+  data: FirebaseFirestore.DocumentData
+): MessageIndexEntry | null {
+  const deletedFor: string[] = data.deletedFor || [];
+  if (deletedFor.includes(userId)) return null;
+
+  const content = getSearchableContent(data);
+  // In a group, whoever else sent the message (the first other participant for our own)
+  const otherUserId = data.senderId !== userId && participants.includes(data.senderId) ?
+    data.senderId :
+    participants.find((uid) => uid !== userId);
+  if (!content || !otherUserId) return null;
+
+  const createdAt = data.createdAt instanceof Timestamp ? data.createdAt : Timestamp.now();
+  return {
+    conversationId,
+    messageId,
+    senderId: data.senderId,
+    otherUserId,
+    tokens: tokenize(content),
+    createdAt,
+  };
+}
+
+function indexRef(userId: string, messageId: string): FirebaseFirestore.DocumentReference {
+  return db.collection("users").doc(userId).collection("messageIndex").doc(messageId);
+}
+
+/**
+ * Delete a user's index entries for one conversation
+ * For when the conversation goes away without its messages' deletes reaching
+ * indexMessageForSearch (which reads the participants from the conversation).
+ */
+export async function deleteMessageIndexEntries(userId: string, conversationId: string): Promise<void> {
+  const snapshot = await db.collection("users").doc(userId).collection("messageIndex")
+    .where("conversationId", "==", conversationId)
+    .get();
+
+  // Commit in chunks to stay within Firestore batch limits
+  for (let i = 0; i < snapshot.docs.length; i += 450) {
+    const batch = db.batch();
+    snapshot.docs.slice(i, i + 450).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+}
+
+/**
+ * Keep both participants' index entries in step with a message
+ */
+export const indexMessageForSearch = onDocumentWritten(
+  "conversations/{conversationId}/messages/{messageId}",
+  async (event) => {
+    const {conversationId, messageId} = event.params;
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+
+    // Skip writes that can't change what's searchable (reactions, read state, ...)
+    if (before && after &&
+      before.content === after.content &&
+      before.deletedForAll === after.deletedForAll &&
+      (before.deletedFor || []).length === (after.deletedFor || []).length) {
+      return;
+    }
+
+    try {
+      const conversationDoc = await db.collection("conversations").doc(conversationId).get();
+      const participants: string[] = conversationDoc.data()?.participants || [];
+
+      const batch = db.batch();
+      for (const userId of participants) {
+        const entry = after ? buildIndexEntry(userId, participants, conversationId, messageId, after) : null;
+        if (entry) {
+          batch.set(indexRef(userId, messageId), entry);
+        } else {
+          batch.delete(indexRef(userId, messageId));
+        }
+      }
+      await batch.commit();
+    } catch (error) {
+      logger.error(`Error indexing message ${messageId} for search:`, error);
+    }
+  }
+);
+
+/**
+ * Index every conversation a user is in, for messages sent before the index existed
+ * Runs once per user, on their first search.
+ */
+async function ensureMessageIndex(userId: string): Promise<void> {
+  const privateRef = db.collection("users").doc(userId).collection("private").doc("data");
+  const privateDoc = await privateRef.get();
+  if (privateDoc.data()?.messageIndexBuiltAt) return;
+
+  const conversationsSnapshot = await db.collection("conversations")
+    .where("participants", "array-contains", userId)
+    .get();
+
+  let indexed = 0;
+  for (const conversationDoc of conversationsSnapshot.docs) {
+    const participants: string[] = conversationDoc.data().participants || [];
+    const messagesSnapshot = await conversationDoc.ref.collection("messages").get();
+
+    const entries = messagesSnapshot.docs
+      .map((doc) => buildIndexEntry(userId, participants, conversationDoc.id, doc.id, doc.data()))
+      .filter((entry): entry is MessageIndexEntry => entry !== null);
+
+    // Commit in chunks to stay within Firestore batch limits
+    for (let i = 0; i < entries.length; i += 450) {
+      const batch = db.batch();
+      for (const entry of entries.slice(i, i + 450)) {
+        batch.set(indexRef(userId, entry.messageId), entry);
+      }
+      await batch.commit();
+    }
+    indexed += entries.length;
+  }
+
+  await privateRef.set({messageIndexBuiltAt: FieldValue.serverTimestamp()}, {merge: true});
+  logger.info(`Built message index for ${userId}: ${indexed} messages`);
+}
+
+/**
+ * A snippet of content around the first match, with every term match highlighted
+ */
+function buildSnippet(content: string, terms: string[]): Pick<MessageSearchResult, "snippet" | "highlights"> {
+  // Fold character by character so folded positions map back to the original
+  let folded = "";
+  const originalIndex: number[] = [];
+  for (let i = 0; i < content.length; i++) {
+    const foldedChar = foldText(content[i]);
+    folded += foldedChar;
+    for (let j = 0; j < foldedChar.length; j++) originalIndex.push(i);
+  }
+
+  const matches: {start: number; end: number}[] = [];
+  for (const term of terms) {
+    let from = folded.indexOf(term);
+    while (from !== -1) {
+      // Terms match at the start of words, like the index
+      if (from === 0 || !/[\p{L}\p{N}]/u.test(folded[from - 1])) {
+        matches.push({
+          start: originalIndex[from],
+          end: originalIndex[from + term.length - 1] + 1,
+        });
+      }
+      from = folded.indexOf(term, from + term.length);
+    }
+  }
+  matches.sort((a, b) => a.start - b.start);
+
+  const firstMatch = matches[0]?.start ?? 0;
+  const snippetStart = Math.max(0, firstMatch - SNIPPET_CONTEXT_BEFORE);
+  const snippetEnd = Math.min(content.length, firstMatch + SNIPPET_CONTEXT_AFTER);
+  const prefix = snippetStart > 0 ? "…" : "";
+  const suffix = snippetEnd < content.length ? "…" : "";
+
+  const highlights: MessageSearchResult["highlights"] = [];
+  let lastEnd = -1;
+  for (const match of matches) {
+    // Skip overlaps and anything outside the snippet
+    if (match.start < lastEnd || match.start < snippetStart || match.end > snippetEnd) continue;
+    highlights.push({start: prefix.length + match.start - snippetStart, length: match.end - match.start});
+    lastEnd = match.end;
+  }
+
+  return {
+    snippet: prefix + content.slice(snippetStart, snippetEnd) + suffix,
+    highlights,
+  };
+}
+
+/**
+ * A whole result count between 1 and MAX_RESULT_LIMIT (DEFAULT_RESULT_LIMIT if missing or malformed)
+ */
+export function clampResultLimit(limit: unknown): number {
+  if (typeof limit !== "number" || !Number.isFinite(limit)) return DEFAULT_RESULT_LIMIT;
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_RESULT_LIMIT);
+}
+
+/**
+ * Search the current user's messages
+ * All terms must match (as whole words or word prefixes); newest first.
+ */
+export const searchMessages = onCall<{
+  query: string;
+  limit?: number;
+}>(
+  {region: "us-central1", timeoutSeconds: 120},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+
+    const userId = request.auth.uid;
+    const rawQuery = typeof request.data?.query === "string" ? request.data.query : "";
+    if (rawQuery.length > MAX_QUERY_LENGTH) {
+      throw new HttpsError("invalid-argument", `Search is limited to ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    const terms = Array.from(new Set(splitTerms(rawQuery))).slice(0, MAX_QUERY_TERMS);
+    if (terms.length === 0) {
+      return {results: []};
+    }
+    const resultLimit = clampResultLimit(request.data?.limit);
+
+    try {
+      await ensureMessageIndex(userId);
+
+      // Query on the most selective term, then check the rest in memory
+      const primaryTerm = [...terms].sort((a, b) => b.length - a.length)[0];
+      const [candidatesSnapshot, blockedUserIds] = await Promise.all([
+        db.collection("users").doc(userId).collection("messageIndex")
+          .where("tokens", "array-contains", primaryTerm.slice(0, MAX_PREFIX_LENGTH))
+          .orderBy("createdAt", "desc")
+          .limit(CANDIDATES_PER_SEARCH)
+          .get(),
+        getBlockedUserIds(userId),
+      ]);
+
+      const entries = candidatesSnapshot.docs
+        .map((doc) => doc.data() as MessageIndexEntry)
+        .filter((entry) => !blockedUserIds.has(entry.otherUserId))
+        .filter((entry) => terms.every((term) => matchesTerm(entry.tokens, term)))
+        .slice(0, resultLimit);
+
+      if (entries.length === 0) {
+        return {results: []};
+      }
+
+      // Read the messages themselves: the snippet shows current content, and a
+      // deletion the trigger hasn't processed yet still hides the message
+      const messageDocs = await db.getAll(...entries.map((entry) =>
+        db.collection("conversations").doc(entry.conversationId).collection("messages").doc(entry.messageId)
+      ));
+
+      const results: MessageSearchResult[] = [];
+      entries.forEach((entry, index) => {
+        const data = messageDocs[index].data();
+        if (!data || (data.deletedFor || []).includes(userId)) return;
+        const content = getSearchableContent(data);
+        if (!content) return;
+
+        results.push({
+          conversationId: entry.conversationId,
+          messageId: entry.messageId,
+          senderId: entry.senderId,
+          otherUserId: entry.otherUserId,
+          createdAt: entry.createdAt.toMillis(),
+          ...buildSnippet(content, terms),
+        });
+      });
+
+      return {results};
+    } catch (error) {
+      logger.error("Error searching messages:", error);
+      throw new HttpsError("internal", "Failed to search messages");
+    }
+  }
+);
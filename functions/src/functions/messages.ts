@@ -7,7 +7,7 @@
  * - Burst messaging detection (real-time reputation trigger)
  * - Response tracking for ghost detection
  */
-import {onDocumentCreated, onDocumentUpdated} from "firebase-functions/v2/firestore";
+import {onDocumentCreated, onDocumentWritten} from "firebase-functions/v2/firestore";
 import {onCall, HttpsError} from "firebase-functions/v2/https";
 import {FieldValue, Timestamp} from "firebase-admin/firestore";
 import {db} from "../config/firebase";
@@ -24,10 +24,13 @@ import {
 } from "../types";
 import {recalculateReputation} from "./reputation";
 
+// How many recent view times a read receipt keeps
+const READ_RECEIPT_VIEWS_KEPT = 50;
+
 /**
  * Check if two users are blocked (either direction)
  */
-async function areUsersBlocked(userId1: string, userId2: string): Promise<boolean> {
+export async function areUsersBlocked(userId1: string, userId2: string): Promise<boolean> {
   const blocked1Doc = await db
     .collection("users")
     .doc(userId1)
@@ -47,11 +50,38 @@ async function areUsersBlocked(userId1: string, userId2: string): Promise<boolea
   return blocked2Doc.exists;
 }
 
+/**
+ * Check if a user has muted a conversation
+ * Mute state is private to each participant (users/{uid}/conversationSettings).
+ */
+async function isConversationMuted(userId: string, conversationId: string): Promise<boolean> {
+  const settingsDoc = await db
+    .collection("users")
+    .doc(userId)
+    .collection("conversationSettings")
+    .doc(conversationId)
+    .get();
+
+  const mutedUntil = settingsDoc.get("mutedUntil");
+  return mutedUntil instanceof Timestamp && mutedUntil.toMillis() > Date.now();
+}
+
 /**
  * Triggered when a new message is created.
- * - Creates an activity record for the recipient
+ * - Creates an activity record for each recipient (unless they muted the conversation)
  * - Updates message metrics for reputation calculation
  * - Detects burst messaging (triggers real-time reputation recalc)
+ *
+ * In a group conversation every other participant is a recipient, except
+ * those who have blocked the sender or been blocked by them. Higher-tier
+ * conversations in a group are counted when the group is created (see
+ * createGroupConversation), not on its first message.
+ *
+ * Reactions are written as updates to an existing message (reactions.{uid}),
+ * so they never reach this trigger and never count toward metrics or bursts.
+ * Replies (messages with replyTo) are ordinary messages and count as usual.
+ * Edits update content in place, so an edited message is still counted once,
+ * with its original length.
  */
 export const onMessageCreated = onDocumentCreated(
   {
@@ -92,17 +122,21 @@ export const onMessageCreated = onDocumentCreated(
       }
 
       const participants: string[] = conversationData.participants || [];
-      const recipientId = participants.find((uid: string) => uid !== senderId);
+      const isGroup = conversationData.isGroup === true;
+      const otherParticipants = participants.filter((uid: string) => uid !== senderId);
 
-      if (!recipientId) {
+      if (otherParticipants.length === 0) {
         logger.warn(`Could not find recipient in conversation ${conversationId}`);
         return;
       }
 
-      // Check if users are blocked - skip activity if blocked
-      const blocked = await areUsersBlocked(senderId, recipientId);
-      if (blocked) {
-        logger.info(`Skipping message activity - users ${senderId} and ${recipientId} are blocked`);
+      // Check if users are blocked - blocked recipients get no activity
+      const blockedStates = await Promise.all(
+        otherParticipants.map((uid) => areUsersBlocked(senderId, uid))
+      );
+      const recipientIds = otherParticipants.filter((_, index) => !blockedStates[index]);
+      if (recipientIds.length === 0) {
+        logger.info(`Skipping message activity - ${senderId} is blocked with every recipient in ${conversationId}`);
         return;
       }
 
@@ -112,22 +146,29 @@ export const onMessageCreated = onDocumentCreated(
       const senderName = senderData.displayName || "Someone";
       const senderPhoto = senderData.photoURL || null;
 
-      // === ACTIVITY NOTIFICATION ===
-      // Create or update activity for the recipient
-      await ActivityService.upsertActivity(
-        recipientId,
-        "message",
-        senderId,
-        senderName,
-        senderPhoto,
-        `/messages/${conversationId}`
-      );
+      for (const recipientId of recipientIds) {
+        if (await isConversationMuted(recipientId, conversationId)) {
+          logger.info(`Skipping message notifications - ${recipientId} muted conversation ${conversationId}`);
+          continue;
+        }
+
+        // === ACTIVITY NOTIFICATION ===
+        // Create or update activity for the recipient
+        await ActivityService.upsertActivity(
+          recipientId,
+          "message",
+          senderId,
+          senderName,
+          senderPhoto,
+          `/messages/${conversationId}`
+        );
 
-      // === EMAIL NOTIFICATION ===
-      // Send email notification (with rate limiting, async)
-      initializeEmailService();
-      sendMessageEmailNotification(recipientId, senderId, senderName, conversationId)
-        .catch((err) => logger.error("Error sending message email:", err));
+        // === EMAIL NOTIFICATION ===
+        // Send email notification (with rate limiting, async)
+        initializeEmailService();
+        sendMessageEmailNotification(recipientId, senderId, senderName, conversationId)
+          .catch((err) => logger.error("Error sending message email:", err));
+      }
 
       // === MESSAGE METRICS TRACKING ===
       const now = Date.now();
@@ -204,7 +245,8 @@ export const onMessageCreated = onDocumentCreated(
       // Check if this is a new conversation with a higher-tier user
       // (for tracking daily higher-tier conversation limit)
       let isHigherTierNewConvo = false;
-      if (isFirstMessageInConvo) {
+      if (isFirstMessageInConvo && !isGroup) {
+        const recipientId = otherParticipants[0];
         // Get both users' reputation tiers
         const [senderPrivate, recipientPrivate] = await Promise.all([
           db.collection("users").doc(senderId).collection("private").doc("data").get(),
@@ -248,8 +290,8 @@ export const onMessageCreated = onDocumentCreated(
         );
 
       // === RECIPIENT METRICS ===
-      // Track that recipient received a message (for response rate calculation)
-      await db
+      // Track that each recipient received a message (for response rate calculation)
+      await Promise.all(recipientIds.map((recipientId) => db
         .collection("users")
         .doc(recipientId)
         .collection("private")
@@ -263,7 +305,8 @@ export const onMessageCreated = onDocumentCreated(
             },
           },
           {merge: true}
-        );
+        )
+      ));
 
       // === BURST DETECTION ===
       if (isBurst) {
@@ -281,7 +324,7 @@ export const onMessageCreated = onDocumentCreated(
           );
 
         // Trigger real-time reputation recalculation
-        await recalculateReputation(senderId);
+        await recalculateReputation(senderId, "burst");
 
         logger.info(`Reputation recalculated for ${senderId} due to burst messaging`);
       }
@@ -302,51 +345,77 @@ export const onMessageCreated = onDocumentCreated(
  * Track when a user views a conversation (marks messages as read)
  * This helps calculate response rate and ghost detection
  *
- * Triggers when lastViewedAt is updated for a user
+ * Triggers when a user's private lastViewedAt for a conversation changes
+ * (users/{userId}/conversationSettings/{conversationId}). The view is only
+ * published to the other participant as a read receipt
+ * (conversations/{conversationId}/readReceipts/{userId}) if the viewer sends
+ * read receipts (settings.privacy.sendReadReceipts); firestore.rules decides
+ * who may read it (Premium viewers who send their own).
  */
-export const onConversationViewed = onDocumentUpdated(
-  "conversations/{conversationId}",
+export const onConversationViewed = onDocumentWritten(
+  "users/{userId}/conversationSettings/{conversationId}",
   async (event) => {
-    const before = event.data?.before.data();
-    const after = event.data?.after.data();
+    const afterTime = event.data?.after.get("lastViewedAt");
+    const beforeTime = event.data?.before.get("lastViewedAt");
 
-    if (!before || !after) {
+    // Only react to a new view (not pin/mute/label changes)
+    if (!(afterTime instanceof Timestamp) ||
+        (beforeTime instanceof Timestamp && beforeTime.isEqual(afterTime))) {
       return;
     }
 
-    const conversationId = event.params.conversationId;
-    const participants: string[] = after.participants || [];
-
-    // Check if lastViewedAt changed for any participant
-    const beforeLastViewed = before.lastViewedAt || {};
-    const afterLastViewed = after.lastViewedAt || {};
-
-    for (const userId of participants) {
-      const beforeTime = beforeLastViewed[userId];
-      const afterTime = afterLastViewed[userId];
-
-      // If this user just viewed the conversation
-      if (afterTime && (!beforeTime || afterTime !== beforeTime)) {
-        const otherUserId = participants.find((uid) => uid !== userId);
-
-        if (otherUserId) {
-          // Check if there were pending messages from the other user
-          const userPrivateDoc = await db
-            .collection("users")
-            .doc(userId)
-            .collection("private")
-            .doc("data")
-            .get();
-
-          const userMetrics = userPrivateDoc.data()?.messageMetrics as MessageMetrics | undefined;
-
-          if (userMetrics && userMetrics.pendingResponses > 0) {
-            // User responded (viewed = implicit acknowledgment)
-            // We'll update replied count when they actually send a message
-            logger.info(`User ${userId} viewed conversation ${conversationId}`);
-          }
+    const {userId, conversationId} = event.params;
+
+    try {
+      const conversationRef = db.collection("conversations").doc(conversationId);
+      const conversationDoc = await conversationRef.get();
+      const participants: string[] = conversationDoc.data()?.participants || [];
+      if (!participants.includes(userId)) {
+        return;
+      }
+
+      // Older clients kept views in a map on the shared conversation doc
+      if (conversationDoc.get(`lastViewedAt.${userId}`) !== undefined) {
+        await conversationRef.update({[`lastViewedAt.${userId}`]: FieldValue.delete()});
+      }
+
+      const userDoc = await db.collection("users").doc(userId).get();
+      const receiptRef = conversationRef.collection("readReceipts").doc(userId);
+
+      if (userDoc.get("settings.privacy.sendReadReceipts") === false) {
+        // Hidden - don't leave an older receipt behind either
+        await receiptRef.delete();
+      } else {
+        await db.runTransaction(async (transaction) => {
+          const receiptDoc = await transaction.get(receiptRef);
+          const views: Timestamp[] = receiptDoc.get("views") || [];
+          transaction.set(receiptRef, {
+            lastViewedAt: afterTime,
+            // Recent view times, so each message can show when it was first seen
+            views: [...views, afterTime].slice(-READ_RECEIPT_VIEWS_KEPT),
+          });
+        });
+      }
+
+      if (participants.some((uid) => uid !== userId)) {
+        // Check if there were pending messages from the other participants
+        const userPrivateDoc = await db
+          .collection("users")
+          .doc(userId)
+          .collection("private")
+          .doc("data")
+          .get();
+
+        const userMetrics = userPrivateDoc.data()?.messageMetrics as MessageMetrics | undefined;
+
+        if (userMetrics && userMetrics.pendingResponses > 0) {
+          // User responded (viewed = implicit acknowledgment)
+          // We'll update replied count when they actually send a message
+          logger.info(`User ${userId} viewed conversation ${conversationId}`);
         }
       }
+    } catch (error) {
+      logger.error(`Error recording view of ${conversationId} by ${userId}:`, error);
     }
   }
 );
@@ -431,8 +500,18 @@ export async function trackReply(
 // MESSAGING PERMISSION CHECKS
 // ============================================================================
 
+/**
+ * Result of a messaging permission check (see evaluateMessagePermission)
+ */
+export interface MessagePermissionResult {
+  allowed: boolean;
+  reason: string | null;
+  [key: string]: unknown;
+}
+
 /**
  * Check if a user can send a message to another user
+ * Shared by the checkMessagePermission callable and scheduled message delivery.
  *
  * New messaging rules:
  * - If a conversation already exists between users → unlimited messages
@@ -451,6 +530,159 @@ export async function trackReply(
  * - higherTierConversationsToday: number - higher-tier conversations started today
  * - higherTierRemaining: number - higher-tier conversations remaining (-1 = unlimited)
  */
+export async function evaluateMessagePermission(
+  senderId: string,
+  recipientId: string
+): Promise<MessagePermissionResult> {
+  // Fetch sender and recipient data (including recipient's user doc for settings)
+  const [senderPrivateDoc, recipientPrivateDoc, recipientUserDoc, blockedDoc, blockedByDoc] =
+    await Promise.all([
+      db.collection("users").doc(senderId).collection("private").doc("data").get(),
+      db.collection("users").doc(recipientId).collection("private").doc("data").get(),
+      db.collection("users").doc(recipientId).get(),
+      db.collection("users").doc(senderId).collection("blocks").doc(recipientId).get(),
+      db.collection("users").doc(senderId).collection("blockedBy").doc(recipientId).get(),
+    ]);
+
+  // Check blocked status first
+  if (blockedDoc.exists || blockedByDoc.exists) {
+    return {
+      allowed: false,
+      reason: "blocked",
+    };
+  }
+
+  // Get sender's reputation tier
+  const senderPrivateData = senderPrivateDoc.data();
+  const senderReputation = senderPrivateData?.reputation as ReputationData | undefined;
+  const senderTier: ReputationTier = senderReputation?.tier ?? "new";
+  const recipientReputation = recipientPrivateDoc.data()?.reputation as ReputationData | undefined;
+  const recipientTier: ReputationTier = recipientReputation?.tier ?? "new";
+  const isPremium = senderPrivateData?.subscription?.tier === "premium";
+
+  // Check if a 1:1 conversation already exists by querying participants
+  // (sharing a group conversation doesn't count)
+  const existingConvSnapshot = await db.collection("conversations")
+    .where("participants", "array-contains", senderId)
+    .get();
+
+  const existingConversation = existingConvSnapshot.docs.find((doc) => {
+    const data = doc.data();
+    return data.isGroup !== true && data.participants?.includes(recipientId);
+  });
+
+  const isNewConversation = !existingConversation;
+
+  // Check if recipient is higher tier
+  const senderTierIndex = REPUTATION_TIER_ORDER.indexOf(senderTier);
+  const recipientTierIndex = REPUTATION_TIER_ORDER.indexOf(recipientTier);
+  const isHigherTier = recipientTierIndex > senderTierIndex;
+
+  // Premium users or existing conversations: always allowed (no tier restrictions)
+  if (isPremium || !isNewConversation) {
+    return {
+      allowed: true,
+      reason: null,
+      senderTier,
+      recipientTier,
+      isPremium,
+      isNewConversation,
+      isHigherTier,
+      higherTierLimit: -1,
+      higherTierConversationsToday: 0,
+      higherTierRemaining: -1,
+    };
+  }
+
+  // === NEW CONVERSATION CHECKS ===
+  // From here on, we're checking restrictions for NEW conversations only
+
+  // Check recipient's minimum tier requirement for incoming messages
+  const recipientUserData = recipientUserDoc.data();
+  const recipientMinTier: ReputationTier =
+    recipientUserData?.settings?.messaging?.minReputationTierToMessageMe ?? "new";
+
+  // If recipient requires a minimum tier, check if sender meets it
+  if (recipientMinTier !== "new") {
+    const requiredTierIndex = REPUTATION_TIER_ORDER.indexOf(recipientMinTier);
+
+    if (senderTierIndex < requiredTierIndex) {
+      // Format tier label for display (capitalize first letter)
+      const tierLabel = recipientMinTier.charAt(0).toUpperCase() + recipientMinTier.slice(1);
+      return {
+        allowed: false,
+        reason: "recipient_min_tier_not_met",
+        senderTier,
+        recipientMinTier,
+        recipientMinTierLabel: tierLabel,
+      };
+    }
+  }
+
+  // New conversation with same/lower tier: always allowed
+  if (!isHigherTier) {
+    return {
+      allowed: true,
+      reason: null,
+      senderTier,
+      recipientTier,
+      isPremium: false,
+      isNewConversation: true,
+      isHigherTier: false,
+      higherTierLimit: -1, // Not applicable
+      higherTierConversationsToday: 0,
+      higherTierRemaining: -1,
+    };
+  }
+
+  // New conversation with higher tier: check daily limit
+  const tierConfig = getTierConfig(senderTier);
+  const higherTierLimit = tierConfig.dailyHigherTierConversations;
+  const isUnlimited = higherTierLimit === -1;
+
+  // Get today's date for checking daily counter
+  const today = new Date().toISOString().split("T")[0];
+  const lastConversationDate = senderReputation?.lastConversationDate ?? "";
+  const higherTierConversationsToday = lastConversationDate === today ?
+    (senderReputation?.higherTierConversationsToday ?? 0) :
+    0;
+
+  const higherTierRemaining = isUnlimited ? -1 : Math.max(0, higherTierLimit - higherTierConversationsToday);
+
+  // Check if limit reached
+  if (!isUnlimited && higherTierConversationsToday >= higherTierLimit) {
+    return {
+      allowed: false,
+      reason: "higher_tier_limit_reached",
+      senderTier,
+      recipientTier,
+      isPremium: false,
+      isNewConversation: true,
+      isHigherTier: true,
+      higherTierLimit,
+      higherTierConversationsToday,
+      higherTierRemaining: 0,
+    };
+  }
+
+  // All checks passed
+  return {
+    allowed: true,
+    reason: null,
+    senderTier,
+    recipientTier,
+    isPremium: false,
+    isNewConversation: true,
+    isHigherTier: true,
+    higherTierLimit,
+    higherTierConversationsToday,
+    higherTierRemaining,
+  };
+}
+
+/**
+ * Callable wrapper around evaluateMessagePermission for the current user
+ */
 export const checkMessagePermission = onCall<{
   recipientId: string;
 }>(
@@ -475,149 +707,7 @@ export const checkMessagePermission = onCall<{
     }
 
     try {
-      // Fetch sender and recipient data (including recipient's user doc for settings)
-      const [senderPrivateDoc, recipientPrivateDoc, recipientUserDoc, blockedDoc, blockedByDoc] =
-        await Promise.all([
-          db.collection("users").doc(senderId).collection("private").doc("data").get(),
-          db.collection("users").doc(recipientId).collection("private").doc("data").get(),
-          db.collection("users").doc(recipientId).get(),
-          db.collection("users").doc(senderId).collection("blocks").doc(recipientId).get(),
-          db.collection("users").doc(senderId).collection("blockedBy").doc(recipientId).get(),
-        ]);
-
-      // Check blocked status first
-      if (blockedDoc.exists || blockedByDoc.exists) {
-        return {
-          allowed: false,
-          reason: "blocked",
-        };
-      }
-
-      // Get sender's reputation tier
-      const senderPrivateData = senderPrivateDoc.data();
-      const senderReputation = senderPrivateData?.reputation as ReputationData | undefined;
-      const senderTier: ReputationTier = senderReputation?.tier ?? "new";
-      const recipientReputation = recipientPrivateDoc.data()?.reputation as ReputationData | undefined;
-      const recipientTier: ReputationTier = recipientReputation?.tier ?? "new";
-      const isPremium = senderPrivateData?.subscription?.tier === "premium";
-
-      // Check if conversation already exists by querying participants
-      const existingConvSnapshot = await db.collection("conversations")
-        .where("participants", "array-contains", senderId)
-        .get();
-
-      const existingConversation = existingConvSnapshot.docs.find((doc) => {
-        const data = doc.data();
-        return data.participants?.includes(recipientId);
-      });
-
-      const isNewConversation = !existingConversation;
-
-      // Check if recipient is higher tier
-      const senderTierIndex = REPUTATION_TIER_ORDER.indexOf(senderTier);
-      const recipientTierIndex = REPUTATION_TIER_ORDER.indexOf(recipientTier);
-      const isHigherTier = recipientTierIndex > senderTierIndex;
-
-      // Premium users or existing conversations: always allowed (no tier restrictions)
-      if (isPremium || !isNewConversation) {
-        return {
-          allowed: true,
-          reason: null,
-          senderTier,
-          recipientTier,
-          isPremium,
-          isNewConversation,
-          isHigherTier,
-          higherTierLimit: -1,
-          higherTierConversationsToday: 0,
-          higherTierRemaining: -1,
-        };
-      }
-
-      // === NEW CONVERSATION CHECKS ===
-      // From here on, we're checking restrictions for NEW conversations only
-
-      // Check recipient's minimum tier requirement for incoming messages
-      const recipientUserData = recipientUserDoc.data();
-      const recipientMinTier: ReputationTier =
-        recipientUserData?.settings?.messaging?.minReputationTierToMessageMe ?? "new";
-
-      // If recipient requires a minimum tier, check if sender meets it
-      if (recipientMinTier !== "new") {
-        const requiredTierIndex = REPUTATION_TIER_ORDER.indexOf(recipientMinTier);
-
-        if (senderTierIndex < requiredTierIndex) {
-          // Format tier label for display (capitalize first letter)
-          const tierLabel = recipientMinTier.charAt(0).toUpperCase() + recipientMinTier.slice(1);
-          return {
-            allowed: false,
-            reason: "recipient_min_tier_not_met",
-            senderTier,
-            recipientMinTier,
-            recipientMinTierLabel: tierLabel,
-          };
-        }
-      }
-
-      // New conversation with same/lower tier: always allowed
-      if (!isHigherTier) {
-        return {
-          allowed: true,
-          reason: null,
-          senderTier,
-          recipientTier,
-          isPremium: false,
-          isNewConversation: true,
-          isHigherTier: false,
-          higherTierLimit: -1, // Not applicable
-          higherTierConversationsToday: 0,
-          higherTierRemaining: -1,
-        };
-      }
-
-      // New conversation with higher tier: check daily limit
-      const tierConfig = getTierConfig(senderTier);
-      const higherTierLimit = tierConfig.dailyHigherTierConversations;
-      const isUnlimited = higherTierLimit === -1;
-
-      // Get today's date for checking daily counter
-      const today = new Date().toISOString().split("T")[0];
-      const lastConversationDate = senderReputation?.lastConversationDate ?? "";
-      const higherTierConversationsToday = lastConversationDate === today ?
-        (senderReputation?.higherTierConversationsToday ?? 0) :
-        0;
-
-      const higherTierRemaining = isUnlimited ? -1 : Math.max(0, higherTierLimit - higherTierConversationsToday);
-
-      // Check if limit reached
-      if (!isUnlimited && higherTierConversationsToday >= higherTierLimit) {
-        return {
-          allowed: false,
-          reason: "higher_tier_limit_reached",
-          senderTier,
-          recipientTier,
-          isPremium: false,
-          isNewConversation: true,
-          isHigherTier: true,
-          higherTierLimit,
-          higherTierConversationsToday,
-          higherTierRemaining: 0,
-        };
-      }
-
-      // All checks passed
-      return {
-        allowed: true,
-        reason: null,
-        senderTier,
-        recipientTier,
-        isPremium: false,
-        isNewConversation: true,
-        isHigherTier: true,
-        higherTierLimit,
-        higherTierConversationsToday,
-        higherTierRemaining,
-      };
+      return await evaluateMessagePermission(senderId, recipientId);
     } catch (error) {
       logger.error("Error checking message permission:", error);
       throw new HttpsError("internal", "Failed to check message permission");
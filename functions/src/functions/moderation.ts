@@ -0,0 +1,460 @@
+/**
+ * Moderation Cloud Functions
+ * Review queue for the reports filed through reportUser
+ *
+ * All callables require the `admin` custom claim. A moderator lists the open
+ * reports, claims one (so two moderators don't review the same report; claims
+ * expire after CLAIM_TTL_MS) and resolves it with an action:
+ * - dismiss: counts against the reporter (reportingStats.dismissedCount, which
+ *   reportUser uses to restrict reporters with mostly unfounded reports) and
+ *   no longer counts towards the reported user's reportsReceived
+ * - warn: counts once, as filed, and the warning is recorded on the user
+ * - suspend / ban: counts more, the user's sign-in is disabled (for a
+ *   number of days, or for good), they're hidden from discovery and their
+ *   undelivered scheduled messages are deleted
+ *
+ * Every decision is written to the moderationLog audit collection, the
+ * reported user's reputation is recalculated, and the reporter gets a
+ * "report_resolved" activity (without the outcome).
+ */
+
+import {onCall, HttpsError, CallableRequest} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {FieldValue, Timestamp} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import {db, auth} from "../config/firebase";
+import {ActivityService} from "../services";
+import {ModerationAction, ReportReason, ReportRecord, ReportStatus} from "../types";
+import {recalculateReputation} from "./reputation";
+
+const CLAIM_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const MAX_NOTES_LENGTH = 2000;
+const DEFAULT_SUSPENSION_DAYS = 7;
+const MAX_SUSPENSION_DAYS = 90;
+
+const REPORT_STATUSES: ReportStatus[] = ["pending", "in_review", "reviewed", "dismissed", "action_taken"];
+const MODERATION_ACTIONS: ModerationAction[] = ["dismiss", "warn", "suspend", "ban"];
+
+// Change to the reported user's reportsReceived when a report is resolved
+// (reportUser already counted it once)
+const REPORT_WEIGHT_ADJUSTMENT: Record<ModerationAction, number> = {
+  dismiss: -1,
+  warn: 0,
+  suspend: 1,
+  ban: 2,
+};
+
+/**
+ * A report as returned to the moderation console
+ */
+interface ReportListItem {
+  id: string;
+  reason: ReportReason;
+  details: string | null;
+  conversationId: string | null;
+  status: ReportStatus;
+  createdAt: number;
+  claimedBy: string | null;
+  claimedAt: number | null;
+  reviewedBy: string | null;
+  reviewNotes: string | null;
+  actionTaken: ModerationAction | null;
+  reporter: {
+    uid: string;
+    displayName: string | null;
+    tier: string;
+    totalSubmitted: number;
+    dismissedCount: number;
+  };
+  reportedUser: {
+    uid: string;
+    displayName: string | null;
+    photoURL: string | null;
+    reportsReceived: number;
+    moderationStatus: string | null;
+  };
+}
+
+/**
+ * List reports for the moderation console, oldest first
+ * Filtered by status (pending by default) and optionally by reason or reported user.
+ * Pass the returned nextCursor as startAfterId for the next page.
+ */
+export const listReports = onCall<{
+  status?: ReportStatus;
+  reason?: ReportReason;
+  reportedUserId?: string;
+  pageSize?: number;
+  startAfterId?: string;
+}>(
+  {region: "us-central1"},
+  async (request) => {
+    assertModerator(request);
+
+    const {status = "pending", reason, reportedUserId, startAfterId} = request.data ?? {};
+    if (!REPORT_STATUSES.includes(status)) {
+      throw new HttpsError("invalid-argument", "Invalid report status");
+    }
+    if (reason && reportedUserId) {
+      throw new HttpsError("invalid-argument", "Filter by reason or by reported user, not both");
+    }
+    const pageSize = Math.min(Math.max(Math.floor(Number(request.data?.pageSize) || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+
+    try {
+      let query = db.collection("reports").where("status", "==", status);
+      if (reason) {
+        query = query.where("reason", "==", reason);
+      }
+      if (reportedUserId) {
+        query = query.where("reportedUserId", "==", reportedUserId);
+      }
+      query = query.orderBy("createdAt", "asc");
+
+      if (startAfterId) {
+        const cursor = await db.collection("reports").doc(startAfterId).get();
+        if (!cursor.exists) {
+          throw new HttpsError("invalid-argument", "Invalid cursor");
+        }
+        query = query.startAfter(cursor);
+      }
+
+      const snapshot = await query.limit(pageSize).get();
+      const reports = snapshot.docs.map((doc) => ({id: doc.id, ...(doc.data() as ReportRecord)}));
+
+      // Names and reporting records of everyone involved
+      const userIds = Array.from(new Set(reports.flatMap((r) => [r.reporterId, r.reportedUserId])));
+      const [userDocs, privateDocs] = await Promise.all([
+        Promise.all(userIds.map((id) => db.collection("users").doc(id).get())),
+        Promise.all(userIds.map((id) => db.collection("users").doc(id).collection("private").doc("data").get())),
+      ]);
+      const users = new Map(userIds.map((id, i) => [id, {user: userDocs[i].data(), private: privateDocs[i].data()}]));
+
+      const items: ReportListItem[] = reports.map((report) => {
+        const reporter = users.get(report.reporterId);
+        const reported = users.get(report.reportedUserId);
+        return {
+          id: report.id,
+          reason: report.reason,
+          details: report.details ?? null,
+          conversationId: report.conversationId ?? null,
+          status: report.status,
+          createdAt: report.createdAt?.toMillis() ?? 0,
+          claimedBy: report.claimedBy ?? null,
+          claimedAt: report.claimedAt?.toMillis() ?? null,
+          reviewedBy: report.reviewedBy ?? null,
+          reviewNotes: report.reviewNotes ?? null,
+          actionTaken: report.actionTaken ?? null,
+          reporter: {
+            uid: report.reporterId,
+            displayName: reporter?.user?.displayName ?? null,
+            tier: report.reporterTier ?? "new",
+            totalSubmitted: reporter?.private?.reportingStats?.totalSubmitted ?? 0,
+            dismissedCount: reporter?.private?.reportingStats?.dismissedCount ?? 0,
+          },
+          reportedUser: {
+            uid: report.reportedUserId,
+            displayName: reported?.user?.displayName ?? null,
+            photoURL: reported?.user?.photoURL ?? null,
+            reportsReceived: reported?.private?.reportsReceived ?? 0,
+            moderationStatus: reported?.user?.moderationStatus ?? null,
+          },
+        };
+      });
+
+      return {
+        reports: items,
+        nextCursor: snapshot.size === pageSize ? snapshot.docs[snapshot.size - 1].id : null,
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error listing reports:", error);
+      throw new HttpsError("internal", "Failed to list reports");
+    }
+  }
+);
+
+/**
+ * Claim a report for review
+ * Fails with details {reason: "claimed", claimedBy} while another moderator's
+ * claim is still fresh, or {reason: "already_resolved"}.
+ */
+export const claimReport = onCall<{reportId: string}>(
+  {region: "us-central1"},
+  async (request) => {
+    const moderatorId = assertModerator(request);
+    const reportId = request.data?.reportId;
+    if (!reportId) {
+      throw new HttpsError("invalid-argument", "Report ID is required");
+    }
+
+    try {
+      const reportRef = db.collection("reports").doc(reportId);
+      await db.runTransaction(async (transaction) => {
+        const reportDoc = await transaction.get(reportRef);
+        if (!reportDoc.exists) {
+          throw new HttpsError("not-found", "Report not found");
+        }
+        assertReportOpen(reportDoc.data() as ReportRecord, moderatorId);
+
+        transaction.update(reportRef, {
+          status: "in_review",
+          claimedBy: moderatorId,
+          claimedAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      });
+
+      logger.info(`Moderator ${moderatorId} claimed report ${reportId}`);
+      return {success: true};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error claiming report ${reportId}:`, error);
+      throw new HttpsError("internal", "Failed to claim report");
+    }
+  }
+);
+
+/**
+ * Resolve a report with a moderation action
+ * Suspensions last suspendDays (default 7, at most 90).
+ */
+export const resolveReport = onCall<{
+  reportId: string;
+  action: ModerationAction;
+  notes?: string;
+  suspendDays?: number;
+}>(
+  {region: "us-central1"},
+  async (request) => {
+    const moderatorId = assertModerator(request);
+    const {reportId, action} = request.data ?? {};
+    if (!reportId) {
+      throw new HttpsError("invalid-argument", "Report ID is required");
+    }
+    if (!MODERATION_ACTIONS.includes(action)) {
+      throw new HttpsError("invalid-argument", "Invalid moderation action");
+    }
+    const notes = request.data.notes?.trim().slice(0, MAX_NOTES_LENGTH) || null;
+    const suspendDays = Math.floor(Number(request.data.suspendDays ?? DEFAULT_SUSPENSION_DAYS));
+    if (action === "suspend" && !(suspendDays >= 1 && suspendDays <= MAX_SUSPENSION_DAYS)) {
+      throw new HttpsError("invalid-argument", `Suspensions last 1 to ${MAX_SUSPENSION_DAYS} days`);
+    }
+
+    try {
+      const reportRef = db.collection("reports").doc(reportId);
+      const report = await db.runTransaction(async (transaction) => {
+        const reportDoc = await transaction.get(reportRef);
+        if (!reportDoc.exists) {
+          throw new HttpsError("not-found", "Report not found");
+        }
+        const report = reportDoc.data() as ReportRecord;
+        assertReportOpen(report, moderatorId);
+
+        const reportedUserRef = db.collection("users").doc(report.reportedUserId);
+        const reportedPrivateRef = reportedUserRef.collection("private").doc("data");
+        const reportedPrivateDoc = await transaction.get(reportedPrivateRef);
+        const reportedPrivate = reportedPrivateDoc.data() ?? {};
+        const now = Timestamp.now();
+
+        transaction.update(reportRef, {
+          status: action === "dismiss" ? "dismissed" : "action_taken",
+          actionTaken: action,
+          reviewedBy: moderatorId,
+          reviewedAt: now,
+          reviewNotes: notes,
+          claimedBy: null,
+          claimedAt: null,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+
+        // The reporter's record decides whether they can keep reporting
+        transaction.set(
+          db.collection("users").doc(report.reporterId).collection("private").doc("data"),
+          {
+            reportingStats: action === "dismiss" ?
+              {dismissedCount: FieldValue.increment(1)} :
+              {actionedCount: FieldValue.increment(1)},
+          },
+          {merge: true}
+        );
+
+        const reportsReceived = Math.max(0, (reportedPrivate.reportsReceived ?? 0) + REPORT_WEIGHT_ADJUSTMENT[action]);
+        const moderation = reportedPrivate.moderation ?? {};
+        const reportedUpdate: Record<string, unknown> = {reportsReceived};
+        let suspendedUntil: Timestamp | null = null;
+
+        if (action === "warn") {
+          reportedUpdate.moderation = {
+            warningCount: FieldValue.increment(1),
+            lastWarnedAt: now,
+          };
+        } else if (action === "ban") {
+          reportedUpdate.moderation = {status: "banned", suspendedUntil: null};
+          transaction.update(reportedUserRef, {moderationStatus: "banned"});
+        } else if (action === "suspend" && moderation.status !== "banned") {
+          // Never shortens a longer suspension that's already running
+          const requested = Timestamp.fromMillis(now.toMillis() + suspendDays * 24 * 60 * 60 * 1000);
+          const current = moderation.suspendedUntil as Timestamp | null | undefined;
+          suspendedUntil = current && current.toMillis() > requested.toMillis() ? current : requested;
+          reportedUpdate.moderation = {status: "suspended", suspendedUntil};
+          transaction.update(reportedUserRef, {moderationStatus: "suspended"});
+        }
+        transaction.set(reportedPrivateRef, reportedUpdate, {merge: true});
+
+        transaction.create(db.collection("moderationLog").doc(), {
+          reportId,
+          moderatorId,
+          action,
+          targetUserId: report.reportedUserId,
+          reporterId: report.reporterId,
+          reason: report.reason,
+          notes,
+          suspendedUntil,
+          createdAt: FieldValue.serverTimestamp(),
+        });
+
+        return report;
+      });
+
+      if (action === "suspend" || action === "ban") {
+        await auth.updateUser(report.reportedUserId, {disabled: true});
+        await auth.revokeRefreshTokens(report.reportedUserId);
+        await deleteScheduledMessagesFrom(report.reportedUserId);
+      }
+
+      await recalculateReputation(report.reportedUserId, "moderation");
+      await notifyReporter(report);
+
+      logger.info(`Moderator ${moderatorId} resolved report ${reportId}: ${action}`);
+      return {success: true};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error resolving report ${reportId}:`, error);
+      throw new HttpsError("internal", "Failed to resolve report");
+    }
+  }
+);
+
+/**
+ * Scheduled: re-enable users whose suspension has ended
+ */
+export const liftExpiredSuspensions = onSchedule(
+  {
+    schedule: "every 60 minutes",
+    region: "us-central1",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    const suspendedSnapshot = await db
+      .collection("users")
+      .where("moderationStatus", "==", "suspended")
+      .get();
+    if (suspendedSnapshot.empty) return;
+
+    const now = Date.now();
+    let lifted = 0;
+
+    for (const userDoc of suspendedSnapshot.docs) {
+      const userId = userDoc.id;
+      try {
+        const privateRef = userDoc.ref.collection("private").doc("data");
+        const moderation = (await privateRef.get()).get("moderation");
+        const suspendedUntil = moderation?.suspendedUntil as Timestamp | null | undefined;
+        if (suspendedUntil && suspendedUntil.toMillis() > now) continue;
+
+        await auth.updateUser(userId, {disabled: false});
+
+        const batch = db.batch();
+        batch.update(userDoc.ref, {moderationStatus: FieldValue.delete()});
+        batch.set(privateRef, {moderation: {status: null, suspendedUntil: null}}, {merge: true});
+        batch.create(db.collection("moderationLog").doc(), {
+          reportId: null,
+          moderatorId: null,
+          action: "suspension_lifted",
+          targetUserId: userId,
+          reporterId: null,
+          reason: null,
+          notes: null,
+          suspendedUntil: suspendedUntil ?? null,
+          createdAt: FieldValue.serverTimestamp(),
+        });
+        await batch.commit();
+        lifted++;
+      } catch (error) {
+        logger.error(`Error lifting suspension for ${userId}:`, error);
+      }
+    }
+
+    logger.info(`Lifted ${lifted} expired suspension(s)`);
+  }
+);
+
+/**
+ * Require the admin claim, returning the moderator's UID
+ */
+function assertModerator(request: CallableRequest): string {
+  if (!request.auth?.token.admin) {
+    throw new HttpsError("permission-denied", "Admin access required");
+  }
+  return request.auth.uid;
+}
+
+/**
+ * Refuse a resolved report, or one another moderator has a fresh claim on
+ */
+function assertReportOpen(report: ReportRecord, moderatorId: string): void {
+  if (report.status !== "pending" && report.status !== "in_review") {
+    throw new HttpsError("failed-precondition", "This report has already been resolved", {
+      reason: "already_resolved",
+    });
+  }
+
+  const claimAge = report.claimedAt ? Date.now() - report.claimedAt.toMillis() : Infinity;
+  if (report.status === "in_review" && report.claimedBy && report.claimedBy !== moderatorId && claimAge < CLAIM_TTL_MS) {
+    throw new HttpsError("failed-precondition", "Another moderator is reviewing this report", {
+      reason: "claimed",
+      claimedBy: report.claimedBy,
+    });
+  }
+}
+
+/**
+ * Let the reporter know their report was handled (not how)
+ */
+async function notifyReporter(report: ReportRecord): Promise<void> {
+  try {
+    const reportedUserDoc = await db.collection("users").doc(report.reportedUserId).get();
+    await ActivityService.createActivity(
+      report.reporterId,
+      "report_resolved",
+      report.reportedUserId,
+      reportedUserDoc.get("displayName") || "Unknown User",
+      null
+    );
+  } catch (error) {
+    // The decision stands even if the notification fails
+    logger.error(`Error notifying reporter ${report.reporterId}:`, error);
+  }
+}
+
+/**
+ * Delete everything a suspended or banned user scheduled to send later
+ * (deliverScheduledMessages also drops their messages, this just doesn't leave them waiting)
+ */
+async function deleteScheduledMessagesFrom(userId: string): Promise<void> {
+  const scheduledSnapshot = await db
+    .collectionGroup("scheduledMessages")
+    .where("senderId", "==", userId)
+    .select()
+    .get();
+
+  for (let i = 0; i < scheduledSnapshot.docs.length; i += 500) {
+    const batch = db.batch();
+    scheduledSnapshot.docs.slice(i, i + 500).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+
+  logger.info(`Deleted ${scheduledSnapshot.size} scheduled message(s) from ${userId}`);
+}
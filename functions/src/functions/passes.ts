@@ -0,0 +1,200 @@
+/**
+ * Pass ("Not interested") Cloud Functions
+ * Lets a user hide a profile from their own discovery results
+ *
+ * Passes are stored in users/{uid}/passes/{passedUserId} and expire after
+ * 30 days or never. Discovery and saved-search alerts skip passed users until
+ * the pass expires or is undone.
+ *
+ * REPUTATION:
+ * - Unlike blocks, passes are private to the passer and never feed the
+ *   reputation engine (no counters, no recalculation). Don't add any.
+ */
+
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {FieldValue, Timestamp} from "firebase-admin/firestore";
+import {db} from "../config/firebase";
+import * as logger from "firebase-functions/logger";
+
+export type PassDuration = "30d" | "forever";
+
+// Time until a pass expires (null = never)
+const PASS_DURATION_MS: Record<PassDuration, number | null> = {
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  "forever": null,
+};
+
+/**
+ * Check that a client-supplied duration is one of PASS_DURATION_MS's own keys
+ * (not an inherited one like "toString")
+ */
+export function isPassDuration(value: unknown): value is PassDuration {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PASS_DURATION_MS, value);
+}
+
+interface PassRecord {
+  passedUserId: string;
+  duration: PassDuration;
+  createdAt: FieldValue;
+  expiresAt: Timestamp | null;
+}
+
+/**
+ * Hidden profile shown in Settings
+ */
+interface PassedUser {
+  uid: string;
+  displayName: string | null;
+  photoURL: string | null;
+  duration: PassDuration;
+  expiresAt: string | null; // ISO string, null if the pass never expires
+}
+
+/**
+ * Pass on a user (hide them from discovery)
+ * Passing again replaces the previous pass, so the expiry can be changed.
+ */
+export const passUser = onCall<{ userId: string; duration?: PassDuration }, Promise<{ success: boolean }>>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be authenticated to hide profiles");
+    }
+
+    const currentUserId = request.auth.uid;
+    const {userId: targetUserId, duration = "30d"} = request.data;
+
+    if (!targetUserId) {
+      throw new HttpsError("invalid-argument", "Target user ID is required");
+    }
+
+    if (currentUserId === targetUserId) {
+      throw new HttpsError("invalid-argument", "Cannot hide yourself");
+    }
+
+    if (!isPassDuration(duration)) {
+      throw new HttpsError("invalid-argument", "Invalid pass duration");
+    }
+
+    try {
+      const durationMs = PASS_DURATION_MS[duration];
+      await db
+        .collection("users")
+        .doc(currentUserId)
+        .collection("passes")
+        .doc(targetUserId)
+        .set({
+          passedUserId: targetUserId,
+          duration,
+          createdAt: FieldValue.serverTimestamp(),
+          expiresAt: durationMs === null ? null : Timestamp.fromMillis(Date.now() + durationMs),
+        } as PassRecord);
+
+      return {success: true};
+    } catch (error) {
+      logger.error("Error passing user:", error);
+      throw new HttpsError("internal", "Failed to hide profile");
+    }
+  }
+);
+
+/**
+ * Undo a pass (used by the undo action and to restore hidden profiles)
+ */
+export const unpassUser = onCall<{ userId: string }, Promise<{ success: boolean }>>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be authenticated to restore profiles");
+    }
+
+    const currentUserId = request.auth.uid;
+    const {userId: targetUserId} = request.data;
+
+    if (!targetUserId) {
+      throw new HttpsError("invalid-argument", "Target user ID is required");
+    }
+
+    try {
+      await db
+        .collection("users")
+        .doc(currentUserId)
+        .collection("passes")
+        .doc(targetUserId)
+        .delete();
+
+      return {success: true};
+    } catch (error) {
+      logger.error("Error unpassing user:", error);
+      throw new HttpsError("internal", "Failed to restore profile");
+    }
+  }
+);
+
+/**
+ * Get the current user's hidden profiles, most recent first
+ * Expired passes are deleted instead of returned.
+ */
+export const getPassedUsers = onCall<void, Promise<{ users: PassedUser[] }>>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be authenticated");
+    }
+
+    const currentUserId = request.auth.uid;
+
+    try {
+      const passesSnapshot = await db
+        .collection("users")
+        .doc(currentUserId)
+        .collection("passes")
+        .orderBy("createdAt", "desc")
+        .get();
+
+      const now = Date.now();
+      const [active, expired] = passesSnapshot.docs.reduce(
+        ([activeDocs, expiredDocs], doc) => {
+          const expiresAt = doc.data().expiresAt as Timestamp | null;
+          return !expiresAt || expiresAt.toMillis() > now ?
+            [[...activeDocs, doc], expiredDocs] :
+            [activeDocs, [...expiredDocs, doc]];
+        },
+        [[], []] as FirebaseFirestore.QueryDocumentSnapshot[][]
+      );
+
+      if (expired.length > 0) {
+        const batch = db.batch();
+        expired.forEach((doc) => batch.delete(doc.ref));
+        batch.commit().catch((err) => {
+          logger.error("Error deleting expired passes:", err);
+        });
+      }
+
+      if (active.length === 0) {
+        return {users: []};
+      }
+
+      const userDocs = await db.getAll(
+        ...active.map((doc) => db.collection("users").doc(doc.id))
+      );
+
+      const users = active.map((doc, index): PassedUser => {
+        const pass = doc.data();
+        const userData = userDocs[index].data();
+        return {
+          uid: doc.id,
+          displayName: userData?.displayName ?? null,
+          photoURL: userData?.photoURL ?? null,
+          duration: pass.duration ?? "30d",
+          expiresAt: (pass.expiresAt as Timestamp | null)?.toDate().toISOString() ?? null,
+        };
+      });
+
+      return {users};
+    } catch (error) {
+      logger.error("Error getting passed users:", error);
+      throw new HttpsError("internal", "Failed to get hidden profiles");
+    }
+  }
+);
@@ -0,0 +1,421 @@
+/**
+ * Daily Reputation Job
+ *
+ * Sharded so it keeps up with the user base and survives partial failures:
+ * - calculateAllReputations (3 AM UTC): records the run in
+ *   reputationRuns/{YYYY-MM-DD}, splits onboarded users into id ranges and
+ *   enqueues one processReputationShard task per range
+ * - processReputationShard (task queue): recalculates the users in its range
+ *   and rolls its metrics up into the run
+ *
+ * Idempotency:
+ * - Task ids are derived from the run and shard, so a re-dispatch never
+ *   enqueues a shard twice
+ * - Completed shards are ignored on redelivery
+ * - A shard with failed users stays pending and is retried; users already
+ *   processed in this run (reputation.lastRunId) are skipped on retry
+ * - A failed or timed-out dispatch is retried by Cloud Scheduler and resumes
+ *   from the last recorded shard
+ *
+ * Users whose signals haven't changed since lastCalculatedAt are skipped too,
+ * unless a burst score or daily counter still needs resetting.
+ */
+
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {onTaskDispatched} from "firebase-functions/v2/tasks";
+import {getFunctions, TaskQueue} from "firebase-admin/functions";
+import {FieldPath, Timestamp} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import {db} from "../config/firebase";
+import {
+  ReputationData,
+  ReputationRun,
+  ReputationRunMetrics,
+  ReputationRunShard,
+  scoreToTier,
+} from "../types";
+import {applyDecay, DecaySettings, getDecaySettings, recalculateFromData} from "./reputation";
+
+const SHARD_SIZE = 200; // Users per task
+const USER_CONCURRENCY = 20; // Users recalculated in parallel within a shard
+const SHARD_QUEUE = "locations/us-central1/functions/processReputationShard";
+const SHARD_MAX_ATTEMPTS = 5; // After this many, a shard completes with its errors counted
+
+/**
+ * Task payload for one shard
+ */
+interface ShardTask {
+  runId: string;
+  shardId: string;
+}
+
+/**
+ * Zeroed run/shard counters
+ */
+function emptyMetrics(): ReputationRunMetrics {
+  return {
+    users: 0,
+    processed: 0,
+    skipped: 0,
+    errors: 0,
+    tierChanges: 0,
+    decaying: 0,
+    wouldChangeTier: 0,
+  };
+}
+
+/**
+ * Run document for a day
+ */
+function getRunRef(runId: string): FirebaseFirestore.DocumentReference {
+  return db.collection("reputationRuns").doc(runId);
+}
+
+/**
+ * Onboarded users, in id order so shards can be expressed as id ranges
+ */
+function onboardedUsersQuery(): FirebaseFirestore.Query {
+  return db
+    .collection("users")
+    .where("onboardingCompleted", "==", true)
+    .orderBy(FieldPath.documentId());
+}
+
+/**
+ * Enqueue a shard, ignoring shards already enqueued by an earlier attempt
+ */
+async function enqueueShard(queue: TaskQueue<ShardTask>, task: ShardTask): Promise<void> {
+  try {
+    await queue.enqueue(task, {
+      id: `reputation-${task.runId}-${task.shardId}`,
+      dispatchDeadlineSeconds: 540,
+    });
+  } catch (error) {
+    if ((error as {code?: string}).code === "functions/task-already-exists") {
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Log the metrics of a finished run
+ */
+function logRunSummary(runId: string, run: ReputationRun): void {
+  const {metrics} = run;
+  logger.info(
+    `Reputation run ${runId} complete. ` +
+    `Users: ${metrics.users}, Processed: ${metrics.processed}, Skipped: ${metrics.skipped}, ` +
+    `Errors: ${metrics.errors}, Tier changes: ${metrics.tierChanges}`
+  );
+
+  if (run.decayMode !== "off") {
+    logger.info(`Reputation decay: ${metrics.decaying} users with active decay`);
+  }
+  if (run.decayMode === "dry_run") {
+    logger.info(
+      `Reputation decay dry run: ${metrics.wouldChangeTier}/${metrics.users} users would change tier`,
+      {tierTransitions: run.dryRunTransitions}
+    );
+  }
+}
+
+// ============================================================================
+// DISPATCHER
+// ============================================================================
+
+/**
+ * Daily dispatcher for the reputation job
+ * Runs at 3 AM UTC
+ *
+ * This handles:
+ * - Recalculating all signals that need aggregation (response rate, etc.)
+ * - Advancing decay/recovery for each user (see reputation_decay_mode)
+ * - Resetting daily counters
+ *
+ * Only user ids are read here; the work happens in processReputationShard.
+ * A retry (or rerun) on the same day resumes dispatching from the last
+ * recorded shard.
+ */
+export const calculateAllReputations = onSchedule(
+  {
+    schedule: "0 3 * * *", // 3 AM UTC daily
+    timeZone: "UTC",
+    region: "us-central1",
+    timeoutSeconds: 540,
+    memory: "512MiB",
+    retryCount: 3,
+    minBackoffSeconds: 300,
+  },
+  async () => {
+    const runId = new Date().toISOString().split("T")[0];
+    const runRef = getRunRef(runId);
+
+    const runDoc = await runRef.get();
+    if (runDoc.exists && (runDoc.data() as ReputationRun).status !== "dispatching") {
+      logger.info(`Reputation run ${runId} already dispatched, skipping`);
+      return;
+    }
+
+    if (!runDoc.exists) {
+      const decaySettings = await getDecaySettings();
+      const run: ReputationRun = {
+        status: "dispatching",
+        decayMode: decaySettings.mode,
+        totalShards: 0,
+        completedShards: 0,
+        metrics: emptyMetrics(),
+        dryRunTransitions: {},
+        startedAt: Timestamp.now(),
+        completedAt: null,
+      };
+      await runRef.set(run);
+    }
+
+    logger.info(`Dispatching reputation run ${runId}`);
+    const queue = getFunctions().taskQueue<ShardTask>(SHARD_QUEUE);
+
+    try {
+      // Re-enqueue shards recorded by an earlier attempt (no-op if already enqueued)
+      const existingShards = await runRef.collection("shards").orderBy(FieldPath.documentId()).get();
+      let startAfterId: string | null = null;
+      for (const shardDoc of existingShards.docs) {
+        const shard = shardDoc.data() as ReputationRunShard;
+        if (shard.status === "pending") {
+          await enqueueShard(queue, {runId, shardId: shardDoc.id});
+        }
+        startAfterId = shard.endAtId;
+      }
+
+      let shardCount = existingShards.size;
+      for (;;) {
+        let query = onboardedUsersQuery().select().limit(SHARD_SIZE);
+        if (startAfterId) {
+          query = query.startAfter(startAfterId);
+        }
+        const page = await query.get();
+        if (page.empty) break;
+
+        const shardId = String(shardCount).padStart(5, "0");
+        const shard: ReputationRunShard = {
+          status: "pending",
+          startAfterId,
+          endAtId: page.docs[page.docs.length - 1].id,
+          attempts: 0,
+          metrics: null,
+          completedAt: null,
+        };
+        await runRef.collection("shards").doc(shardId).set(shard);
+        await enqueueShard(queue, {runId, shardId});
+
+        shardCount++;
+        startAfterId = shard.endAtId;
+        if (page.size < SHARD_SIZE) break;
+      }
+
+      // Shards may already have finished while we were dispatching
+      const run = await db.runTransaction(async (transaction) => {
+        const current = (await transaction.get(runRef)).data() as ReputationRun;
+        const completed = current.completedShards >= shardCount;
+        const updated: ReputationRun = {
+          ...current,
+          status: completed ? "completed" : "running",
+          totalShards: shardCount,
+          completedAt: completed ? Timestamp.now() : null,
+        };
+        transaction.update(runRef, {
+          status: updated.status,
+          totalShards: updated.totalShards,
+          completedAt: updated.completedAt,
+        });
+        return updated;
+      });
+
+      logger.info(`Reputation run ${runId}: ${shardCount} shards enqueued`);
+      if (run.status === "completed") {
+        logRunSummary(runId, run);
+      }
+    } catch (error) {
+      // The run stays in "dispatching", so the retry picks up where this left off
+      logger.error(`Fatal error dispatching reputation run ${runId}:`, error);
+      throw error;
+    }
+  }
+);
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+/**
+ * Recalculate the users in one shard of a daily run
+ * Retried by Cloud Tasks on failure; see the idempotency notes above.
+ */
+export const processReputationShard = onTaskDispatched<ShardTask>(
+  {
+    region: "us-central1",
+    retryConfig: {
+      maxAttempts: SHARD_MAX_ATTEMPTS,
+      minBackoffSeconds: 60,
+    },
+    rateLimits: {
+      maxConcurrentDispatches: 5,
+    },
+    timeoutSeconds: 540,
+    memory: "512MiB",
+  },
+  async (request) => {
+    const {runId, shardId} = request.data;
+    const runRef = getRunRef(runId);
+    const shardRef = runRef.collection("shards").doc(shardId);
+
+    const [runDoc, shardDoc] = await Promise.all([runRef.get(), shardRef.get()]);
+    if (!runDoc.exists || !shardDoc.exists) {
+      logger.warn(`Reputation shard ${runId}/${shardId} not found`);
+      return;
+    }
+
+    const run = runDoc.data() as ReputationRun;
+    const shard = shardDoc.data() as ReputationRunShard;
+    if (shard.status === "completed") {
+      logger.info(`Reputation shard ${runId}/${shardId} already completed`);
+      return;
+    }
+
+    const attempt = shard.attempts + 1;
+    await shardRef.update({attempts: attempt});
+
+    // Use the run's decay mode so every shard of a run behaves the same
+    const decaySettings: DecaySettings = {...await getDecaySettings(), mode: run.decayMode};
+
+    let query = onboardedUsersQuery().endAt(shard.endAtId);
+    if (shard.startAfterId) {
+      query = query.startAfter(shard.startAfterId);
+    }
+    const usersSnapshot = await query.get();
+    const privateDocs = usersSnapshot.empty ? [] : await db.getAll(
+      ...usersSnapshot.docs.map((doc) => doc.ref.collection("private").doc("data"))
+    );
+
+    const metrics = emptyMetrics();
+    metrics.users = usersSnapshot.size;
+    const transitions: Record<string, number> = {};
+
+    for (let i = 0; i < usersSnapshot.docs.length; i += USER_CONCURRENCY) {
+      const chunk = usersSnapshot.docs.slice(i, i + USER_CONCURRENCY);
+
+      await Promise.all(chunk.map(async (userDoc, j) => {
+        const privateData = privateDocs[i + j].data() ?? {};
+        const previous = privateData.reputation as ReputationData | undefined;
+
+        // Processed by an earlier attempt of this shard
+        // (its tier change and dry-run counts are not recounted)
+        if (previous?.lastRunId === runId) {
+          metrics.processed++;
+          if ((previous.decay?.factor ?? 0) > 0) metrics.decaying++;
+          return;
+        }
+
+        try {
+          const reputation = await recalculateFromData(
+            userDoc.id,
+            userDoc.data(),
+            privateData,
+            "daily_batch",
+            {decaySettings, runId, skipUnchanged: true}
+          );
+
+          if (!reputation) {
+            metrics.skipped++;
+            return;
+          }
+
+          metrics.processed++;
+          if (previous && previous.tier !== reputation.tier) {
+            metrics.tierChanges++;
+          }
+
+          const factor = reputation.decay?.factor ?? 0;
+          if (factor > 0) {
+            metrics.decaying++;
+          }
+
+          // Dry run: the score is undecayed, so compare with the decayed tier
+          if (decaySettings.mode === "dry_run" && factor > 0) {
+            const decayedTier = scoreToTier(applyDecay(reputation.score, factor));
+            if (decayedTier !== reputation.tier) {
+              metrics.wouldChangeTier++;
+              const transition = `${reputation.tier}_to_${decayedTier}`;
+              transitions[transition] = (transitions[transition] ?? 0) + 1;
+            }
+          }
+        } catch (error) {
+          logger.error(`Error processing user ${userDoc.id}:`, error);
+          metrics.errors++;
+        }
+      }));
+    }
+
+    // Leave the shard pending so the task is retried for the users that failed
+    // (its metrics are rolled up once, by the attempt that completes it)
+    if (metrics.errors > 0 && attempt < SHARD_MAX_ATTEMPTS) {
+      await shardRef.update({metrics});
+      throw new Error(
+        `Reputation shard ${runId}/${shardId}: ${metrics.errors} errors on attempt ${attempt}, retrying`
+      );
+    }
+
+    // Roll the shard's metrics up into the run
+    const completedRun = await db.runTransaction(async (transaction) => {
+      const [currentRunDoc, currentShardDoc] = await Promise.all([
+        transaction.get(runRef),
+        transaction.get(shardRef),
+      ]);
+      if ((currentShardDoc.data() as ReputationRunShard).status === "completed") {
+        return null; // Completed by a concurrent delivery
+      }
+
+      const current = currentRunDoc.data() as ReputationRun;
+      const updated: ReputationRun = {
+        ...current,
+        completedShards: current.completedShards + 1,
+        metrics: {...current.metrics},
+        dryRunTransitions: {...current.dryRunTransitions},
+      };
+      for (const key of Object.keys(metrics) as (keyof ReputationRunMetrics)[]) {
+        updated.metrics[key] += metrics[key];
+      }
+      for (const [transition, count] of Object.entries(transitions)) {
+        updated.dryRunTransitions[transition] = (updated.dryRunTransitions[transition] ?? 0) + count;
+      }
+
+      const completed = updated.status === "running" && updated.completedShards >= updated.totalShards;
+      if (completed) {
+        updated.status = "completed";
+        updated.completedAt = Timestamp.now();
+      }
+
+      transaction.update(runRef, {
+        status: updated.status,
+        completedShards: updated.completedShards,
+        metrics: updated.metrics,
+        dryRunTransitions: updated.dryRunTransitions,
+        completedAt: updated.completedAt,
+      });
+      transaction.update(shardRef, {
+        status: "completed",
+        metrics,
+        completedAt: Timestamp.now(),
+      });
+      return completed ? updated : null;
+    });
+
+    logger.info(
+      `Reputation shard ${runId}/${shardId}: ` +
+      `${metrics.processed} processed, ${metrics.skipped} skipped, ${metrics.errors} errors`
+    );
+    if (completedRun) {
+      logRunSummary(runId, completedRun);
+    }
+  }
+);
@@ -5,23 +5,37 @@
  * - REAL-TIME: Identity verification, blocks, reports, burst messaging
  * - DAILY BATCH: Response rate, ghost rate, conversation quality, decay
  *
+ * Decay: each day with a negative pattern (new blocks/reports, bursts, heavy
+ * ghosting) removes a further slice of the score, capped at maxDecay; clean
+ * days recover it gradually. Rates and the rollout mode come from Remote Config.
+ *
  * Core functions:
- * - recalculateReputation: Shared helper for scoring logic
- * - calculateAllReputations: Daily scheduled job
+ * - recalculateReputation / recalculateFromData: Shared helpers for scoring logic
+ * - calculateAllReputations: Daily sharded job (see reputation-job.ts)
  * - reportUser: Create a report (triggers real-time recalc)
  * - getReputationStatus: Get user's own tier
+ * - getReputationHistory: User-safe timeline of tier changes and their reasons
+ *
+ * Every recalculation that changes the tier, a signal or the decay factor
+ * appends to users/{uid}/reputationHistory with the score, tier, signals
+ * snapshot and the cause that triggered it.
  */
 
 import {onCall, HttpsError} from "firebase-functions/v2/https";
-import {onSchedule} from "firebase-functions/v2/scheduler";
 import {FieldValue, Timestamp} from "firebase-admin/firestore";
 import {db} from "../config/firebase";
+import {getConfig} from "../config/remote-config";
+import {calculateScore, computeSignals} from "../services";
 import * as logger from "firebase-functions/logger";
 import {
   ReputationTier,
   ReputationData,
+  ReputationChangeCause,
+  ReputationDecayMode,
+  ReputationDecayState,
+  ReputationExplanation,
+  ReputationHistoryEntry,
   ReputationSignals,
-  MessageMetrics,
   ReportReason,
   REPUTATION_CONFIG,
   scoreToTier,
@@ -35,191 +49,251 @@ import {
 // ============================================================================
 
 /**
- * Calculate reputation score from signals
- * Score ranges from 0-1000 (internal, never exposed)
+ * Check whether any signal changed, ignoring account age (which moves daily
+ * but only matters once it carries the user into another tier)
  */
-export function calculateScore(signals: ReputationSignals): number {
-  const weights = REPUTATION_CONFIG.weights;
-
-  // Helper to safely get a number (defaults to 0 if NaN/undefined)
-  const safe = (val: number, fallback = 0): number =>
-    (isNaN(val) || val === undefined || val === null) ? fallback : val;
-
-  let score = 0;
-
-  // === POSITIVE SIGNALS ===
-
-  // Profile completion (0-100 → 0-1)
-  score += (safe(signals.profileCompletion) / 100) * weights.profileCompletion * 1000;
-
-  // Identity verified (binary)
-  score += (signals.identityVerified ? 1 : 0) * weights.identityVerified * 1000;
-
-  // Account age (0-365 days → 0-1, capped at 1 year)
-  const ageRatio = Math.min(
-    safe(signals.accountAgeDays) / REPUTATION_CONFIG.accountAge.maxDaysForBonus,
-    1
+function signalsChanged(previous: ReputationSignals, next: ReputationSignals): boolean {
+  return (Object.keys(next) as (keyof ReputationSignals)[]).some((key) =>
+    key !== "accountAgeDays" && previous[key] !== next[key]
   );
-  score += ageRatio * weights.accountAge * 1000;
-
-  // Response rate (0-1) - default to 0.5 (neutral) if NaN
-  score += safe(signals.responseRate, 0.5) * weights.responseRate * 1000;
-
-  // Conversation quality (0-1) - default to 0.5 (neutral) if NaN
-  score += safe(signals.conversationQuality, 0.5) * weights.conversationQuality * 1000;
-
-  // === NEGATIVE SIGNALS (inverted: 0 = best, 1 = worst) ===
-
-  // Block ratio (lower is better)
-  score += (1 - safe(signals.blockRatio)) * weights.blockRatio * 1000;
-
-  // Report ratio (lower is better)
-  score += (1 - safe(signals.reportRatio)) * weights.reportRatio * 1000;
-
-  // Ghost rate (lower is better)
-  score += (1 - safe(signals.ghostRate)) * weights.ghostRate * 1000;
-
-  // Burst score (lower is better)
-  score += (1 - safe(signals.burstScore)) * weights.burstScore * 1000;
-
-  // Final safety check - ensure we never return NaN
-  const finalScore = Math.round(Math.max(0, Math.min(1000, score)));
-  return isNaN(finalScore) ? 500 : finalScore; // Default to 500 (middle) if somehow still NaN
 }
 
 /**
- * Gather all signals for a user
- * This fetches data from various sources and calculates derived metrics
+ * Check whether a recalculation is worth a history entry: the first one, or
+ * one that moved the tier, a signal or the decay factor
+ * (anything else would have nothing to explain, e.g. a manual refresh)
  */
-async function gatherSignals(userId: string): Promise<ReputationSignals> {
-  const signals = getDefaultSignals();
-
-  // Fetch user document and private data in parallel
-  const [userDoc, privateDoc] = await Promise.all([
-    db.collection("users").doc(userId).get(),
-    db.collection("users").doc(userId).collection("private").doc("data").get(),
-  ]);
+export function shouldRecordHistory(
+  existing: ReputationData | undefined,
+  signals: ReputationSignals,
+  tier: ReputationTier,
+  decayFactor: number
+): boolean {
+  if (!existing?.signals) return true;
+  return existing.tier !== tier ||
+    signalsChanged(existing.signals, signals) ||
+    (existing.decay?.factor ?? 0) !== decayFactor;
+}
 
-  if (!userDoc.exists) {
-    logger.warn(`User ${userId} not found for reputation calculation`);
-    return signals;
+/**
+ * Check whether the daily batch can leave a user untouched: same signals and
+ * tier, no decay to track (a first decay step is always recorded, to snapshot
+ * the counters) and no burst score or daily message count left to reset
+ */
+export function canSkipRecalculation(
+  existing: ReputationData | undefined,
+  privateData: FirebaseFirestore.DocumentData,
+  signals: ReputationSignals,
+  tier: ReputationTier,
+  decayMode: ReputationDecayMode,
+  negative: boolean
+): boolean {
+  if (!existing?.signals || existing.tier !== tier || signalsChanged(existing.signals, signals)) {
+    return false;
   }
-
-  const userData = userDoc.data();
-  const privateData = privateDoc.exists ? privateDoc.data() : {};
-
-  // === Profile completion (from existing trust system) ===
-  const trustData = privateData?.trust;
-  if (trustData?.score !== undefined) {
-    signals.profileCompletion = trustData.score;
+  if (signals.burstScore > 0 || privateData.burstScore > 0 || privateData.reputation?.messagesSentToday > 0) {
+    return false;
   }
+  return decayMode === "off" || (!!existing.decay && !existing.decay.factor && !negative);
+}
 
-  // === Identity verified ===
-  signals.identityVerified = userData?.identityVerified === true;
+// ============================================================================
+// DECAY
+// ============================================================================
 
-  // === Account age ===
-  const createdAt = userData?.createdAt as Timestamp | undefined;
-  if (createdAt) {
-    const createdDate = createdAt.toDate();
-    const now = new Date();
-    signals.accountAgeDays = Math.floor(
-      (now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-  }
+/**
+ * Decay settings resolved from Remote Config
+ */
+export interface DecaySettings {
+  mode: ReputationDecayMode;
+  dailyDecayRate: number;
+  maxDecay: number;
+  recoveryRate: number;
+}
 
-  // === Message metrics ===
-  const messageMetrics = privateData?.messageMetrics as MessageMetrics | undefined;
-  if (messageMetrics) {
-    // Response rate - with null/NaN protection
-    const received = messageMetrics.received ?? 0;
-    const replied = messageMetrics.replied ?? 0;
-    if (received > 0 && !isNaN(replied)) {
-      signals.responseRate = Math.min(replied / received, 1);
-    }
+const DECAY_MODES: ReputationDecayMode[] = ["off", "dry_run", "on"];
 
-    // Conversation quality (based on avg message length)
-    // Target: 100+ characters = quality 1.0
-    const messageCount = messageMetrics.messageCount ?? 0;
-    const totalMessageLength = messageMetrics.totalMessageLength ?? 0;
-    if (messageCount > 0 && !isNaN(totalMessageLength)) {
-      const avgLength = totalMessageLength / messageCount;
-      signals.conversationQuality = Math.min(avgLength / 100, 1);
-    }
+/**
+ * Read decay settings from Remote Config
+ * Rates are clamped to 0-1; an unknown mode falls back to dry_run
+ */
+export async function getDecaySettings(): Promise<DecaySettings> {
+  const config = await getConfig();
+  const clamp = (val: number): number => Math.min(Math.max(val, 0), 1);
+  const mode = config.reputation_decay_mode as ReputationDecayMode;
+
+  return {
+    mode: DECAY_MODES.includes(mode) ? mode : "dry_run",
+    dailyDecayRate: clamp(config.reputation_decay_daily_rate),
+    maxDecay: clamp(config.reputation_decay_max),
+    recoveryRate: clamp(config.reputation_recovery_daily_rate),
+  };
+}
 
-    // Ghost rate
-    const conversationsStarted = messageMetrics.conversationsStarted ?? 0;
-    const conversationsWithReplies = messageMetrics.conversationsWithReplies ?? 0;
-    if (conversationsStarted > 0) {
-      const abandoned = conversationsStarted - conversationsWithReplies;
-      signals.ghostRate = Math.min(
-        Math.max(0, abandoned) / conversationsStarted,
-        1
-      );
-    }
+/**
+ * Check whether the user showed a negative pattern since the last decay step
+ */
+export function hasNegativePattern(
+  signals: ReputationSignals,
+  privateData: FirebaseFirestore.DocumentData,
+  previous: ReputationDecayState | undefined
+): boolean {
+  const {ghostRateThreshold, minConversationsForGhostRate} = REPUTATION_CONFIG.decay;
+
+  // Without a previous snapshot there is nothing to compare the counters to
+  if (previous) {
+    if ((privateData.blocksReceived ?? 0) > previous.blocksReceived) return true;
+    if ((privateData.reportsReceived ?? 0) > previous.reportsReceived) return true;
   }
 
-  // === Block ratio ===
-  const blocksReceived = privateData?.blocksReceived ?? 0;
-  const totalInteractions = (messageMetrics?.received ?? 0) +
-    (messageMetrics?.conversationsStarted ?? 0);
-  if (totalInteractions > 0) {
-    signals.blockRatio = Math.min(blocksReceived / totalInteractions, 1);
-  }
+  // Burst score is cleared by the daily batch, so a non-zero value is recent
+  if (signals.burstScore > 0) return true;
+
+  const conversationsStarted = privateData.messageMetrics?.conversationsStarted ?? 0;
+  return conversationsStarted >= minConversationsForGhostRate &&
+    signals.ghostRate >= ghostRateThreshold;
+}
 
-  // === Report ratio ===
-  const reportsReceived = privateData?.reportsReceived ?? 0;
-  if (totalInteractions > 0) {
-    signals.reportRatio = Math.min(reportsReceived / totalInteractions, 1);
+/**
+ * Advance the decay state by one day
+ * Returns the previous state unchanged if it was already advanced today.
+ */
+export function advanceDecay(
+  previous: ReputationDecayState | undefined,
+  negative: boolean,
+  privateData: FirebaseFirestore.DocumentData,
+  settings: DecaySettings,
+  today: string
+): ReputationDecayState {
+  if (previous?.lastAppliedDate === today) {
+    return previous;
   }
 
-  // === Burst score ===
-  signals.burstScore = privateData?.burstScore ?? 0;
+  const factor = previous?.factor ?? 0;
+  const nextFactor = negative ?
+    factor + settings.dailyDecayRate :
+    factor - settings.recoveryRate;
+
+  return {
+    // Rounded to avoid floating point drift over many steps
+    factor: Math.round(Math.min(Math.max(nextFactor, 0), settings.maxDecay) * 10000) / 10000,
+    lastAppliedDate: today,
+    negativeDays: negative ? (previous?.negativeDays ?? 0) + 1 : 0,
+    cleanDays: negative ? 0 : (previous?.cleanDays ?? 0) + 1,
+    blocksReceived: privateData.blocksReceived ?? 0,
+    reportsReceived: privateData.reportsReceived ?? 0,
+  };
+}
+
+/**
+ * Apply a decay factor to a score
+ */
+export function applyDecay(score: number, factor: number): number {
+  return Math.round(score * (1 - factor));
+}
 
-  return signals;
+/**
+ * Options for recalculateReputation
+ */
+interface RecalculateOptions {
+  /** Signals to use instead of gathering (for testing) */
+  forceSignals?: Partial<ReputationSignals>;
+  /** Advance the decay state with these settings (daily batch only) */
+  decaySettings?: DecaySettings;
+  /** Daily run being processed; also resets the daily counters (daily batch only) */
+  runId?: string;
+  /** Skip users with nothing to update or reset (see canSkipRecalculation) */
+  skipUnchanged?: boolean;
 }
 
 /**
  * Recalculate reputation for a single user
- * Called by both real-time triggers and daily batch job
+ * Called by real-time triggers; the daily job uses recalculateFromData.
  *
  * All users (including founders) are calculated the same way.
  *
+ * The stored decay factor is applied when decay is "on". Only the daily batch
+ * passes decaySettings, which advances the decay state by one day.
+ *
  * @param userId - The user to recalculate
- * @param forceSignals - Optional signals to use instead of gathering (for testing)
+ * @param cause - What triggered the recalculation (recorded in the history)
+ * @param options - Forced signals and decay settings
  * @returns The updated reputation data
  */
 export async function recalculateReputation(
   userId: string,
-  forceSignals?: Partial<ReputationSignals>
+  cause: ReputationChangeCause,
+  options: RecalculateOptions = {}
 ): Promise<ReputationData> {
-  logger.info(`Recalculating reputation for user ${userId}`);
+  const userRef = db.collection("users").doc(userId);
+  const [userDoc, privateDoc] = await Promise.all([
+    userRef.get(),
+    userRef.collection("private").doc("data").get(),
+  ]);
+
+  if (!userDoc.exists) {
+    logger.warn(`User ${userId} not found for reputation calculation`);
+  }
+
+  const reputation = await recalculateFromData(
+    userId,
+    userDoc.data() ?? {},
+    privateDoc.data() ?? {},
+    cause,
+    {...options, skipUnchanged: false}
+  );
+  return reputation as ReputationData;
+}
+
+/**
+ * Recalculate reputation from already-fetched user and private documents
+ * Writes the reputation and the denormalized tier in one batch, plus a history
+ * entry when something worth explaining changed (see shouldRecordHistory).
+ *
+ * @returns The updated reputation data, or null if skipped (see skipUnchanged)
+ */
+export async function recalculateFromData(
+  userId: string,
+  userData: FirebaseFirestore.DocumentData,
+  privateData: FirebaseFirestore.DocumentData,
+  cause: ReputationChangeCause,
+  options: RecalculateOptions = {}
+): Promise<ReputationData | null> {
+  logger.info(`Recalculating reputation for user ${userId} (${cause})`);
+  const {forceSignals, decaySettings, runId, skipUnchanged} = options;
 
-  // Gather current signals
-  const signals = await gatherSignals(userId);
+  // Calculate current signals
+  const signals = computeSignals(userData, privateData);
 
   // Apply any forced signals (for real-time updates)
   if (forceSignals) {
     Object.assign(signals, forceSignals);
   }
 
+  // Existing reputation data, to preserve some fields
+  const existingReputation = privateData.reputation as ReputationData | undefined;
+  const today = new Date().toISOString().split("T")[0];
+
+  // Advance decay (daily batch only), then apply it if decay is rolled out
+  const settings = decaySettings ?? await getDecaySettings();
+  let decay = existingReputation?.decay;
+  let negative = false;
+  if (decaySettings && settings.mode !== "off") {
+    negative = hasNegativePattern(signals, privateData, decay);
+    decay = advanceDecay(decay, negative, privateData, settings, today);
+  }
+
   // Calculate score and tier
-  const score = calculateScore(signals);
+  const rawScore = calculateScore(signals);
+  const score = settings.mode === "on" ? applyDecay(rawScore, decay?.factor ?? 0) : rawScore;
   const tier = scoreToTier(score);
 
-  // Get existing reputation data to preserve some fields
-  const privateDoc = await db
-    .collection("users")
-    .doc(userId)
-    .collection("private")
-    .doc("data")
-    .get();
-
-  const privateData = privateDoc.data();
-  const existingReputation = privateData?.reputation as ReputationData | undefined;
+  if (skipUnchanged && canSkipRecalculation(existingReputation, privateData, signals, tier, settings.mode, negative)) {
+    return null;
+  }
 
   const tierConfig = getTierConfig(tier);
   const now = Timestamp.now();
-  const today = new Date().toISOString().split("T")[0];
 
   // Check if tier changed
   const tierChanged = existingReputation?.tier !== tier;
@@ -237,23 +311,43 @@ export async function recalculateReputation(
       (existingReputation?.higherTierConversationsToday ?? 0) :
       0,
     lastConversationDate: existingReputation?.lastConversationDate ?? today,
+    ...(decay ? {decay} : {}),
+    ...(runId ? {lastRunId: runId} : {}),
   };
 
-  // Write to Firestore
-  await db
-    .collection("users")
-    .doc(userId)
-    .collection("private")
-    .doc("data")
-    .set(
-      {reputation: reputationData},
-      {merge: true}
-    );
+  // Append to the history so tier changes can be explained later
+  const recordHistory = shouldRecordHistory(existingReputation, signals, tier, decay?.factor ?? 0);
+  const historyEntry: ReputationHistoryEntry = {
+    tier,
+    previousTier: existingReputation?.tier ?? null,
+    score,
+    signals,
+    decayFactor: decay?.factor ?? 0,
+    cause,
+    createdAt: now,
+  };
+
+  const userRef = db.collection("users").doc(userId);
+  const batch = db.batch();
+
+  batch.set(
+    userRef.collection("private").doc("data"),
+    runId ? {
+      reputation: {...reputationData, messagesSentToday: 0, lastMessageDate: today},
+      // Clear burst score if it was temporary
+      burstScore: FieldValue.delete(),
+    } : {reputation: reputationData},
+    {merge: true}
+  );
 
   // Also denormalize tier to main user document for efficient queries
-  await db.collection("users").doc(userId).update({
-    reputationTier: tier,
-  });
+  batch.update(userRef, {reputationTier: tier});
+
+  if (recordHistory) {
+    batch.set(userRef.collection("reputationHistory").doc(), historyEntry);
+  }
+
+  await batch.commit();
 
   if (tierChanged) {
     logger.info(
@@ -264,95 +358,6 @@ export async function recalculateReputation(
   return reputationData;
 }
 
-// ============================================================================
-// SCHEDULED FUNCTIONS
-// ============================================================================
-
-/**
- * Daily scheduled job to recalculate all user reputations
- * Runs at 3 AM UTC
- *
- * This handles:
- * - Recalculating all signals that need aggregation (response rate, etc.)
- * - Applying decay for inactive/misbehaving users
- * - Resetting daily counters
- */
-export const calculateAllReputations = onSchedule(
-  {
-    schedule: "0 3 * * *", // 3 AM UTC daily
-    timeZone: "UTC",
-    region: "us-central1",
-    timeoutSeconds: 540, // 9 minutes max
-    memory: "512MiB",
-  },
-  async () => {
-    logger.info("Starting daily reputation calculation");
-    const startTime = Date.now();
-
-    try {
-      // Get all users with completed onboarding
-      const usersSnapshot = await db
-        .collection("users")
-        .where("onboardingCompleted", "==", true)
-        .select() // Only fetch document IDs, not full data
-        .get();
-
-      logger.info(`Processing ${usersSnapshot.size} users`);
-
-      let processed = 0;
-      let errors = 0;
-      const today = new Date().toISOString().split("T")[0];
-
-      // Process in batches to avoid memory issues
-      const batchSize = 50;
-      const userIds = usersSnapshot.docs.map((doc) => doc.id);
-
-      for (let i = 0; i < userIds.length; i += batchSize) {
-        const batch = userIds.slice(i, i + batchSize);
-
-        await Promise.all(
-          batch.map(async (userId) => {
-            try {
-              // Recalculate reputation
-              await recalculateReputation(userId);
-
-              // Reset daily message counter
-              await db
-                .collection("users")
-                .doc(userId)
-                .collection("private")
-                .doc("data")
-                .update({
-                  "reputation.messagesSentToday": 0,
-                  "reputation.lastMessageDate": today,
-                  // Clear burst score if it was temporary
-                  "burstScore": FieldValue.delete(),
-                });
-
-              processed++;
-            } catch (error) {
-              logger.error(`Error processing user ${userId}:`, error);
-              errors++;
-            }
-          })
-        );
-
-        // Log progress
-        logger.info(`Processed ${Math.min(i + batchSize, userIds.length)}/${userIds.length}`);
-      }
-
-      const duration = (Date.now() - startTime) / 1000;
-      logger.info(
-        "Daily reputation calculation complete. " +
-        `Processed: ${processed}, Errors: ${errors}, Duration: ${duration}s`
-      );
-    } catch (error) {
-      logger.error("Fatal error in daily reputation calculation:", error);
-      throw error;
-    }
-  }
-);
-
 // ============================================================================
 // CALLABLE FUNCTIONS
 // ============================================================================
@@ -524,7 +529,7 @@ export const reportUser = onCall<{
       await batch.commit();
 
       // Trigger real-time reputation recalculation for reported user
-      await recalculateReputation(userId);
+      await recalculateReputation(userId, "report");
 
       logger.info(`Report created for user ${userId}, reputation recalculated`);
 
@@ -561,7 +566,7 @@ export const getReputationStatus = onCall<void>(
 
       if (!reputation) {
         // User hasn't been calculated yet - do it now
-        const newReputation = await recalculateReputation(userId);
+        const newReputation = await recalculateReputation(userId, "manual");
         const isUnlimited = newReputation.dailyHigherTierConversationLimit === -1;
         return {
           tier: newReputation.tier,
@@ -589,6 +594,134 @@ export const getReputationStatus = onCall<void>(
   }
 );
 
+// How many history entries to scan, and how many timeline items to return
+const HISTORY_SCAN_LIMIT = 100;
+const HISTORY_MAX_RESULTS = 20;
+
+// Minimum signal movement worth explaining
+const EXPLANATION_RATIO_THRESHOLD = 0.05;
+const EXPLANATION_PROFILE_THRESHOLD = 5; // Profile completion points
+
+/**
+ * Explain a history entry by comparing its signals with the entry before it
+ * Returns codes only - never the score or raw signal values.
+ */
+export function explainChange(
+  entry: ReputationHistoryEntry,
+  previous: ReputationHistoryEntry | undefined
+): ReputationExplanation[] {
+  const explanations: ReputationExplanation[] = [];
+  const tierChanged = entry.previousTier !== null && entry.tier !== entry.previousTier;
+
+  if (previous) {
+    const current = entry.signals;
+    const before = previous.signals;
+
+    const compare = (
+      now: number,
+      then: number,
+      threshold: number,
+      up: ReputationExplanation,
+      down: ReputationExplanation
+    ): void => {
+      const delta = (now ?? 0) - (then ?? 0);
+      if (delta >= threshold) explanations.push(up);
+      else if (delta <= -threshold) explanations.push(down);
+    };
+
+    if (current.identityVerified && !before.identityVerified) {
+      explanations.push("identity_verified");
+    }
+    compare(current.profileCompletion, before.profileCompletion, EXPLANATION_PROFILE_THRESHOLD,
+      "profile_completion_up", "profile_completion_down");
+    compare(current.responseRate, before.responseRate, EXPLANATION_RATIO_THRESHOLD,
+      "response_rate_up", "response_rate_down");
+    compare(current.conversationQuality, before.conversationQuality, EXPLANATION_RATIO_THRESHOLD,
+      "conversation_quality_up", "conversation_quality_down");
+    compare(current.ghostRate, before.ghostRate, EXPLANATION_RATIO_THRESHOLD,
+      "ghost_rate_up", "ghost_rate_down");
+    compare(current.blockRatio, before.blockRatio, EXPLANATION_RATIO_THRESHOLD,
+      "blocks_up", "blocks_down");
+    compare(current.reportRatio, before.reportRatio, EXPLANATION_RATIO_THRESHOLD,
+      "reports_up", "reports_down");
+    if (current.burstScore > 0 && !(before.burstScore > 0)) {
+      explanations.push("burst_detected");
+    }
+    if (entry.decayFactor > 0 && !(previous.decayFactor > 0)) {
+      explanations.push("decay_started");
+    } else if (!(entry.decayFactor > 0) && previous.decayFactor > 0) {
+      explanations.push("decay_cleared");
+    }
+  }
+
+  if (tierChanged && explanations.length === 0) {
+    explanations.push("gradual_change");
+  }
+
+  return explanations;
+}
+
+/**
+ * Get the current user's reputation timeline
+ * Returns tier changes and notable signal changes with user-safe explanations,
+ * newest first. The score and raw signals are never returned.
+ *
+ * Block, report and moderation causes are collapsed into "member_feedback" so
+ * the timeline can't be used to pinpoint who blocked or reported the user.
+ */
+export const getReputationHistory = onCall<void>(
+  {region: "us-central1"},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+
+    const userId = request.auth.uid;
+
+    try {
+      // One extra entry so the oldest scanned entry has something to compare with
+      const snapshot = await db
+        .collection("users")
+        .doc(userId)
+        .collection("reputationHistory")
+        .orderBy("createdAt", "desc")
+        .limit(HISTORY_SCAN_LIMIT + 1)
+        .get();
+
+      const entries = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...(doc.data() as ReputationHistoryEntry),
+      }));
+
+      const timeline = [];
+      const scanned = Math.min(entries.length, HISTORY_SCAN_LIMIT);
+      for (let i = 0; i < scanned && timeline.length < HISTORY_MAX_RESULTS; i++) {
+        const entry = entries[i];
+        const explanations = explainChange(entry, entries[i + 1]);
+        if (explanations.length === 0) continue;
+
+        const isMemberFeedback = entry.cause === "block" ||
+          entry.cause === "report" ||
+          entry.cause === "moderation";
+
+        timeline.push({
+          id: entry.id,
+          tier: entry.tier,
+          previousTier: entry.previousTier,
+          cause: isMemberFeedback ? "member_feedback" : entry.cause,
+          explanations,
+          createdAt: entry.createdAt.toMillis(),
+        });
+      }
+
+      return {entries: timeline};
+    } catch (error) {
+      logger.error("Error getting reputation history:", error);
+      throw new HttpsError("internal", "Failed to get reputation history");
+    }
+  }
+);
+
 /**
  * Initialize reputation for a new user
  * Called after onboarding completion
@@ -677,7 +810,7 @@ export const refreshMyReputation = onCall<void>(
     try {
       logger.info(`Manual reputation refresh requested for user ${userId}`);
 
-      const newReputation = await recalculateReputation(userId);
+      const newReputation = await recalculateReputation(userId, "manual");
 
       return {
         success: true,
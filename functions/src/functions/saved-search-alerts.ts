@@ -0,0 +1,255 @@
+/**
+ * Saved-Search Alerts
+ * Notifies users when new profiles match a saved view with alerts enabled
+ *
+ * Runs every 15 minutes. Each due view is checked incrementally: only profiles
+ * whose searchIndex entry became searchable (searchableSince) after the view's
+ * alertLastRunAt are considered, then the view's saved filters are applied with
+ * the same in-memory pipeline discovery uses. Matches become
+ * "saved_search_match" activities, plus an optional email digest.
+ *
+ * Frequency: "instant" views are due on every run, "daily"/"weekly" views
+ * once per interval (see SEARCH_ALERT_INTERVAL_MS). Each view reports at most
+ * alertMaxPerRun matches per run.
+ */
+
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {Timestamp} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import {db} from "../config/firebase";
+import {getConfig, RemoteConfigValues} from "../config/remote-config";
+import {ActivityService, initializeEmailService, sendSavedSearchDigestEmail} from "../services";
+import {SearchIndexEntry} from "../types";
+import {
+  applyInMemoryFilters,
+  buildCandidate,
+  buildSearcherProfile,
+  getBlockedUserIds,
+  getPassedUserIds,
+  matchesIndexFilters,
+  sanitizeSearchFilters,
+  GeoLocation,
+  SavedView,
+  SearchFilters,
+  SEARCH_ALERT_INTERVAL_MS,
+  SEARCH_ALERT_MAX_PER_RUN,
+} from "./discovery";
+
+// Per-run limits, so one run always finishes within the timeout
+const MAX_VIEWS_PER_RUN = 500;
+const MAX_NEW_PROFILES_PER_RUN = 1000;
+
+/**
+ * Scheduled: check due saved views for new matching profiles
+ */
+export const runSavedSearchAlerts = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    timeZone: "UTC",
+    region: "us-central1",
+    timeoutSeconds: 540,
+    memory: "512MiB",
+    secrets: ["SENDGRID_API_KEY", "SENDGRID_FROM_EMAIL"],
+  },
+  async () => {
+    const runStartedAt = Timestamp.now();
+
+    try {
+      const dueViewsSnapshot = await db
+        .collectionGroup("savedViews")
+        .where("alertsEnabled", "==", true)
+        .where("alertNextRunAt", "<=", runStartedAt)
+        .limit(MAX_VIEWS_PER_RUN)
+        .get();
+
+      if (dueViewsSnapshot.empty) {
+        logger.info("No saved search alerts due");
+        return;
+      }
+
+      // Fetch every profile that's new since the oldest due view's last run
+      const windowStart = dueViewsSnapshot.docs.reduce((earliest, doc) => {
+        const lastRunAt = (doc.data() as SavedView).alertLastRunAt;
+        return lastRunAt && lastRunAt.toMillis() < earliest.toMillis() ? lastRunAt : earliest;
+      }, runStartedAt);
+
+      const newProfilesSnapshot = await db
+        .collection("searchIndex")
+        .where("searchableSince", ">", windowStart)
+        .where("searchableSince", "<=", runStartedAt)
+        .orderBy("searchableSince")
+        .limit(MAX_NEW_PROFILES_PER_RUN)
+        .get();
+      const newEntries = newProfilesSnapshot.docs.map((doc) => doc.data() as SearchIndexEntry);
+
+      // If we hit the cap, this run only covers up to the last profile fetched;
+      // the rest are picked up next run
+      const coveredUntil = newProfilesSnapshot.size === MAX_NEW_PROFILES_PER_RUN ?
+        newEntries[newEntries.length - 1].searchableSince :
+        runStartedAt;
+
+      // Group views by owner so each owner's profile and blocks are read once
+      const viewsByOwner = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
+      dueViewsSnapshot.docs.forEach((doc) => {
+        const ownerId = doc.ref.parent.parent?.id;
+        if (!ownerId) return;
+        viewsByOwner.set(ownerId, [...(viewsByOwner.get(ownerId) || []), doc]);
+      });
+
+      initializeEmailService();
+      const config = await getConfig();
+
+      let alertsSent = 0;
+      let errors = 0;
+      const owners = Array.from(viewsByOwner.entries());
+      const batchSize = 10;
+      for (let i = 0; i < owners.length; i += batchSize) {
+        const batch = owners.slice(i, i + batchSize);
+        const results = await Promise.allSettled(
+          batch.map(([ownerId, views]) =>
+            processOwnerViews(ownerId, views, newEntries, coveredUntil, runStartedAt, config)
+          )
+        );
+        results.forEach((result) => {
+          if (result.status === "fulfilled") {
+            alertsSent += result.value;
+          } else {
+            errors++;
+            logger.error("Error processing saved search alerts:", result.reason);
+          }
+        });
+      }
+
+      logger.info(
+        `Saved search alerts: ${dueViewsSnapshot.size} views, ${newEntries.length} new profiles, ` +
+        `${alertsSent} alerts, ${errors} errors`
+      );
+    } catch (error) {
+      logger.error("Error running saved search alerts:", error);
+      throw error;
+    }
+  }
+);
+
+// Helper functions
+
+/**
+ * Run all due views for one user
+ *
+ * @returns Number of alerts created
+ */
+async function processOwnerViews(
+  ownerId: string,
+  views: FirebaseFirestore.QueryDocumentSnapshot[],
+  newEntries: SearchIndexEntry[],
+  coveredUntil: Timestamp,
+  runStartedAt: Timestamp,
+  config: RemoteConfigValues
+): Promise<number> {
+  const [ownerDoc, blockedUserIds, passedUserIds] = await Promise.all([
+    db.collection("users").doc(ownerId).get(),
+    getBlockedUserIds(ownerId),
+    getPassedUserIds(ownerId),
+  ]);
+  const ownerData = ownerDoc.data();
+  if (!ownerData) return 0;
+
+  const searcher = buildSearcherProfile(ownerData);
+  const location = ownerData.onboarding?.location as GeoLocation | undefined;
+
+  let alertsSent = 0;
+  for (const viewDoc of views) {
+    const view = viewDoc.data() as SavedView;
+    const alertWindow = getAlertWindow(view.alertLastRunAt, coveredUntil);
+
+    const windowEntries = newEntries.filter((entry) =>
+      entry.searchableSince.toMillis() > alertWindow.start.toMillis() &&
+      entry.searchableSince.toMillis() <= alertWindow.end.toMillis() &&
+      entry.uid !== ownerId &&
+      !blockedUserIds.has(entry.uid) &&
+      !passedUserIds.has(entry.uid)
+    );
+
+    const filters = withProfilePreferences(sanitizeSearchFilters(view.filters), ownerData.onboarding);
+    const candidates = windowEntries
+      .filter((entry) => matchesIndexFilters(entry, filters))
+      .map((entry) => buildCandidate(entry, location, searcher, config));
+
+    // Newest first, capped per run
+    const maxPerRun = Math.min(view.alertMaxPerRun ?? SEARCH_ALERT_MAX_PER_RUN, SEARCH_ALERT_MAX_PER_RUN);
+    const matches = applyInMemoryFilters(candidates, filters, searcher, location)
+      .sort((a, b) => b.createdAtTimestamp - a.createdAtTimestamp)
+      .slice(0, maxPerRun);
+
+    await Promise.all(matches.map((match) =>
+      ActivityService.createActivity(
+        ownerId,
+        "saved_search_match",
+        match.uid,
+        match.displayName || "Someone",
+        match.photoURL,
+        `/user/${match.uid}`
+      )
+    ));
+
+    if (view.alertEmail && matches.length > 0) {
+      await sendSavedSearchDigestEmail(
+        ownerId,
+        view.name,
+        matches.map((m) => ({uid: m.uid, displayName: m.displayName}))
+      );
+    }
+
+    const interval = SEARCH_ALERT_INTERVAL_MS[view.alertFrequency ?? "daily"] ?? SEARCH_ALERT_INTERVAL_MS.daily;
+    await viewDoc.ref.update({
+      alertLastRunAt: alertWindow.nextLastRunAt,
+      alertNextRunAt: Timestamp.fromMillis(runStartedAt.toMillis() + interval),
+      alertLastMatchCount: matches.length,
+    });
+
+    alertsSent += matches.length;
+  }
+
+  return alertsSent;
+}
+
+/**
+ * The searchableSince range (start, end] a view covers in this run, and where
+ * its next run starts
+ * When the profile cap was hit, coveredUntil can be older than the last run of
+ * a view that ran more recently; that view gets an empty window and keeps its
+ * alertLastRunAt, so it doesn't report the same profiles again.
+ */
+export function getAlertWindow(
+  lastRunAt: Timestamp | undefined,
+  coveredUntil: Timestamp
+): {start: Timestamp; end: Timestamp; nextLastRunAt: Timestamp} {
+  const start = lastRunAt ?? coveredUntil;
+  return {
+    start,
+    end: coveredUntil,
+    nextLastRunAt: start.toMillis() > coveredUntil.toMillis() ? start : coveredUntil,
+  };
+}
+
+/**
+ * Merge the owner's own dating preferences into a saved view's filters,
+ * the same way the app does before calling searchProfiles
+ * (age range and interested-in come from the profile, not the view).
+ */
+function withProfilePreferences(
+  filters: SearchFilters,
+  onboarding: FirebaseFirestore.DocumentData | undefined
+): SearchFilters {
+  const interestedIn: string[] = onboarding?.interestedIn || [];
+  return {
+    ...filters,
+    minAge: onboarding?.ageRangeMin ?? 18,
+    maxAge: onboarding?.ageRangeMax ?? 99,
+    genderIdentity: interestedIn.map((interest) => {
+      if (interest === "men") return "man";
+      if (interest === "women") return "woman";
+      return interest;
+    }),
+  };
+}
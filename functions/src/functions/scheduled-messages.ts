@@ -0,0 +1,205 @@
+/**
+ * Scheduled Message Delivery
+ * Sends messages users scheduled with "send later" once they're due
+ *
+ * Scheduled messages live in conversations/{conversationId}/scheduledMessages
+ * and are created, edited and cancelled by their sender from the client
+ * (see firestore.rules). Every minute, due ones are delivered as ordinary
+ * text messages, so onMessageCreated handles activity, email and metrics
+ * exactly as for a message sent live.
+ *
+ * Permission is re-checked at send time with evaluateMessagePermission. If
+ * either user has blocked the other, or the sender has since been suspended or
+ * banned, the scheduled message is dropped (deleted without a trace); any other
+ * refusal marks it "failed" so the sender can see why and reschedule or cancel it.
+ */
+
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {FieldValue, Timestamp} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import {db} from "../config/firebase";
+import {evaluateMessagePermission, MessagePermissionResult} from "./messages";
+
+// Per-run limit, so one run always finishes within the timeout
+const MAX_DELIVERIES_PER_RUN = 500;
+
+/**
+ * A message waiting to be sent
+ */
+interface ScheduledMessage {
+  senderId: string;
+  recipientId: string;
+  content: string;
+  sendAt: Timestamp;
+  status: "scheduled" | "failed";
+  failureReason?: string;
+}
+
+type DeliveryOutcome = "sent" | "dropped" | "failed" | "skipped";
+
+/**
+ * Why a due message isn't sent: dropped (deleted) or failed (kept for the sender)
+ */
+export interface DeliveryRefusal {
+  outcome: "dropped" | "failed";
+  reason: string;
+}
+
+/**
+ * Scheduled: deliver scheduled messages that are due
+ */
+export const deliverScheduledMessages = onSchedule(
+  {
+    schedule: "every 1 minutes",
+    timeZone: "UTC",
+    region: "us-central1",
+    timeoutSeconds: 300,
+    memory: "256MiB",
+  },
+  async () => {
+    try {
+      const dueSnapshot = await db
+        .collectionGroup("scheduledMessages")
+        .where("status", "==", "scheduled")
+        .where("sendAt", "<=", Timestamp.now())
+        .orderBy("sendAt")
+        .limit(MAX_DELIVERIES_PER_RUN)
+        .get();
+
+      if (dueSnapshot.empty) {
+        return;
+      }
+
+      const counts: Record<DeliveryOutcome | "errors", number> = {
+        sent: 0,
+        dropped: 0,
+        failed: 0,
+        skipped: 0,
+        errors: 0,
+      };
+      const batchSize = 10;
+      for (let i = 0; i < dueSnapshot.docs.length; i += batchSize) {
+        const batch = dueSnapshot.docs.slice(i, i + batchSize);
+        const results = await Promise.allSettled(batch.map((doc) => deliverScheduledMessage(doc)));
+        results.forEach((result) => {
+          if (result.status === "fulfilled") {
+            counts[result.value]++;
+          } else {
+            counts.errors++;
+            logger.error("Error delivering scheduled message:", result.reason);
+          }
+        });
+      }
+
+      logger.info(
+        `Scheduled messages: ${counts.sent} sent, ${counts.dropped} dropped, ` +
+        `${counts.failed} failed, ${counts.skipped} skipped, ${counts.errors} errors`
+      );
+    } catch (error) {
+      logger.error("Error running scheduled message delivery:", error);
+    }
+  }
+);
+
+/**
+ * Deliver one due scheduled message
+ */
+async function deliverScheduledMessage(
+  scheduledDoc: FirebaseFirestore.QueryDocumentSnapshot
+): Promise<DeliveryOutcome> {
+  const scheduled = scheduledDoc.data() as ScheduledMessage;
+  const conversationRef = scheduledDoc.ref.parent.parent;
+  if (!conversationRef) return "skipped";
+
+  // Re-check permission (including block state) and both accounts as of now,
+  // not as of scheduling
+  const [permission, senderDoc, recipientDoc] = await Promise.all([
+    evaluateMessagePermission(scheduled.senderId, scheduled.recipientId),
+    db.collection("users").doc(scheduled.senderId).get(),
+    db.collection("users").doc(scheduled.recipientId).get(),
+  ]);
+  const refusal = checkScheduledDelivery(permission, senderDoc.data(), recipientDoc.data());
+  if (refusal?.outcome === "dropped") {
+    await scheduledDoc.ref.delete();
+    logger.info(`Dropped scheduled message ${scheduledDoc.id}: ${refusal.reason}`);
+    return "dropped";
+  }
+  if (refusal) {
+    await markFailed(scheduledDoc.ref, refusal.reason);
+    return "failed";
+  }
+
+  // Send and remove the scheduled copy together; re-read it first so an edit
+  // or cancel that landed since the query wins
+  return db.runTransaction(async (transaction) => {
+    const current = await transaction.get(scheduledDoc.ref);
+    const data = current.data() as ScheduledMessage | undefined;
+    if (!data || data.status !== "scheduled" || data.sendAt.toMillis() > Date.now()) {
+      return "skipped";
+    }
+
+    const messageRef = conversationRef.collection("messages").doc();
+    transaction.create(messageRef, {
+      conversationId: conversationRef.id,
+      senderId: data.senderId,
+      content: data.content,
+      createdAt: FieldValue.serverTimestamp(),
+      type: "text",
+    });
+    transaction.update(conversationRef, {
+      lastMessage: {
+        content: data.content,
+        senderId: data.senderId,
+        createdAt: FieldValue.serverTimestamp(),
+      },
+      updatedAt: FieldValue.serverTimestamp(),
+      [`unreadCount.${data.recipientId}`]: FieldValue.increment(1),
+    });
+    transaction.delete(scheduledDoc.ref);
+    return "sent";
+  });
+}
+
+/**
+ * Decide whether a due message can be sent, given the current permission check
+ * and both user documents
+ * Returns null if it can be sent.
+ */
+export function checkScheduledDelivery(
+  permission: MessagePermissionResult,
+  senderData: FirebaseFirestore.DocumentData | undefined,
+  recipientData: FirebaseFirestore.DocumentData | undefined
+): DeliveryRefusal | null {
+  // Suspended or banned senders don't get to send through the scheduler either
+  if (senderData?.moderationStatus) {
+    return {outcome: "dropped", reason: "sender_moderated"};
+  }
+  if (!permission.allowed && permission.reason === "blocked") {
+    return {outcome: "dropped", reason: "blocked"};
+  }
+  if (!senderData || senderData.settings?.account?.disabled === true) {
+    return {outcome: "failed", reason: "sender_unavailable"};
+  }
+  if (!permission.allowed) {
+    return {outcome: "failed", reason: permission.reason ?? "not_allowed"};
+  }
+  if (!recipientData || recipientData.settings?.account?.disabled === true) {
+    return {outcome: "failed", reason: "recipient_unavailable"};
+  }
+  return null;
+}
+
+/**
+ * Mark a scheduled message as failed so its sender can see why
+ */
+async function markFailed(
+  ref: FirebaseFirestore.DocumentReference,
+  reason: string
+): Promise<void> {
+  await ref.update({
+    status: "failed",
+    failureReason: reason,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  logger.info(`Scheduled message ${ref.id} failed: ${reason}`);
+}
@@ -0,0 +1,264 @@
+/**
+ * Search Index Cloud Functions
+ * Maintains the searchIndex/{uid} projection used by discovery
+ *
+ * The projection combines public profile fields with the two private fields
+ * discovery needs (profileProgress and reputation tier), already masked by the
+ * user's privacy settings. Discovery queries it directly instead of reading
+ * users/{uid}/private/data for every candidate.
+ *
+ * Sync triggers:
+ * - users/{uid} written: rebuild (or delete when no longer searchable) when the
+ *   projected entry changed; lastActiveAt heartbeats only count once they cross
+ *   a LAST_ACTIVE_RESOLUTION_MS boundary
+ * - users/{uid}/private/data written: rebuild when progress or tier changed
+ */
+
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {Timestamp} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import {db} from "../config/firebase";
+import {ReputationTier, SearchIndexEntry, toAgeBucket} from "../types";
+
+// lastActiveAt changes on every heartbeat; the index follows it in steps of this
+// size, well inside the 15-minute "online now" window
+const LAST_ACTIVE_RESOLUTION_MS = 5 * 60 * 1000;
+
+/**
+ * Build the search index entry for a user, or null if they shouldn't be searchable
+ */
+export function buildSearchIndexEntry(
+  userId: string,
+  userData: FirebaseFirestore.DocumentData,
+  privateData: FirebaseFirestore.DocumentData | undefined,
+  searchableSince: Timestamp = Timestamp.now()
+): SearchIndexEntry | null {
+  if (userData.onboardingCompleted !== true || userData.isSearchable !== true) {
+    return null;
+  }
+
+  const onboarding = userData.onboarding || {};
+
+  // Privacy settings
+  const privacySettings = userData.settings?.privacy || {};
+  const showOnlineStatus = privacySettings.showOnlineStatus !== false;
+  const showLastActive = privacySettings.showLastActive !== false;
+  const showLocation = privacySettings.showLocation !== false;
+  const canShowActivity = showOnlineStatus || showLastActive;
+
+  const location = onboarding.location?.latitude && onboarding.location?.longitude ?
+    {latitude: onboarding.location.latitude, longitude: onboarding.location.longitude} :
+    null;
+  const birthDate: string = onboarding.birthDate || "";
+
+  return {
+    uid: userId,
+    displayName: userData.displayName ?? null,
+    birthDate,
+    ageBucket: toAgeBucket(calculateAge(birthDate)),
+    geohash: userData.geohash ?? null,
+    location,
+    city: showLocation ? onboarding.city ?? null : null,
+    country: showLocation ? onboarding.country ?? null : null,
+    lastActiveAt: canShowActivity ? (userData.lastActiveAt as Timestamp | undefined) ?? null : null,
+    showOnlineStatus,
+    showLastActive,
+    showLocation,
+    createdAt: (userData.createdAt as Timestamp | undefined) ?? null,
+    genderIdentity: onboarding.genderIdentity || "",
+    lifestyle: onboarding.lifestyle || "",
+    connectionTypes: onboarding.connectionTypes || [],
+    values: onboarding.values || [],
+    supportOrientation: onboarding.supportOrientation || "",
+    tagline: onboarding.tagline || "",
+    interestedIn: onboarding.interestedIn || [],
+    ageRangeMin: onboarding.ageRangeMin ?? null,
+    ageRangeMax: onboarding.ageRangeMax ?? null,
+    photoURL: userData.photoURL || (onboarding.photoDetails?.[0] as { url?: string })?.url || null,
+    photos: [...(onboarding.photoDetails || [])]
+      .sort((a: { order?: number }, b: { order?: number }) => (a.order ?? 0) - (b.order ?? 0))
+      .map((p: { url: string }) => p.url),
+    identityVerified: userData.identityVerified === true,
+    isFounder: userData.isFounder === true,
+    profileProgress: privateData?.profileProgress ?? 0,
+    reputationTier: (privateData?.reputation?.tier ?? "new") as ReputationTier,
+    ethnicity: onboarding.ethnicity ?? null,
+    relationshipStatus: onboarding.relationshipStatus ?? null,
+    children: onboarding.children ?? null,
+    smoker: onboarding.smoker ?? null,
+    drinker: onboarding.drinker ?? null,
+    education: onboarding.education ?? null,
+    occupation: onboarding.occupation ?? null,
+    height: onboarding.height ?? null,
+    income: onboarding.income ?? null,
+    searchableSince,
+    updatedAt: Timestamp.now(),
+  };
+}
+
+/**
+ * Whether a write to the user document changes their search index entry
+ * Private fields, searchableSince and updatedAt aren't affected by the user
+ * document and are left out; lastActiveAt is compared at LAST_ACTIVE_RESOLUTION_MS.
+ */
+export function searchIndexEntryChanged(
+  userId: string,
+  beforeData: FirebaseFirestore.DocumentData | undefined,
+  afterData: FirebaseFirestore.DocumentData | undefined
+): boolean {
+  const epoch = Timestamp.fromMillis(0);
+  const before = beforeData ? buildSearchIndexEntry(userId, beforeData, undefined, epoch) : null;
+  const after = afterData ? buildSearchIndexEntry(userId, afterData, undefined, epoch) : null;
+  if (!before || !after) {
+    return before !== after;
+  }
+  return projectionKey(before) !== projectionKey(after);
+}
+
+/**
+ * Comparable form of the fields of an entry that come from the user document
+ */
+function projectionKey(entry: SearchIndexEntry): string {
+  const lastActiveStep = entry.lastActiveAt ?
+    Math.floor(entry.lastActiveAt.toMillis() / LAST_ACTIVE_RESOLUTION_MS) :
+    null;
+  return JSON.stringify({...entry, lastActiveAt: lastActiveStep, searchableSince: null, updatedAt: null});
+}
+
+/**
+ * Rebuild a user's search index entry from their current documents
+ *
+ * @param userData - Current user document data if already known (saves a read)
+ */
+export async function syncSearchIndex(
+  userId: string,
+  userData?: FirebaseFirestore.DocumentData
+): Promise<void> {
+  const indexRef = db.collection("searchIndex").doc(userId);
+
+  const [userDoc, privateDoc, existingDoc] = await Promise.all([
+    userData ? Promise.resolve(null) : db.collection("users").doc(userId).get(),
+    db.collection("users").doc(userId).collection("private").doc("data").get(),
+    indexRef.get(),
+  ]);
+  const currentUserData = userData ?? userDoc?.data();
+
+  // Keep searchableSince while the user stays searchable
+  // (entries written before the field existed fall back to the account creation time)
+  const existingEntry = existingDoc.data();
+  const searchableSince: Timestamp =
+    existingEntry?.searchableSince ??
+    (existingEntry ? currentUserData?.createdAt : undefined) ??
+    Timestamp.now();
+  const entry = currentUserData ?
+    buildSearchIndexEntry(userId, currentUserData, privateDoc.data(), searchableSince) :
+    null;
+
+  if (entry) {
+    await indexRef.set(entry);
+  } else {
+    await indexRef.delete();
+  }
+}
+
+/**
+ * Trigger: keep searchIndex in sync with the public user document
+ * Writes that don't change the projection (e.g. most lastActiveAt heartbeats)
+ * are skipped.
+ */
+export const onUserWrittenSyncSearchIndex = onDocumentWritten(
+  {
+    document: "users/{userId}",
+    region: "us-central1",
+  },
+  async (event) => {
+    const userId = event.params.userId;
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
+
+    if (!afterData) {
+      // User deleted
+      await db.collection("searchIndex").doc(userId).delete();
+      return;
+    }
+
+    if (!searchIndexEntryChanged(userId, beforeData, afterData)) return;
+
+    await syncSearchIndex(userId, afterData);
+  }
+);
+
+/**
+ * Trigger: keep searchIndex in sync with profile progress and reputation tier
+ * Private data changes often (message metrics), so only resync when a field
+ * discovery uses actually changed.
+ */
+export const onPrivateDataWrittenSyncSearchIndex = onDocumentWritten(
+  {
+    document: "users/{userId}/private/data",
+    region: "us-central1",
+  },
+  async (event) => {
+    const userId = event.params.userId;
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
+
+    if (!afterData) return;
+
+    const progressChanged = beforeData?.profileProgress !== afterData.profileProgress;
+    const tierChanged = beforeData?.reputation?.tier !== afterData.reputation?.tier;
+    if (!progressChanged && !tierChanged) return;
+
+    await syncSearchIndex(userId);
+  }
+);
+
+/**
+ * Rebuild the whole search index (admin only)
+ * Used to backfill entries for users created before the index existed.
+ */
+export const rebuildSearchIndex = onCall(
+  {region: "us-central1", timeoutSeconds: 540},
+  async (request) => {
+    if (!request.auth?.token.admin) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+
+    try {
+      const usersSnapshot = await db
+        .collection("users")
+        .where("onboardingCompleted", "==", true)
+        .get();
+
+      let indexed = 0;
+      const batchSize = 50;
+      for (let i = 0; i < usersSnapshot.docs.length; i += batchSize) {
+        const batch = usersSnapshot.docs.slice(i, i + batchSize);
+        await Promise.all(batch.map((doc) => syncSearchIndex(doc.id, doc.data())));
+        indexed += batch.length;
+      }
+
+      logger.info(`Rebuilt search index for ${indexed} users`);
+      return {success: true, indexed};
+    } catch (error) {
+      logger.error("Error rebuilding search index:", error);
+      throw new HttpsError("internal", "Failed to rebuild search index");
+    }
+  }
+);
+
+/**
+ * Calculate age in years from a YYYY-MM-DD birth date
+ */
+export function calculateAge(birthDate: string): number {
+  if (!birthDate) return 0;
+  const birth = new Date(birthDate);
+  const today = new Date();
+  let age = today.getFullYear() - birth.getFullYear();
+  const monthDiff = today.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
+    age--;
+  }
+  return age;
+}
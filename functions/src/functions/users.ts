@@ -4,7 +4,8 @@
  *
  * Denormalized fields maintained by these triggers:
  * - sortableLastActive: null if user hides activity, otherwise lastActiveAt
- * - isSearchable: false if profile hidden, account disabled, or scheduled for deletion
+ * - isSearchable: false if profile hidden, account disabled, scheduled for deletion,
+ *   or suspended/banned by a moderator
  * - identityVerified: true if identity verification completed (via Veriff)
  * - geohash: encoded location for distance-based queries
  *
@@ -26,6 +27,7 @@ import {
 } from "../types/trust.types";
 import {tryGrantFounderStatus} from "./founders";
 import {initializeReputation} from "./reputation";
+import {encodeGeohash} from "../services/geo.service";
 
 /**
  * Extract file path from a storage URL (handles both emulator and production formats)
@@ -96,50 +98,6 @@ async function syncStorageWithPhotos(
   }
 }
 
-/**
- * Generate a geohash for a lat/lng coordinate
- */
-function encodeGeohash(latitude: number, longitude: number, precision = 9): string {
-  const base32 = "0123456789bcdefghjkmnpqrstuvwxyz";
-  const latRange = {min: -90, max: 90};
-  const lngRange = {min: -180, max: 180};
-  let hash = "";
-  let isLng = true;
-  let bit = 0;
-  let ch = 0;
-
-  while (hash.length < precision) {
-    if (isLng) {
-      const mid = (lngRange.min + lngRange.max) / 2;
-      if (longitude >= mid) {
-        ch |= 1 << (4 - bit);
-        lngRange.min = mid;
-      } else {
-        lngRange.max = mid;
-      }
-    } else {
-      const mid = (latRange.min + latRange.max) / 2;
-      if (latitude >= mid) {
-        ch |= 1 << (4 - bit);
-        latRange.min = mid;
-      } else {
-        latRange.max = mid;
-      }
-    }
-
-    isLng = !isLng;
-    bit++;
-
-    if (bit === 5) {
-      hash += base32[ch];
-      bit = 0;
-      ch = 0;
-    }
-  }
-
-  return hash;
-}
-
 /**
  * Calculate complete trust data based on user profile
  * Returns TrustData with score, tasks, and category breakdowns
@@ -230,9 +188,12 @@ function calculateDenormalizedFields(data: FirebaseFirestore.DocumentData) {
   const accountSettings = data.settings?.account || {};
   const isDisabled = accountSettings.disabled === true;
   const isScheduledForDeletion = accountSettings.scheduledForDeletion === true;
+  const isModerated = !!data.moderationStatus; // Suspended or banned
 
   // Searchability: profile is visible AND not disabled AND not scheduled for deletion
-  const isSearchable = profileVisible && !isDisabled && !isScheduledForDeletion && data.onboardingCompleted === true;
+  // AND not suspended/banned
+  const isSearchable = profileVisible && !isDisabled && !isScheduledForDeletion && !isModerated &&
+    data.onboardingCompleted === true;
 
   // Verification status - use the identityVerified field set by Veriff webhook
   const identityVerified = data.identityVerified === true;
@@ -166,7 +166,7 @@ export const veriffWebhook = onRequest(
         // REPUTATION: Trigger real-time recalculation if user was just verified
         // This provides an immediate tier boost for identity verification
         if (identityVerified) {
-          recalculateReputation(userId).catch((err) => {
+          recalculateReputation(userId, "verification").catch((err) => {
             logger.error("Error recalculating reputation after verification:", err);
           });
           logger.info(`Reputation recalculation triggered for verified user ${userId}`);
@@ -1,15 +1,32 @@
 /**
  * Video Upload Cloud Functions
- * Handles video uploads for conversation messages with thumbnail generation
+ * Handles video uploads for conversation messages
+ *
+ * Flow:
+ * 1. createConversationVideoUpload reserves a message ID, stores the client's
+ *    preview thumbnail and returns a signed resumable upload session scoped to
+ *    conversations/{id}/videos/
+ * 2. The client creates the message (videoStatus "uploading") and uploads the
+ *    file straight to Cloud Storage, reporting progress
+ * 3. onConversationVideoFinalized validates the upload, marks the message
+ *    "processing", transcodes it with ffmpeg and patches the message with the
+ *    playable video, poster frame and duration ("ready"), or marks it "failed"
  *
  * Features:
- * - User must be authenticated
- * - File type validation (MP4, WebM, MOV)
+ * - User must be authenticated and a participant in the conversation
+ * - File type validation (MP4, WebM, MOV), checked again against the uploaded bytes
  * - File size validation (max 100MB)
- * - Thumbnail generation using sharp (from first frame)
- * - Video duration extraction
+ * - Every upload normalized to H.264/AAC MP4 (max 1280px, faststart) so it
+ *   plays in every browser, including iPhone MOVs in Chrome
+ * - Poster frame extracted from the video; duration read from the result
  */
 import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onObjectFinalized} from "firebase-functions/v2/storage";
+import {spawn} from "child_process";
+import {promises as fs} from "fs";
+import * as os from "os";
+import * as path from "path";
+import ffmpegPath from "ffmpeg-static";
 import {bucket, db} from "../config/firebase";
 import * as logger from "firebase-functions/logger";
 import sharp from "sharp";
@@ -23,80 +40,202 @@ const ALLOWED_VIDEO_MIME_TYPES = [
 const MAX_VIDEO_SIZE_BYTES = 100 * 1024 * 1024; // 100MB
 const THUMBNAIL_WIDTH = 320;
 const THUMBNAIL_HEIGHT = 180;
+const MAX_VIDEO_DIMENSION = 1280; // Longest side after transcoding (720p)
+const POSTER_MAX_DIMENSION = 640;
+
+// Uploaded videos land here; the finalize trigger only handles this path
+const VIDEO_PATH_PATTERN = /^conversations\/([^/]+)\/videos\/[^/]+$/;
 
-interface UploadVideoRequest {
-  videoData: string; // Base64 encoded video data
+export type VideoStatus = "uploading" | "processing" | "ready" | "failed";
+
+interface CreateVideoUploadRequest {
+  conversationId: string;
   mimeType: string;
+  size: number; // Bytes
   fileName?: string;
-  conversationId: string;
   thumbnailData?: string; // Optional client-generated thumbnail (base64)
 }
 
-interface UploadVideoResponse {
+interface CreateVideoUploadResponse {
   success: boolean;
-  videoUrl?: string;
+  messageId: string; // ID the client must create the message with
+  uploadUrl: string; // Resumable upload session URI
   thumbnailUrl?: string;
-  duration?: number;
-  error?: string;
 }
 
+type VideoContainer = "mp4" | "webm";
+
 /**
- * Validate that the data is a valid base64 video
+ * Identify the container from its magic bytes (the first 8 bytes are enough)
  */
-function validateBase64Video(
-  base64Data: string,
-  mimeType: string
-): { valid: boolean; error?: string; buffer?: Buffer } {
-  // Remove data URL prefix if present
-  const base64Clean = base64Data.replace(/^data:video\/\w+;base64,/, "");
-
-  // Decode base64
-  let buffer: Buffer;
-  try {
-    buffer = Buffer.from(base64Clean, "base64");
-  } catch {
-    return {valid: false, error: "Invalid base64 encoding"};
+function detectVideoContainer(buffer: Buffer): VideoContainer | null {
+  // MP4 and MOV start with an ftyp box (some MP4s start with mdat, MOVs with moov/wide)
+  if (buffer.length >= 8) {
+    const boxType = buffer.toString("ascii", 4, 8);
+    if (["ftyp", "mdat", "moov", "wide", "free"].includes(boxType)) {
+      return "mp4";
+    }
   }
 
-  // Check file size
-  if (buffer.length > MAX_VIDEO_SIZE_BYTES) {
-    return {
-      valid: false,
-      error: `File size exceeds maximum of ${MAX_VIDEO_SIZE_BYTES / 1024 / 1024}MB`,
-    };
+  // WebM starts with an EBML header
+  if (
+    buffer.length >= 4 &&
+    buffer[0] === 0x1A && buffer[1] === 0x45 && buffer[2] === 0xDF && buffer[3] === 0xA3
+  ) {
+    return "webm";
   }
 
-  // Check MIME type
-  if (!ALLOWED_VIDEO_MIME_TYPES.includes(mimeType)) {
-    return {
-      valid: false,
-      error: `Invalid file type. Allowed types: ${ALLOWED_VIDEO_MIME_TYPES.join(", ")}`,
-    };
+  return null;
+}
+
+/**
+ * Find a child box of the given type between start and end (ISO BMFF)
+ */
+function findMp4Box(
+  buffer: Buffer,
+  start: number,
+  end: number,
+  type: string
+): { start: number; end: number } | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const boxType = buffer.toString("ascii", offset + 4, offset + 8);
+    let headerSize = 8;
+
+    if (size === 1) {
+      // 64-bit size follows the type
+      if (offset + 16 > end) return null;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      // Box extends to the end of its parent
+      size = end - offset;
+    }
+    if (size < headerSize) return null;
+
+    if (boxType === type) {
+      return {start: offset + headerSize, end: Math.min(end, offset + size)};
+    }
+    offset += size;
   }
+  return null;
+}
 
-  // Validate video magic bytes
-  const isMP4 = buffer.length >= 8 && (
-    // ftyp box (standard MP4)
-    (buffer[4] === 0x66 && buffer[5] === 0x74 && buffer[6] === 0x79 && buffer[7] === 0x70) ||
-    // Some MP4s start with mdat
-    (buffer[4] === 0x6D && buffer[5] === 0x64 && buffer[6] === 0x61 && buffer[7] === 0x74) ||
-    // MOV also starts with ftyp
-    (buffer[4] === 0x66 && buffer[5] === 0x74 && buffer[6] === 0x79 && buffer[7] === 0x70)
-  );
-  const isWebM = buffer.length >= 4 &&
-    buffer[0] === 0x1A && buffer[1] === 0x45 && buffer[2] === 0xDF && buffer[3] === 0xA3;
-
-  if (!isMP4 && !isWebM) {
-    return {valid: false, error: "File content does not match a valid video format"};
+/**
+ * Read the duration (seconds) from the movie header of an MP4/MOV file
+ */
+function readMp4Duration(buffer: Buffer): number | undefined {
+  const moov = findMp4Box(buffer, 0, buffer.length, "moov");
+  const mvhd = moov && findMp4Box(buffer, moov.start, moov.end, "mvhd");
+  if (!mvhd) return undefined;
+
+  // Full box: version (1 byte) + flags (3 bytes), then 32- or 64-bit times
+  const version = buffer[mvhd.start];
+  let timescale: number;
+  let duration: number;
+  if (version === 1) {
+    if (mvhd.start + 32 > mvhd.end) return undefined;
+    timescale = buffer.readUInt32BE(mvhd.start + 20);
+    duration = Number(buffer.readBigUInt64BE(mvhd.start + 24));
+  } else {
+    if (mvhd.start + 20 > mvhd.end) return undefined;
+    timescale = buffer.readUInt32BE(mvhd.start + 12);
+    duration = buffer.readUInt32BE(mvhd.start + 16);
   }
 
-  return {valid: true, buffer};
+  return timescale > 0 ? duration / timescale : undefined;
+}
+
+/**
+ * Run ffmpeg, rejecting with the tail of its error output if it fails
+ */
+function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!ffmpegPath) {
+      reject(new Error("ffmpeg binary is not available"));
+      return;
+    }
+
+    const ffmpeg = spawn(ffmpegPath, ["-hide_banner", "-loglevel", "error", "-y", ...args]);
+    let stderr = "";
+    ffmpeg.stderr.on("data", (chunk) => {
+      stderr = (stderr + chunk).slice(-2000);
+    });
+    ffmpeg.on("error", reject);
+    ffmpeg.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+/**
+ * Transcode to web-playable H.264/AAC MP4, longest side capped at
+ * MAX_VIDEO_DIMENSION, with the index up front so playback starts before the
+ * whole file has downloaded. ffmpeg applies rotation metadata (phone videos).
+ */
+function transcodeVideo(inputPath: string, outputPath: string): Promise<void> {
+  const scale = `scale='min(${MAX_VIDEO_DIMENSION},iw)':'min(${MAX_VIDEO_DIMENSION},ih)'` +
+    ":force_original_aspect_ratio=decrease:force_divisible_by=2";
+  return runFfmpeg([
+    "-i", inputPath,
+    "-map", "0:v:0",
+    "-map", "0:a:0?", // Audio is optional
+    "-vf", scale,
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-crf", "23",
+    "-profile:v", "high",
+    "-pix_fmt", "yuv420p",
+    "-c:a", "aac",
+    "-b:a", "128k",
+    "-movflags", "+faststart",
+    outputPath,
+  ]);
+}
+
+/**
+ * Extract one frame as a JPEG poster
+ */
+async function extractPosterFrame(
+  videoPath: string,
+  posterPath: string,
+  duration: number | undefined
+): Promise<Buffer> {
+  // A moment in, past any fade from black, but never beyond a short clip's middle
+  const seekSeconds = duration ? Math.min(1, duration / 2) : 0;
+  await runFfmpeg([
+    "-ss", seekSeconds.toFixed(2),
+    "-i", videoPath,
+    "-frames:v", "1",
+    posterPath,
+  ]);
+
+  return await sharp(posterPath)
+    .resize(POSTER_MAX_DIMENSION, POSTER_MAX_DIMENSION, {fit: "inside", withoutEnlargement: true})
+    .jpeg({quality: 80})
+    .toBuffer();
+}
+
+/**
+ * Get the public download URL for a storage path (emulator or production)
+ */
+function getPublicUrl(filePath: string): string {
+  const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  if (emulatorHost) {
+    return `http://${emulatorHost}/v0/b/${bucket.name}/o/${encodeURIComponent(filePath)}?alt=media`;
+  }
+  return `https://storage.googleapis.com/${bucket.name}/${filePath}`;
 }
 
 /**
  * Verify user is a participant in the conversation
  */
-async function verifyConversationParticipant(
+export async function verifyConversationParticipant(
   userId: string,
   conversationId: string
 ): Promise<boolean> {
@@ -120,13 +259,11 @@ async function verifyConversationParticipant(
 }
 
 /**
- * Generate a thumbnail from client-provided thumbnail data
- * Falls back to a placeholder if no thumbnail is provided
+ * Generate a preview thumbnail from client-provided thumbnail data
+ * Falls back to a placeholder if no thumbnail is provided. Shown while the
+ * video uploads and processes, then replaced by the extracted poster frame.
  */
-async function processThumbnail(
-  thumbnailData: string | undefined,
-  videoBuffer: Buffer
-): Promise<Buffer> {
+async function processThumbnail(thumbnailData: string | undefined): Promise<Buffer> {
   // If client provided a thumbnail, process and optimize it
   if (thumbnailData) {
     try {
@@ -163,13 +300,17 @@ async function processThumbnail(
 }
 
 /**
- * Callable function to upload a video to a conversation
+ * Callable function to start a video upload to a conversation
+ * Returns a resumable upload session the client uploads the file to directly.
  */
-export const uploadConversationVideo = onCall<UploadVideoRequest, Promise<UploadVideoResponse>>(
+export const createConversationVideoUpload = onCall<
+  CreateVideoUploadRequest,
+  Promise<CreateVideoUploadResponse>
+>(
   {
     region: "us-central1",
-    memory: "1GiB", // Large memory for video processing
-    timeoutSeconds: 300, // 5 minutes for large files
+    memory: "512MiB",
+    timeoutSeconds: 60,
     maxInstances: 10,
   },
   async (request) => {
@@ -179,13 +320,27 @@ export const uploadConversationVideo = onCall<UploadVideoRequest, Promise<Upload
     }
 
     const userId = request.auth.uid;
-    const {videoData, mimeType, fileName, conversationId, thumbnailData} = request.data;
+    const {conversationId, mimeType, size, fileName, thumbnailData} = request.data;
 
     // Validate required fields
-    if (!videoData || !mimeType || !conversationId) {
+    if (!conversationId || !mimeType || !size) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Missing required fields: conversationId, mimeType, size"
+      );
+    }
+
+    // Check MIME type and declared size (both are checked again once uploaded)
+    if (!ALLOWED_VIDEO_MIME_TYPES.includes(mimeType)) {
       throw new HttpsError(
         "invalid-argument",
-        "Missing required fields: videoData, mimeType, conversationId"
+        `Invalid file type. Allowed types: ${ALLOWED_VIDEO_MIME_TYPES.join(", ")}`
+      );
+    }
+    if (size > MAX_VIDEO_SIZE_BYTES) {
+      throw new HttpsError(
+        "invalid-argument",
+        `File size exceeds maximum of ${MAX_VIDEO_SIZE_BYTES / 1024 / 1024}MB`
       );
     }
 
@@ -198,23 +353,14 @@ export const uploadConversationVideo = onCall<UploadVideoRequest, Promise<Upload
       );
     }
 
-    // Validate the video data
-    const validation = validateBase64Video(videoData, mimeType);
-    if (!validation.valid || !validation.buffer) {
-      throw new HttpsError("invalid-argument", validation.error || "Invalid video");
-    }
-
-    const videoBuffer = validation.buffer;
-
-    logger.info(`Processing video upload for user ${userId}`, {
-      conversationId,
-      size: `${(videoBuffer.length / 1024 / 1024).toFixed(2)}MB`,
-      mimeType,
-    });
-
     try {
-      // Generate timestamp and file names
-      const timestamp = Date.now();
+      // Reserve the message ID so the finalize trigger knows which message to patch
+      const messageId = db
+        .collection("conversations")
+        .doc(conversationId)
+        .collection("messages")
+        .doc().id;
+
       const baseFileName = fileName?.replace(/\.[^/.]+$/, "") || "video";
       const sanitizedFileName = baseFileName.replace(/[^a-zA-Z0-9_-]/g, "_");
 
@@ -223,35 +369,179 @@ export const uploadConversationVideo = onCall<UploadVideoRequest, Promise<Upload
       if (mimeType === "video/webm") extension = "webm";
       else if (mimeType === "video/quicktime") extension = "mov";
 
-      const videoPath = `conversations/${conversationId}/videos/${timestamp}_${sanitizedFileName}.${extension}`;
-      const thumbnailPath = `conversations/${conversationId}/video-thumbnails/${timestamp}_${sanitizedFileName}.jpg`;
+      const videoPath = `conversations/${conversationId}/videos/${messageId}_${sanitizedFileName}.${extension}`;
+      const thumbnailPath = `conversations/${conversationId}/video-thumbnails/${messageId}.jpg`;
 
-      // Process thumbnail (from client data or generate placeholder)
-      const thumbnailBuffer = await processThumbnail(thumbnailData, videoBuffer);
-
-      // Upload video and thumbnail in parallel
-      const videoFile = bucket.file(videoPath);
+      // Store the preview now so the message can show it while the video uploads
       const thumbnailFile = bucket.file(thumbnailPath);
+      await thumbnailFile.save(await processThumbnail(thumbnailData), {
+        metadata: {
+          contentType: "image/jpeg",
+          metadata: {
+            uploadedBy: userId,
+            uploadedAt: new Date().toISOString(),
+            videoPath,
+          },
+        },
+      });
+      await thumbnailFile.makePublic();
+
+      // The session URI is the only credential the client needs; the browser's
+      // origin must be set here for the upload requests to pass CORS
+      const [uploadUrl] = await bucket.file(videoPath).createResumableUpload({
+        origin: request.rawRequest.headers.origin,
+        metadata: {
+          contentType: mimeType,
+          metadata: {
+            uploadedBy: userId,
+            conversationId,
+            messageId,
+            originalFileName: fileName || "unknown",
+          },
+        },
+      });
+
+      logger.info(`Video upload session created for user ${userId}`, {
+        conversationId,
+        messageId,
+        size: `${(size / 1024 / 1024).toFixed(2)}MB`,
+        mimeType,
+      });
+
+      return {
+        success: true,
+        messageId,
+        uploadUrl,
+        thumbnailUrl: getPublicUrl(thumbnailPath),
+      };
+    } catch (error) {
+      logger.error(`Failed to create video upload for user ${userId}`, error);
+      throw new HttpsError("internal", "Failed to start video upload. Please try again.");
+    }
+  }
+);
+
+/**
+ * Storage trigger: validate and transcode an uploaded conversation video,
+ * then patch its message. Invalid uploads are deleted and their message is
+ * marked as failed. The original upload is replaced by the transcoded MP4.
+ */
+export const onConversationVideoFinalized = onObjectFinalized(
+  {
+    region: "us-central1",
+    memory: "2GiB", // Transcoding works on local copies in /tmp (in memory)
+    cpu: 2,
+    timeoutSeconds: 540, // Transcoding a 100MB upload can take minutes
+    maxInstances: 10,
+  },
+  async (event) => {
+    const object = event.data;
+    const match = object.name.match(VIDEO_PATH_PATTERN);
+    if (!match) return;
+
+    // Skip our own transcoded output
+    if (object.metadata?.transcodedFrom) return;
+
+    const conversationId = match[1];
+    const messageId = object.metadata?.messageId;
+    const uploadedBy = object.metadata?.uploadedBy;
+    const videoFile = bucket.file(object.name);
+
+    // Only files uploaded through createConversationVideoUpload carry these
+    if (!messageId || !uploadedBy) {
+      logger.warn("Deleting conversation video without upload metadata", {path: object.name});
+      await videoFile.delete({ignoreNotFound: true});
+      return;
+    }
+
+    const messageRef = db
+      .collection("conversations")
+      .doc(conversationId)
+      .collection("messages")
+      .doc(messageId);
+
+    const rejectUpload = async (reason: string) => {
+      logger.warn(`Rejected video upload for user ${uploadedBy}`, {path: object.name, reason});
+      await videoFile.delete({ignoreNotFound: true});
+      const messageDoc = await messageRef.get();
+      if (messageDoc.exists) {
+        await messageRef.update({videoStatus: "failed" as VideoStatus});
+      }
+    };
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "video-"));
+    try {
+      const messageDoc = await messageRef.get();
+      const message = messageDoc.data();
+      if (!message || message.senderId !== uploadedBy || message.type !== "video" || message.deletedForAll) {
+        await rejectUpload("No matching video message");
+        return;
+      }
+
+      const size = Number(object.size);
+      if (size > MAX_VIDEO_SIZE_BYTES) {
+        await rejectUpload("File too large");
+        return;
+      }
+      if (!ALLOWED_VIDEO_MIME_TYPES.includes(object.contentType || "")) {
+        await rejectUpload(`Invalid content type ${object.contentType}`);
+        return;
+      }
+
+      // Check the bytes, not just the declared type
+      const inputPath = path.join(workDir, "input");
+      await videoFile.download({destination: inputPath});
+      const header = Buffer.alloc(8);
+      const inputHandle = await fs.open(inputPath, "r");
+      await inputHandle.read(header, 0, 8, 0);
+      await inputHandle.close();
+      const container = detectVideoContainer(header);
+      if (!container) {
+        await rejectUpload("File content does not match a valid video format");
+        return;
+      }
+
+      await messageRef.update({videoStatus: "processing" as VideoStatus});
+
+      const outputPath = path.join(workDir, "output.mp4");
+      try {
+        await transcodeVideo(inputPath, outputPath);
+      } catch (error) {
+        logger.warn("Video transcoding failed", {path: object.name, error});
+        await rejectUpload("Could not transcode video");
+        return;
+      }
+
+      const outputBuffer = await fs.readFile(outputPath);
+      const duration = readMp4Duration(outputBuffer);
+      const posterBuffer = await extractPosterFrame(outputPath, path.join(workDir, "poster.jpg"), duration);
+
+      const transcodedPath = `conversations/${conversationId}/videos/${messageId}.mp4`;
+      const posterPath = `conversations/${conversationId}/video-thumbnails/${messageId}_poster.jpg`;
+      const transcodedFile = bucket.file(transcodedPath);
+      const posterFile = bucket.file(posterPath);
 
       await Promise.all([
-        videoFile.save(videoBuffer, {
+        transcodedFile.save(outputBuffer, {
           metadata: {
-            contentType: mimeType,
+            contentType: "video/mp4",
             metadata: {
-              uploadedBy: userId,
+              uploadedBy,
               uploadedAt: new Date().toISOString(),
-              originalFileName: fileName || "unknown",
               conversationId,
+              messageId,
+              originalFileName: object.metadata?.originalFileName || "unknown",
+              transcodedFrom: object.name,
             },
           },
         }),
-        thumbnailFile.save(thumbnailBuffer, {
+        posterFile.save(posterBuffer, {
           metadata: {
             contentType: "image/jpeg",
             metadata: {
-              uploadedBy: userId,
+              uploadedBy,
               uploadedAt: new Date().toISOString(),
-              videoPath,
+              videoPath: transcodedPath,
             },
           },
         }),
@@ -259,39 +549,39 @@ export const uploadConversationVideo = onCall<UploadVideoRequest, Promise<Upload
 
       // Make files publicly readable
       await Promise.all([
-        videoFile.makePublic(),
-        thumbnailFile.makePublic(),
+        transcodedFile.makePublic(),
+        posterFile.makePublic(),
       ]);
 
-      // Get download URLs
-      const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
-      let videoUrl: string;
-      let thumbnailUrl: string;
-
-      if (emulatorHost) {
-        const encodedVideoPath = encodeURIComponent(videoPath);
-        const encodedThumbPath = encodeURIComponent(thumbnailPath);
-        videoUrl = `http://${emulatorHost}/v0/b/${bucket.name}/o/${encodedVideoPath}?alt=media`;
-        thumbnailUrl = `http://${emulatorHost}/v0/b/${bucket.name}/o/${encodedThumbPath}?alt=media`;
-      } else {
-        videoUrl = `https://storage.googleapis.com/${bucket.name}/${videoPath}`;
-        thumbnailUrl = `https://storage.googleapis.com/${bucket.name}/${thumbnailPath}`;
+      const update: Record<string, unknown> = {
+        videoUrl: getPublicUrl(transcodedPath),
+        videoThumbnailUrl: getPublicUrl(posterPath),
+        videoStatus: "ready" as VideoStatus,
+      };
+      if (duration !== undefined && Number.isFinite(duration) && duration > 0) {
+        update.videoDuration = Math.round(duration * 10) / 10;
       }
+      await messageRef.update(update);
 
-      logger.info(`Video uploaded successfully for user ${userId}`, {
-        videoPath,
-        thumbnailPath,
-        size: `${(videoBuffer.length / 1024 / 1024).toFixed(2)}MB`,
-      });
+      // The original upload and the client's preview thumbnail are no longer referenced
+      await Promise.all([
+        videoFile.delete({ignoreNotFound: true}),
+        bucket.file(`conversations/${conversationId}/video-thumbnails/${messageId}.jpg`)
+          .delete({ignoreNotFound: true}),
+      ]);
 
-      return {
-        success: true,
-        videoUrl,
-        thumbnailUrl,
-      };
+      logger.info(`Video processed for user ${uploadedBy}`, {
+        path: transcodedPath,
+        container,
+        duration: update.videoDuration,
+        originalSize: `${(size / 1024 / 1024).toFixed(2)}MB`,
+        transcodedSize: `${(outputBuffer.length / 1024 / 1024).toFixed(2)}MB`,
+      });
     } catch (error) {
-      logger.error(`Failed to upload video for user ${userId}`, error);
-      throw new HttpsError("internal", "Failed to upload video. Please try again.");
+      logger.error(`Failed to process video upload for user ${uploadedBy}`, error);
+      await rejectUpload("Processing error");
+    } finally {
+      await fs.rm(workDir, {recursive: true, force: true});
     }
   }
 );
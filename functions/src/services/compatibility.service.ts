@@ -0,0 +1,154 @@
+/**
+ * Compatibility Service
+ * Scores how well a candidate suits a searcher for the "recommended" discovery sort
+ *
+ * Each component is normalized to 0-1, then combined as a weighted average
+ * using the weights from Remote Config (discover_weight_*). The breakdown is
+ * returned with search results so the app can explain a match
+ * ("You both value honesty").
+ */
+
+import {RemoteConfigValues} from "../config/remote-config";
+import {ReputationTier, REPUTATION_TIER_ORDER} from "../types";
+
+/**
+ * What the score is calculated from, for one side of the pair
+ */
+export interface CompatibilityProfile {
+  connectionTypes: string[];
+  values: string[];
+  supportOrientation: string | undefined;
+}
+
+/**
+ * Candidate-only inputs (relative to the searcher)
+ */
+export interface CompatibilityContext {
+  distance: number | undefined; // miles, undefined if either location is unknown
+  lastActiveTimestamp: number; // 0 unless the candidate shows their last active time
+  reputationTier: ReputationTier;
+}
+
+/**
+ * Per-component scores (0-1) plus what the two profiles have in common
+ */
+export interface CompatibilityBreakdown {
+  score: number; // 0-100 weighted total
+  connectionTypes: number;
+  values: number;
+  supportOrientation: number;
+  distance: number;
+  activity: number;
+  reputation: number;
+  sharedConnectionTypes: string[];
+  sharedValues: string[];
+  complementaryOrientation: boolean; // One is providing, the other receiving
+}
+
+// Used when a component can't be judged (missing data or hidden by privacy),
+// so it neither helps nor hurts
+const NEUTRAL_COMPONENT_SCORE = 0.5;
+
+/**
+ * Score a candidate against the searcher
+ */
+export function calculateCompatibility(
+  searcher: CompatibilityProfile,
+  candidate: CompatibilityProfile,
+  context: CompatibilityContext,
+  config: RemoteConfigValues
+): CompatibilityBreakdown {
+  const sharedConnectionTypes = candidate.connectionTypes.filter((ct) =>
+    searcher.connectionTypes.includes(ct)
+  );
+  const sharedValues = candidate.values.filter((v) => searcher.values.includes(v));
+  const complementaryOrientation = isComplementary(
+    searcher.supportOrientation,
+    candidate.supportOrientation
+  );
+
+  const components = {
+    connectionTypes: overlapScore(
+      sharedConnectionTypes.length,
+      searcher.connectionTypes.length,
+      candidate.connectionTypes.length
+    ),
+    values: overlapScore(sharedValues.length, searcher.values.length, candidate.values.length),
+    supportOrientation: supportOrientationScore(
+      searcher.supportOrientation,
+      candidate.supportOrientation
+    ),
+    distance: context.distance !== undefined ?
+      Math.exp(-context.distance / Math.max(1, config.discover_distance_decay_miles)) :
+      NEUTRAL_COMPONENT_SCORE,
+    activity: context.lastActiveTimestamp > 0 ?
+      activityScore(context.lastActiveTimestamp, config.discover_activity_half_life_hours) :
+      NEUTRAL_COMPONENT_SCORE,
+    reputation: Math.max(0, REPUTATION_TIER_ORDER.indexOf(context.reputationTier)) /
+      (REPUTATION_TIER_ORDER.length - 1),
+  };
+
+  const weights = {
+    connectionTypes: Math.max(0, config.discover_weight_connection_types),
+    values: Math.max(0, config.discover_weight_values),
+    supportOrientation: Math.max(0, config.discover_weight_support_orientation),
+    distance: Math.max(0, config.discover_weight_distance),
+    activity: Math.max(0, config.discover_weight_activity),
+    reputation: Math.max(0, config.discover_weight_reputation),
+  };
+
+  const totalWeight = Object.values(weights).reduce((sum, w) => sum + w, 0);
+  const weightedSum = (Object.keys(weights) as (keyof typeof weights)[])
+    .reduce((sum, key) => sum + weights[key] * components[key], 0);
+  const score = totalWeight > 0 ? Math.round((weightedSum / totalWeight) * 100) : 0;
+
+  return {
+    score,
+    ...roundComponents(components),
+    sharedConnectionTypes,
+    sharedValues,
+    complementaryOrientation,
+  };
+}
+
+// Helper functions
+
+/**
+ * Shared items relative to the smaller list, so a short list that's fully
+ * contained in a long one still counts as a strong match
+ */
+function overlapScore(shared: number, searcherCount: number, candidateCount: number): number {
+  const smaller = Math.min(searcherCount, candidateCount);
+  if (smaller === 0) return NEUTRAL_COMPONENT_SCORE;
+  return shared / smaller;
+}
+
+function isComplementary(a: string | undefined, b: string | undefined): boolean {
+  return (a === "providing" && b === "receiving") || (a === "receiving" && b === "providing");
+}
+
+/**
+ * providing + receiving fit best, "either" fits anything, same-side pairs clash
+ */
+function supportOrientationScore(a: string | undefined, b: string | undefined): number {
+  if (isComplementary(a, b)) return 1;
+  if (!a || !b || a === "private" || b === "private") return NEUTRAL_COMPONENT_SCORE;
+  if (a === "either" || b === "either") return 0.75;
+  return 0;
+}
+
+/**
+ * Halves for every `halfLifeHours` since the candidate was last active
+ */
+function activityScore(lastActiveTimestamp: number, halfLifeHours: number): number {
+  const hoursSince = Math.max(0, Date.now() - lastActiveTimestamp) / (60 * 60 * 1000);
+  return Math.pow(0.5, hoursSince / Math.max(1, halfLifeHours));
+}
+
+function roundComponents<T extends Record<string, number>>(components: T): T {
+  const rounded = {} as Record<string, number>;
+  for (const [key, value] of Object.entries(components)) {
+    rounded[key] = Math.round(value * 100) / 100;
+  }
+  return rounded as T;
+}
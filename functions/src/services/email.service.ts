@@ -36,6 +36,7 @@ async function getUserEmailPreferences(userId: string): Promise<{
   emailMatches: boolean;
   emailMessages: boolean;
   emailFavorites: boolean;
+  emailSavedSearches: boolean;
 } | null> {
   try {
     // Get email from Firebase Auth (source of truth)
@@ -58,6 +59,7 @@ async function getUserEmailPreferences(userId: string): Promise<{
       emailMatches: notifications.emailMatches !== false, // Default true
       emailMessages: notifications.emailMessages !== false, // Default true
       emailFavorites: notifications.emailFavorites !== false, // Default true
+      emailSavedSearches: notifications.emailSavedSearches !== false, // Default true
     };
   } catch (error) {
     logger.error(`Error getting email preferences for ${userId}:`, error);
@@ -362,3 +364,145 @@ export async function sendMessageEmailNotification(
     return false;
   }
 }
+
+/**
+ * A profile included in a saved-search digest email
+ */
+export interface SavedSearchDigestMatch {
+  uid: string;
+  displayName: string | null;
+}
+
+/**
+ * Send a digest of new profiles matching one of the user's saved searches
+ * Checks the user's saved-search email preference before sending
+ */
+export async function sendSavedSearchDigestEmail(
+  recipientUserId: string,
+  viewName: string,
+  matches: SavedSearchDigestMatch[]
+): Promise<boolean> {
+  try {
+    if (!process.env.SENDGRID_API_KEY) {
+      logger.warn("SendGrid not configured, skipping email");
+      return false;
+    }
+    if (matches.length === 0) return false;
+
+    const prefs = await getUserEmailPreferences(recipientUserId);
+    if (!prefs || !prefs.email) {
+      logger.info(`No email for user ${recipientUserId}, skipping saved search digest`);
+      return false;
+    }
+    if (!prefs.emailSavedSearches) {
+      logger.info(`User ${recipientUserId} has disabled saved search emails, skipping`);
+      return false;
+    }
+
+    const userDoc = await db.collection("users").doc(recipientUserId).get();
+    const recipientName = userDoc.data()?.displayName || "there";
+
+    const template = generateSavedSearchDigestTemplate(viewName, recipientName, matches);
+    const msg = {
+      to: prefs.email,
+      from: {
+        email: process.env.SENDGRID_FROM_EMAIL || "noreply@gylde.com",
+        name: "Gylde",
+      },
+      subject: template.subject,
+      text: template.text,
+      html: template.html,
+    };
+
+    // Skip actual email sending in development/emulator mode
+    if (process.env.FUNCTIONS_EMULATOR === "true") {
+      logger.info(
+        `[DEV MODE] Would send saved search digest to ${prefs.email}: "${template.subject}"`
+      );
+      return true;
+    }
+
+    await sgMail.send(msg);
+    logger.info(`Saved search digest sent to ${recipientUserId} (${matches.length} matches)`);
+    return true;
+  } catch (error) {
+    logger.error(`Error sending saved search digest to ${recipientUserId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Generate the saved-search digest email
+ */
+function generateSavedSearchDigestTemplate(
+  viewName: string,
+  recipientName: string,
+  matches: SavedSearchDigestMatch[]
+): EmailTemplate {
+  const appName = "Gylde";
+  const appUrl = getAppBaseUrl();
+  const discoverLink = `${appUrl}/discover`;
+  const count = matches.length;
+  const peopleLabel = count === 1 ? "new person matches" : "new people match";
+  const names = matches.map((m) => m.displayName || "Someone");
+
+  const textList = matches
+    .map((m, i) => `- ${names[i]}: ${appUrl}/user/${m.uid}`)
+    .join("\n");
+  const htmlList = matches
+    .map((m, i) => `
+        <li style="margin: 0 0 8px;">
+          <a href="${appUrl}/user/${m.uid}" style="color: #c9a962; text-decoration: none; font-weight: 600;">${escapeHtml(names[i])}</a>
+        </li>`)
+    .join("");
+
+  return {
+    subject: `${appName}: ${count} ${peopleLabel} your search "${viewName}"`,
+    text: `Hey ${recipientName},\n\n${count} ${peopleLabel} your saved search "${viewName}" on ${appName}:\n\n${textList}\n\nSee everyone: ${discoverLink}\n\nBest,\nThe ${appName} Team`,
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 0; background-color: #0d0b0e;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+    <div style="background: linear-gradient(135deg, #1a1618 0%, #0d0b0e 100%); border-radius: 16px; padding: 40px; border: 1px solid rgba(201, 169, 98, 0.2);">
+      <div style="text-align: center; margin-bottom: 32px;">
+        <h1 style="color: #c9a962; margin: 0; font-size: 28px;">New Matches for Your Search 🔎</h1>
+      </div>
+      <p style="color: #e8e6e9; font-size: 16px; line-height: 1.6; margin: 0 0 16px;">
+        Hey ${escapeHtml(recipientName)},
+      </p>
+      <p style="color: #e8e6e9; font-size: 16px; line-height: 1.6; margin: 0 0 24px;">
+        ${count} ${peopleLabel} your saved search <strong style="color: #c9a962;">${escapeHtml(viewName)}</strong>.
+      </p>
+      <ul style="color: #e8e6e9; font-size: 16px; line-height: 1.6; margin: 0 0 24px; padding-left: 20px;">${htmlList}
+      </ul>
+      <div style="text-align: center; margin: 32px 0;">
+        <a href="${discoverLink}" style="display: inline-block; background-color: #c9a962; color: #0d0b0e; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">Open Discover</a>
+      </div>
+      <p style="color: #a09a9c; font-size: 14px; line-height: 1.5; margin: 24px 0 0; text-align: center;">
+        Best,<br>The ${appName} Team
+      </p>
+    </div>
+    <p style="color: #6b6669; font-size: 12px; text-align: center; margin-top: 24px;">
+      Don't want these emails? <a href="${appUrl}/settings" style="color: #c9a962;">Update your preferences</a>
+    </p>
+  </div>
+</body>
+</html>`,
+  };
+}
+
+/**
+ * Escape user-provided text for the HTML email body
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
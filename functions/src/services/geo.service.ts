@@ -0,0 +1,220 @@
+/**
+ * Geo Service
+ * Geohash encoding, radius query bounds and distance helpers
+ *
+ * Users carry a denormalized `geohash` (precision 9) on their public document,
+ * maintained by the user triggers. Radius searches turn a center + radius into
+ * a small set of geohash prefix ranges that can be queried with
+ * orderBy("geohash").startAt(start).endAt(end), then filtered by exact distance.
+ *
+ * The bounds calculation follows the approach used by geofire-common.
+ */
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+const BITS_PER_CHAR = 5;
+const MAXIMUM_BITS_PRECISION = 22 * BITS_PER_CHAR;
+const EARTH_MERIDIONAL_CIRCUMFERENCE_M = 40007860;
+const EARTH_EQUATORIAL_RADIUS_M = 6378137.0;
+const EARTH_ECCENTRICITY_SQUARED = 0.00669447819799;
+const METERS_PER_DEGREE_LATITUDE = 110574;
+const METERS_PER_MILE = 1609.344;
+const EARTH_RADIUS_MILES = 3959;
+const EPSILON = 1e-12;
+
+/**
+ * A geohash range to query: [start, end] (inclusive)
+ */
+export type GeohashRange = [string, string];
+
+/**
+ * Generate a geohash for a lat/lng coordinate
+ */
+export function encodeGeohash(latitude: number, longitude: number, precision = 9): string {
+  const latRange = {min: -90, max: 90};
+  const lngRange = {min: -180, max: 180};
+  let hash = "";
+  let isLng = true;
+  let bit = 0;
+  let ch = 0;
+
+  while (hash.length < precision) {
+    if (isLng) {
+      const mid = (lngRange.min + lngRange.max) / 2;
+      if (longitude >= mid) {
+        ch |= 1 << (4 - bit);
+        lngRange.min = mid;
+      } else {
+        lngRange.max = mid;
+      }
+    } else {
+      const mid = (latRange.min + latRange.max) / 2;
+      if (latitude >= mid) {
+        ch |= 1 << (4 - bit);
+        latRange.min = mid;
+      } else {
+        latRange.max = mid;
+      }
+    }
+
+    isLng = !isLng;
+    bit++;
+
+    if (bit === 5) {
+      hash += BASE32[ch];
+      bit = 0;
+      ch = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Calculate the great-circle distance between two coordinates in miles (rounded)
+ */
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) *
+      Math.cos(toRad(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return Math.round(EARTH_RADIUS_MILES * c);
+}
+
+/**
+ * Compute the geohash ranges that together cover a circle of `radiusMiles`
+ * around the given center. Ranges are deduplicated; results may include
+ * points outside the radius, so callers must still filter by exact distance.
+ */
+export function geohashQueryBounds(
+  latitude: number,
+  longitude: number,
+  radiusMiles: number
+): GeohashRange[] {
+  const radiusMeters = radiusMiles * METERS_PER_MILE;
+  const queryBits = Math.max(1, boundingBoxBits(latitude, radiusMeters));
+  const precision = Math.ceil(queryBits / BITS_PER_CHAR);
+
+  const ranges = boundingBoxCoordinates(latitude, longitude, radiusMeters).map(([lat, lng]) =>
+    geohashRange(encodeGeohash(lat, lng, precision), queryBits)
+  );
+
+  return ranges.filter((range, index) =>
+    !ranges.some((other, otherIndex) =>
+      otherIndex < index && other[0] === range[0] && other[1] === range[1]
+    )
+  );
+}
+
+// Helper functions
+
+function toRad(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+function metersToLongitudeDegrees(distance: number, latitude: number): number {
+  const radians = toRad(latitude);
+  const num = Math.cos(radians) * EARTH_EQUATORIAL_RADIUS_M * Math.PI / 180;
+  const denom = 1 / Math.sqrt(1 - EARTH_ECCENTRICITY_SQUARED * Math.sin(radians) * Math.sin(radians));
+  const deltaDeg = num * denom;
+  if (deltaDeg < EPSILON) {
+    return distance > 0 ? 360 : 0;
+  }
+  return Math.min(360, distance / deltaDeg);
+}
+
+function longitudeBitsForResolution(resolution: number, latitude: number): number {
+  const degs = metersToLongitudeDegrees(resolution, latitude);
+  return Math.abs(degs) > 0.000001 ? Math.max(1, Math.log2(360 / degs)) : 1;
+}
+
+function latitudeBitsForResolution(resolution: number): number {
+  return Math.min(Math.log2(EARTH_MERIDIONAL_CIRCUMFERENCE_M / 2 / resolution), MAXIMUM_BITS_PRECISION);
+}
+
+function wrapLongitude(longitude: number): number {
+  if (longitude <= 180 && longitude >= -180) {
+    return longitude;
+  }
+  const adjusted = longitude + 180;
+  if (adjusted > 0) {
+    return (adjusted % 360) - 180;
+  }
+  return 180 - (-adjusted % 360);
+}
+
+/**
+ * Number of geohash bits needed so a single cell is at least `size` meters across
+ */
+function boundingBoxBits(latitude: number, size: number): number {
+  const latDeltaDegrees = size / METERS_PER_DEGREE_LATITUDE;
+  const latitudeNorth = Math.min(90, latitude + latDeltaDegrees);
+  const latitudeSouth = Math.max(-90, latitude - latDeltaDegrees);
+  const bitsLat = Math.floor(latitudeBitsForResolution(size)) * 2;
+  const bitsLongNorth = Math.floor(longitudeBitsForResolution(size, latitudeNorth)) * 2 - 1;
+  const bitsLongSouth = Math.floor(longitudeBitsForResolution(size, latitudeSouth)) * 2 - 1;
+  return Math.min(bitsLat, bitsLongNorth, bitsLongSouth, MAXIMUM_BITS_PRECISION);
+}
+
+/**
+ * The center plus the 8 corners/edges of the bounding box around it
+ */
+function boundingBoxCoordinates(
+  latitude: number,
+  longitude: number,
+  radius: number
+): [number, number][] {
+  const latDegrees = radius / METERS_PER_DEGREE_LATITUDE;
+  const latitudeNorth = Math.min(90, latitude + latDegrees);
+  const latitudeSouth = Math.max(-90, latitude - latDegrees);
+  const longDegs = Math.max(
+    metersToLongitudeDegrees(radius, latitudeNorth),
+    metersToLongitudeDegrees(radius, latitudeSouth)
+  );
+  const west = wrapLongitude(longitude - longDegs);
+  const east = wrapLongitude(longitude + longDegs);
+
+  return [
+    [latitude, longitude],
+    [latitude, west],
+    [latitude, east],
+    [latitudeNorth, longitude],
+    [latitudeNorth, west],
+    [latitudeNorth, east],
+    [latitudeSouth, longitude],
+    [latitudeSouth, west],
+    [latitudeSouth, east],
+  ];
+}
+
+/**
+ * Convert a geohash cell into a [start, end] range covering `bits` bits of precision
+ */
+function geohashRange(geohash: string, bits: number): GeohashRange {
+  const precision = Math.ceil(bits / BITS_PER_CHAR);
+  if (geohash.length < precision) {
+    return [geohash, `${geohash}~`];
+  }
+
+  const hash = geohash.substring(0, precision);
+  const base = hash.substring(0, hash.length - 1);
+  const lastValue = BASE32.indexOf(hash.charAt(hash.length - 1));
+  const significantBits = bits - base.length * BITS_PER_CHAR;
+  const unusedBits = BITS_PER_CHAR - significantBits;
+  const startValue = (lastValue >> unusedBits) << unusedBits;
+  const endValue = startValue + (1 << unusedBits);
+
+  if (endValue > 31) {
+    return [base + BASE32[startValue], `${base}~`];
+  }
+  return [base + BASE32[startValue], base + BASE32[endValue]];
+}
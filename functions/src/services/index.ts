@@ -6,3 +6,7 @@ export * from "./user.service";
 export * from "./openai.service";
 export * from "./email.service";
 export * from "./genkit.service";
+export * from "./geo.service";
+export * from "./compatibility.service";
+export * from "./reputation-score.service";
+export * from "./link-preview.service";
@@ -0,0 +1,429 @@
+/**
+ * Link Preview Service
+ * Finds links in message text, checks them against the link safety lists
+ * and unfurls safe ones into a preview (title, description, image)
+ *
+ * Pages are fetched through a LinkFetcher. The default one only fetches
+ * public http(s) hosts - never private, loopback, link-local or other reserved
+ * addresses, except in the emulator - with a timeout, a size cap and a few
+ * redirects. Hostnames are resolved by the request's own lookup, which rejects
+ * reserved addresses, so the socket connects to exactly the address that was
+ * checked (no DNS rebinding between check and fetch); every redirect hop goes
+ * through the same check. setLinkFetcher swaps it out, e.g. for one reading
+ * from a local stub server in tests.
+ */
+
+import {lookup as dnsLookup} from "node:dns";
+import * as http from "node:http";
+import * as https from "node:https";
+import {BlockList, isIP, LookupFunction} from "node:net";
+import {Readable} from "node:stream";
+import * as zlib from "node:zlib";
+import {CheckedLink, LinkFlagReason, LinkPreview} from "../types";
+
+const MAX_LINKS_PER_MESSAGE = 5;
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_RESPONSE_BYTES = 512 * 1024; // Metadata is in the <head>
+const MAX_REDIRECTS = 3;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+// Address ranges that are never a public website (IANA special-purpose registries).
+// IPv4-mapped, NAT64 and 6to4 addresses are refused as a whole, since they can
+// embed any IPv4 address.
+const RESERVED_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"], // "This" network
+  ["10.0.0.0", 8, "ipv4"], // Private
+  ["100.64.0.0", 10, "ipv4"], // Carrier-grade NAT
+  ["127.0.0.0", 8, "ipv4"], // Loopback
+  ["169.254.0.0", 16, "ipv4"], // Link-local (cloud metadata servers)
+  ["172.16.0.0", 12, "ipv4"], // Private
+  ["192.0.0.0", 24, "ipv4"], // IETF protocol assignments
+  ["192.0.2.0", 24, "ipv4"], // Documentation
+  ["192.88.99.0", 24, "ipv4"], // 6to4 relay anycast
+  ["192.168.0.0", 16, "ipv4"], // Private
+  ["198.18.0.0", 15, "ipv4"], // Benchmarking
+  ["198.51.100.0", 24, "ipv4"], // Documentation
+  ["203.0.113.0", 24, "ipv4"], // Documentation
+  ["224.0.0.0", 3, "ipv4"], // Multicast, reserved and broadcast
+  ["::", 96, "ipv6"], // Unspecified, loopback and IPv4-compatible
+  ["::ffff:0:0", 96, "ipv6"], // IPv4-mapped
+  ["64:ff9b::", 96, "ipv6"], // NAT64
+  ["64:ff9b:1::", 48, "ipv6"], // Local-use NAT64
+  ["100::", 64, "ipv6"], // Discard-only
+  ["2001::", 23, "ipv6"], // IETF protocol assignments (incl. Teredo)
+  ["2001:db8::", 32, "ipv6"], // Documentation
+  ["2002::", 16, "ipv6"], // 6to4
+  ["fc00::", 7, "ipv6"], // Unique local
+  ["fe80::", 10, "ipv6"], // Link-local
+  ["fec0::", 10, "ipv6"], // Site-local (deprecated)
+  ["ff00::", 8, "ipv6"], // Multicast
+];
+
+// One list per family: a BlockList also matches IPv4 addresses against
+// IPv4-mapped IPv6 subnets, which would make ::ffff:0:0/96 cover every IPv4 address
+const reservedAddresses = {ipv4: new BlockList(), ipv6: new BlockList()};
+for (const [network, prefix, type] of RESERVED_RANGES) {
+  reservedAddresses[type].addSubnet(network, prefix, type);
+}
+
+// http(s) links, or bare "www." ones
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+// Punctuation that usually ends the sentence rather than the link
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+
+/**
+ * Domain lists used to check links (hostnames match themselves and subdomains)
+ * The allowlist wins over both other lists.
+ */
+export interface LinkSafetyLists {
+  allowlist: string[];
+  denylist: string[];
+  shorteners: string[];
+}
+
+/**
+ * A fetched page, after redirects
+ */
+export interface LinkFetchResult {
+  url: string; // Final URL
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+export type LinkFetcher = (url: string) => Promise<LinkFetchResult>;
+
+let linkFetcher: LinkFetcher = fetchPublicUrl;
+
+/**
+ * Replace the fetcher used for previews (pass null to restore the default)
+ */
+export function setLinkFetcher(fetcher: LinkFetcher | null): void {
+  linkFetcher = fetcher ?? fetchPublicUrl;
+}
+
+/**
+ * Find the links in a message, normalized to absolute http(s) URLs
+ */
+export function extractLinks(text: string): string[] {
+  const links: string[] = [];
+  for (const match of text.match(URL_PATTERN) ?? []) {
+    const trimmed = match.replace(TRAILING_PUNCTUATION, "");
+    const url = /^www\./i.test(trimmed) ? `https://${trimmed}` : trimmed;
+    if (getDomain(url) && !links.includes(url)) {
+      links.push(url);
+    }
+    if (links.length >= MAX_LINKS_PER_MESSAGE) break;
+  }
+  return links;
+}
+
+/**
+ * Hostname of a link without "www.", or null if it isn't a valid http(s) URL
+ */
+export function getDomain(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+    return parsed.hostname.toLowerCase().replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a comma/whitespace separated domain list (from Remote Config)
+ */
+export function parseDomainList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((domain) => domain.trim().toLowerCase().replace(/^www\./, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Check a domain against the safety lists
+ */
+export function checkDomain(domain: string, lists: LinkSafetyLists): LinkFlagReason | null {
+  if (matchesDomainList(domain, lists.allowlist)) return null;
+  if (matchesDomainList(domain, lists.denylist)) return "denylisted";
+  if (matchesDomainList(domain, lists.shorteners)) return "shortener";
+  return null;
+}
+
+/**
+ * Check every link in a message
+ */
+export function checkLinks(text: string, lists: LinkSafetyLists): CheckedLink[] {
+  return extractLinks(text).map((url) => {
+    const domain = getDomain(url) as string;
+    return {url, domain, flag: checkDomain(domain, lists)};
+  });
+}
+
+/**
+ * Fetch a safe link and read its preview metadata
+ * Returns the flag instead if it redirects to a denylisted or shortened domain,
+ * or null if there's nothing to preview.
+ */
+export async function unfurlLink(
+  link: CheckedLink,
+  lists: LinkSafetyLists
+): Promise<LinkPreview | {flag: LinkFlagReason} | null> {
+  const page = await linkFetcher(link.url);
+
+  const finalDomain = getDomain(page.url);
+  const redirectFlag = finalDomain ? checkDomain(finalDomain, lists) : null;
+  if (redirectFlag) {
+    return {flag: redirectFlag};
+  }
+  if (page.status < 200 || page.status >= 300 || !/text\/html|application\/xhtml/i.test(page.contentType)) {
+    return null;
+  }
+
+  const meta = readMetaTags(page.body);
+  const title = meta.get("og:title") ?? meta.get("twitter:title") ?? readTitle(page.body);
+  const description = meta.get("og:description") ?? meta.get("twitter:description") ?? meta.get("description");
+  const image = meta.get("og:image") ?? meta.get("twitter:image");
+  if (!title && !description) {
+    return null;
+  }
+
+  return {
+    url: link.url,
+    domain: link.domain,
+    title: title ? truncate(title, MAX_TITLE_LENGTH) : null,
+    description: description ? truncate(description, MAX_DESCRIPTION_LENGTH) : null,
+    imageUrl: image ? resolveImageUrl(image, page.url) : null,
+    siteName: meta.get("og:site_name") ?? null,
+  };
+}
+
+/**
+ * Whether a domain is on a list (exactly or as a subdomain)
+ */
+function matchesDomainList(domain: string, list: string[]): boolean {
+  return list.some((entry) => domain === entry || domain.endsWith(`.${entry}`));
+}
+
+/**
+ * Read <meta> tags keyed by property/name (first occurrence wins)
+ */
+function readMetaTags(html: string): Map<string, string> {
+  const meta = new Map<string, string>();
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    const key = readAttribute(tag, "property") ?? readAttribute(tag, "name");
+    const content = readAttribute(tag, "content");
+    if (key && content && !meta.has(key.toLowerCase())) {
+      meta.set(key.toLowerCase(), decodeEntities(content).trim());
+    }
+  }
+  return meta;
+}
+
+/**
+ * Read an attribute's value from a tag
+ */
+function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/**
+ * Read the page <title>
+ */
+function readTitle(html: string): string | null {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = match ? decodeEntities(match[1]).replace(/\s+/g, " ").trim() : "";
+  return title || null;
+}
+
+/**
+ * Decode the HTML entities that commonly appear in titles and descriptions
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " "};
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Make a preview image URL absolute, dropping anything that isn't http(s)
+ */
+function resolveImageUrl(image: string, pageUrl: string): string | null {
+  try {
+    const resolved = new URL(image, pageUrl);
+    return resolved.protocol === "http:" || resolved.protocol === "https:" ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shorten text to a maximum length, on a character boundary
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not public
+ * Anything that isn't a valid IP address counts as not public.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "");
+  const family = isIP(ip);
+  if (family === 0) return true;
+  try {
+    const type = family === 4 ? "ipv4" : "ipv6";
+    return reservedAddresses[type].check(ip, type);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Private hosts are only reachable from the emulator (local stub pages)
+ */
+function allowsPrivateHosts(): boolean {
+  return process.env.FUNCTIONS_EMULATOR === "true";
+}
+
+/**
+ * DNS lookup used for every preview request: resolves the host and fails if
+ * any of its addresses isn't public, so the connection can only be made to a
+ * checked address
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, {...options, all: true}, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+    if (addresses.length === 0 || (!allowsPrivateHosts() && addresses.some((entry) => isPrivateAddress(entry.address)))) {
+      callback(Object.assign(new Error(`Refusing to fetch non-public host ${hostname}`), {code: "ENOTPUBLIC"}), "", 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Connections for previews only ever resolve hosts through lookupPublicAddress
+const httpAgent = new http.Agent({lookup: lookupPublicAddress});
+const httpsAgent = new https.Agent({lookup: lookupPublicAddress});
+
+/**
+ * Default fetcher: GET a public http(s) URL, following a few redirects
+ * Each hop is checked the same way as the original URL.
+ */
+async function fetchPublicUrl(url: string): Promise<LinkFetchResult> {
+  let currentUrl = url;
+  for (let redirects = 0; ; redirects++) {
+    const parsed = new URL(currentUrl);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw new Error(`Unsupported protocol ${parsed.protocol}`);
+    }
+    // Literal IP hosts never go through a lookup, so check them here
+    const host = parsed.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(host) && !allowsPrivateHosts() && isPrivateAddress(host)) {
+      throw new Error(`Refusing to fetch non-public host ${parsed.hostname}`);
+    }
+
+    const response = await requestPage(parsed);
+
+    const location = response.headers.location;
+    const status = response.statusCode ?? 0;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects for ${url}`);
+      }
+      currentUrl = new URL(location, currentUrl).toString();
+      continue;
+    }
+
+    return {
+      url: currentUrl,
+      status,
+      contentType: response.headers["content-type"] ?? "",
+      body: await readLimitedBody(response),
+    };
+  }
+}
+
+/**
+ * Send a GET through the preview agents, resolving once the response headers arrive
+ */
+function requestPage(url: URL): Promise<http.IncomingMessage> {
+  const isHttps = url.protocol === "https:";
+  return new Promise((resolve, reject) => {
+    const request = (isHttps ? https : http).get(url, {
+      agent: isHttps ? httpsAgent : httpAgent,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: {
+        "User-Agent": "GyldeLinkPreview/1.0",
+        "Accept": "text/html,application/xhtml+xml",
+        "Accept-Encoding": "gzip, deflate, br",
+      },
+    }, resolve);
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Read a response body as text, up to MAX_RESPONSE_BYTES (decompressed)
+ */
+async function readLimitedBody(response: http.IncomingMessage): Promise<string> {
+  const body = decodeBody(response);
+  const chunks: Buffer[] = [];
+  let size = 0;
+  try {
+    for await (const chunk of body) {
+      chunks.push(chunk as Buffer);
+      size += (chunk as Buffer).length;
+      if (size >= MAX_RESPONSE_BYTES) break;
+    }
+  } finally {
+    body.destroy();
+    response.destroy();
+  }
+  return Buffer.concat(chunks).subarray(0, MAX_RESPONSE_BYTES).toString("utf8");
+}
+
+/**
+ * The response body, decompressed if the server sent it compressed
+ */
+function decodeBody(response: http.IncomingMessage): Readable {
+  const decoder = createDecoder(response.headers["content-encoding"]);
+  if (!decoder) return response;
+  // pipe() doesn't forward errors, e.g. the request timing out mid-body
+  response.on("error", (error) => decoder.destroy(error));
+  return response.pipe(decoder);
+}
+
+/**
+ * Decompression stream for a Content-Encoding, or null if there's nothing to undo
+ */
+function createDecoder(encoding: string | undefined): zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress | null {
+  switch (encoding?.trim().toLowerCase()) {
+  case "gzip":
+  case "x-gzip":
+    return zlib.createGunzip();
+  case "deflate":
+    return zlib.createInflate();
+  case "br":
+    return zlib.createBrotliDecompress();
+  default:
+    return null;
+  }
+}
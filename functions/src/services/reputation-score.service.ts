@@ -0,0 +1,169 @@
+/**
+ * Reputation Score Service
+ * Pure scoring logic shared by the reputation functions and the simulation
+ * script (scripts/reputation-sim.ts), which runs it under alternative weights.
+ *
+ * No Firestore access here: callers pass in the documents they've read.
+ */
+
+import {Timestamp} from "firebase-admin/firestore";
+import {
+  ReputationSignals,
+  MessageMetrics,
+  REPUTATION_CONFIG,
+  TierConfig,
+  ReputationTier,
+  getDefaultSignals,
+} from "../types";
+
+/**
+ * The parts of REPUTATION_CONFIG that determine score and tier
+ */
+export interface ReputationScoringConfig {
+  tiers: Record<ReputationTier, Pick<TierConfig, "minScore">>;
+  weights: Record<keyof typeof REPUTATION_CONFIG.weights, number>;
+  accountAge: {
+    maxDaysForBonus: number;
+  };
+}
+
+/**
+ * Points (0-1000 scale) each signal contributes to the score
+ */
+export type ScoreBreakdown = Record<keyof typeof REPUTATION_CONFIG.weights, number>;
+
+/**
+ * Calculate how many points each signal contributes
+ */
+export function getScoreBreakdown(
+  signals: ReputationSignals,
+  config: ReputationScoringConfig = REPUTATION_CONFIG
+): ScoreBreakdown {
+  const {weights} = config;
+
+  // Helper to safely get a number (defaults to 0 if NaN/undefined)
+  const safe = (val: number, fallback = 0): number =>
+    (isNaN(val) || val === undefined || val === null) ? fallback : val;
+
+  // Account age (0-maxDaysForBonus days → 0-1)
+  const ageRatio = Math.min(
+    safe(signals.accountAgeDays) / config.accountAge.maxDaysForBonus,
+    1
+  );
+
+  return {
+    // === POSITIVE SIGNALS ===
+
+    // Profile completion (0-100 → 0-1)
+    profileCompletion: (safe(signals.profileCompletion) / 100) * weights.profileCompletion * 1000,
+    // Identity verified (binary)
+    identityVerified: (signals.identityVerified ? 1 : 0) * weights.identityVerified * 1000,
+    accountAge: ageRatio * weights.accountAge * 1000,
+    // Response rate (0-1) - default to 0.5 (neutral) if NaN
+    responseRate: safe(signals.responseRate, 0.5) * weights.responseRate * 1000,
+    // Conversation quality (0-1) - default to 0.5 (neutral) if NaN
+    conversationQuality: safe(signals.conversationQuality, 0.5) * weights.conversationQuality * 1000,
+
+    // === NEGATIVE SIGNALS (inverted: 0 = best, 1 = worst) ===
+
+    blockRatio: (1 - safe(signals.blockRatio)) * weights.blockRatio * 1000,
+    reportRatio: (1 - safe(signals.reportRatio)) * weights.reportRatio * 1000,
+    ghostRate: (1 - safe(signals.ghostRate)) * weights.ghostRate * 1000,
+    burstScore: (1 - safe(signals.burstScore)) * weights.burstScore * 1000,
+  };
+}
+
+/**
+ * Calculate reputation score from signals
+ * Score ranges from 0-1000 (internal, never exposed)
+ */
+export function calculateScore(
+  signals: ReputationSignals,
+  config: ReputationScoringConfig = REPUTATION_CONFIG
+): number {
+  const breakdown = getScoreBreakdown(signals, config);
+  const score = Object.values(breakdown).reduce((sum, points) => sum + points, 0);
+
+  // Final safety check - ensure we never return NaN
+  const finalScore = Math.round(Math.max(0, Math.min(1000, score)));
+  return isNaN(finalScore) ? 500 : finalScore; // Default to 500 (middle) if somehow still NaN
+}
+
+/**
+ * Calculate all signals for a user from their user and private documents
+ */
+export function computeSignals(
+  userData: FirebaseFirestore.DocumentData,
+  privateData: FirebaseFirestore.DocumentData
+): ReputationSignals {
+  const signals = getDefaultSignals();
+
+  // === Profile completion (from existing trust system) ===
+  const trustData = privateData?.trust;
+  if (trustData?.score !== undefined) {
+    signals.profileCompletion = trustData.score;
+  }
+
+  // === Identity verified ===
+  signals.identityVerified = userData?.identityVerified === true;
+
+  // === Account age ===
+  const createdAt = userData?.createdAt as Timestamp | undefined;
+  if (createdAt) {
+    const createdDate = createdAt.toDate();
+    const now = new Date();
+    signals.accountAgeDays = Math.floor(
+      (now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24)
+    );
+  }
+
+  // === Message metrics ===
+  const messageMetrics = privateData?.messageMetrics as MessageMetrics | undefined;
+  if (messageMetrics) {
+    // Response rate - with null/NaN protection
+    const received = messageMetrics.received ?? 0;
+    const replied = messageMetrics.replied ?? 0;
+    if (received > 0 && !isNaN(replied)) {
+      signals.responseRate = Math.min(replied / received, 1);
+    }
+
+    // Conversation quality (based on avg message length)
+    // Target: 100+ characters = quality 1.0
+    const messageCount = messageMetrics.messageCount ?? 0;
+    const totalMessageLength = messageMetrics.totalMessageLength ?? 0;
+    if (messageCount > 0 && !isNaN(totalMessageLength)) {
+      const avgLength = totalMessageLength / messageCount;
+      signals.conversationQuality = Math.min(avgLength / 100, 1);
+    }
+
+    // Ghost rate
+    const conversationsStarted = messageMetrics.conversationsStarted ?? 0;
+    const conversationsWithReplies = messageMetrics.conversationsWithReplies ?? 0;
+    if (conversationsStarted > 0) {
+      const abandoned = conversationsStarted - conversationsWithReplies;
+      signals.ghostRate = Math.min(
+        Math.max(0, abandoned) / conversationsStarted,
+        1
+      );
+    }
+  }
+
+  // === Block ratio ===
+  const blocksReceived = privateData?.blocksReceived ?? 0;
+  const totalInteractions = (messageMetrics?.received ?? 0) +
+    (messageMetrics?.conversationsStarted ?? 0);
+  if (totalInteractions > 0) {
+    signals.blockRatio = Math.min(blocksReceived / totalInteractions, 1);
+  }
+
+  // === Report ratio ===
+  const reportsReceived = privateData?.reportsReceived ?? 0;
+  if (totalInteractions > 0) {
+    signals.reportRatio = Math.min(reportsReceived / totalInteractions, 1);
+  }
+
+  // === Burst score ===
+  signals.burstScore = privateData?.burstScore ?? 0;
+
+  return signals;
+}
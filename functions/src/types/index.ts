@@ -7,3 +7,6 @@ export * from "./user.types";
 export * from "./photo.types";
 export * from "./trust.types";
 export * from "./reputation.types";
+export * from "./moderation.types";
+export * from "./search-index.types";
+export * from "./link-preview.types";
@@ -0,0 +1,38 @@
+/**
+ * Link Preview Types
+ *
+ * Messages with links get two server-written fields (see link-previews.ts):
+ * - links: every link found in the content, with its safety check
+ * - linkPreview: the first safe link unfurled into a title/description/image
+ *
+ * Clients must treat a link that isn't in `links` (not checked yet) like a
+ * flagged one.
+ */
+
+/**
+ * Why a link was flagged
+ * - denylisted: the domain (or where it redirects) is on the denylist
+ * - shortener: a URL shortener, which hides where the link really goes
+ */
+export type LinkFlagReason = "denylisted" | "shortener";
+
+/**
+ * A link found in a message, as checked by the server
+ */
+export interface CheckedLink {
+  url: string; // As written in the message
+  domain: string; // Hostname without "www."
+  flag: LinkFlagReason | null;
+}
+
+/**
+ * An unfurled link, stored on the message as linkPreview
+ */
+export interface LinkPreview {
+  url: string;
+  domain: string;
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
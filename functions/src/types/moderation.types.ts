@@ -0,0 +1,75 @@
+/**
+ * Moderation type definitions
+ * Reports in the top-level /reports collection and the actions taken on them
+ */
+import {Timestamp} from "firebase-admin/firestore";
+import {ReportReason, ReportStatus, ReputationTier} from "./reputation.types";
+
+/**
+ * How a moderator resolves a report
+ * - dismiss: unfounded, counts against the reporter's reporting record
+ * - warn: founded, the reported user is warned
+ * - suspend: the reported user can't sign in for a number of days
+ * - ban: the reported user can't sign in again
+ */
+export type ModerationAction = "dismiss" | "warn" | "suspend" | "ban";
+
+/**
+ * Enforcement status denormalized to users/{uid}.moderationStatus
+ * (the user is hidden from discovery and search while set)
+ */
+export type ModerationStatus = "suspended" | "banned";
+
+/**
+ * Report record
+ * Stored in reports/{reportId} (created by reportUser)
+ */
+export interface ReportRecord {
+  reporterId: string;
+  reportedUserId: string;
+  reporterTier: ReputationTier;
+  reason: ReportReason;
+  details: string | null;
+  conversationId: string | null;
+
+  status: ReportStatus;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+
+  // Set while a moderator is reviewing it (claims expire, see moderation.ts)
+  claimedBy?: string | null;
+  claimedAt?: Timestamp | null;
+
+  // Set when resolved
+  reviewedBy: string | null;
+  reviewedAt?: Timestamp | null;
+  reviewNotes: string | null;
+  actionTaken: ModerationAction | null;
+}
+
+/**
+ * Moderation state of a user
+ * Stored in users/{uid}/private/data.moderation
+ */
+export interface UserModerationData {
+  status: ModerationStatus | null;
+  suspendedUntil: Timestamp | null;
+  warningCount: number;
+  lastWarnedAt: Timestamp | null;
+}
+
+/**
+ * Audit log entry for a moderation decision
+ * Stored in moderationLog/{entryId}
+ */
+export interface ModerationLogEntry {
+  reportId: string | null; // null for entries written by the system (e.g. a suspension ending)
+  moderatorId: string | null;
+  action: ModerationAction | "suspension_lifted";
+  targetUserId: string;
+  reporterId: string | null;
+  reason: ReportReason | null;
+  notes: string | null;
+  suspendedUntil: Timestamp | null;
+  createdAt: Timestamp;
+}
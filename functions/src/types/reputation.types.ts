@@ -84,6 +84,128 @@ export interface ReputationData {
   /** Number of new conversations started with higher-tier users today */
   higherTierConversationsToday: number;
   lastConversationDate: string; // YYYY-MM-DD for reset detection
+
+  // Decay state, advanced once per day by the daily batch
+  decay?: ReputationDecayState;
+
+  // Last daily run that processed this user (ReputationRun id)
+  lastRunId?: string;
+}
+
+/**
+ * What triggered a reputation recalculation
+ */
+export type ReputationChangeCause =
+  | "daily_batch"
+  | "block"
+  | "report"
+  | "verification"
+  | "burst"
+  | "moderation" // A moderator resolved a report
+  | "manual"; // First calculation or a manual refresh
+
+/**
+ * Append-only record of one recalculation
+ * Stored in users/{uid}/reputationHistory/{entryId} (Cloud Functions only)
+ */
+export interface ReputationHistoryEntry {
+  tier: ReputationTier;
+  previousTier: ReputationTier | null;
+  score: number;
+  signals: ReputationSignals;
+  decayFactor: number;
+  cause: ReputationChangeCause;
+  createdAt: Timestamp;
+}
+
+/**
+ * User-safe explanation codes for a history entry (translated by the app)
+ */
+export type ReputationExplanation =
+  | "identity_verified"
+  | "profile_completion_up"
+  | "profile_completion_down"
+  | "response_rate_up"
+  | "response_rate_down"
+  | "conversation_quality_up"
+  | "conversation_quality_down"
+  | "ghost_rate_up"
+  | "ghost_rate_down"
+  | "blocks_up"
+  | "blocks_down"
+  | "reports_up"
+  | "reports_down"
+  | "burst_detected"
+  | "decay_started"
+  | "decay_cleared"
+  | "gradual_change"; // Tier changed without a single notable signal change
+
+/**
+ * How the daily batch handles decay (Remote Config: reputation_decay_mode)
+ * - off: decay is neither tracked nor applied
+ * - dry_run: decay is tracked and the tier changes it would cause are logged,
+ *   but scores are not reduced
+ * - on: decay is tracked and applied to the score
+ */
+export type ReputationDecayMode = "off" | "dry_run" | "on";
+
+/**
+ * Per-user decay state stored in users/{uid}/private/data.reputation.decay
+ *
+ * Each day with a negative pattern adds the daily decay rate (capped at
+ * maxDecay); each clean day recovers by the recovery rate.
+ */
+export interface ReputationDecayState {
+  factor: number; // 0-maxDecay, fraction of the score removed
+  lastAppliedDate: string; // YYYY-MM-DD, so the state advances once per day
+  negativeDays: number; // Consecutive days with a negative pattern
+  cleanDays: number; // Consecutive clean days
+
+  // Counter snapshots from the last step, to spot new blocks/reports
+  blocksReceived: number;
+  reportsReceived: number;
+}
+
+/**
+ * Counters for a daily reputation run (or one of its shards)
+ */
+export interface ReputationRunMetrics {
+  users: number; // Users in range
+  processed: number; // Recalculated
+  skipped: number; // Unchanged since lastCalculatedAt
+  errors: number;
+  tierChanges: number;
+  decaying: number; // Users with a non-zero decay factor
+  wouldChangeTier: number; // Dry run: tier changes decay would cause
+}
+
+/**
+ * Daily reputation run, stored in reputationRuns/{runId} (runId = YYYY-MM-DD)
+ * The dispatcher splits users into id ranges; each range is a shard document
+ * in reputationRuns/{runId}/shards/{shardId} processed by a task queue worker.
+ */
+export interface ReputationRun {
+  status: "dispatching" | "running" | "completed";
+  decayMode: ReputationDecayMode;
+  totalShards: number; // Known once dispatching finishes
+  completedShards: number;
+  metrics: ReputationRunMetrics;
+  // Dry run: "from → to" tier transitions decay would cause
+  dryRunTransitions: Record<string, number>;
+  startedAt: Timestamp;
+  completedAt: Timestamp | null;
+}
+
+/**
+ * One id range of a daily reputation run
+ */
+export interface ReputationRunShard {
+  status: "pending" | "completed";
+  startAfterId: string | null; // Exclusive; null for the first shard
+  endAtId: string; // Inclusive
+  attempts: number;
+  metrics: ReputationRunMetrics | null; // Of the latest attempt
+  completedAt: Timestamp | null;
 }
 
 /**
@@ -186,6 +308,7 @@ export type ReportReason =
 
 export type ReportStatus =
   | "pending"
+  | "in_review" // Claimed by a moderator
   | "reviewed"
   | "dismissed"
   | "action_taken";
@@ -263,6 +386,10 @@ export const REPUTATION_CONFIG = {
     dailyDecayRate: 0.02, // 2% daily decay for negative patterns
     maxDecay: 0.30, // Cap total decay at 30%
     recoveryRate: 0.01, // 1% daily recovery for good behavior
+    // A day counts as negative when the user received new blocks or reports,
+    // was flagged for bursts, or ghosts most of the conversations they start
+    ghostRateThreshold: 0.7,
+    minConversationsForGhostRate: 5, // Don't judge ghosting on a handful of chats
   },
 
   // Burst detection thresholds
@@ -280,10 +407,12 @@ export const REPUTATION_CONFIG = {
 
 /**
  * Calculate tier from score
+ * Alternative thresholds can be passed in (used by the simulation script)
  */
-export function scoreToTier(score: number): ReputationTier {
-  const {tiers} = REPUTATION_CONFIG;
-
+export function scoreToTier(
+  score: number,
+  tiers: Record<ReputationTier, Pick<TierConfig, "minScore">> = REPUTATION_CONFIG.tiers
+): ReputationTier {
   if (score >= tiers.distinguished.minScore) return "distinguished";
   if (score >= tiers.trusted.minScore) return "trusted";
   if (score >= tiers.established.minScore) return "established";
@@ -0,0 +1,88 @@
+/**
+ * Search Index Types
+ *
+ * searchIndex/{uid} is a trigger-maintained projection of everything discovery
+ * needs about a searchable user, so searches never have to join
+ * users/{uid}/private/data. Only searchable users have an entry.
+ *
+ * The collection is written and read only by Cloud Functions.
+ */
+
+import {Timestamp} from "firebase-admin/firestore";
+import {ReputationTier} from "./reputation.types";
+
+/**
+ * Width of an age bucket in years (18-22 → 15, 23-27 → 20, ...)
+ */
+export const SEARCH_INDEX_AGE_BUCKET_SIZE = 5;
+
+/**
+ * Entry stored in searchIndex/{uid}
+ */
+export interface SearchIndexEntry {
+  uid: string;
+  displayName: string | null;
+
+  // Age
+  birthDate: string; // YYYY-MM-DD, for exact age and age range checks
+  ageBucket: number; // Age rounded down to SEARCH_INDEX_AGE_BUCKET_SIZE, for geo queries
+
+  // Location (city/country are null if the user hides their location)
+  geohash: string | null;
+  location: { latitude: number; longitude: number } | null; // For distance only, never returned
+  city: string | null;
+  country: string | null;
+
+  // Privacy-masked activity
+  // lastActiveAt is null unless the user shows their online status or last active time
+  lastActiveAt: Timestamp | null;
+  showOnlineStatus: boolean;
+  showLastActive: boolean;
+  showLocation: boolean;
+  createdAt: Timestamp | null;
+
+  // Profile
+  genderIdentity: string;
+  lifestyle: string;
+  connectionTypes: string[];
+  values: string[];
+  supportOrientation: string;
+  tagline: string;
+
+  // The user's own preferences, for mutual-fit checks against the searcher
+  // (empty interestedIn / null age bounds mean no preference)
+  interestedIn: string[];
+  ageRangeMin: number | null;
+  ageRangeMax: number | null;
+  photoURL: string | null;
+  photos: string[];
+
+  // Trust (from private data - only the tier and progress, never the score)
+  identityVerified: boolean;
+  isFounder: boolean;
+  profileProgress: number;
+  reputationTier: ReputationTier;
+
+  // Secondary profile fields
+  ethnicity: string | null;
+  relationshipStatus: string | null;
+  children: string | null;
+  smoker: string | null;
+  drinker: string | null;
+  education: string | null;
+  occupation: string | null;
+  height: string | null;
+  income: string | null;
+
+  // When the entry was created, i.e. when the user (last) became searchable.
+  // Saved-search alerts use it to find profiles that are new since their last run.
+  searchableSince: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Age bucket for an age in years
+ */
+export function toAgeBucket(age: number): number {
+  return Math.floor(age / SEARCH_INDEX_AGE_BUCKET_SIZE) * SEARCH_INDEX_AGE_BUCKET_SIZE;
+}
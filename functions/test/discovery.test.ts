@@ -0,0 +1,161 @@
+import {Timestamp} from "firebase-admin/firestore";
+import {RemoteConfigValues} from "../src/config/remote-config";
+import {
+  buildCandidate,
+  clampPageLimit,
+  decodeCursor,
+  encodeCursor,
+  sanitizeSearchFilters,
+} from "../src/functions/discovery";
+import {SearchIndexEntry} from "../src/types";
+
+const config = {
+  discover_weight_connection_types: 0.25,
+  discover_weight_values: 0.2,
+  discover_weight_support_orientation: 0.2,
+  discover_weight_distance: 0.15,
+  discover_weight_activity: 0.1,
+  discover_weight_reputation: 0.1,
+  discover_distance_decay_miles: 25,
+  discover_activity_half_life_hours: 72,
+} as RemoteConfigValues;
+
+const searcher = {
+  genderIdentity: "man",
+  age: 35,
+  supportOrientation: "either",
+  connectionTypes: ["friendship"],
+  values: ["honesty"],
+};
+
+function indexEntry(overrides: Partial<SearchIndexEntry> = {}): SearchIndexEntry {
+  return {
+    uid: "candidate",
+    displayName: "Sam",
+    birthDate: "1990-05-01",
+    ageBucket: 35,
+    geohash: null,
+    location: null,
+    city: null,
+    country: null,
+    lastActiveAt: Timestamp.now(),
+    showOnlineStatus: true,
+    showLastActive: true,
+    showLocation: true,
+    createdAt: null,
+    genderIdentity: "woman",
+    lifestyle: "",
+    connectionTypes: ["friendship"],
+    values: ["honesty"],
+    supportOrientation: "either",
+    tagline: "",
+    interestedIn: [],
+    ageRangeMin: null,
+    ageRangeMax: null,
+    photoURL: null,
+    photos: [],
+    identityVerified: false,
+    isFounder: false,
+    profileProgress: 0,
+    reputationTier: "active",
+    ethnicity: null,
+    relationshipStatus: null,
+    children: null,
+    smoker: null,
+    drinker: null,
+    education: null,
+    occupation: null,
+    height: null,
+    income: null,
+    searchableSince: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+    ...overrides,
+  };
+}
+
+describe("clampPageLimit", () => {
+  it("defaults when the limit is missing or malformed", () => {
+    expect(clampPageLimit(undefined)).toBe(20);
+    expect(clampPageLimit("500")).toBe(20);
+    expect(clampPageLimit(NaN)).toBe(20);
+    expect(clampPageLimit(Infinity)).toBe(20);
+  });
+
+  it("keeps the limit between 1 and 50", () => {
+    expect(clampPageLimit(500)).toBe(50);
+    expect(clampPageLimit(0)).toBe(1);
+    expect(clampPageLimit(-10)).toBe(1);
+    expect(clampPageLimit(12.7)).toBe(12);
+  });
+});
+
+describe("sanitizeSearchFilters", () => {
+  it("returns no filters for non-objects", () => {
+    expect(sanitizeSearchFilters(null)).toEqual({});
+    expect(sanitizeSearchFilters("minAge")).toEqual({});
+  });
+
+  it("keeps known keys with valid values", () => {
+    const filters = {
+      minAge: 25,
+      genderIdentity: ["woman"],
+      maxDistance: null,
+      verifiedOnly: true,
+      minReputationTier: "trusted",
+    };
+    expect(sanitizeSearchFilters(filters)).toEqual(filters);
+  });
+
+  it("drops unknown keys and malformed values", () => {
+    expect(sanitizeSearchFilters({
+      minAge: "25",
+      maxAge: Infinity,
+      lifestyle: ["active", 3],
+      verifiedOnly: "yes",
+      minReputationTier: "legendary",
+      legacyField: true,
+      onlineNow: false,
+    })).toEqual({onlineNow: false});
+  });
+});
+
+describe("buildCandidate", () => {
+  it("scores activity from the last active time when it's shown", () => {
+    const candidate = buildCandidate(indexEntry(), undefined, searcher, config);
+    expect(candidate.compatibility.activity).toBe(1);
+  });
+
+  it("keeps activity neutral for users who only show their online status", () => {
+    const hidden = indexEntry({showLastActive: false});
+    const stale = indexEntry({showLastActive: false, lastActiveAt: Timestamp.fromMillis(0)});
+    const recent = buildCandidate(hidden, undefined, searcher, config);
+    const old = buildCandidate(stale, undefined, searcher, config);
+
+    expect(recent.compatibility.activity).toBe(0.5);
+    expect(recent.compatibility).toEqual(old.compatibility);
+    expect(recent.lastActiveAt).toBeUndefined();
+  });
+});
+
+describe("decodeCursor", () => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  it("reads back an encoded cursor", () => {
+    const cursor = {snapshotId: "8f14e45f-ceea-467f-a9b4-1c2e3b6f0d2a", offset: 40};
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it.each([
+    ["a path as the snapshot id", ["searchSnapshots/x", 20]],
+    ["an empty snapshot id", ["", 20]],
+    ["a negative offset", ["abc", -1]],
+    ["a fractional offset", ["abc", 1.5]],
+    ["a non-array", {snapshotId: "abc", offset: 20}],
+  ])("refuses %s as invalid-argument", (_name, value) => {
+    expect(() => decodeCursor(encode(value))).toThrow(expect.objectContaining({code: "invalid-argument"}));
+  });
+
+  it("refuses garbage as invalid-argument", () => {
+    expect(() => decodeCursor("not a cursor")).toThrow(expect.objectContaining({code: "invalid-argument"}));
+  });
+});
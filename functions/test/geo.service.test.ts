@@ -0,0 +1,68 @@
+import {calculateDistance, encodeGeohash, geohashQueryBounds} from "../src/services/geo.service";
+
+/**
+ * A point `miles` away from a center along a compass bearing (spherical earth)
+ */
+function offsetPoint(latitude: number, longitude: number, miles: number, bearingDegrees: number): [number, number] {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const angular = miles / 3959;
+  const bearing = toRad(bearingDegrees);
+  const lat1 = toRad(latitude);
+  const lng1 = toRad(longitude);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+  );
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  const wrapped = ((lng2 * 180 / Math.PI + 540) % 360) - 180;
+  return [lat2 * 180 / Math.PI, wrapped];
+}
+
+describe("encodeGeohash", () => {
+  it("encodes known coordinates", () => {
+    expect(encodeGeohash(57.64911, 10.40744)).toBe("u4pruydqq");
+    expect(encodeGeohash(40.7128, -74.006, 5)).toBe("dr5re");
+  });
+});
+
+describe("calculateDistance", () => {
+  it("returns whole miles between two points", () => {
+    expect(calculateDistance(40.7128, -74.006, 34.0522, -118.2437)).toBeGreaterThanOrEqual(2440);
+    expect(calculateDistance(40.7128, -74.006, 34.0522, -118.2437)).toBeLessThanOrEqual(2450);
+    expect(calculateDistance(51.5, -0.12, 51.5, -0.12)).toBe(0);
+  });
+});
+
+describe("geohashQueryBounds", () => {
+  const centers: [string, number, number][] = [
+    ["New York", 40.7128, -74.006],
+    ["Oslo", 59.9139, 10.7522],
+    ["the antimeridian", -17.7134, 179.9],
+    ["the equator", 0.01, -0.01],
+  ];
+
+  describe.each(centers)("around %s", (_name, latitude, longitude) => {
+    it.each([1, 10, 50, 250])("covers every point within %d miles", (radius) => {
+      const ranges = geohashQueryBounds(latitude, longitude, radius);
+      expect(ranges.length).toBeGreaterThan(0);
+      expect(ranges.length).toBeLessThanOrEqual(9);
+
+      for (let bearing = 0; bearing < 360; bearing += 15) {
+        for (const fraction of [0.1, 0.5, 0.99]) {
+          const [lat, lng] = offsetPoint(latitude, longitude, radius * fraction, bearing);
+          const hash = encodeGeohash(lat, lng);
+          const covered = ranges.some(([start, end]) => hash >= start && hash <= end);
+          expect({hash, bearing, fraction, covered}).toEqual({hash, bearing, fraction, covered: true});
+        }
+      }
+    });
+  });
+
+  it("returns no duplicate ranges", () => {
+    const ranges = geohashQueryBounds(40.7128, -74.006, 5);
+    const keys = ranges.map(([start, end]) => `${start}-${end}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
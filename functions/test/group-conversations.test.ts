@@ -0,0 +1,101 @@
+import {HttpsError} from "firebase-functions/v2/https";
+import {checkInviteePermissions, excludeBlockedInvitees} from "../src/functions/group-conversations";
+import {areUsersBlocked, evaluateMessagePermission, MessagePermissionResult} from "../src/functions/messages";
+
+jest.mock("../src/functions/messages", () => ({
+  areUsersBlocked: jest.fn(),
+  evaluateMessagePermission: jest.fn(),
+}));
+
+const mockAreUsersBlocked = jest.mocked(areUsersBlocked);
+const mockEvaluateMessagePermission = jest.mocked(evaluateMessagePermission);
+
+/**
+ * Make the given pairs of users blocked (in either direction)
+ */
+function blockPairs(...pairs: [string, string][]): void {
+  mockAreUsersBlocked.mockImplementation(async (a, b) =>
+    pairs.some(([x, y]) => (x === a && y === b) || (x === b && y === a))
+  );
+}
+
+/**
+ * Answer the permission check per invitee
+ */
+function permissions(results: Record<string, Partial<MessagePermissionResult>>): void {
+  mockEvaluateMessagePermission.mockImplementation(async (_creatorId, recipientId) => ({
+    allowed: true,
+    reason: null,
+    ...results[recipientId],
+  }));
+}
+
+async function rejection(promise: Promise<unknown>): Promise<HttpsError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as HttpsError;
+  }
+  throw new Error("Expected a rejection");
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe("excludeBlockedInvitees", () => {
+  it("keeps everyone when nobody blocked each other", async () => {
+    blockPairs();
+    await expect(excludeBlockedInvitees(["a", "b", "c"])).resolves.toEqual(["a", "b", "c"]);
+    expect(mockAreUsersBlocked).toHaveBeenCalledTimes(3);
+  });
+
+  it("leaves out the later of two invitees who blocked each other", async () => {
+    blockPairs(["a", "c"]);
+    await expect(excludeBlockedInvitees(["a", "b", "c"])).resolves.toEqual(["a", "b"]);
+  });
+
+  it("only leaves out invitees who blocked someone still in the group", async () => {
+    // b is left out for blocking a, so c (who only blocked b) stays
+    blockPairs(["a", "b"], ["b", "c"]);
+    await expect(excludeBlockedInvitees(["a", "b", "c"])).resolves.toEqual(["a", "c"]);
+  });
+});
+
+describe("checkInviteePermissions", () => {
+  it("returns the permissions when every invitee is allowed", async () => {
+    permissions({b: {isNewConversation: true, isHigherTier: false}});
+    const result = await checkInviteePermissions("a", ["b", "c"]);
+    expect(result).toHaveLength(2);
+    expect(mockEvaluateMessagePermission).toHaveBeenCalledWith("a", "b");
+    expect(mockEvaluateMessagePermission).toHaveBeenCalledWith("a", "c");
+  });
+
+  it("refuses with the reason and the refused invitee", async () => {
+    permissions({c: {allowed: false, reason: "recipient_min_tier_not_met"}});
+    const error = await rejection(checkInviteePermissions("a", ["b", "c"]));
+    expect(error.code).toBe("failed-precondition");
+    expect(error.details).toMatchObject({reason: "recipient_min_tier_not_met", userId: "c"});
+  });
+
+  it("counts every new higher-tier invitee against the daily limit", async () => {
+    const higherTier = {isNewConversation: true, isHigherTier: true, higherTierRemaining: 1};
+    permissions({b: higherTier, c: higherTier});
+    const error = await rejection(checkInviteePermissions("a", ["b", "c"]));
+    expect(error.details).toMatchObject({reason: "higher_tier_limit_reached", higherTierRemaining: 1, userId: null});
+  });
+
+  it("doesn't count higher-tier invitees the creator already talks to", async () => {
+    permissions({
+      b: {isNewConversation: true, isHigherTier: true, higherTierRemaining: 1},
+      c: {isNewConversation: false, isHigherTier: true, higherTierRemaining: 1},
+    });
+    await expect(checkInviteePermissions("a", ["b", "c"])).resolves.toHaveLength(2);
+  });
+
+  it("treats an unlimited allowance as no limit", async () => {
+    const higherTier = {isNewConversation: true, isHigherTier: true, higherTierRemaining: -1};
+    permissions({b: higherTier, c: higherTier, d: higherTier});
+    await expect(checkInviteePermissions("a", ["b", "c", "d"])).resolves.toHaveLength(3);
+  });
+});
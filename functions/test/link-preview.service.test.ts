@@ -0,0 +1,226 @@
+import {createServer, IncomingMessage, Server, ServerResponse} from "node:http";
+import {AddressInfo} from "node:net";
+import {gzipSync} from "node:zlib";
+import {
+  checkLinks,
+  isPrivateAddress,
+  LinkSafetyLists,
+  lookupPublicAddress,
+  setLinkFetcher,
+  unfurlLink,
+} from "../src/services/link-preview.service";
+
+const lists: LinkSafetyLists = {
+  allowlist: ["trusted.example"],
+  denylist: ["phish.example"],
+  shorteners: ["bit.ly"],
+};
+
+const PAGE = `<html><head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Stub &amp; Page">
+  <meta name="description" content="A page served by the stub server">
+  <meta property="og:image" content="/image.png">
+</head><body>Hello</body></html>`;
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "169.254.169.254",
+    "172.20.0.1",
+    "192.168.1.1",
+    "100.64.0.1",
+    "0.0.0.0",
+    "192.0.0.8",
+    "198.18.0.1",
+    "198.19.255.255",
+    "224.0.0.1",
+    "255.255.255.255",
+    "::",
+    "::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "::ffff:a9fe:a9fe",
+    "::ffff:0a00:0001",
+    "::127.0.0.1",
+    "64:ff9b::a9fe:a9fe",
+    "64:ff9b:1::1",
+    "2001::1",
+    "2002:a9fe:a9fe::1",
+    "fc00::1",
+    "fd12:3456::1",
+    "fe80::1",
+    "ff02::1",
+    "[::1]",
+    "not-an-ip",
+    "",
+  ])("refuses %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    "8.8.8.8",
+    "1.1.1.1",
+    "93.184.216.34",
+    "172.32.0.1",
+    "192.169.0.1",
+    "2606:4700:4700::1111",
+    "2a00:1450:4001:80b::200e",
+  ])("allows %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it("refuses the hosts the URL parser produces from mapped addresses", () => {
+    expect(isPrivateAddress(new URL("http://[::ffff:169.254.169.254]/").hostname)).toBe(true);
+    expect(isPrivateAddress(new URL("http://[::ffff:127.0.0.1]:8080/").hostname)).toBe(true);
+  });
+});
+
+describe("lookupPublicAddress", () => {
+  function resolve(hostname: string): Promise<string> {
+    return new Promise((done, fail) => {
+      lookupPublicAddress(hostname, {}, (error, address) => {
+        if (error) fail(error);
+        else done(address as string);
+      });
+    });
+  }
+
+  it("refuses hostnames that resolve to private addresses", async () => {
+    await expect(resolve("localhost")).rejects.toThrow("non-public host");
+  });
+});
+
+describe("checkLinks", () => {
+  it("flags denylisted and shortened domains, but not allowlisted ones", () => {
+    const links = checkLinks(
+      "See https://login.phish.example/reset, bit.ly/x www.trusted.example and https://bit.ly/abc.",
+      lists
+    );
+    expect(links).toEqual([
+      {url: "https://login.phish.example/reset", domain: "login.phish.example", flag: "denylisted"},
+      {url: "https://www.trusted.example", domain: "trusted.example", flag: null},
+      {url: "https://bit.ly/abc", domain: "bit.ly", flag: "shortener"},
+    ]);
+  });
+});
+
+describe("default link fetcher", () => {
+  let server: Server;
+  let origin: string;
+  let requests: string[];
+
+  function handle(request: IncomingMessage, response: ServerResponse): void {
+    requests.push(request.url ?? "");
+    switch (request.url) {
+    case "/page":
+      response.writeHead(200, {"Content-Type": "text/html; charset=utf-8"});
+      response.end(PAGE);
+      break;
+    case "/gzip":
+      response.writeHead(200, {"Content-Type": "text/html", "Content-Encoding": "gzip"});
+      response.end(gzipSync(PAGE));
+      break;
+    case "/redirect":
+      response.writeHead(302, {Location: "/page"});
+      response.end();
+      break;
+    case "/loop":
+      response.writeHead(302, {Location: "/loop"});
+      response.end();
+      break;
+    default:
+      response.writeHead(404, {"Content-Type": "text/html"});
+      response.end("<title>Not found</title>");
+    }
+  }
+
+  function link(path: string, base = origin) {
+    const url = `${base}${path}`;
+    return {url, domain: new URL(url).hostname, flag: null};
+  }
+
+  beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>((done) => server.listen(0, "127.0.0.1", done));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((done) => server.close(done));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    setLinkFetcher(null);
+  });
+
+  afterEach(() => {
+    delete process.env.FUNCTIONS_EMULATOR;
+  });
+
+  describe("outside the emulator", () => {
+    it("never connects to private hosts, however they're written", async () => {
+      const port = (server.address() as AddressInfo).port;
+      for (const base of [
+        origin,
+        `http://localhost:${port}`,
+        `http://[::ffff:127.0.0.1]:${port}`,
+        `http://[::ffff:7f00:1]:${port}`,
+        `http://0x7f000001:${port}`,
+        `http://2130706433:${port}`,
+      ]) {
+        await expect(unfurlLink(link("/page", base), lists)).rejects.toThrow();
+      }
+      expect(requests).toEqual([]);
+    });
+  });
+
+  describe("in the emulator", () => {
+    beforeEach(() => {
+      process.env.FUNCTIONS_EMULATOR = "true";
+    });
+
+    it("unfurls a page from its meta tags", async () => {
+      expect(await unfurlLink(link("/page"), lists)).toEqual({
+        url: `${origin}/page`,
+        domain: "127.0.0.1",
+        title: "Stub & Page",
+        description: "A page served by the stub server",
+        imageUrl: `${origin}/image.png`,
+        siteName: null,
+      });
+    });
+
+    it("decompresses gzip responses", async () => {
+      expect(await unfurlLink(link("/gzip"), lists)).toMatchObject({title: "Stub & Page"});
+    });
+
+    it("follows redirects", async () => {
+      expect(await unfurlLink(link("/redirect"), lists)).toMatchObject({title: "Stub & Page"});
+      expect(requests).toEqual(["/redirect", "/page"]);
+    });
+
+    it("gives up after a few redirects", async () => {
+      await expect(unfurlLink(link("/loop"), lists)).rejects.toThrow("Too many redirects");
+      expect(requests).toHaveLength(4);
+    });
+
+    it("has nothing to preview for error pages", async () => {
+      expect(await unfurlLink(link("/missing"), lists)).toBeNull();
+    });
+  });
+
+  describe("with a custom fetcher", () => {
+    it("flags links that redirect to a denylisted domain", async () => {
+      setLinkFetcher(async () => ({
+        url: "https://login.phish.example/",
+        status: 200,
+        contentType: "text/html",
+        body: PAGE,
+      }));
+      expect(await unfurlLink(link("/page", "https://short.example"), lists)).toEqual({flag: "denylisted"});
+    });
+  });
+});
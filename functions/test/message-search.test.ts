@@ -0,0 +1,17 @@
+import {clampResultLimit} from "../src/functions/message-search";
+
+describe("clampResultLimit", () => {
+  it("falls back to the default for missing or malformed limits", () => {
+    expect(clampResultLimit(undefined)).toBe(30);
+    expect(clampResultLimit("10")).toBe(30);
+    expect(clampResultLimit(NaN)).toBe(30);
+    expect(clampResultLimit(Infinity)).toBe(30);
+  });
+
+  it("keeps limits between 1 and 50 whole", () => {
+    expect(clampResultLimit(0)).toBe(1);
+    expect(clampResultLimit(-5)).toBe(1);
+    expect(clampResultLimit(12.7)).toBe(12);
+    expect(clampResultLimit(500)).toBe(50);
+  });
+});
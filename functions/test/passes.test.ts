@@ -0,0 +1,16 @@
+import {isPassDuration} from "../src/functions/passes";
+
+describe("isPassDuration", () => {
+  it("accepts the supported durations", () => {
+    expect(isPassDuration("30d")).toBe(true);
+    expect(isPassDuration("forever")).toBe(true);
+  });
+
+  it("rejects inherited keys and other values", () => {
+    expect(isPassDuration("toString")).toBe(false);
+    expect(isPassDuration("constructor")).toBe(false);
+    expect(isPassDuration("__proto__")).toBe(false);
+    expect(isPassDuration(["30d"])).toBe(false);
+    expect(isPassDuration("7d")).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import {Timestamp} from "firebase-admin/firestore";
+import {
+  advanceDecay,
+  applyDecay,
+  canSkipRecalculation,
+  DecaySettings,
+  explainChange,
+  hasNegativePattern,
+  shouldRecordHistory,
+} from "../src/functions/reputation";
+import {
+  getDefaultSignals,
+  ReputationData,
+  ReputationDecayState,
+  ReputationHistoryEntry,
+  ReputationSignals,
+} from "../src/types";
+
+const settings: DecaySettings = {
+  mode: "on",
+  dailyDecayRate: 0.02,
+  maxDecay: 0.3,
+  recoveryRate: 0.01,
+};
+
+function decayState(overrides: Partial<ReputationDecayState> = {}): ReputationDecayState {
+  return {
+    factor: 0,
+    lastAppliedDate: "2026-01-01",
+    negativeDays: 0,
+    cleanDays: 0,
+    blocksReceived: 0,
+    reportsReceived: 0,
+    ...overrides,
+  };
+}
+
+describe("advanceDecay", () => {
+  it("adds the daily rate on a negative day and snapshots the counters", () => {
+    const next = advanceDecay(decayState({cleanDays: 4}), true, {blocksReceived: 2, reportsReceived: 1}, settings, "2026-01-02");
+    expect(next).toEqual({
+      factor: 0.02,
+      lastAppliedDate: "2026-01-02",
+      negativeDays: 1,
+      cleanDays: 0,
+      blocksReceived: 2,
+      reportsReceived: 1,
+    });
+  });
+
+  it("caps the factor at maxDecay", () => {
+    const next = advanceDecay(decayState({factor: 0.29, negativeDays: 14}), true, {}, settings, "2026-01-02");
+    expect(next.factor).toBe(0.3);
+    expect(next.negativeDays).toBe(15);
+  });
+
+  it("recovers on clean days without going below zero", () => {
+    expect(advanceDecay(decayState({factor: 0.1}), false, {}, settings, "2026-01-02")).toMatchObject({
+      factor: 0.09,
+      negativeDays: 0,
+      cleanDays: 1,
+    });
+    expect(advanceDecay(decayState({factor: 0.005}), false, {}, settings, "2026-01-02").factor).toBe(0);
+  });
+
+  it("advances only once per day", () => {
+    const today = decayState({factor: 0.04, lastAppliedDate: "2026-01-02"});
+    expect(advanceDecay(today, true, {blocksReceived: 9}, settings, "2026-01-02")).toBe(today);
+  });
+
+  it("starts from no decay", () => {
+    expect(advanceDecay(undefined, false, {}, settings, "2026-01-02")).toMatchObject({factor: 0, cleanDays: 1});
+    expect(advanceDecay(undefined, true, {}, settings, "2026-01-02")).toMatchObject({factor: 0.02, negativeDays: 1});
+  });
+
+  it("doesn't drift over many steps", () => {
+    let state: ReputationDecayState | undefined;
+    for (let day = 1; day <= 10; day++) {
+      state = advanceDecay(state, true, {}, {...settings, dailyDecayRate: 0.01}, `2026-02-${String(day).padStart(2, "0")}`);
+    }
+    expect(state?.factor).toBe(0.1);
+  });
+});
+
+describe("hasNegativePattern", () => {
+  const signals = getDefaultSignals();
+
+  it("counts new blocks and reports since the last step", () => {
+    const previous = decayState({blocksReceived: 1, reportsReceived: 2});
+    expect(hasNegativePattern(signals, {blocksReceived: 2, reportsReceived: 2}, previous)).toBe(true);
+    expect(hasNegativePattern(signals, {blocksReceived: 1, reportsReceived: 3}, previous)).toBe(true);
+    expect(hasNegativePattern(signals, {blocksReceived: 1, reportsReceived: 2}, previous)).toBe(false);
+  });
+
+  it("doesn't count existing blocks without a previous snapshot", () => {
+    expect(hasNegativePattern(signals, {blocksReceived: 5, reportsReceived: 5}, undefined)).toBe(false);
+  });
+
+  it("counts a recent burst", () => {
+    expect(hasNegativePattern({...signals, burstScore: 0.5}, {}, decayState())).toBe(true);
+  });
+
+  it("counts heavy ghosting once enough conversations were started", () => {
+    const ghosting = {...signals, ghostRate: 0.8};
+    expect(hasNegativePattern(ghosting, {messageMetrics: {conversationsStarted: 5}}, decayState())).toBe(true);
+    expect(hasNegativePattern(ghosting, {messageMetrics: {conversationsStarted: 4}}, decayState())).toBe(false);
+    expect(hasNegativePattern({...signals, ghostRate: 0.5}, {messageMetrics: {conversationsStarted: 20}}, decayState()))
+      .toBe(false);
+  });
+});
+
+describe("applyDecay", () => {
+  it("removes the decayed fraction of the score", () => {
+    expect(applyDecay(800, 0)).toBe(800);
+    expect(applyDecay(800, 0.3)).toBe(560);
+    expect(applyDecay(333, 0.1)).toBe(300);
+  });
+});
+
+describe("shouldRecordHistory", () => {
+  const signals: ReputationSignals = {...getDefaultSignals(), responseRate: 0.6, accountAgeDays: 30};
+
+  function existing(overrides: Partial<ReputationData> = {}): ReputationData {
+    return {tier: "active", signals, ...overrides} as ReputationData;
+  }
+
+  it("records the first calculation", () => {
+    expect(shouldRecordHistory(undefined, signals, "active", 0)).toBe(true);
+  });
+
+  it("skips a refresh that changed nothing but account age", () => {
+    expect(shouldRecordHistory(existing(), {...signals, accountAgeDays: 31}, "active", 0)).toBe(false);
+  });
+
+  it("records tier, signal and decay changes", () => {
+    expect(shouldRecordHistory(existing(), signals, "trusted", 0)).toBe(true);
+    expect(shouldRecordHistory(existing(), {...signals, responseRate: 0.7}, "active", 0)).toBe(true);
+    expect(shouldRecordHistory(existing(), signals, "active", 0.02)).toBe(true);
+    expect(shouldRecordHistory(existing({decay: decayState({factor: 0.02})}), signals, "active", 0)).toBe(true);
+  });
+});
+
+describe("explainChange", () => {
+  function entry(overrides: Partial<ReputationHistoryEntry> = {}): ReputationHistoryEntry {
+    return {
+      tier: "active",
+      previousTier: "active",
+      score: 500,
+      signals: getDefaultSignals(),
+      decayFactor: 0,
+      cause: "daily_batch",
+      createdAt: Timestamp.fromMillis(0),
+      ...overrides,
+    };
+  }
+
+  it("explains signal movements past their threshold", () => {
+    const previous = entry();
+    const current = entry({
+      signals: {...previous.signals, identityVerified: true, responseRate: 0.1, ghostRate: 0.04, burstScore: 0.3},
+    });
+    expect(explainChange(current, previous)).toEqual(["identity_verified", "response_rate_up", "burst_detected"]);
+  });
+
+  it("explains decay starting and clearing", () => {
+    expect(explainChange(entry({decayFactor: 0.02}), entry())).toEqual(["decay_started"]);
+    expect(explainChange(entry(), entry({decayFactor: 0.02}))).toEqual(["decay_cleared"]);
+  });
+
+  it("falls back to a gradual change when only the tier moved", () => {
+    expect(explainChange(entry({tier: "trusted"}), entry())).toEqual(["gradual_change"]);
+    expect(explainChange(entry({tier: "trusted", previousTier: null}), undefined)).toEqual([]);
+  });
+});
+
+describe("canSkipRecalculation", () => {
+  const signals: ReputationSignals = {...getDefaultSignals(), responseRate: 0.6};
+  const existing = {tier: "active", signals, decay: decayState()} as ReputationData;
+
+  it("skips users with nothing to update", () => {
+    expect(canSkipRecalculation(existing, {}, signals, "active", "on", false)).toBe(true);
+    expect(canSkipRecalculation({...existing, decay: undefined}, {}, signals, "active", "off", false)).toBe(true);
+  });
+
+  it("recalculates changed signals, tiers and first calculations", () => {
+    expect(canSkipRecalculation(existing, {}, {...signals, responseRate: 0.7}, "active", "on", false)).toBe(false);
+    expect(canSkipRecalculation(existing, {}, signals, "established", "on", false)).toBe(false);
+    expect(canSkipRecalculation(undefined, {}, signals, "active", "on", false)).toBe(false);
+  });
+
+  it("recalculates while there's decay to track", () => {
+    expect(canSkipRecalculation(existing, {}, signals, "active", "on", true)).toBe(false);
+    expect(canSkipRecalculation({...existing, decay: decayState({factor: 0.02})}, {}, signals, "active", "on", false))
+      .toBe(false);
+    expect(canSkipRecalculation({...existing, decay: undefined}, {}, signals, "active", "dry_run", false)).toBe(false);
+  });
+
+  it("recalculates to reset a burst score that hasn't changed since the last run", () => {
+    const bursting = {...signals, burstScore: 1};
+    const previous = {...existing, signals: bursting};
+    expect(canSkipRecalculation(previous, {burstScore: 1}, bursting, "active", "on", false)).toBe(false);
+  });
+
+  it("recalculates to reset today's message count", () => {
+    const privateData = {reputation: {...existing, messagesSentToday: 3}};
+    expect(canSkipRecalculation(existing, privateData, signals, "active", "on", false)).toBe(false);
+  });
+});
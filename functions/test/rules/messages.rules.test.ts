@@ -0,0 +1,208 @@
+import {assertFails, assertSucceeds, RulesTestEnvironment} from "@firebase/rules-unit-testing";
+import {createRulesEnvironment, firebase, seed} from "./rules-env";
+
+const MESSAGE_PATH = "conversations/c1/messages/m1";
+
+let env: RulesTestEnvironment;
+
+function messageAs(uid: string): firebase.firestore.DocumentReference {
+  return env.authenticatedContext(uid).firestore().doc(MESSAGE_PATH);
+}
+
+beforeAll(async () => {
+  env = await createRulesEnvironment();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seed(env, {
+    "conversations/c1": {participants: ["alice", "bob"]},
+    [MESSAGE_PATH]: {
+      senderId: "alice",
+      content: "hello",
+      type: "text",
+      createdAt: firebase.firestore.Timestamp.now(),
+      reactions: {alice: "👍"},
+    },
+  });
+});
+
+describe("message reactions", () => {
+  it("lets a participant set and change their own reaction", async () => {
+    await assertSucceeds(messageAs("bob").update({"reactions.bob": "❤️"}));
+    await assertSucceeds(messageAs("bob").update({"reactions.bob": "🔥"}));
+  });
+
+  it("lets a participant remove their own reaction", async () => {
+    await assertSucceeds(messageAs("alice").update({"reactions.alice": firebase.firestore.FieldValue.delete()}));
+  });
+
+  it("rejects reactions outside the supported emoji", async () => {
+    await assertFails(messageAs("bob").update({"reactions.bob": "x".repeat(1000)}));
+    await assertFails(messageAs("bob").update({"reactions.bob": {payload: "data"}}));
+    await assertFails(messageAs("bob").update({"reactions.bob": "🍕"}));
+  });
+
+  it("rejects changes to someone else's reaction", async () => {
+    await assertFails(messageAs("bob").update({"reactions.alice": "❤️"}));
+    await assertFails(messageAs("bob").update({reactions: {bob: "❤️"}}));
+  });
+
+  it("rejects reactions from non-participants", async () => {
+    await assertFails(messageAs("eve").update({"reactions.eve": "❤️"}));
+  });
+});
+
+describe("message edits", () => {
+  const {FieldValue, Timestamp} = firebase.firestore;
+
+  function previousVersion(content: string, editedAt = Timestamp.now()) {
+    return {content, editedAt};
+  }
+
+  it("lets the sender edit within the window, keeping the replaced content", async () => {
+    await assertSucceeds(messageAs("alice").update({
+      content: "hello!",
+      editedAt: FieldValue.serverTimestamp(),
+      edits: FieldValue.arrayUnion(previousVersion("hello")),
+    }));
+    await assertSucceeds(messageAs("alice").update({
+      content: "hello there",
+      editedAt: FieldValue.serverTimestamp(),
+      edits: FieldValue.arrayUnion(previousVersion("hello!")),
+    }));
+  });
+
+  it("rejects forged edit history", async () => {
+    await assertFails(messageAs("alice").update({
+      content: "hello!",
+      editedAt: FieldValue.serverTimestamp(),
+      edits: [previousVersion("something I never said")],
+    }));
+    await assertFails(messageAs("alice").update({
+      content: "hello!",
+      editedAt: FieldValue.serverTimestamp(),
+      edits: [previousVersion("hello", Timestamp.fromMillis(0))],
+    }));
+    await assertFails(messageAs("alice").update({
+      content: "hello!",
+      editedAt: FieldValue.serverTimestamp(),
+      edits: [{...previousVersion("hello"), note: "extra"}],
+    }));
+  });
+
+  it("rejects rewriting earlier versions", async () => {
+    await seed(env, {
+      [MESSAGE_PATH]: {
+        senderId: "alice",
+        content: "hello!",
+        type: "text",
+        createdAt: Timestamp.now(),
+        edits: [previousVersion("hello")],
+      },
+    });
+    await assertFails(messageAs("alice").update({
+      content: "hi",
+      editedAt: FieldValue.serverTimestamp(),
+      edits: [previousVersion("rewritten"), previousVersion("hello!")],
+    }));
+  });
+
+  it("rejects edits after the window or by someone else", async () => {
+    await assertFails(messageAs("bob").update({
+      content: "hello!",
+      editedAt: FieldValue.serverTimestamp(),
+      edits: FieldValue.arrayUnion(previousVersion("hello")),
+    }));
+
+    await seed(env, {
+      [MESSAGE_PATH]: {
+        senderId: "alice",
+        content: "hello",
+        type: "text",
+        createdAt: Timestamp.fromMillis(Date.now() - 20 * 60 * 1000),
+      },
+    });
+    await assertFails(messageAs("alice").update({
+      content: "hello!",
+      editedAt: FieldValue.serverTimestamp(),
+      edits: FieldValue.arrayUnion(previousVersion("hello")),
+    }));
+  });
+
+  it("rejects marking a message edited without changing it", async () => {
+    await assertFails(messageAs("bob").update({editedAt: FieldValue.serverTimestamp()}));
+  });
+});
+
+describe("delete for everyone", () => {
+  const {FieldValue, Timestamp} = firebase.firestore;
+
+  beforeEach(async () => {
+    await seed(env, {
+      [MESSAGE_PATH]: {
+        senderId: "alice",
+        content: "hello",
+        type: "text",
+        createdAt: Timestamp.fromMillis(Date.now() - 60 * 60 * 1000),
+      },
+    });
+  });
+
+  it("lets the sender clear the content at any time", async () => {
+    await assertSucceeds(messageAs("alice").update({
+      deletedForAll: true,
+      deletedForAllAt: FieldValue.serverTimestamp(),
+      content: "",
+    }));
+  });
+
+  it("rejects new content or history under the deletion flag", async () => {
+    await assertFails(messageAs("alice").update({deletedForAll: true, content: "something else"}));
+    await assertFails(messageAs("alice").update({
+      deletedForAll: true,
+      content: "",
+      edits: [{content: "forged", editedAt: Timestamp.now()}],
+    }));
+  });
+
+  it("rejects deletion by the other participant", async () => {
+    await assertFails(messageAs("bob").update({deletedForAll: true, content: ""}));
+  });
+});
+
+describe("voice notes", () => {
+  const {Timestamp} = firebase.firestore;
+  const productionUrl = "https://storage.googleapis.com/gylde-sandbox.firebasestorage.app/conversations/c1/audio/" +
+    "0b6f3f4e-3d1c-4bde-9a53-2f3f4b0d9e11.wav";
+  const emulatorUrl = "http://127.0.0.1:9199/v0/b/demo-gylde.appspot.com/o/conversations%2Fc1%2Faudio%2F" +
+    "0b6f3f4e-3d1c-4bde-9a53-2f3f4b0d9e11.wav?alt=media";
+
+  function sendVoiceNote(audioUrl: string) {
+    return env.authenticatedContext("alice").firestore().doc("conversations/c1/messages/m2").set({
+      senderId: "alice",
+      content: "Voice note",
+      type: "audio",
+      audioUrl,
+      audioDuration: 12,
+      createdAt: Timestamp.now(),
+    });
+  }
+
+  it("accepts voice notes uploaded to the conversation", async () => {
+    await assertSucceeds(sendVoiceNote(productionUrl));
+    await assertSucceeds(sendVoiceNote(emulatorUrl));
+  });
+
+  it("rejects voice notes served from anywhere else", async () => {
+    await assertFails(sendVoiceNote("https://tracker.example.com/voice-note.wav"));
+    await assertFails(sendVoiceNote(productionUrl.replace("gylde-sandbox.firebasestorage.app", "someone-elses-bucket")));
+    await assertFails(sendVoiceNote(productionUrl.replace("/c1/", "/c2/")));
+    await assertFails(sendVoiceNote(productionUrl.replace("/audio/", "/images/")));
+    await assertFails(sendVoiceNote(`${productionUrl}?redirect=https://tracker.example.com`));
+  });
+});
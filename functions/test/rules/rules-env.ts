@@ -0,0 +1,35 @@
+/**
+ * Shared setup for the Firestore rules tests
+ * Run against the emulator with `npm run test:rules`, which starts it through
+ * `firebase emulators:exec` and sets FIRESTORE_EMULATOR_HOST.
+ */
+import {readFileSync} from "node:fs";
+import {resolve} from "node:path";
+import {initializeTestEnvironment, RulesTestEnvironment} from "@firebase/rules-unit-testing";
+import firebase from "firebase/compat/app";
+import "firebase/compat/firestore";
+
+export {firebase};
+
+/**
+ * Start a test environment with the project's firestore.rules
+ */
+export function createRulesEnvironment(): Promise<RulesTestEnvironment> {
+  return initializeTestEnvironment({
+    projectId: "demo-gylde",
+    firestore: {rules: readFileSync(resolve(__dirname, "../../../firestore.rules"), "utf8")},
+  });
+}
+
+/**
+ * Write documents with the rules switched off
+ */
+export async function seed(
+  env: RulesTestEnvironment,
+  docs: Record<string, firebase.firestore.DocumentData>
+): Promise<void> {
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await Promise.all(Object.entries(docs).map(([path, data]) => db.doc(path).set(data)));
+  });
+}
@@ -0,0 +1,65 @@
+import {assertFails, assertSucceeds, RulesTestEnvironment} from "@firebase/rules-unit-testing";
+import {createRulesEnvironment, firebase, seed} from "./rules-env";
+
+const SCHEDULED_PATH = "conversations/c1/scheduledMessages/s1";
+
+let env: RulesTestEnvironment;
+
+function scheduledAs(uid: string): firebase.firestore.DocumentReference {
+  return env.authenticatedContext(uid).firestore().doc(SCHEDULED_PATH);
+}
+
+function schedule(overrides: Record<string, unknown> = {}) {
+  return {
+    senderId: "alice",
+    recipientId: "bob",
+    content: "Good morning!",
+    sendAt: firebase.firestore.Timestamp.fromMillis(Date.now() + 8 * 60 * 60 * 1000),
+    status: "scheduled",
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  env = await createRulesEnvironment();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seed(env, {
+    "users/alice": {displayName: "Alice"},
+    "users/bob": {displayName: "Bob"},
+    "conversations/c1": {participants: ["alice", "bob"]},
+  });
+});
+
+describe("scheduled messages", () => {
+  it("lets a participant schedule a message to the other one", async () => {
+    await assertSucceeds(scheduledAs("alice").set(schedule()));
+  });
+
+  it("keeps scheduled messages private to their sender", async () => {
+    await seed(env, {[SCHEDULED_PATH]: schedule()});
+    await assertSucceeds(scheduledAs("alice").get());
+    await assertFails(scheduledAs("bob").get());
+  });
+
+  it("rejects schedules from suspended or banned users", async () => {
+    await seed(env, {"users/alice": {displayName: "Alice", moderationStatus: "suspended"}});
+    await assertFails(scheduledAs("alice").set(schedule()));
+
+    await seed(env, {[SCHEDULED_PATH]: schedule()});
+    await assertFails(scheduledAs("alice").update({content: "Still here"}));
+  });
+
+  it("rejects schedules in someone else's name or too far ahead", async () => {
+    await assertFails(scheduledAs("bob").set(schedule()));
+    await assertFails(scheduledAs("alice").set(schedule({
+      sendAt: firebase.firestore.Timestamp.fromMillis(Date.now() + 31 * 24 * 60 * 60 * 1000),
+    })));
+  });
+});
@@ -0,0 +1,40 @@
+import {Timestamp} from "firebase-admin/firestore";
+import {getAlertWindow} from "../src/functions/saved-search-alerts";
+
+const HOUR = 60 * 60 * 1000;
+const runStartedAt = Date.UTC(2026, 0, 8, 12, 0);
+
+describe("getAlertWindow", () => {
+  it("covers everything since the last run", () => {
+    const lastRunAt = Timestamp.fromMillis(runStartedAt - 24 * HOUR);
+    const window = getAlertWindow(lastRunAt, Timestamp.fromMillis(runStartedAt));
+    expect(window.start).toBe(lastRunAt);
+    expect(window.end.toMillis()).toBe(runStartedAt);
+    expect(window.nextLastRunAt.toMillis()).toBe(runStartedAt);
+  });
+
+  it("starts a view's first run empty", () => {
+    const coveredUntil = Timestamp.fromMillis(runStartedAt);
+    const window = getAlertWindow(undefined, coveredUntil);
+    expect(window.start).toBe(coveredUntil);
+    expect(window.nextLastRunAt).toBe(coveredUntil);
+  });
+
+  describe("when the profile cap was hit", () => {
+    // A weekly view pulled the window back a week; the cap stopped it four days in
+    const coveredUntil = Timestamp.fromMillis(runStartedAt - 3 * 24 * HOUR);
+
+    it("moves a view that's further behind up to where the run got", () => {
+      const weekly = getAlertWindow(Timestamp.fromMillis(runStartedAt - 7 * 24 * HOUR), coveredUntil);
+      expect(weekly.end).toBe(coveredUntil);
+      expect(weekly.nextLastRunAt).toBe(coveredUntil);
+    });
+
+    it("never moves a more recent view back", () => {
+      const instantLastRunAt = Timestamp.fromMillis(runStartedAt - 15 * 60 * 1000);
+      const instant = getAlertWindow(instantLastRunAt, coveredUntil);
+      expect(instant.start.toMillis()).toBeGreaterThan(instant.end.toMillis());
+      expect(instant.nextLastRunAt).toBe(instantLastRunAt);
+    });
+  });
+});
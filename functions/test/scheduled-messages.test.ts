@@ -0,0 +1,45 @@
+import {checkScheduledDelivery} from "../src/functions/scheduled-messages";
+
+const allowed = {allowed: true, reason: null};
+const activeUser = {settings: {account: {disabled: false}}};
+
+describe("checkScheduledDelivery", () => {
+  it("sends when messaging is allowed and both accounts are active", () => {
+    expect(checkScheduledDelivery(allowed, activeUser, activeUser)).toBeNull();
+    expect(checkScheduledDelivery(allowed, {}, {})).toBeNull();
+  });
+
+  it("drops messages from suspended or banned senders", () => {
+    expect(checkScheduledDelivery(allowed, {moderationStatus: "suspended"}, activeUser))
+      .toEqual({outcome: "dropped", reason: "sender_moderated"});
+    expect(checkScheduledDelivery(allowed, {moderationStatus: "banned"}, activeUser))
+      .toEqual({outcome: "dropped", reason: "sender_moderated"});
+  });
+
+  it("drops messages between blocked users", () => {
+    expect(checkScheduledDelivery({allowed: false, reason: "blocked"}, activeUser, activeUser))
+      .toEqual({outcome: "dropped", reason: "blocked"});
+  });
+
+  it("fails messages from disabled or deleted senders", () => {
+    const disabled = {settings: {account: {disabled: true}}};
+    expect(checkScheduledDelivery(allowed, disabled, activeUser))
+      .toEqual({outcome: "failed", reason: "sender_unavailable"});
+    expect(checkScheduledDelivery(allowed, undefined, activeUser))
+      .toEqual({outcome: "failed", reason: "sender_unavailable"});
+  });
+
+  it("fails with the permission reason when messaging isn't allowed", () => {
+    expect(checkScheduledDelivery({allowed: false, reason: "higher_tier_limit_reached"}, activeUser, activeUser))
+      .toEqual({outcome: "failed", reason: "higher_tier_limit_reached"});
+    expect(checkScheduledDelivery({allowed: false, reason: null}, activeUser, activeUser))
+      .toEqual({outcome: "failed", reason: "not_allowed"});
+  });
+
+  it("fails when the recipient is disabled or gone", () => {
+    expect(checkScheduledDelivery(allowed, activeUser, {settings: {account: {disabled: true}}}))
+      .toEqual({outcome: "failed", reason: "recipient_unavailable"});
+    expect(checkScheduledDelivery(allowed, activeUser, undefined))
+      .toEqual({outcome: "failed", reason: "recipient_unavailable"});
+  });
+});
@@ -0,0 +1,53 @@
+import {Timestamp} from "firebase-admin/firestore";
+import {searchIndexEntryChanged} from "../src/functions/search-index";
+
+const MINUTE = 60 * 1000;
+const base = Date.UTC(2026, 0, 1, 12, 0);
+
+function userDoc(overrides: Record<string, unknown> = {}): FirebaseFirestore.DocumentData {
+  return {
+    onboardingCompleted: true,
+    isSearchable: true,
+    displayName: "Alex",
+    lastActiveAt: Timestamp.fromMillis(base),
+    onboarding: {birthDate: "1990-05-01", city: "Denver", tagline: "Hi"},
+    ...overrides,
+  };
+}
+
+describe("searchIndexEntryChanged", () => {
+  it("ignores heartbeats inside the same five minute step", () => {
+    const before = userDoc({lastActiveAt: Timestamp.fromMillis(base + MINUTE)});
+    const after = userDoc({lastActiveAt: Timestamp.fromMillis(base + 4 * MINUTE)});
+    expect(searchIndexEntryChanged("u1", before, after)).toBe(false);
+  });
+
+  it("resyncs when a heartbeat crosses a step boundary", () => {
+    const before = userDoc({lastActiveAt: Timestamp.fromMillis(base + 4 * MINUTE)});
+    const after = userDoc({lastActiveAt: Timestamp.fromMillis(base + 6 * MINUTE)});
+    expect(searchIndexEntryChanged("u1", before, after)).toBe(true);
+  });
+
+  it("ignores heartbeats of users who hide their activity", () => {
+    const hidden = {privacy: {showOnlineStatus: false, showLastActive: false}};
+    const before = userDoc({settings: hidden, lastActiveAt: Timestamp.fromMillis(base)});
+    const after = userDoc({settings: hidden, lastActiveAt: Timestamp.fromMillis(base + 60 * MINUTE)});
+    expect(searchIndexEntryChanged("u1", before, after)).toBe(false);
+  });
+
+  it("ignores fields that aren't projected", () => {
+    const after = userDoc({timeZone: "America/Denver", sortableLastActive: Timestamp.now()});
+    expect(searchIndexEntryChanged("u1", userDoc(), after)).toBe(false);
+  });
+
+  it("resyncs when a projected field changes", () => {
+    const after = userDoc({onboarding: {birthDate: "1990-05-01", city: "Boulder", tagline: "Hi"}});
+    expect(searchIndexEntryChanged("u1", userDoc(), after)).toBe(true);
+  });
+
+  it("resyncs when the user becomes searchable or unsearchable", () => {
+    expect(searchIndexEntryChanged("u1", undefined, userDoc())).toBe(true);
+    expect(searchIndexEntryChanged("u1", userDoc(), userDoc({isSearchable: false}))).toBe(true);
+    expect(searchIndexEntryChanged("u1", userDoc({isSearchable: false}), userDoc({isSearchable: false}))).toBe(false);
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Offline firebase-functions-test environment for unit tests
+ * Gives the Admin SDK a demo project and bucket, so modules that initialize it
+ * on import can load. Nothing here talks to a real project.
+ */
+import functionsTest from "firebase-functions-test";
+
+functionsTest({projectId: "demo-gylde", storageBucket: "demo-gylde.appspot.com"});
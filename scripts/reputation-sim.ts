@@ -0,0 +1,367 @@
+/**
+ * Reputation Simulation Script
+ *
+ * Recalculates every onboarded user's reputation under alternative weights
+ * and tier thresholds, and compares the result with the current
+ * REPUTATION_CONFIG. Nothing is written back.
+ *
+ * Users (and their private data, including messageMetrics) are read from the
+ * Firestore emulator, or from a snapshot file written with --export.
+ * Scores are compared before decay, since decay doesn't depend on the weights.
+ *
+ * Usage:
+ *   npm run reputation:sim -- --config <file> [--snapshot <file>] [--all]
+ *   npm run reputation:sim -- --export <file>
+ *
+ * Examples:
+ *   npm run reputation:sim -- --config reputation-config.example.json
+ *   npm run reputation:sim -- --config my-weights.json --snapshot users-snapshot.json
+ *   npm run reputation:sim -- --export users-snapshot.json
+ *
+ * Options:
+ *   --config     Alternative config (JSON). Any of "weights", "tiers" (minScore
+ *                per tier) and "accountAge"; missing values keep their current value
+ *   --snapshot   Read users from a snapshot file instead of the emulator
+ *   --export     Write the emulator's users to a snapshot file and exit
+ *   --all        List every user who would move tier (default: first 50)
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp, DocumentData } from 'firebase-admin/firestore';
+import {
+  REPUTATION_CONFIG,
+  REPUTATION_TIER_ORDER,
+  ReputationTier,
+  scoreToTier,
+} from '../functions/src/types';
+import {
+  ReputationScoringConfig,
+  ScoreBreakdown,
+  calculateScore,
+  computeSignals,
+  getScoreBreakdown,
+} from '../functions/src/services/reputation-score.service';
+
+// Configuration
+const FIRESTORE_EMULATOR_HOST = 'localhost:8080';
+const PROJECT_ID = 'gylde-sandbox';
+const DEFAULT_MOVER_LIMIT = 50;
+const MAX_REASONS = 3; // Signal contributions listed per mover
+
+/**
+ * A user as stored in a snapshot file
+ */
+interface SnapshotUser {
+  uid: string;
+  user: DocumentData;
+  private: DocumentData;
+}
+
+interface Snapshot {
+  exportedAt: string;
+  users: SnapshotUser[];
+}
+
+interface SimulatedUser {
+  uid: string;
+  name: string;
+  currentScore: number;
+  currentTier: ReputationTier;
+  altScore: number;
+  altTier: ReputationTier;
+  reasons: string[];
+}
+
+// Parse command line arguments
+function parseArgs(): {
+  configPath: string | null;
+  snapshotPath: string | null;
+  exportPath: string | null;
+  all: boolean;
+} {
+  const args = process.argv.slice(2);
+  const valueOf = (flag: string): string | null => {
+    const index = args.indexOf(flag);
+    return index !== -1 && args[index + 1] ? args[index + 1] : null;
+  };
+
+  const configPath = valueOf('--config');
+  const exportPath = valueOf('--export');
+
+  if (!configPath && !exportPath) {
+    console.error('❌ Error: --config (or --export) is required');
+    console.error('\nUsage:');
+    console.error('  npm run reputation:sim -- --config <file> [--snapshot <file>] [--all]');
+    console.error('  npm run reputation:sim -- --export <file>');
+    console.error('\nOptions:');
+    console.error('  --config     Alternative weights/thresholds (JSON)');
+    console.error('  --snapshot   Read users from a snapshot file instead of the emulator');
+    console.error('  --export     Write the emulator\'s users to a snapshot file and exit');
+    console.error(`  --all        List every user who would move tier (default: first ${DEFAULT_MOVER_LIMIT})`);
+    process.exit(1);
+  }
+
+  return {
+    configPath,
+    snapshotPath: valueOf('--snapshot'),
+    exportPath,
+    all: args.includes('--all'),
+  };
+}
+
+/**
+ * Merge an alternative config file over the current REPUTATION_CONFIG
+ */
+function loadConfig(path: string): ReputationScoringConfig {
+  const overrides = JSON.parse(readFileSync(path, 'utf8'));
+
+  const unknownKeys = Object.keys(overrides).filter(
+    (key) => !['weights', 'tiers', 'accountAge'].includes(key)
+  );
+  if (unknownKeys.length > 0) {
+    throw new Error(`Unknown config keys: ${unknownKeys.join(', ')}`);
+  }
+
+  const unknownWeights = Object.keys(overrides.weights ?? {}).filter(
+    (key) => !(key in REPUTATION_CONFIG.weights)
+  );
+  if (unknownWeights.length > 0) {
+    throw new Error(`Unknown weights: ${unknownWeights.join(', ')}`);
+  }
+
+  const unknownTiers = Object.keys(overrides.tiers ?? {}).filter(
+    (key) => !REPUTATION_TIER_ORDER.includes(key as ReputationTier)
+  );
+  if (unknownTiers.length > 0) {
+    throw new Error(`Unknown tiers: ${unknownTiers.join(', ')}`);
+  }
+
+  const tiers = {} as ReputationScoringConfig['tiers'];
+  for (const tier of REPUTATION_TIER_ORDER) {
+    tiers[tier] = {
+      minScore: overrides.tiers?.[tier]?.minScore ?? REPUTATION_CONFIG.tiers[tier].minScore,
+    };
+  }
+
+  return {
+    weights: { ...REPUTATION_CONFIG.weights, ...overrides.weights },
+    tiers,
+    accountAge: { ...REPUTATION_CONFIG.accountAge, ...overrides.accountAge },
+  };
+}
+
+/**
+ * Restore Firestore Timestamps serialized by JSON.stringify
+ */
+function reviveTimestamps(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && '_seconds' in value && '_nanoseconds' in value) {
+    const { _seconds, _nanoseconds } = value as { _seconds: number; _nanoseconds: number };
+    return new Timestamp(_seconds, _nanoseconds);
+  }
+  return value;
+}
+
+function loadSnapshot(path: string): SnapshotUser[] {
+  const snapshot = JSON.parse(readFileSync(path, 'utf8'), reviveTimestamps) as Snapshot;
+  console.log(`📂 Loaded ${snapshot.users.length} users from ${path} (exported ${snapshot.exportedAt})`);
+  return snapshot.users;
+}
+
+/**
+ * Read onboarded users and their private data from the emulator
+ */
+async function loadFromEmulator(): Promise<SnapshotUser[]> {
+  process.env.FIRESTORE_EMULATOR_HOST = FIRESTORE_EMULATOR_HOST;
+  initializeApp({ projectId: PROJECT_ID });
+  const db = getFirestore();
+
+  console.log(`🔍 Reading users from the emulator (${FIRESTORE_EMULATOR_HOST})...`);
+  const usersSnapshot = await db.collection('users')
+    .where('onboardingCompleted', '==', true)
+    .get();
+
+  const users: SnapshotUser[] = [];
+  const chunkSize = 100;
+  for (let i = 0; i < usersSnapshot.docs.length; i += chunkSize) {
+    const chunk = usersSnapshot.docs.slice(i, i + chunkSize);
+    const privateDocs = await db.getAll(
+      ...chunk.map((doc) => doc.ref.collection('private').doc('data'))
+    );
+    chunk.forEach((doc, j) => {
+      users.push({ uid: doc.id, user: doc.data(), private: privateDocs[j].data() ?? {} });
+    });
+  }
+
+  console.log(`✅ Loaded ${users.length} users`);
+  return users;
+}
+
+/**
+ * Explain a tier move: the signals whose points changed most, and any
+ * threshold change on the tiers involved
+ */
+function explainMove(
+  current: ScoreBreakdown,
+  alt: ScoreBreakdown,
+  from: ReputationTier,
+  to: ReputationTier,
+  altConfig: ReputationScoringConfig
+): string[] {
+  const reasons = (Object.keys(current) as (keyof ScoreBreakdown)[])
+    .map((signal) => ({ signal, delta: alt[signal] - current[signal] }))
+    .filter(({ delta }) => Math.abs(delta) >= 1)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+    .slice(0, MAX_REASONS)
+    .map(({ signal, delta }) => `${signal} ${delta > 0 ? '+' : ''}${Math.round(delta)}`);
+
+  for (const tier of new Set([from, to])) {
+    const before = REPUTATION_CONFIG.tiers[tier].minScore;
+    const after = altConfig.tiers[tier].minScore;
+    if (before !== after) {
+      reasons.push(`${tier} threshold ${before} → ${after}`);
+    }
+  }
+
+  return reasons;
+}
+
+function simulate(users: SnapshotUser[], altConfig: ReputationScoringConfig): SimulatedUser[] {
+  return users.map(({ uid, user, private: privateData }) => {
+    const signals = computeSignals(user, privateData);
+    const currentScore = calculateScore(signals);
+    const altScore = calculateScore(signals, altConfig);
+    const currentTier = scoreToTier(currentScore);
+    const altTier = scoreToTier(altScore, altConfig.tiers);
+
+    return {
+      uid,
+      name: user.displayName ?? '',
+      currentScore,
+      currentTier,
+      altScore,
+      altTier,
+      reasons: currentTier === altTier ? [] : explainMove(
+        getScoreBreakdown(signals),
+        getScoreBreakdown(signals, altConfig),
+        currentTier,
+        altTier,
+        altConfig
+      ),
+    };
+  });
+}
+
+function printConfigChanges(altConfig: ReputationScoringConfig): void {
+  console.log('\n⚙️  Config changes');
+  console.log('-'.repeat(60));
+
+  let changes = 0;
+  for (const [weight, value] of Object.entries(altConfig.weights)) {
+    const before = REPUTATION_CONFIG.weights[weight as keyof typeof REPUTATION_CONFIG.weights];
+    if (before !== value) {
+      console.log(`  weight ${weight}: ${before} → ${value}`);
+      changes++;
+    }
+  }
+  for (const tier of REPUTATION_TIER_ORDER) {
+    const before = REPUTATION_CONFIG.tiers[tier].minScore;
+    const after = altConfig.tiers[tier].minScore;
+    if (before !== after) {
+      console.log(`  ${tier} minScore: ${before} → ${after}`);
+      changes++;
+    }
+  }
+  if (altConfig.accountAge.maxDaysForBonus !== REPUTATION_CONFIG.accountAge.maxDaysForBonus) {
+    console.log(
+      `  accountAge maxDaysForBonus: ${REPUTATION_CONFIG.accountAge.maxDaysForBonus} → ` +
+      `${altConfig.accountAge.maxDaysForBonus}`
+    );
+    changes++;
+  }
+  if (changes === 0) {
+    console.log('  (none - the alternative config matches REPUTATION_CONFIG)');
+  }
+
+  const weightSum = Object.values(altConfig.weights).reduce((sum, value) => sum + value, 0);
+  if (Math.abs(weightSum - 1) > 0.001) {
+    console.log(`  ⚠️  Weights sum to ${weightSum.toFixed(3)}, not 1.0`);
+  }
+}
+
+function printDistribution(results: SimulatedUser[]): void {
+  console.log('\n📊 Tier distribution');
+  console.log('-'.repeat(60));
+  console.log('Tier            | Current | Alternative | Diff');
+  console.log('-'.repeat(60));
+
+  for (const tier of REPUTATION_TIER_ORDER) {
+    const current = results.filter((r) => r.currentTier === tier).length;
+    const alt = results.filter((r) => r.altTier === tier).length;
+    const diff = alt - current;
+    console.log(
+      `${tier.padEnd(15)} | ${String(current).padStart(7)} | ${String(alt).padStart(11)} | ` +
+      `${diff > 0 ? '+' : ''}${diff}`
+    );
+  }
+  console.log('-'.repeat(60));
+}
+
+function printMovers(results: SimulatedUser[], all: boolean): void {
+  const movers = results.filter((r) => r.currentTier !== r.altTier);
+  const up = movers.filter(
+    (r) => REPUTATION_TIER_ORDER.indexOf(r.altTier) > REPUTATION_TIER_ORDER.indexOf(r.currentTier)
+  ).length;
+
+  console.log(`\n🔀 ${movers.length} of ${results.length} users would move tier (${up} up, ${movers.length - up} down)`);
+  if (movers.length === 0) return;
+
+  console.log('-'.repeat(110));
+  console.log('User                         | Name                 | Tier                         | Score     | Why');
+  console.log('-'.repeat(110));
+
+  const shown = all ? movers : movers.slice(0, DEFAULT_MOVER_LIMIT);
+  for (const mover of shown) {
+    const uid = mover.uid.padEnd(28);
+    const name = mover.name.slice(0, 20).padEnd(20);
+    const tiers = `${mover.currentTier} → ${mover.altTier}`.padEnd(28);
+    const scores = `${mover.currentScore} → ${mover.altScore}`.padEnd(9);
+    console.log(`${uid} | ${name} | ${tiers} | ${scores} | ${mover.reasons.join(', ') || '-'}`);
+  }
+
+  if (shown.length < movers.length) {
+    console.log(`... and ${movers.length - shown.length} more (use --all to list everyone)`);
+  }
+  console.log('-'.repeat(110));
+}
+
+async function main() {
+  const options = parseArgs();
+
+  console.log('🧮 Reputation Simulation Script');
+  console.log('===============================\n');
+
+  if (options.exportPath) {
+    const users = await loadFromEmulator();
+    const snapshot: Snapshot = { exportedAt: new Date().toISOString(), users };
+    writeFileSync(options.exportPath, JSON.stringify(snapshot, null, 2));
+    console.log(`💾 Wrote snapshot to ${options.exportPath}`);
+    return;
+  }
+
+  const altConfig = loadConfig(options.configPath!);
+  const users = options.snapshotPath
+    ? loadSnapshot(options.snapshotPath)
+    : await loadFromEmulator();
+
+  const results = simulate(users, altConfig);
+
+  printConfigChanges(altConfig);
+  printDistribution(results);
+  printMovers(results, options.all);
+}
+
+main().catch((error) => {
+  console.error('❌ Simulation failed:', error);
+  process.exit(1);
+});